@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { TaskCategoriesProvider } from "@/contexts/TaskCategoriesContext";
 
 // Pages
 import LandingPage from "./pages/LandingPage";
@@ -24,15 +25,19 @@ import HolidaysPage from "./pages/HolidaysPage";
 import MyOnboardingPage from "./pages/MyOnboardingPage";
 import MyOffboardingPage from "./pages/MyOffboardingPage";
 import AttendanceRegularizationPage from "./pages/AttendanceRegularizationPage";
+import WorkFromHomePage from "./pages/WorkFromHomePage";
 import AnnouncementsPage from "./pages/AnnouncementsPage";
 import WorkLogPage from "./pages/WorkLogPage";
 import WorkLogAnalyticsPage from "./pages/WorkLogAnalyticsPage";
+import EfficiencyPage from "./pages/EfficiencyPage";
 import AppreciationsPage from "./pages/AppreciationsPage";
 import NotificationsPage from "./pages/NotificationsPage";
 
 // Manager Pages
 import MyTeamPage from "./pages/manager/MyTeamPage";
 import TeamWorkLogsPage from "./pages/manager/TeamWorkLogsPage";
+import ExpectationsPage from "./pages/manager/ExpectationsPage";
+import TeamEfficiencyPage from "./pages/manager/TeamEfficiencyPage";
 import TeamAnalyticsPage from "./pages/TeamAnalyticsPage";
 
 // HR Pages
@@ -46,6 +51,8 @@ import SettingsPage from "./pages/hr/SettingsPage";
 import AttendanceRegularizationAdminPage from "./pages/hr/AttendanceRegularizationAdminPage";
 import SalaryOverviewPage from "./pages/hr/SalaryOverviewPage";
 import AttendanceRecordsPage from "./pages/hr/AttendanceRecordsPage";
+import ShiftRosterPage from "./pages/hr/ShiftRosterPage";
+import MusterRollPage from "./pages/hr/MusterRollPage";
 import BulkUploadPage from "./pages/hr/BulkUploadPage";
 
 const queryClient = new QueryClient();
@@ -54,67 +61,75 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <AuthProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            {/* Public Routes */}
-            <Route path="/" element={<LandingPage />} />
-            <Route path="/auth" element={<AuthPage />} />
+        <TaskCategoriesProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              {/* Public Routes */}
+              <Route path="/" element={<LandingPage />} />
+              <Route path="/auth" element={<AuthPage />} />
             
-            {/* Protected App Routes - All authenticated users */}
-            <Route element={<ProtectedRoute />}>
-              <Route path="/app" element={<AppLayout />}>
-                <Route index element={<DashboardPage />} />
-                <Route path="attendance" element={<AttendancePage />} />
-                <Route path="profile" element={<ProfilePage />} />
-                <Route path="documents" element={<DocumentsPage />} />
-                <Route path="salary" element={<MySalaryPage />} />
-                <Route path="leaves" element={<MyLeavesPage />} />
-                <Route path="contacts" element={<ContactsPage />} />
-                <Route path="holidays" element={<HolidaysPage />} />
-                <Route path="my-onboarding" element={<MyOnboardingPage />} />
-                <Route path="my-offboarding" element={<MyOffboardingPage />} />
-                <Route path="attendance-regularization" element={<AttendanceRegularizationPage />} />
-                <Route path="announcements" element={<AnnouncementsPage />} />
-                <Route path="work-log" element={<WorkLogPage />} />
-                <Route path="work-log-analytics" element={<WorkLogAnalyticsPage />} />
-                <Route path="appreciations" element={<AppreciationsPage />} />
-                <Route path="notifications" element={<NotificationsPage />} />
+              {/* Protected App Routes - All authenticated users */}
+              <Route element={<ProtectedRoute />}>
+                <Route path="/app" element={<AppLayout />}>
+                  <Route index element={<DashboardPage />} />
+                  <Route path="attendance" element={<AttendancePage />} />
+                  <Route path="profile" element={<ProfilePage />} />
+                  <Route path="documents" element={<DocumentsPage />} />
+                  <Route path="salary" element={<MySalaryPage />} />
+                  <Route path="leaves" element={<MyLeavesPage />} />
+                  <Route path="contacts" element={<ContactsPage />} />
+                  <Route path="holidays" element={<HolidaysPage />} />
+                  <Route path="my-onboarding" element={<MyOnboardingPage />} />
+                  <Route path="my-offboarding" element={<MyOffboardingPage />} />
+                  <Route path="attendance-regularization" element={<AttendanceRegularizationPage />} />
+                  <Route path="wfh" element={<WorkFromHomePage />} />
+                  <Route path="announcements" element={<AnnouncementsPage />} />
+                  <Route path="work-log" element={<WorkLogPage />} />
+                  <Route path="work-log-analytics" element={<WorkLogAnalyticsPage />} />
+                  <Route path="efficiency" element={<EfficiencyPage />} />
+                  <Route path="appreciations" element={<AppreciationsPage />} />
+                  <Route path="notifications" element={<NotificationsPage />} />
+                </Route>
               </Route>
-            </Route>
             
-            {/* Manager Routes */}
-            <Route element={<ProtectedRoute allowedRoles={['Manager', 'Admin']} />}>
-              <Route path="/app" element={<AppLayout />}>
-                <Route path="team" element={<MyTeamPage />} />
-                <Route path="leave-approvals" element={<ApprovalsPage />} />
-                <Route path="manager/work-log-review" element={<TeamWorkLogsPage />} />
-                <Route path="team-analytics" element={<TeamAnalyticsPage />} />
+              {/* Manager Routes */}
+              <Route element={<ProtectedRoute allowedRoles={['Manager', 'Admin']} />}>
+                <Route path="/app" element={<AppLayout />}>
+                  <Route path="team" element={<MyTeamPage />} />
+                  <Route path="leave-approvals" element={<ApprovalsPage />} />
+                  <Route path="manager/work-log-review" element={<TeamWorkLogsPage />} />
+                  <Route path="team-analytics" element={<TeamAnalyticsPage />} />
+                  <Route path="manager/expectations" element={<ExpectationsPage />} />
+                  <Route path="manager/team-efficiency" element={<TeamEfficiencyPage />} />
+                </Route>
               </Route>
-            </Route>
             
-            {/* Admin (HR) Routes */}
-            <Route element={<ProtectedRoute allowedRoles={['Admin']} />}>
-              <Route path="/app" element={<AppLayout />}>
-                <Route path="directory" element={<EmployeeDirectoryPage />} />
-                <Route path="add-employee" element={<AddEmployeePage />} />
-                <Route path="edit-employee/:id" element={<EditEmployeePage />} />
-                <Route path="bulk-upload" element={<BulkUploadPage />} />
-                <Route path="onboarding" element={<OnboardingPage />} />
-                <Route path="offboarding" element={<OffboardingPage />} />
-                <Route path="approvals" element={<ApprovalsPage />} />
-                <Route path="settings" element={<SettingsPage />} />
-                <Route path="admin/attendance-records" element={<AttendanceRecordsPage />} />
-                <Route path="admin/attendance-regularization" element={<AttendanceRegularizationAdminPage />} />
-                <Route path="admin/salary-overview" element={<SalaryOverviewPage />} />
+              {/* Admin (HR) Routes */}
+              <Route element={<ProtectedRoute allowedRoles={['Admin']} />}>
+                <Route path="/app" element={<AppLayout />}>
+                  <Route path="directory" element={<EmployeeDirectoryPage />} />
+                  <Route path="add-employee" element={<AddEmployeePage />} />
+                  <Route path="edit-employee/:id" element={<EditEmployeePage />} />
+                  <Route path="bulk-upload" element={<BulkUploadPage />} />
+                  <Route path="onboarding" element={<OnboardingPage />} />
+                  <Route path="offboarding" element={<OffboardingPage />} />
+                  <Route path="approvals" element={<ApprovalsPage />} />
+                  <Route path="settings" element={<SettingsPage />} />
+                  <Route path="admin/attendance-records" element={<AttendanceRecordsPage />} />
+                  <Route path="admin/shift-roster" element={<ShiftRosterPage />} />
+                  <Route path="admin/muster-roll" element={<MusterRollPage />} />
+                  <Route path="admin/attendance-regularization" element={<AttendanceRegularizationAdminPage />} />
+                  <Route path="admin/salary-overview" element={<SalaryOverviewPage />} />
+                </Route>
               </Route>
-            </Route>
             
-            {/* Catch-all */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+              {/* Catch-all */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TaskCategoriesProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
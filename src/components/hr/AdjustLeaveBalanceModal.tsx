@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
+import { toast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { adjustLeaveBalance } from '@/lib/leaveLedger';
+
+interface Entitlement {
+  leave_type: string;
+  total_leaves: number;
+  used_leaves: number;
+  remaining_leaves: number;
+}
+
+interface AdjustLeaveBalanceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string;
+  employeeName: string;
+  onAdjusted?: () => void;
+}
+
+export const AdjustLeaveBalanceModal = ({
+  open,
+  onOpenChange,
+  employeeId,
+  employeeName,
+  onAdjusted,
+}: AdjustLeaveBalanceModalProps) => {
+  const { leaveTypes } = useOrgSettings();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [leaveType, setLeaveType] = useState('');
+  const [direction, setDirection] = useState<'credit' | 'debit'>('credit');
+  const [days, setDays] = useState('');
+  const [reason, setReason] = useState('');
+  const [entitlements, setEntitlements] = useState<Entitlement[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchEntitlements = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('hr_leave_entitlements')
+      .select('leave_type, total_leaves, used_leaves, remaining_leaves')
+      .eq('employee_id', employeeId)
+      .eq('year', year);
+
+    if (error) {
+      console.error('Error fetching leave balances:', error);
+      return;
+    }
+    setEntitlements(data || []);
+  }, [employeeId, year]);
+
+  useEffect(() => {
+    if (open && employeeId) {
+      fetchEntitlements();
+    }
+  }, [open, employeeId, fetchEntitlements]);
+
+  const resetForm = () => {
+    setLeaveType('');
+    setDirection('credit');
+    setDays('');
+    setReason('');
+  };
+
+  const current = entitlements.find(e => e.leave_type === leaveType);
+  const amount = Number(days);
+  const signedDays = direction === 'credit' ? amount : -amount;
+
+  const handleSubmit = async () => {
+    if (!leaveType || !amount || amount <= 0) {
+      toast({
+        title: 'Error',
+        description: 'Please choose a leave type and a number of days',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (amount % 0.5 !== 0) {
+      toast({
+        title: 'Error',
+        description: 'Days must be in steps of half a day',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please give a reason for the adjustment',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await adjustLeaveBalance({
+        employeeId,
+        leaveType,
+        year,
+        days: signedDays,
+        reason: reason.trim(),
+      });
+
+      toast({
+        title: 'Balance Adjusted',
+        description: `${direction === 'credit' ? 'Credited' : 'Debited'} ${amount} day(s) of ${leaveType} for ${employeeName}`,
+      });
+      resetForm();
+      onAdjusted?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error adjusting leave balance:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to adjust leave balance',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust Leave Balance – {employeeName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Leave Type *</Label>
+              <Select value={leaveType} onValueChange={setLeaveType}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {leaveTypes.map(lt => (
+                    <SelectItem key={lt.value} value={lt.value}>{lt.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Year *</Label>
+              <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[currentYear + 1, currentYear, currentYear - 1].map(y => (
+                    <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {leaveType && (
+            <p className="text-sm text-muted-foreground">
+              Current balance: {current?.remaining_leaves ?? 0} of {current?.total_leaves ?? 0} day(s)
+              {current?.used_leaves ? ` (${current.used_leaves} used)` : ''}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Adjustment *</Label>
+              <Select value={direction} onValueChange={(v) => setDirection(v as 'credit' | 'debit')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="credit">Credit (add)</SelectItem>
+                  <SelectItem value="debit">Debit (deduct)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Days *</Label>
+              <Input
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                placeholder="e.g. 1.5"
+              />
+            </div>
+          </div>
+
+          {leaveType && amount > 0 && (
+            <p className="text-sm">
+              New balance: <span className="font-medium">{(current?.remaining_leaves ?? 0) + signedDays}</span> day(s)
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Correction for leave recorded twice in March"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              The employee is notified and the reason is kept in their leave statement.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Adjust Balance
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,355 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Loader2, Search } from 'lucide-react';
+import {
+  MAX_OVERRIDE_DAYS,
+  OVERRIDE_STATUSES,
+  OverrideStatus,
+  bulkOverrideAttendance,
+} from '@/lib/attendanceOverrides';
+
+const ALL_DEPARTMENTS = '__all__';
+
+interface EmployeeOption {
+  id: string;
+  full_name: string;
+  employee_code: string | null;
+  department: string | null;
+}
+
+interface BulkAttendanceOverrideDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied?: () => void;
+}
+
+export const BulkAttendanceOverrideDialog = ({
+  open,
+  onOpenChange,
+  onApplied,
+}: BulkAttendanceOverrideDialogProps) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [loadingEmployees, setLoadingEmployees] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(today);
+  const [status, setStatus] = useState<OverrideStatus>('Holiday');
+  const [reason, setReason] = useState('');
+  const [includeNonWorkingDays, setIncludeNonWorkingDays] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchEmployees = async () => {
+      setLoadingEmployees(true);
+      try {
+        const { data, error } = await supabase
+          .from('hr_employees')
+          .select('id, full_name, employee_code, hr_employee_details(department)')
+          .eq('status', 'Active')
+          .order('full_name');
+
+        if (error) throw error;
+        setEmployees((data || []).map(e => ({
+          id: e.id,
+          full_name: e.full_name,
+          employee_code: e.employee_code,
+          department: e.hr_employee_details?.[0]?.department ?? null,
+        })));
+      } catch (error) {
+        console.error('Error fetching employees:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load employees',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoadingEmployees(false);
+      }
+    };
+
+    fetchEmployees();
+  }, [open]);
+
+  const departments = useMemo(
+    () => Array.from(new Set(employees.map(e => e.department).filter(Boolean) as string[])).sort(),
+    [employees]
+  );
+
+  const visibleEmployees = employees.filter(e => {
+    if (department !== ALL_DEPARTMENTS && e.department !== department) return false;
+    if (!search) return true;
+    const term = search.toLowerCase();
+    return e.full_name.toLowerCase().includes(term) || e.employee_code?.toLowerCase().includes(term);
+  });
+
+  const allVisibleSelected = visibleEmployees.length > 0 && visibleEmployees.every(e => selectedIds.has(e.id));
+
+  const toggleEmployee = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleVisible = (checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      visibleEmployees.forEach(e => (checked ? next.add(e.id) : next.delete(e.id)));
+      return next;
+    });
+  };
+
+  const resetForm = () => {
+    setSelectedIds(new Set());
+    setSearch('');
+    setDepartment(ALL_DEPARTMENTS);
+    setFromDate(today);
+    setToDate(today);
+    setStatus('Holiday');
+    setReason('');
+    setIncludeNonWorkingDays(false);
+  };
+
+  const handleSubmit = async () => {
+    if (selectedIds.size === 0) {
+      toast({
+        title: 'Error',
+        description: 'Please select at least one employee',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!fromDate || !toDate || toDate < fromDate) {
+      toast({
+        title: 'Error',
+        description: 'Please choose a valid date range',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (toDate > today) {
+      toast({
+        title: 'Error',
+        description: 'Attendance can only be overridden up to today. Add a holiday for upcoming closures.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (differenceInCalendarDays(parseISO(toDate), parseISO(fromDate)) + 1 > MAX_OVERRIDE_DAYS) {
+      toast({
+        title: 'Error',
+        description: `Overrides are limited to ${MAX_OVERRIDE_DAYS} days at a time`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please give a reason for the override',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const days = await bulkOverrideAttendance({
+        employeeIds: Array.from(selectedIds),
+        from: fromDate,
+        to: toDate,
+        status,
+        reason,
+        includeNonWorkingDays,
+      });
+
+      toast({
+        title: 'Attendance Updated',
+        description: days > 0
+          ? `Marked ${status} on ${days} day(s) across ${selectedIds.size} employee(s)`
+          : 'No days needed changing. Weekends, holidays and approved leave are left alone.',
+      });
+      resetForm();
+      onApplied?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error overriding attendance:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to override attendance',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Bulk Attendance Override</DialogTitle>
+          <DialogDescription>
+            Set attendance for several employees at once, e.g. for an office closure or a work-from-home day.
+            The previous status of each day is kept in the override history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Employees *</Label>
+              <span className="text-sm text-muted-foreground">{selectedIds.size} selected</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <div className="relative flex-1 min-w-[180px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search employee..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                  {departments.map(d => (
+                    <SelectItem key={d} value={d}>{d}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="border border-border rounded-md max-h-56 overflow-y-auto">
+              {loadingEmployees ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : visibleEmployees.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground py-6">No employees found</p>
+              ) : (
+                <>
+                  <label className="flex items-center gap-3 px-3 py-2 border-b border-border bg-muted/50 text-sm font-medium cursor-pointer">
+                    <Checkbox
+                      checked={allVisibleSelected}
+                      onCheckedChange={(checked) => toggleVisible(checked as boolean)}
+                    />
+                    Select all{department !== ALL_DEPARTMENTS || search ? ' shown' : ''} ({visibleEmployees.length})
+                  </label>
+                  {visibleEmployees.map(e => (
+                    <label key={e.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-muted/50">
+                      <Checkbox
+                        checked={selectedIds.has(e.id)}
+                        onCheckedChange={(checked) => toggleEmployee(e.id, checked as boolean)}
+                      />
+                      <span className="flex-1">{e.full_name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {[e.employee_code, e.department].filter(Boolean).join(' · ')}
+                      </span>
+                    </label>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>From *</Label>
+              <Input type="date" value={fromDate} max={today} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>To *</Label>
+              <Input type="date" value={toDate} min={fromDate} max={today} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Mark As *</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as OverrideStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OVERRIDE_STATUSES.map(s => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label} <span className="text-muted-foreground">({s.hint})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="include-non-working"
+              checked={includeNonWorkingDays}
+              onCheckedChange={(checked) => setIncludeNonWorkingDays(checked as boolean)}
+            />
+            <label htmlFor="include-non-working" className="text-sm">
+              Include weekends and holidays
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Office closed due to heavy rain"
+              rows={2}
+            />
+            <p className="text-xs text-muted-foreground">
+              Shown to the affected employees. Days on approved leave are not changed.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || selectedIds.size === 0}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply Override
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { CalendarPlus, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import {
+  COMP_OFF_STATUS_STYLES,
+  CompOffCredit,
+  fetchCompOffCredits,
+  processCompOffCredit,
+} from '@/lib/compOff';
+
+interface CompOffApprovalsProps {
+  onCountChange?: (pending: number) => void;
+}
+
+export const CompOffApprovals = ({ onCountChange }: CompOffApprovalsProps) => {
+  const { employee } = useAuth();
+  const [credits, setCredits] = useState<CompOffCredit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<CompOffCredit | null>(null);
+  const [comments, setComments] = useState('');
+
+  const loadCredits = useCallback(async () => {
+    try {
+      // RLS returns the caller's own credits too; those are decided by someone else
+      const data = (await fetchCompOffCredits()).filter(c => c.employee_id !== employee?.id);
+      setCredits(data);
+      onCountChange?.(data.filter(c => c.status === 'Pending').length);
+    } catch (error) {
+      console.error('Error fetching comp-off credits:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load comp-off requests',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id, onCountChange]);
+
+  useEffect(() => {
+    loadCredits();
+  }, [loadCredits]);
+
+  const handleApprove = async (credit: CompOffCredit) => {
+    setProcessingId(credit.id);
+    try {
+      await processCompOffCredit(credit.id, 'approve');
+      toast({
+        title: 'Comp-Off Approved',
+        description: `${credit.days} day(s) credited to ${credit.employee?.full_name}`,
+      });
+      loadCredits();
+    } catch (error) {
+      console.error('Error approving comp-off:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to approve comp-off',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setProcessingId(rejecting.id);
+    try {
+      await processCompOffCredit(rejecting.id, 'reject', comments.trim());
+      toast({ title: 'Comp-Off Rejected' });
+      setRejecting(null);
+      setComments('');
+      loadCredits();
+    } catch (error) {
+      console.error('Error rejecting comp-off:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to reject comp-off',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (credits.length === 0) {
+    return (
+      <div className="p-12 text-center">
+        <CalendarPlus className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">No comp-off requests</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Employee</TableHead>
+            <TableHead>Worked On</TableHead>
+            <TableHead>Hours</TableHead>
+            <TableHead>Days</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {credits.map((credit) => (
+            <TableRow key={credit.id}>
+              <TableCell>
+                <p className="font-medium">{credit.employee?.full_name}</p>
+                <p className="text-xs text-muted-foreground">{credit.employee?.employee_code}</p>
+              </TableCell>
+              <TableCell>{format(parseISO(credit.work_date), 'EEE, MMM d, yyyy')}</TableCell>
+              <TableCell>{Number(credit.hours).toFixed(1)}</TableCell>
+              <TableCell>{credit.days}</TableCell>
+              <TableCell>{format(parseISO(credit.expires_on), 'MMM d, yyyy')}</TableCell>
+              <TableCell>
+                <Badge className={COMP_OFF_STATUS_STYLES[credit.status]}>{credit.status}</Badge>
+              </TableCell>
+              <TableCell>
+                {credit.status === 'Pending' ? (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="success"
+                      size="sm"
+                      onClick={() => handleApprove(credit)}
+                      disabled={processingId === credit.id}
+                    >
+                      {processingId === credit.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Approve
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setRejecting(credit)}
+                      disabled={processingId === credit.id}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {credit.reviewer?.full_name ? `By ${credit.reviewer.full_name}` : '-'}
+                  </span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Comp-Off</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {rejecting && (
+              <p className="text-sm text-muted-foreground">
+                Rejecting {rejecting.employee?.full_name}'s comp-off for working on{' '}
+                {format(parseISO(rejecting.work_date), 'MMM d, yyyy')}.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Comments (Optional)</Label>
+              <Textarea
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Enter reason for rejection..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={processingId === rejecting?.id}>
+              {processingId === rejecting?.id ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <XCircle className="w-4 h-4 mr-2" />
+              )}
+              Reject Comp-Off
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { Loader2, X } from 'lucide-react';
+import {
+  ApprovalDelegation,
+  createDelegation,
+  fetchDelegations,
+  isDelegationActive,
+  revokeDelegation,
+} from '@/lib/delegation';
+
+interface Approver {
+  id: string;
+  full_name: string;
+  role: string;
+}
+
+interface DelegateApprovalsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange?: () => void;
+}
+
+export const DelegateApprovalsModal = ({ open, onOpenChange, onChange }: DelegateApprovalsModalProps) => {
+  const { employee, orgId } = useAuth();
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [delegateId, setDelegateId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const loadData = useCallback(async () => {
+    if (!employee?.id || !orgId) return;
+
+    setLoading(true);
+    try {
+      const [delegationData, { data: approverData, error: approverError }] = await Promise.all([
+        fetchDelegations(employee.id),
+        supabase
+          .from('hr_employees')
+          .select('id, full_name, role')
+          .eq('org_id', orgId)
+          .eq('status', 'Active')
+          .in('role', ['Manager', 'Admin'])
+          .neq('id', employee.id)
+          // A report would end up approving their own requests
+          .or(`manager_id.is.null,manager_id.neq.${employee.id}`)
+          .order('full_name'),
+      ]);
+
+      if (approverError) throw approverError;
+      setDelegations(delegationData);
+      setApprovers(approverData || []);
+    } catch (error) {
+      console.error('Error loading delegations:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load delegations',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id, orgId]);
+
+  useEffect(() => {
+    if (open) {
+      loadData();
+    }
+  }, [open, loadData]);
+
+  const resetForm = () => {
+    setDelegateId('');
+    setStartDate('');
+    setEndDate('');
+    setReason('');
+  };
+
+  const handleCreate = async () => {
+    if (!employee?.id || !orgId) return;
+
+    if (!delegateId || !startDate || !endDate) {
+      toast({
+        title: 'Error',
+        description: 'Please choose a delegate and a date range',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (endDate < startDate) {
+      toast({
+        title: 'Error',
+        description: 'End date cannot be before start date',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createDelegation({
+        orgId,
+        delegatorId: employee.id,
+        delegateId,
+        startDate,
+        endDate,
+        reason,
+      });
+
+      toast({
+        title: 'Approvals Delegated',
+        description: `${approvers.find(a => a.id === delegateId)?.full_name} will handle your approvals from ${format(parseISO(startDate), 'MMM d')} to ${format(parseISO(endDate), 'MMM d, yyyy')}`,
+      });
+      resetForm();
+      loadData();
+      onChange?.();
+    } catch (error) {
+      console.error('Error creating delegation:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to delegate approvals',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (delegationId: string) => {
+    try {
+      await revokeDelegation(delegationId);
+      toast({ title: 'Delegation revoked' });
+      loadData();
+      onChange?.();
+    } catch (error) {
+      console.error('Error revoking delegation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke delegation',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getDelegationBadge = (delegation: ApprovalDelegation) => {
+    if (delegation.revoked_at) return <Badge variant="outline">Revoked</Badge>;
+    if (isDelegationActive(delegation, today)) return <Badge>Active</Badge>;
+    if (delegation.start_date > today) return <Badge variant="secondary">Scheduled</Badge>;
+    return <Badge variant="outline">Ended</Badge>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Delegate Approvals</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-muted-foreground">
+            While you are away, leave and work-log approvals for your team go to your delegate.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Delegate *</Label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a manager or HR" />
+              </SelectTrigger>
+              <SelectContent>
+                {approvers.map((approver) => (
+                  <SelectItem key={approver.id} value={approver.id}>
+                    {approver.full_name} ({approver.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From *</Label>
+              <Input type="date" value={startDate} min={today} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>To *</Label>
+              <Input type="date" value={endDate} min={startDate || today} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. On annual leave"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Delegation History</Label>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-primary" />
+              </div>
+            ) : delegations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No delegations yet</p>
+            ) : (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {delegations.map((delegation) => {
+                  const isOutgoing = delegation.delegator_id === employee?.id;
+                  return (
+                    <div key={delegation.id} className="flex items-center justify-between gap-2 p-2 rounded bg-muted/50 text-sm">
+                      <div>
+                        <p className="font-medium">
+                          {isOutgoing
+                            ? `To ${delegation.delegate?.full_name}`
+                            : `On behalf of ${delegation.delegator?.full_name}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(parseISO(delegation.start_date), 'MMM d')} - {format(parseISO(delegation.end_date), 'MMM d, yyyy')}
+                          {delegation.reason && ` · ${delegation.reason}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {getDelegationBadge(delegation)}
+                        {isOutgoing && !delegation.revoked_at && delegation.end_date >= today && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(delegation.id)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleCreate} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Delegate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -21,8 +21,10 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { User, Mail, Phone, Calendar, Building, MapPin, Briefcase, Hash, UserCog, Loader2, AlertCircle } from 'lucide-react';
+import { User, Mail, Phone, Calendar, Building, MapPin, Briefcase, Hash, UserCog, Loader2, AlertCircle, FileText, SlidersHorizontal } from 'lucide-react';
 import { format } from 'date-fns';
+import { LeaveStatementModal } from '@/components/shared/LeaveStatementModal';
+import { AdjustLeaveBalanceModal } from '@/components/hr/AdjustLeaveBalanceModal';
 
 interface EmployeeWithDetails {
   id: string;
@@ -76,6 +78,8 @@ export const EmployeeDetailModal = ({
   const [loading, setLoading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [leaveBalances, setLeaveBalances] = useState<LeaveBalance[]>([]);
+  const [showStatement, setShowStatement] = useState(false);
+  const [showAdjustBalance, setShowAdjustBalance] = useState(false);
 
   useEffect(() => {
     if (employee && open) {
@@ -213,10 +217,24 @@ export const EmployeeDetailModal = ({
 
           <div className="space-y-6 py-4">
             {/* Leave Balance Summary */}
-            {leaveBalances.length > 0 && (
+            {(leaveBalances.length > 0 || isAdmin) && (
               <>
                 <div>
-                  <h4 className="text-sm font-semibold mb-3 text-muted-foreground">Leave Balance ({new Date().getFullYear()})</h4>
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-sm font-semibold text-muted-foreground">Leave Balance ({new Date().getFullYear()})</h4>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setShowStatement(true)}>
+                        <FileText className="w-4 h-4 mr-2" />
+                        Statement
+                      </Button>
+                      {isAdmin && (
+                        <Button variant="ghost" size="sm" onClick={() => setShowAdjustBalance(true)}>
+                          <SlidersHorizontal className="w-4 h-4 mr-2" />
+                          Adjust balance
+                        </Button>
+                      )}
+                    </div>
+                  </div>
                   <div className="flex flex-wrap gap-2">
                     {leaveBalances.map((leave) => (
                       <Badge key={leave.leave_type} className={getLeaveColor(leave.leave_type)}>
@@ -341,6 +359,23 @@ export const EmployeeDetailModal = ({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <LeaveStatementModal
+        open={showStatement}
+        onOpenChange={setShowStatement}
+        employeeId={employee.id}
+        employeeName={employee.full_name}
+      />
+
+      {isAdmin && (
+        <AdjustLeaveBalanceModal
+          open={showAdjustBalance}
+          onOpenChange={setShowAdjustBalance}
+          employeeId={employee.id}
+          employeeName={employee.full_name}
+          onAdjusted={fetchLeaveBalances}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { Banknote, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import {
+  ENCASHMENT_STATUS_STYLES,
+  LeaveEncashment,
+  fetchLeaveEncashments,
+  formatEncashmentAmount,
+  processLeaveEncashment,
+} from '@/lib/leaveEncashment';
+
+interface LeaveEncashmentApprovalsProps {
+  currency: string;
+  onCountChange?: (pending: number) => void;
+}
+
+export const LeaveEncashmentApprovals = ({ currency, onCountChange }: LeaveEncashmentApprovalsProps) => {
+  const [encashments, setEncashments] = useState<LeaveEncashment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<LeaveEncashment | null>(null);
+  const [comments, setComments] = useState('');
+
+  const loadEncashments = useCallback(async () => {
+    try {
+      const data = await fetchLeaveEncashments();
+      setEncashments(data);
+      onCountChange?.(data.filter(e => e.status === 'Pending').length);
+    } catch (error) {
+      console.error('Error fetching leave encashments:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load encashment requests',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [onCountChange]);
+
+  useEffect(() => {
+    loadEncashments();
+  }, [loadEncashments]);
+
+  const handleApprove = async (encashment: LeaveEncashment) => {
+    setProcessingId(encashment.id);
+    try {
+      const result = await processLeaveEncashment(encashment.id, 'approve');
+      toast({
+        title: 'Encashment Approved',
+        description: `${encashment.employee?.full_name} will receive ${formatEncashmentAmount(result.amount, currency)} with their next salary`,
+      });
+      loadEncashments();
+    } catch (error) {
+      console.error('Error approving leave encashment:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to approve encashment',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setProcessingId(rejecting.id);
+    try {
+      await processLeaveEncashment(rejecting.id, 'reject', comments.trim());
+      toast({ title: 'Encashment Rejected' });
+      setRejecting(null);
+      setComments('');
+      loadEncashments();
+    } catch (error) {
+      console.error('Error rejecting leave encashment:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to reject encashment',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (encashments.length === 0) {
+    return (
+      <div className="p-12 text-center">
+        <Banknote className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">No encashment requests</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Employee</TableHead>
+            <TableHead>Year</TableHead>
+            <TableHead>Days</TableHead>
+            <TableHead>Rate / Amount</TableHead>
+            <TableHead>Note</TableHead>
+            <TableHead>Requested On</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {encashments.map((encashment) => (
+            <TableRow key={encashment.id}>
+              <TableCell>
+                <p className="font-medium">{encashment.employee?.full_name}</p>
+                <p className="text-xs text-muted-foreground">{encashment.employee?.employee_code}</p>
+              </TableCell>
+              <TableCell>{encashment.year}</TableCell>
+              <TableCell>{encashment.days}</TableCell>
+              <TableCell>
+                {encashment.amount != null
+                  ? `${formatEncashmentAmount(encashment.daily_rate, currency)} / ${formatEncashmentAmount(encashment.amount, currency)}`
+                  : '-'}
+              </TableCell>
+              <TableCell className="max-w-[200px] truncate">
+                {encashment.review_comments || encashment.reason || '-'}
+              </TableCell>
+              <TableCell>{format(parseISO(encashment.created_at), 'MMM d, yyyy')}</TableCell>
+              <TableCell>
+                <Badge className={ENCASHMENT_STATUS_STYLES[encashment.status]}>{encashment.status}</Badge>
+              </TableCell>
+              <TableCell>
+                {encashment.status === 'Pending' ? (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="success"
+                      size="sm"
+                      onClick={() => handleApprove(encashment)}
+                      disabled={processingId === encashment.id}
+                    >
+                      {processingId === encashment.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Approve
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setRejecting(encashment)}
+                      disabled={processingId === encashment.id}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {encashment.reviewer?.full_name ? `By ${encashment.reviewer.full_name}` : '-'}
+                  </span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Encashment Request</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {rejecting && (
+              <p className="text-sm text-muted-foreground">
+                Rejecting {rejecting.employee?.full_name}'s request to encash {rejecting.days} day(s).
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Comments (Optional)</Label>
+              <Textarea
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Enter reason for rejection..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={processingId === rejecting?.id}>
+              {processingId === rejecting?.id ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <XCircle className="w-4 h-4 mr-2" />
+              )}
+              Reject Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,402 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Crosshair, Loader2, MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { PunchEnforcement } from '@/lib/orgSettings';
+import {
+  OfficeLocation,
+  OfficeLocationInput,
+  PUNCH_ENFORCEMENT_OPTIONS,
+  deleteOfficeLocation,
+  fetchOfficeLocations,
+  getCurrentPosition,
+  saveOfficeLocation,
+} from '@/lib/punchLocation';
+
+interface OfficeLocationsCardProps {
+  orgId: string;
+  enforcement: Record<string, PunchEnforcement>;
+  onEnforcementChange: (enforcement: Record<string, PunchEnforcement>) => void;
+}
+
+interface SiteForm {
+  location: string;
+  name: string;
+  latitude: string;
+  longitude: string;
+  radius_meters: string;
+  allowed_ip_ranges: string;
+}
+
+const EMPTY_FORM: SiteForm = {
+  location: '',
+  name: '',
+  latitude: '',
+  longitude: '',
+  radius_meters: '200',
+  allowed_ip_ranges: '',
+};
+
+export const OfficeLocationsCard = ({ orgId, enforcement, onEnforcementChange }: OfficeLocationsCardProps) => {
+  const [sites, setSites] = useState<OfficeLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [editing, setEditing] = useState<OfficeLocation | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<SiteForm>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<OfficeLocation | null>(null);
+
+  const loadSites = useCallback(async () => {
+    try {
+      setSites(await fetchOfficeLocations());
+    } catch (error) {
+      console.error('Error fetching office locations:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load office locations',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSites();
+  }, [loadSites]);
+
+  const openForm = (site: OfficeLocation | null) => {
+    setEditing(site);
+    setForm(site
+      ? {
+          location: site.location,
+          name: site.name,
+          latitude: site.latitude?.toString() ?? '',
+          longitude: site.longitude?.toString() ?? '',
+          radius_meters: site.radius_meters.toString(),
+          allowed_ip_ranges: site.allowed_ip_ranges.join(', '),
+        }
+      : EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const fillCurrentPosition = async () => {
+    setLocating(true);
+    const position = await getCurrentPosition();
+    setLocating(false);
+
+    if (!position) {
+      toast({
+        title: 'Location unavailable',
+        description: 'Allow location access in your browser, or enter the coordinates manually',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setForm({ ...form, latitude: position.latitude.toString(), longitude: position.longitude.toString() });
+  };
+
+  const handleSave = async () => {
+    const hasLatitude = form.latitude.trim() !== '';
+    const hasLongitude = form.longitude.trim() !== '';
+    const ipRanges = form.allowed_ip_ranges.split(',').map(r => r.trim()).filter(Boolean);
+
+    if (!form.location.trim() || !form.name.trim()) {
+      toast({ title: 'Error', description: 'Location and site name are required', variant: 'destructive' });
+      return;
+    }
+    if (hasLatitude !== hasLongitude) {
+      toast({ title: 'Error', description: 'Enter both latitude and longitude, or neither', variant: 'destructive' });
+      return;
+    }
+    if (!hasLatitude && ipRanges.length === 0) {
+      toast({ title: 'Error', description: 'Add coordinates, IP ranges, or both', variant: 'destructive' });
+      return;
+    }
+
+    const input: OfficeLocationInput = {
+      location: form.location.trim(),
+      name: form.name.trim(),
+      latitude: hasLatitude ? Number(form.latitude) : null,
+      longitude: hasLongitude ? Number(form.longitude) : null,
+      radius_meters: parseInt(form.radius_meters) || 200,
+      allowed_ip_ranges: ipRanges,
+    };
+
+    setSaving(true);
+    try {
+      await saveOfficeLocation(orgId, input, editing?.id);
+      toast({ title: editing ? 'Site Updated' : 'Site Added' });
+      setFormOpen(false);
+      loadSites();
+    } catch (error) {
+      console.error('Error saving office location:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to save site',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteOfficeLocation(deleting.id);
+      toast({ title: 'Site Removed' });
+      loadSites();
+    } catch (error) {
+      console.error('Error deleting office location:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove site',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 glass-card">
+      <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center gap-2">
+        <MapPin className="w-5 h-5" />
+        Punch Location
+      </h3>
+      <p className="text-sm text-muted-foreground mb-6">
+        A punch is in policy when it is inside any site's radius or comes from one of its networks. Sites apply to
+        employees whose work location matches; employees at locations with no sites are not restricted.
+      </p>
+
+      <div className="space-y-6">
+        <div className="space-y-4">
+          <div>
+            <p className="font-medium text-foreground">Out-of-Policy Punches</p>
+            <p className="text-sm text-muted-foreground">
+              Flagged punches are recorded and highlighted in attendance records; blocked punches are refused.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {Object.entries(enforcement).map(([employmentType, mode]) => (
+              <div key={employmentType} className="space-y-2">
+                <Label>{employmentType}</Label>
+                <Select
+                  value={mode}
+                  onValueChange={(value) => onEnforcementChange({ ...enforcement, [employmentType]: value as PunchEnforcement })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PUNCH_ENFORCEMENT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="font-medium text-foreground">Office Sites</p>
+            <Button variant="outline" size="sm" onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Site
+            </Button>
+          </div>
+
+          {loading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          ) : sites.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No office sites yet. Punches are not restricted.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Geofence</TableHead>
+                  <TableHead>Networks</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sites.map(site => (
+                  <TableRow key={site.id}>
+                    <TableCell className="font-medium">{site.location}</TableCell>
+                    <TableCell>{site.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {site.latitude !== null
+                        ? `${site.latitude}, ${site.longitude} (${site.radius_meters} m)`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {site.allowed_ip_ranges.length === 0
+                          ? <span className="text-sm text-muted-foreground">-</span>
+                          : site.allowed_ip_ranges.map(range => (
+                              <Badge key={range} variant="outline" className="font-mono text-xs">{range}</Badge>
+                            ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openForm(site)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeleting(site)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Site' : 'Add Site'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Location *</Label>
+                <Input
+                  value={form.location}
+                  onChange={(e) => setForm({ ...form, location: e.target.value })}
+                  placeholder="e.g. Bangalore"
+                />
+                <p className="text-xs text-muted-foreground">As entered on employee profiles</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Site Name *</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. HSR Layout office"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Latitude</Label>
+                <Input
+                  type="number"
+                  step="0.000001"
+                  value={form.latitude}
+                  onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Longitude</Label>
+                <Input
+                  type="number"
+                  step="0.000001"
+                  value={form.longitude}
+                  onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Radius (m)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={form.radius_meters}
+                  onChange={(e) => setForm({ ...form, radius_meters: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={fillCurrentPosition} disabled={locating}>
+              {locating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Crosshair className="w-4 h-4 mr-2" />}
+              Use My Current Position
+            </Button>
+            <div className="space-y-2">
+              <Label>Allowed IP Ranges</Label>
+              <Input
+                value={form.allowed_ip_ranges}
+                onChange={(e) => setForm({ ...form, allowed_ip_ranges: e.target.value })}
+                placeholder="e.g. 203.0.113.0/24, 198.51.100.7"
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">Comma-separated CIDR blocks or single addresses</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? 'Save Site' : 'Add Site'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Site?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Punches will no longer be accepted at {deleting?.name}. If it is the last site for {deleting?.location},
+              punches there stop being restricted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
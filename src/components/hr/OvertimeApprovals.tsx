@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, Loader2, Timer, XCircle } from 'lucide-react';
+import {
+  OVERTIME_DAY_LABELS,
+  OVERTIME_STATUS_STYLES,
+  OvertimeClaim,
+  fetchOvertimeClaims,
+  processOvertimeClaim,
+} from '@/lib/overtime';
+
+interface OvertimeApprovalsProps {
+  onCountChange?: (pending: number) => void;
+}
+
+export const OvertimeApprovals = ({ onCountChange }: OvertimeApprovalsProps) => {
+  const { employee } = useAuth();
+  const [claims, setClaims] = useState<OvertimeClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<OvertimeClaim | null>(null);
+  const [comments, setComments] = useState('');
+
+  const loadClaims = useCallback(async () => {
+    try {
+      // RLS returns the caller's own claims too; those are decided by someone else
+      const data = (await fetchOvertimeClaims()).filter(c => c.employee_id !== employee?.id);
+      setClaims(data);
+      onCountChange?.(data.filter(c => c.status === 'Pending').length);
+    } catch (error) {
+      console.error('Error fetching overtime claims:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load overtime claims',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id, onCountChange]);
+
+  useEffect(() => {
+    loadClaims();
+  }, [loadClaims]);
+
+  const handleApprove = async (claim: OvertimeClaim) => {
+    setProcessingId(claim.id);
+    try {
+      await processOvertimeClaim(claim.id, 'approve');
+      toast({
+        title: 'Overtime Approved',
+        description: `${Number(claim.hours).toFixed(1)} hours approved for ${claim.employee?.full_name}`,
+      });
+      loadClaims();
+    } catch (error) {
+      console.error('Error approving overtime:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to approve overtime',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setProcessingId(rejecting.id);
+    try {
+      await processOvertimeClaim(rejecting.id, 'reject', comments.trim());
+      toast({ title: 'Overtime Rejected' });
+      setRejecting(null);
+      setComments('');
+      loadClaims();
+    } catch (error) {
+      console.error('Error rejecting overtime:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to reject overtime',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (claims.length === 0) {
+    return (
+      <div className="p-12 text-center">
+        <Timer className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">No overtime claims</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Employee</TableHead>
+            <TableHead>Worked On</TableHead>
+            <TableHead>Worked</TableHead>
+            <TableHead>Overtime</TableHead>
+            <TableHead>Rate</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {claims.map((claim) => (
+            <TableRow key={claim.id}>
+              <TableCell>
+                <p className="font-medium">{claim.employee?.full_name}</p>
+                <p className="text-xs text-muted-foreground">{claim.employee?.employee_code}</p>
+              </TableCell>
+              <TableCell>
+                <p>{format(parseISO(claim.work_date), 'EEE, MMM d, yyyy')}</p>
+                {claim.day_type !== 'working' && (
+                  <p className="text-xs text-muted-foreground">{OVERTIME_DAY_LABELS[claim.day_type]}</p>
+                )}
+              </TableCell>
+              <TableCell>{Number(claim.worked_hours).toFixed(1)}h</TableCell>
+              <TableCell>
+                <p className="font-medium">{Number(claim.hours).toFixed(1)}h</p>
+                {Number(claim.weekly_hours) > 0 && (
+                  <p className="text-xs text-muted-foreground">{Number(claim.weekly_hours).toFixed(1)}h over weekly limit</p>
+                )}
+              </TableCell>
+              <TableCell>{Number(claim.multiplier)}×</TableCell>
+              <TableCell>
+                <Badge className={OVERTIME_STATUS_STYLES[claim.status]}>{claim.status}</Badge>
+              </TableCell>
+              <TableCell>
+                {claim.status === 'Pending' ? (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="success"
+                      size="sm"
+                      onClick={() => handleApprove(claim)}
+                      disabled={processingId === claim.id}
+                    >
+                      {processingId === claim.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Approve
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setRejecting(claim)}
+                      disabled={processingId === claim.id}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {claim.reviewer?.full_name ? `By ${claim.reviewer.full_name}` : '-'}
+                  </span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Overtime</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {rejecting && (
+              <p className="text-sm text-muted-foreground">
+                Rejecting {rejecting.employee?.full_name}'s {Number(rejecting.hours).toFixed(1)} hours of overtime on{' '}
+                {format(parseISO(rejecting.work_date), 'MMM d, yyyy')}.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Comments (Optional)</Label>
+              <Textarea
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Enter reason for rejection..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={processingId === rejecting?.id}>
+              {processingId === rejecting?.id ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <XCircle className="w-4 h-4 mr-2" />
+              )}
+              Reject Overtime
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { format, subMonths } from 'date-fns';
+import { Download, Loader2, Timer } from 'lucide-react';
+import {
+  OvertimeClaim,
+  exportOvertimeSummary,
+  fetchApprovedOvertime,
+  summarizeOvertime,
+} from '@/lib/overtime';
+
+// Last twelve months, most recent first; payroll usually runs for the month just ended
+const MONTH_OPTIONS = Array.from({ length: 12 }, (_, i) => subMonths(new Date(), i));
+
+export const OvertimeSummaryCard = () => {
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [claims, setClaims] = useState<OvertimeClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [year, month] = period.split('-').map(Number);
+
+  const loadClaims = useCallback(async () => {
+    setLoading(true);
+    try {
+      setClaims(await fetchApprovedOvertime(year, month));
+    } catch (error) {
+      console.error('Error fetching overtime:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load overtime summary',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, month]);
+
+  useEffect(() => {
+    loadClaims();
+  }, [loadClaims]);
+
+  const rows = summarizeOvertime(claims);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Overtime
+            </CardTitle>
+            <CardDescription>Approved overtime by month, weighted by the overtime rates</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTH_OPTIONS.map(date => (
+                  <SelectItem key={format(date, 'yyyy-MM')} value={format(date, 'yyyy-MM')}>
+                    {format(date, 'MMMM yyyy')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => exportOvertimeSummary(year, month, claims, 'xlsx')}
+              disabled={loading || claims.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" /> Excel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => exportOvertimeSummary(year, month, claims, 'csv')}
+              disabled={loading || claims.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" /> CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No approved overtime this month</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Working Day</TableHead>
+                  <TableHead className="text-right">Weekend</TableHead>
+                  <TableHead className="text-right">Holiday</TableHead>
+                  <TableHead className="text-right">Total Hours</TableHead>
+                  <TableHead className="text-right">Payable Hours</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.employeeId}>
+                    <TableCell className="font-medium">{row.employeeCode}</TableCell>
+                    <TableCell>{row.fullName}</TableCell>
+                    <TableCell className="text-right">{row.days}</TableCell>
+                    <TableCell className="text-right">{row.hours.working.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{row.hours.weekend.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{row.hours.holiday.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{row.totalHours.toFixed(1)}</TableCell>
+                    <TableCell className="text-right font-medium">{row.payableHours.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
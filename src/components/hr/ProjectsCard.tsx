@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Archive, ArchiveRestore, FolderKanban, Loader2, Pencil, Plus } from 'lucide-react';
+import { Project, ProjectInput, fetchProjects, saveProject, setProjectActive } from '@/lib/projects';
+
+interface ProjectsCardProps {
+  orgId: string;
+}
+
+const EMPTY_PROJECT: ProjectInput = {
+  code: '',
+  name: '',
+  client: null,
+  is_billable: false,
+  budget_hours: null,
+  start_date: null,
+  end_date: null,
+};
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'd MMM yyyy') : null);
+
+export const ProjectsCard = ({ orgId }: ProjectsCardProps) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Project | null>(null);
+  const [form, setForm] = useState<ProjectInput>(EMPTY_PROJECT);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      setProjects(await fetchProjects(true));
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load projects',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const openForm = (project: Project | null) => {
+    setEditing(project);
+    setForm(project
+      ? {
+          code: project.code,
+          name: project.name,
+          client: project.client,
+          is_billable: project.is_billable,
+          budget_hours: project.budget_hours !== null ? Number(project.budget_hours) : null,
+          start_date: project.start_date,
+          end_date: project.end_date,
+        }
+      : EMPTY_PROJECT);
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !form.name.trim()) {
+      toast({ title: 'Error', description: 'Project code and name are required', variant: 'destructive' });
+      return;
+    }
+    if (form.budget_hours !== null && form.budget_hours <= 0) {
+      toast({ title: 'Error', description: 'Budget must be more than 0 hours', variant: 'destructive' });
+      return;
+    }
+    if (form.start_date && form.end_date && form.end_date < form.start_date) {
+      toast({ title: 'Error', description: 'End date cannot be before the start date', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveProject(
+        orgId,
+        {
+          ...form,
+          code: form.code.trim().toUpperCase(),
+          name: form.name.trim(),
+          client: form.client?.trim() || null,
+        },
+        editing?.id
+      );
+      toast({ title: editing ? 'Project Updated' : 'Project Added' });
+      setFormOpen(false);
+      loadProjects();
+    } catch (error) {
+      console.error('Error saving project:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to save project',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (project: Project) => {
+    try {
+      await setProjectActive(project.id, !project.is_active);
+      loadProjects();
+    } catch (error) {
+      console.error('Error updating project:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update project',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 glass-card">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <FolderKanban className="w-5 h-5" />
+          Projects
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Project
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Employees book work-log tasks to projects open on the task's date. Budgets drive the burn-down in work
+        log analytics; archived projects stay on tasks already booked to them.
+      </p>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      ) : projects.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No projects yet. Tasks are logged by category only.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Project</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Billable</TableHead>
+              <TableHead>Budget</TableHead>
+              <TableHead>Active Dates</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {projects.map(project => (
+              <TableRow key={project.id} className={project.is_active ? undefined : 'opacity-60'}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm">{project.code}</span>
+                    <span className="font-medium">{project.name}</span>
+                    {!project.is_active && <Badge variant="outline">Archived</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>{project.client || <span className="text-muted-foreground">Internal</span>}</TableCell>
+                <TableCell>{project.is_billable ? 'Yes' : 'No'}</TableCell>
+                <TableCell>{project.budget_hours !== null ? `${Number(project.budget_hours)}h` : '-'}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {project.start_date || project.end_date
+                    ? `${formatDate(project.start_date) || 'Any time'} – ${formatDate(project.end_date) || 'ongoing'}`
+                    : 'Any time'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openForm(project)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={project.is_active ? 'Archive' : 'Restore'}
+                      onClick={() => handleToggleActive(project)}
+                    >
+                      {project.is_active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Project' : 'Add Project'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Code *</Label>
+                <Input
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  placeholder="e.g. ACME-01"
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label>Name *</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Website redesign"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Input
+                value={form.client || ''}
+                onChange={(e) => setForm({ ...form, client: e.target.value || null })}
+                placeholder="Leave blank for internal projects"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Budget (hours)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={form.budget_hours ?? ''}
+                  onChange={(e) => setForm({ ...form, budget_hours: parseFloat(e.target.value) || null })}
+                  placeholder="No budget"
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg border border-border px-3 h-10">
+                <Label>Billable</Label>
+                <Switch
+                  checked={form.is_billable}
+                  onCheckedChange={(is_billable) => setForm({ ...form, is_billable })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Start Date</Label>
+                <Input
+                  type="date"
+                  value={form.start_date || ''}
+                  onChange={(e) => setForm({ ...form, start_date: e.target.value || null })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>End Date</Label>
+                <Input
+                  type="date"
+                  value={form.end_date || ''}
+                  onChange={(e) => setForm({ ...form, end_date: e.target.value || null })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? 'Save Project' : 'Add Project'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
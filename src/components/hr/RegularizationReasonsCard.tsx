@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { Archive, ArchiveRestore, ListChecks, Loader2, Pencil, Plus } from 'lucide-react';
+import {
+  RegularizationReason,
+  fetchRegularizationReasons,
+  saveRegularizationReason,
+  setRegularizationReasonActive,
+} from '@/lib/regularization';
+
+interface RegularizationReasonsCardProps {
+  orgId: string;
+}
+
+export const RegularizationReasonsCard = ({ orgId }: RegularizationReasonsCardProps) => {
+  const [reasons, setReasons] = useState<RegularizationReason[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<RegularizationReason | null>(null);
+  const [label, setLabel] = useState('');
+
+  const loadReasons = useCallback(async () => {
+    try {
+      setReasons(await fetchRegularizationReasons(true));
+    } catch (error) {
+      console.error('Error fetching regularization reasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load regularization reasons',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReasons();
+  }, [loadReasons]);
+
+  const openForm = (reason: RegularizationReason | null) => {
+    setEditing(reason);
+    setLabel(reason?.label || '');
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!label.trim()) {
+      toast({ title: 'Error', description: 'Reason is required', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveRegularizationReason(orgId, label.trim(), editing?.id);
+      toast({ title: editing ? 'Reason Updated' : 'Reason Added' });
+      setFormOpen(false);
+      loadReasons();
+    } catch (error) {
+      console.error('Error saving regularization reason:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to save reason',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (reason: RegularizationReason) => {
+    try {
+      await setRegularizationReasonActive(reason.id, !reason.is_active);
+      loadReasons();
+    } catch (error) {
+      console.error('Error updating regularization reason:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update reason',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 glass-card">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <ListChecks className="w-5 h-5" />
+          Regularization Reasons
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Reason
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Employees pick one of these when requesting regularization, then explain in their own words.
+      </p>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      ) : reasons.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No reasons yet. Employees give a free-text reason only.</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {reasons.map(reason => (
+            <div
+              key={reason.id}
+              className={`flex items-center justify-between py-2 ${reason.is_active ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-foreground">{reason.label}</span>
+                {!reason.is_active && <Badge variant="outline">Archived</Badge>}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => openForm(reason)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={reason.is_active ? 'Archive' : 'Restore'}
+                  onClick={() => handleToggleActive(reason)}
+                >
+                  {reason.is_active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Reason' : 'Add Reason'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label>Reason *</Label>
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Client visit"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? 'Save Reason' : 'Add Reason'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,332 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Archive, ArchiveRestore, CalendarClock, Loader2, Moon, Pencil, Plus } from 'lucide-react';
+import {
+  Shift,
+  ShiftInput,
+  fetchShifts,
+  formatShiftTime,
+  formatShiftWindow,
+  saveShift,
+  setShiftActive,
+  toShiftRule,
+} from '@/lib/shifts';
+
+interface ShiftsCardProps {
+  orgId: string;
+}
+
+const EMPTY_SHIFT: ShiftInput = {
+  name: '',
+  start_time: '09:00',
+  end_time: '18:00',
+  grace_minutes: 15,
+  break_minutes: 60,
+  half_day_hours: 4,
+  overtime_threshold_hours: null,
+  overtime_multiplier: null,
+};
+
+export const ShiftsCard = ({ orgId }: ShiftsCardProps) => {
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Shift | null>(null);
+  const [form, setForm] = useState<ShiftInput>(EMPTY_SHIFT);
+
+  const loadShifts = useCallback(async () => {
+    try {
+      setShifts(await fetchShifts(true));
+    } catch (error) {
+      console.error('Error fetching shifts:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load shifts',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  const openForm = (shift: Shift | null) => {
+    setEditing(shift);
+    setForm(shift
+      ? {
+          name: shift.name,
+          start_time: formatShiftTime(shift.start_time),
+          end_time: formatShiftTime(shift.end_time),
+          grace_minutes: shift.grace_minutes,
+          break_minutes: shift.break_minutes,
+          half_day_hours: Number(shift.half_day_hours),
+          overtime_threshold_hours: shift.overtime_threshold_hours,
+          overtime_multiplier: shift.overtime_multiplier,
+        }
+      : EMPTY_SHIFT);
+    setFormOpen(true);
+  };
+
+  const preview = toShiftRule({ ...form, id: '', is_active: true });
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Error', description: 'Shift name is required', variant: 'destructive' });
+      return;
+    }
+    if (form.start_time === form.end_time) {
+      toast({ title: 'Error', description: 'Start and end time must differ', variant: 'destructive' });
+      return;
+    }
+    if (form.half_day_hours > preview.fullDayHours) {
+      toast({ title: 'Error', description: 'Half-day hours cannot exceed the full day', variant: 'destructive' });
+      return;
+    }
+    if (form.overtime_multiplier !== null && form.overtime_multiplier < 1) {
+      toast({ title: 'Error', description: 'Overtime rate must be at least 1×', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveShift(orgId, { ...form, name: form.name.trim() }, editing?.id);
+      toast({ title: editing ? 'Shift Updated' : 'Shift Added' });
+      setFormOpen(false);
+      loadShifts();
+    } catch (error) {
+      console.error('Error saving shift:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to save shift',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (shift: Shift) => {
+    try {
+      await setShiftActive(shift.id, !shift.is_active);
+      loadShifts();
+    } catch (error) {
+      console.error('Error updating shift:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update shift',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 glass-card">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Shifts
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Shift
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Assign shifts on the shift roster. A full day is the shift length less the unpaid break; arrivals and exits
+        within the grace period are on time. Shifts ending before they start run overnight.
+      </p>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      ) : shifts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No shifts yet. Everyone works the standard hours above.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Shift</TableHead>
+              <TableHead>Timing</TableHead>
+              <TableHead>Break</TableHead>
+              <TableHead>Grace</TableHead>
+              <TableHead>Full / Half Day</TableHead>
+              <TableHead>Overtime</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shifts.map(shift => {
+              const rule = toShiftRule(shift);
+              return (
+                <TableRow key={shift.id} className={shift.is_active ? undefined : 'opacity-60'}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {shift.name}
+                      {rule.crossesMidnight && <Moon className="w-3.5 h-3.5 text-muted-foreground" />}
+                      {!shift.is_active && <Badge variant="outline">Archived</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{formatShiftWindow(rule)}</TableCell>
+                  <TableCell>{shift.break_minutes}m</TableCell>
+                  <TableCell>{shift.grace_minutes}m</TableCell>
+                  <TableCell>{rule.fullDayHours.toFixed(1)}h / {rule.halfDayHours}h</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {shift.overtime_threshold_hours || shift.overtime_multiplier
+                      ? [
+                          shift.overtime_threshold_hours && `after ${Number(shift.overtime_threshold_hours)}h`,
+                          shift.overtime_multiplier && `${Number(shift.overtime_multiplier)}×`,
+                        ].filter(Boolean).join(' · ')
+                      : 'Org default'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(shift)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={shift.is_active ? 'Archive' : 'Restore'}
+                        onClick={() => handleToggleActive(shift)}
+                      >
+                        {shift.is_active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Shift' : 'Add Shift'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Night"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Start Time</Label>
+                <Input
+                  type="time"
+                  value={form.start_time}
+                  onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>End Time</Label>
+                <Input
+                  type="time"
+                  value={form.end_time}
+                  onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Break (minutes)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.break_minutes}
+                  onChange={(e) => setForm({ ...form, break_minutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Grace (minutes)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.grace_minutes}
+                  onChange={(e) => setForm({ ...form, grace_minutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Half Day Hours</Label>
+                <Input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={form.half_day_hours}
+                  onChange={(e) => setForm({ ...form, half_day_hours: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Overtime After (hours)</Label>
+                <Input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={form.overtime_threshold_hours ?? ''}
+                  onChange={(e) => setForm({ ...form, overtime_threshold_hours: parseFloat(e.target.value) || null })}
+                  placeholder="Org default"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Overtime Rate (×)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={0.25}
+                  value={form.overtime_multiplier ?? ''}
+                  onChange={(e) => setForm({ ...form, overtime_multiplier: parseFloat(e.target.value) || null })}
+                  placeholder="Org default"
+                />
+              </div>
+            </div>
+            {form.start_time !== form.end_time && (
+              <p className="text-sm text-muted-foreground">
+                {formatShiftWindow(preview)}
+                {preview.crossesMidnight ? ', overnight' : ''} · full day {preview.fullDayHours.toFixed(1)}h
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? 'Save Shift' : 'Add Shift'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
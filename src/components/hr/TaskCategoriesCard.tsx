@@ -0,0 +1,361 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Loader2, Pencil, Plus, Tags } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  TaskCategoryDefinition,
+  TaskCategoryInput,
+  fetchTaskCategories,
+  saveTaskCategory,
+  setTaskCategoryActive,
+} from '@/lib/taskCategories';
+
+interface TaskCategoriesCardProps {
+  orgId: string;
+}
+
+// Select value for categories every department can use
+const ALL_DEPARTMENTS = '__all__';
+
+const EMPTY_CATEGORY: TaskCategoryInput = {
+  label: '',
+  icon: 'Target',
+  color: 'blue',
+  department: null,
+  sort_order: 0,
+};
+
+export const TaskCategoriesCard = ({ orgId }: TaskCategoriesCardProps) => {
+  const { refresh: refreshTaskCategories } = useTaskCategories();
+  const [categories, setCategories] = useState<TaskCategoryDefinition[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<TaskCategoryDefinition | null>(null);
+  const [form, setForm] = useState<TaskCategoryInput>(EMPTY_CATEGORY);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      const [definitions, { data: details, error }] = await Promise.all([
+        fetchTaskCategories(true),
+        supabase.from('hr_employee_details').select('department').not('department', 'is', null),
+      ]);
+      if (error) throw error;
+
+      setCategories(definitions);
+      setDepartments(Array.from(new Set((details || []).map(d => d.department as string))).sort());
+    } catch (error) {
+      console.error('Error fetching task categories:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load task categories',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  // Reload here and in the work-log pages
+  const reload = () => {
+    loadCategories();
+    refreshTaskCategories();
+  };
+
+  const openForm = (category: TaskCategoryDefinition | null) => {
+    setEditing(category);
+    setForm(category
+      ? {
+          label: category.label,
+          icon: category.icon,
+          color: category.color,
+          department: category.department,
+          sort_order: category.sort_order,
+        }
+      : {
+          ...EMPTY_CATEGORY,
+          sort_order: Math.max(0, ...categories.map(c => c.sort_order)) + 1,
+        });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const label = form.label.trim();
+    if (!label) {
+      toast({ title: 'Error', description: 'Category name is required', variant: 'destructive' });
+      return;
+    }
+    const duplicate = categories.some(c =>
+      c.id !== editing?.id && c.label.toLowerCase() === label.toLowerCase()
+    );
+    if (duplicate) {
+      toast({ title: 'Error', description: 'A category with this name already exists', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTaskCategory(orgId, { ...form, label }, editing?.id);
+      toast({ title: editing ? 'Category Updated' : 'Category Added' });
+      setFormOpen(false);
+      reload();
+    } catch (error) {
+      console.error('Error saving task category:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to save category',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (category: TaskCategoryDefinition) => {
+    try {
+      await setTaskCategoryActive(category.id, !category.is_active);
+      reload();
+    } catch (error) {
+      console.error('Error updating task category:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update category',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Swap with the neighbouring category and renumber any rows out of step
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...categories];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+
+    try {
+      await Promise.all(
+        reordered
+          .map((category, position) => ({ category, position: position + 1 }))
+          .filter(({ category, position }) => category.sort_order !== position)
+          .map(({ category, position }) =>
+            saveTaskCategory(
+              orgId,
+              {
+                label: category.label,
+                icon: category.icon,
+                color: category.color,
+                department: category.department,
+                sort_order: position,
+              },
+              category.id
+            )
+          )
+      );
+      reload();
+    } catch (error) {
+      console.error('Error reordering task categories:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to reorder categories',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderIcon = (icon: string, color: string) => {
+    const Icon = CATEGORY_ICONS[icon] || CATEGORY_ICONS.Target;
+    return <Icon className={cn('w-4 h-4', CATEGORY_COLORS[color]?.text || CATEGORY_COLORS.gray.text)} />;
+  };
+
+  return (
+    <Card className="p-6 glass-card">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Task Categories
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Category
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Categories employees choose when logging work. Renaming a category keeps the tasks already logged under it;
+        archived categories stay on those tasks but can't be chosen for new ones.
+      </p>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      ) : categories.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No categories yet. Add one so employees can log work.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead>Available To</TableHead>
+              <TableHead className="w-36" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.map((category, index) => (
+              <TableRow key={category.id} className={category.is_active ? undefined : 'opacity-60'}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {renderIcon(category.icon, category.color)}
+                    <span className="font-medium">{category.label}</span>
+                    {!category.is_active && <Badge variant="outline">Archived</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {category.department || <span className="text-muted-foreground">All departments</span>}
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Move up"
+                      disabled={index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Move down"
+                      disabled={index === categories.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openForm(category)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={category.is_active ? 'Archive' : 'Restore'}
+                      onClick={() => handleToggleActive(category)}
+                    >
+                      {category.is_active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Category' : 'Add Category'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="e.g. Client calls"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <div className="grid grid-cols-10 gap-1">
+                {Object.keys(CATEGORY_ICONS).map(icon => (
+                  <Button
+                    key={icon}
+                    type="button"
+                    variant={form.icon === icon ? 'secondary' : 'ghost'}
+                    size="icon"
+                    title={icon}
+                    onClick={() => setForm({ ...form, icon })}
+                  >
+                    {renderIcon(icon, form.color)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Colour</Label>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(CATEGORY_COLORS).map(([color, { label, bg }]) => (
+                  <button
+                    key={color}
+                    type="button"
+                    title={label}
+                    className={cn(
+                      'h-6 w-6 rounded-full',
+                      bg,
+                      form.color === color && 'ring-2 ring-offset-2 ring-offset-background ring-foreground'
+                    )}
+                    onClick={() => setForm({ ...form, color })}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Available To</Label>
+              <Select
+                value={form.department ?? ALL_DEPARTMENTS}
+                onValueChange={(v) => setForm({ ...form, department: v === ALL_DEPARTMENTS ? null : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                  {/* Keep a department no employee belongs to any more selectable */}
+                  {Array.from(new Set([...departments, ...(form.department ? [form.department] : [])])).map(d => (
+                    <SelectItem key={d} value={d}>{d}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? 'Save Category' : 'Add Category'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, House, Loader2, XCircle } from 'lucide-react';
+import {
+  WFH_STATUS_STYLES,
+  WfhRequest,
+  describeWfhRequest,
+  fetchWfhRequests,
+  processWfhRequest,
+} from '@/lib/wfh';
+
+interface WfhApprovalsProps {
+  onCountChange?: (pending: number) => void;
+}
+
+export const WfhApprovals = ({ onCountChange }: WfhApprovalsProps) => {
+  const { employee } = useAuth();
+  const [requests, setRequests] = useState<WfhRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<WfhRequest | null>(null);
+  const [comments, setComments] = useState('');
+
+  const loadRequests = useCallback(async () => {
+    try {
+      // RLS returns the caller's own requests too; those are decided by someone else
+      const data = (await fetchWfhRequests())
+        .filter(r => r.employee_id !== employee?.id && r.status !== 'Cancelled');
+      setRequests(data);
+      onCountChange?.(data.filter(r => r.status === 'Pending').length);
+    } catch (error) {
+      console.error('Error fetching WFH requests:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load WFH requests',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id, onCountChange]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleApprove = async (request: WfhRequest) => {
+    setProcessingId(request.id);
+    try {
+      const result = await processWfhRequest(request.id, 'approve');
+      toast({
+        title: 'WFH Approved',
+        description: `${request.employee?.full_name}: ${describeWfhRequest(request)}` +
+          (result.corrected_days ? ` (${result.corrected_days} day(s) marked absent updated)` : ''),
+      });
+      loadRequests();
+    } catch (error) {
+      console.error('Error approving WFH request:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to approve WFH request',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setProcessingId(rejecting.id);
+    try {
+      await processWfhRequest(rejecting.id, 'reject', comments.trim());
+      toast({ title: 'WFH Rejected' });
+      setRejecting(null);
+      setComments('');
+      loadRequests();
+    } catch (error) {
+      console.error('Error rejecting WFH request:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to reject WFH request',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="p-12 text-center">
+        <House className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">No work-from-home requests</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Employee</TableHead>
+            <TableHead>Days</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead>Requested</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requests.map((request) => (
+            <TableRow key={request.id}>
+              <TableCell>
+                <p className="font-medium">{request.employee?.full_name}</p>
+                <p className="text-xs text-muted-foreground">{request.employee?.employee_code}</p>
+              </TableCell>
+              <TableCell>{describeWfhRequest(request)}</TableCell>
+              <TableCell className="max-w-[240px]">
+                <p className="truncate">{request.reason}</p>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {format(parseISO(request.created_at), 'MMM d, yyyy')}
+              </TableCell>
+              <TableCell>
+                <Badge className={WFH_STATUS_STYLES[request.status]}>{request.status}</Badge>
+              </TableCell>
+              <TableCell>
+                {request.status === 'Pending' ? (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="success"
+                      size="sm"
+                      onClick={() => handleApprove(request)}
+                      disabled={processingId === request.id}
+                    >
+                      {processingId === request.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Approve
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setRejecting(request)}
+                      disabled={processingId === request.id}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {request.reviewer?.full_name ? `By ${request.reviewer.full_name}` : '-'}
+                  </span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Work From Home</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {rejecting && (
+              <p className="text-sm text-muted-foreground">
+                Rejecting {rejecting.employee?.full_name}'s request to work from home:{' '}
+                {describeWfhRequest(rejecting)}.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Comments (Optional)</Label>
+              <Textarea
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Enter reason for rejection..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={processingId === rejecting?.id}>
+              {processingId === rejecting?.id ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <XCircle className="w-4 h-4 mr-2" />
+              )}
+              Reject Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -25,6 +25,10 @@ import {
   Heart,
   BarChart3,
   UsersRound,
+  CalendarClock,
+  House,
+  Target,
+  Gauge,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -43,8 +47,10 @@ const navItems: NavItem[] = [
   { title: 'Attendance', href: '/app/attendance', icon: Clock, roles: ['Admin', 'Manager', 'Employee'] },
   { title: 'Work Log', href: '/app/work-log', icon: NotebookPen, roles: ['Admin', 'Manager', 'Employee'] },
   { title: 'Work Log Analytics', href: '/app/work-log-analytics', icon: BarChart3, roles: ['Admin', 'Manager', 'Employee'] },
+  { title: 'My Efficiency', href: '/app/efficiency', icon: Gauge, roles: ['Admin', 'Manager', 'Employee'] },
   { title: 'My Leaves', href: '/app/leaves', icon: Calendar, roles: ['Admin', 'Manager', 'Employee'] },
   { title: 'Request Regularization', href: '/app/attendance-regularization', icon: FileEdit, roles: ['Admin', 'Manager', 'Employee'] },
+  { title: 'Work From Home', href: '/app/wfh', icon: House, roles: ['Admin', 'Manager', 'Employee'] },
   { title: 'Appreciations', href: '/app/appreciations', icon: Heart, roles: ['Admin', 'Manager', 'Employee'] },
   { title: 'Holidays', href: '/app/holidays', icon: CalendarDays, roles: ['Admin', 'Manager', 'Employee'] },
   { title: 'Announcements', href: '/app/announcements', icon: Megaphone, roles: ['Admin', 'Manager', 'Employee'] },
@@ -61,6 +67,8 @@ const navItems: NavItem[] = [
   { title: 'My Team', href: '/app/team', icon: Users, roles: ['Manager'] },
   { title: 'Team Work Logs', href: '/app/manager/work-log-review', icon: ClipboardCheck, roles: ['Manager', 'Admin'] },
   { title: 'Team Analytics', href: '/app/team-analytics', icon: UsersRound, roles: ['Manager', 'Admin'] },
+  { title: 'Team Efficiency', href: '/app/manager/team-efficiency', icon: Gauge, roles: ['Manager', 'Admin'] },
+  { title: 'Expectations', href: '/app/manager/expectations', icon: Target, roles: ['Manager', 'Admin'] },
   { title: 'Leave Approvals', href: '/app/leave-approvals', icon: CheckCircle, roles: ['Manager'] },
   { title: 'My Offboarding', href: '/app/my-offboarding', icon: DoorOpen, roles: ['Manager'], conditionalKey: 'hasOffboarding' },
 
@@ -70,6 +78,8 @@ const navItems: NavItem[] = [
   { title: 'Onboarding', href: '/app/onboarding', icon: UserPlus, roles: ['Admin'] },
   { title: 'Offboarding', href: '/app/offboarding', icon: LogOut, roles: ['Admin'] },
   { title: 'Attendance Records', href: '/app/admin/attendance-records', icon: CalendarDays, roles: ['Admin'] },
+  { title: 'Shift Roster', href: '/app/admin/shift-roster', icon: CalendarClock, roles: ['Admin'] },
+  { title: 'Muster Roll', href: '/app/admin/muster-roll', icon: ClipboardList, roles: ['Admin'] },
   { title: 'Attendance Regularization', href: '/app/admin/attendance-regularization', icon: FileEdit, roles: ['Admin'] },
   { title: 'Employee Salary', href: '/app/admin/salary-overview', icon: IndianRupee, roles: ['Admin'] },
   { title: 'Approvals', href: '/app/approvals', icon: CheckCircle, roles: ['Admin'] },
@@ -127,7 +137,7 @@ export const AppSidebar = () => {
   });
 
   // Overview section includes My Leaves for Manager/Employee
-  const overviewTitles = ['Attendance', 'Work Log', 'Work Log Analytics', 'My Leaves', 'Request Regularization', 'Appreciations', 'Holidays', 'Announcements', 'Profile', 'Documents', 'Salary', 'Contacts'];
+  const overviewTitles = ['Attendance', 'Work Log', 'Work Log Analytics', 'My Efficiency', 'My Leaves', 'Request Regularization', 'Work From Home', 'Appreciations', 'Holidays', 'Announcements', 'Profile', 'Documents', 'Salary', 'Contacts'];
   
   const commonItems = filteredItems.filter(item => 
     overviewTitles.includes(item.title)
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Bell, Heart, CheckCircle, XCircle, FileText, RefreshCw, Megaphone, Loader2 } from 'lucide-react';
+import { Bell, Heart, CheckCircle, XCircle, FileText, RefreshCw, Megaphone, Loader2, Clock, UserCheck, SlidersHorizontal, Banknote, CalendarPlus, CalendarX, Timer, House } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -33,6 +33,35 @@ const getNotificationIcon = (type: string) => {
       return <CheckCircle className="h-4 w-4 text-green-500" />;
     case 'leave_rejected':
       return <XCircle className="h-4 w-4 text-red-500" />;
+    case 'leave_approval_pending':
+    case 'leave_step_approved':
+      return <Clock className="h-4 w-4 text-orange-500" />;
+    case 'approval_delegated':
+    case 'approval_delegation_revoked':
+      return <UserCheck className="h-4 w-4 text-blue-500" />;
+    case 'leave_encashment_requested':
+    case 'leave_encashment_approved':
+    case 'leave_encashment_rejected':
+      return <Banknote className="h-4 w-4 text-green-500" />;
+    case 'comp_off_pending':
+    case 'comp_off_approved':
+    case 'comp_off_rejected':
+    case 'comp_off_expired':
+      return <CalendarPlus className="h-4 w-4 text-purple-500" />;
+    case 'attendance_absent':
+    case 'attendance_auto_closed':
+    case 'attendance_overridden':
+      return <CalendarX className="h-4 w-4 text-orange-500" />;
+    case 'overtime_pending':
+    case 'overtime_approved':
+    case 'overtime_rejected':
+      return <Timer className="h-4 w-4 text-indigo-500" />;
+    case 'wfh_pending':
+    case 'wfh_approved':
+    case 'wfh_rejected':
+      return <House className="h-4 w-4 text-teal-500" />;
+    case 'leave_balance_adjusted':
+      return <SlidersHorizontal className="h-4 w-4 text-blue-500" />;
     case 'work_log_approved':
       return <FileText className="h-4 w-4 text-green-500" />;
     case 'work_log_rework':
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { COMP_OFF_STATUS_STYLES, CompOffCredit, fetchCompOffCredits } from '@/lib/compOff';
+
+interface CompOffCreditsCardProps {
+  employeeId: string;
+  minHours: number;
+  expiryDays: number;
+}
+
+export const CompOffCreditsCard = ({ employeeId, minHours, expiryDays }: CompOffCreditsCardProps) => {
+  const [credits, setCredits] = useState<CompOffCredit[]>([]);
+
+  const loadCredits = useCallback(async () => {
+    try {
+      setCredits(await fetchCompOffCredits(employeeId));
+    } catch (error) {
+      console.error('Error fetching comp-off credits:', error);
+    }
+  }, [employeeId]);
+
+  useEffect(() => {
+    loadCredits();
+  }, [loadCredits]);
+
+  if (credits.length === 0) return null;
+
+  const today = new Date();
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <div className="p-4 border-b border-border">
+        <h2 className="font-semibold text-foreground">Comp-Off Credits</h2>
+        <p className="text-sm text-muted-foreground">
+          Working {minHours}+ hours on a weekend or holiday earns comp-off once your manager approves it. Credits expire {expiryDays} days after the day worked.
+        </p>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Worked On</TableHead>
+            <TableHead>Hours</TableHead>
+            <TableHead>Days</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Comments</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {credits.map((credit) => {
+            const daysLeft = differenceInCalendarDays(parseISO(credit.expires_on), today);
+            return (
+              <TableRow key={credit.id}>
+                <TableCell>{format(parseISO(credit.work_date), 'EEE, MMM d, yyyy')}</TableCell>
+                <TableCell>{Number(credit.hours).toFixed(1)}</TableCell>
+                <TableCell>
+                  {credit.days}
+                  {credit.status === 'Expired' && credit.expired_days ? (
+                    <span className="text-xs text-muted-foreground ml-2">({credit.expired_days} lapsed)</span>
+                  ) : null}
+                </TableCell>
+                <TableCell>
+                  <Badge className={COMP_OFF_STATUS_STYLES[credit.status]}>{credit.status}</Badge>
+                </TableCell>
+                <TableCell>
+                  {format(parseISO(credit.expires_on), 'MMM d, yyyy')}
+                  {credit.status === 'Approved' && daysLeft >= 0 && daysLeft <= 14 && (
+                    <span className="text-xs text-orange-600 ml-2">({daysLeft} days left)</span>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[200px] truncate">{credit.review_comments || '-'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+};
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { Banknote, Loader2, X } from 'lucide-react';
+import {
+  ENCASHMENT_STATUS_STYLES,
+  LeaveEncashment,
+  cancelLeaveEncashment,
+  fetchEncashmentEligibility,
+  fetchLeaveEncashments,
+  formatEncashmentAmount,
+  requestLeaveEncashment,
+} from '@/lib/leaveEncashment';
+
+interface LeaveEncashmentCardProps {
+  employeeId: string;
+  year: number;
+  carryForwardLimit: number;
+  currency: string;
+  onChange?: () => void;
+}
+
+export const LeaveEncashmentCard = ({ employeeId, year, carryForwardLimit, currency, onChange }: LeaveEncashmentCardProps) => {
+  const [encashments, setEncashments] = useState<LeaveEncashment[]>([]);
+  const [eligibleDays, setEligibleDays] = useState(0);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [days, setDays] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [encashmentData, eligible] = await Promise.all([
+        fetchLeaveEncashments(employeeId),
+        fetchEncashmentEligibility(employeeId, year),
+      ]);
+      setEncashments(encashmentData);
+      setEligibleDays(eligible);
+    } catch (error) {
+      console.error('Error fetching leave encashments:', error);
+    }
+  }, [employeeId, year]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSubmit = async () => {
+    const amount = Number(days);
+    if (!amount || amount <= 0 || amount % 0.5 !== 0) {
+      toast({
+        title: 'Error',
+        description: 'Enter the number of days in steps of half a day',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (amount > eligibleDays) {
+      toast({
+        title: 'Error',
+        description: `You can encash up to ${eligibleDays} day(s)`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await requestLeaveEncashment(amount, year, reason.trim());
+      toast({
+        title: 'Encashment Requested',
+        description: `Your request to encash ${amount} day(s) has been sent to HR`,
+      });
+      setDialogOpen(false);
+      setDays('');
+      setReason('');
+      loadData();
+      onChange?.();
+    } catch (error) {
+      console.error('Error requesting leave encashment:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to request encashment',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (encashmentId: string) => {
+    try {
+      await cancelLeaveEncashment(encashmentId);
+      toast({ title: 'Encashment request cancelled' });
+      loadData();
+    } catch (error) {
+      console.error('Error cancelling leave encashment:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to cancel encashment request',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (eligibleDays === 0 && encashments.length === 0) return null;
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <div className="p-4 border-b border-border flex items-center justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-foreground">Leave Encashment</h2>
+          <p className="text-sm text-muted-foreground">
+            {eligibleDays > 0
+              ? `${eligibleDays} day(s) of Earned Leave above the ${carryForwardLimit}-day carry-forward cap can be encashed`
+              : `Earned Leave above the ${carryForwardLimit}-day carry-forward cap can be encashed`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setDialogOpen(true)} disabled={eligibleDays === 0}>
+          <Banknote className="w-4 h-4 mr-2" />
+          Encash Leave
+        </Button>
+      </div>
+
+      {encashments.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Requested On</TableHead>
+              <TableHead>Days</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Comments</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {encashments.map((encashment) => (
+              <TableRow key={encashment.id}>
+                <TableCell>{format(parseISO(encashment.created_at), 'MMM d, yyyy')}</TableCell>
+                <TableCell>{encashment.days}</TableCell>
+                <TableCell>{formatEncashmentAmount(encashment.amount, currency)}</TableCell>
+                <TableCell>
+                  <Badge className={ENCASHMENT_STATUS_STYLES[encashment.status]}>{encashment.status}</Badge>
+                </TableCell>
+                <TableCell className="max-w-[200px] truncate">
+                  {encashment.review_comments || encashment.reason || '-'}
+                </TableCell>
+                <TableCell>
+                  {encashment.status === 'Pending' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCancel(encashment.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Encash Earned Leave</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <p className="text-sm text-muted-foreground">
+              Up to {eligibleDays} day(s) are eligible. HR values approved days at the company's daily rate and pays them with your next salary.
+            </p>
+            <div className="space-y-2">
+              <Label>Days *</Label>
+              <Input
+                type="number"
+                min="0.5"
+                max={eligibleDays}
+                step="0.5"
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Note</Label>
+              <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Request Encashment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
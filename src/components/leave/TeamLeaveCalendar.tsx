@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { COMP_OFF_LEAVE_TYPE, LEAVE_TYPES } from '@/lib/leaveTypes';
+import {
+  TeamCalendarMember,
+  computeTeamCoverage,
+  fetchMandatoryHolidays,
+  fetchTeamLeaveCalendar,
+  getLeaveOn,
+  isWeekendDate,
+} from '@/lib/teamCoverage';
+import { addMonths, eachDayOfInterval, endOfMonth, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+interface TeamLeaveCalendarProps {
+  minAvailable: number;
+  weekends: string[];
+}
+
+const MY_TEAM = '__team__';
+
+const getShortLabel = (leaveType: string): string => {
+  return [...LEAVE_TYPES, COMP_OFF_LEAVE_TYPE].find(lt => lt.value === leaveType)?.shortLabel || 'L';
+};
+
+export const TeamLeaveCalendar = ({ minAvailable, weekends }: TeamLeaveCalendarProps) => {
+  const { role } = useAuth();
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const [group, setGroup] = useState(MY_TEAM);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [members, setMembers] = useState<TeamCalendarMember[]>([]);
+  const [holidays, setHolidays] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const from = format(month, 'yyyy-MM-dd');
+  const to = format(endOfMonth(month), 'yyyy-MM-dd');
+  const days = eachDayOfInterval({ start: month, end: endOfMonth(month) }).map(d => format(d, 'yyyy-MM-dd'));
+
+  const loadCalendar = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [memberData, holidayData] = await Promise.all([
+        fetchTeamLeaveCalendar(from, to, group === MY_TEAM ? {} : { department: group }),
+        fetchMandatoryHolidays(from, to),
+      ]);
+      setMembers(memberData);
+      setHolidays(holidayData);
+    } catch (error) {
+      console.error('Error fetching team calendar:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to load team calendar',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, group]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  // Admins can pick any department; managers the departments their reports belong to
+  useEffect(() => {
+    if (role !== 'Admin') return;
+
+    const loadDepartments = async () => {
+      const { data, error } = await supabase
+        .from('hr_employee_details')
+        .select('department')
+        .not('department', 'is', null);
+
+      if (error) {
+        console.error('Error fetching departments:', error);
+        return;
+      }
+      setDepartments(Array.from(new Set((data || []).map(d => d.department as string))).sort());
+    };
+    loadDepartments();
+  }, [role]);
+
+  useEffect(() => {
+    if (role === 'Admin' || group !== MY_TEAM) return;
+    setDepartments(Array.from(new Set(members.map(m => m.department).filter(Boolean) as string[])).sort());
+  }, [role, group, members]);
+
+  const coverage = new Map(
+    computeTeamCoverage(members, from, to, { weekends, holidays }).map(day => [day.date, day])
+  );
+
+  return (
+    <div>
+      <div className="p-4 border-b border-border flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setMonth(subMonths(month, 1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-semibold text-foreground w-36 text-center">{format(month, 'MMMM yyyy')}</span>
+          <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <Select value={group} onValueChange={setGroup}>
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={MY_TEAM}>My team</SelectItem>
+            {departments.map(department => (
+              <SelectItem key={department} value={department}>{department}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : members.length === 0 ? (
+        <div className="p-12 text-center">
+          <CalendarDays className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">No team members to show</p>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-card text-left font-medium text-muted-foreground px-3 py-2 min-w-[160px]">
+                    Employee
+                  </th>
+                  {days.map(date => (
+                    <th
+                      key={date}
+                      title={holidays.get(date)}
+                      className={cn(
+                        'w-8 px-0 py-2 font-medium text-center',
+                        holidays.has(date) ? 'text-primary' : 'text-muted-foreground'
+                      )}
+                    >
+                      <div>{format(parseISO(date), 'EEEEE')}</div>
+                      <div>{format(parseISO(date), 'd')}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {members.map(member => (
+                  <tr key={member.employee_id} className="border-t border-border">
+                    <td className="sticky left-0 bg-card px-3 py-1.5 font-medium text-foreground truncate max-w-[160px]">
+                      {member.full_name}
+                    </td>
+                    {days.map(date => {
+                      const leave = getLeaveOn(member, date);
+                      const offDay = holidays.has(date) || isWeekendDate(date, weekends);
+                      const halfDay = leave && (leave.start_date === leave.end_date
+                        ? leave.start_session !== 'full'
+                        : (leave.start_date === date && leave.start_session === 'second_half') ||
+                          (leave.end_date === date && leave.end_session === 'first_half'));
+                      return (
+                        <td key={date} className={cn('p-0.5', offDay && 'bg-muted/60')}>
+                          {leave && !offDay && (
+                            <div
+                              title={`${leave.leave_type} (${leave.status})${halfDay ? ' - half day' : ''}`}
+                              className={cn(
+                                'h-6 rounded flex items-center justify-center font-medium',
+                                leave.status === 'Approved'
+                                  ? 'bg-primary text-primary-foreground'
+                                  : 'border border-dashed border-yellow-500 bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300'
+                              )}
+                            >
+                              {halfDay ? '½' : getShortLabel(leave.leave_type)}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="border-t-2 border-border">
+                  <td className="sticky left-0 bg-card px-3 py-2 font-medium text-muted-foreground">Available</td>
+                  {days.map(date => {
+                    const day = coverage.get(date);
+                    return (
+                      <td
+                        key={date}
+                        title={day?.pendingAway.length ? `Pending: ${day.pendingAway.join(', ')}` : undefined}
+                        className={cn(
+                          'py-2 text-center font-semibold',
+                          day && day.available < minAvailable ? 'text-destructive' : 'text-foreground'
+                        )}
+                      >
+                        {day ? day.available : ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="p-4 border-t border-border flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded bg-primary" /> Approved
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded border border-dashed border-yellow-500 bg-yellow-100" /> Pending
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded bg-muted" /> Weekend / holiday
+            </span>
+            {minAvailable > 0 && (
+              <span>
+                Days in <span className="text-destructive font-medium">red</span> have fewer than {minAvailable} available
+              </span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
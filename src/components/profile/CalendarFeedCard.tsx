@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarDays, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  CalendarFeedToken,
+  createCalendarFeedToken,
+  fetchCalendarFeedToken,
+  getCalendarFeedUrl,
+  revokeCalendarFeedToken,
+} from '@/lib/calendarFeed';
+
+interface CalendarFeedCardProps {
+  employeeId: string;
+  isManager: boolean;
+}
+
+export const CalendarFeedCard = ({ employeeId, isManager }: CalendarFeedCardProps) => {
+  const { toast } = useToast();
+  const [feedToken, setFeedToken] = useState<CalendarFeedToken | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [confirmRevoke, setConfirmRevoke] = useState(false);
+
+  const loadToken = useCallback(async () => {
+    try {
+      setFeedToken(await fetchCalendarFeedToken(employeeId));
+    } catch (error) {
+      console.error('Error fetching calendar feed:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId]);
+
+  useEffect(() => {
+    loadToken();
+  }, [loadToken]);
+
+  const handleCreate = async () => {
+    setWorking(true);
+    try {
+      await createCalendarFeedToken();
+      await loadToken();
+      toast({
+        title: feedToken ? 'Link Regenerated' : 'Subscription Link Created',
+        description: feedToken
+          ? 'Calendars using the old link will stop updating.'
+          : 'Add the link to your calendar app as a subscription.',
+      });
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to create calendar link',
+        variant: 'destructive',
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setWorking(true);
+    try {
+      await revokeCalendarFeedToken();
+      setFeedToken(null);
+      toast({ title: 'Subscription Revoked', description: 'The calendar link no longer works.' });
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke calendar link',
+        variant: 'destructive',
+      });
+    } finally {
+      setWorking(false);
+      setConfirmRevoke(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedToken) return;
+    await navigator.clipboard.writeText(getCalendarFeedUrl(feedToken.token));
+    toast({ title: 'Link copied' });
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-semibold text-foreground flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-primary" />
+            Calendar Subscription
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Subscribe from Google Calendar, Outlook or Apple Calendar to see your approved leaves and holidays
+            {isManager ? ", plus your team's approved leaves" : ''}. Anyone with the link can read it.
+          </p>
+        </div>
+        {!loading && !feedToken && (
+          <Button variant="outline" size="sm" onClick={handleCreate} disabled={working}>
+            {working ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarDays className="w-4 h-4 mr-2" />}
+            Create Link
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      ) : feedToken ? (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input readOnly value={getCalendarFeedUrl(feedToken.token)} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopy}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Created {format(new Date(feedToken.created_at), 'dd MMM yyyy')}
+              {feedToken.last_accessed_at
+                ? ` · Last synced ${formatDistanceToNow(new Date(feedToken.last_accessed_at), { addSuffix: true })}`
+                : ' · Not synced yet'}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCreate} disabled={working}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Regenerate
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfirmRevoke(true)}
+                disabled={working}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Revoke
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      <AlertDialog open={confirmRevoke} onOpenChange={setConfirmRevoke}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Calendar Link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Calendar apps subscribed with this link will stop receiving updates. You can create a new link at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
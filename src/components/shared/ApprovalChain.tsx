@@ -0,0 +1,52 @@
+import { CheckCircle, Clock, XCircle, MinusCircle, ChevronRight } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { LeaveApprovalStep, sortApprovalSteps } from '@/lib/leaveApproval';
+
+interface ApprovalChainProps {
+  steps: LeaveApprovalStep[] | null | undefined;
+  className?: string;
+}
+
+const stepStyles = {
+  Approved: { icon: CheckCircle, className: 'text-status-present' },
+  Rejected: { icon: XCircle, className: 'text-status-absent' },
+  Pending: { icon: Clock, className: 'text-status-partial' },
+  Waiting: { icon: Clock, className: 'text-muted-foreground' },
+  Skipped: { icon: MinusCircle, className: 'text-muted-foreground' },
+};
+
+const stepLabel = (step: LeaveApprovalStep) => {
+  if (step.approver_role === 'HR') return 'HR';
+  return step.approver?.full_name || 'Manager';
+};
+
+const stepTitle = (step: LeaveApprovalStep) => {
+  const parts = [`${step.approver_role}: ${step.status}`];
+  if (step.actor?.full_name) parts.push(`by ${step.actor.full_name}`);
+  if (step.acted_at) parts.push(`on ${format(parseISO(step.acted_at), 'MMM d, yyyy h:mm a')}`);
+  if (step.comments) parts.push(`– ${step.comments}`);
+  return parts.join(' ');
+};
+
+export const ApprovalChain: React.FC<ApprovalChainProps> = ({ steps, className }) => {
+  const sorted = sortApprovalSteps(steps);
+  if (sorted.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1 text-xs', className)}>
+      {sorted.map((step, index) => {
+        const { icon: Icon, className: iconClass } = stepStyles[step.status] || stepStyles.Waiting;
+        return (
+          <span key={step.id} className="flex items-center gap-1" title={stepTitle(step)}>
+            {index > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+            <Icon className={cn('w-3.5 h-3.5', iconClass)} />
+            <span className={step.status === 'Pending' ? 'font-medium text-foreground' : 'text-muted-foreground'}>
+              {stepLabel(step)}
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,40 +1,46 @@
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  EFFICIENCY_TARGET,
+  EfficiencySnapshot,
+  formatSnapshotWeek,
+  getEfficiencyLevel,
+} from '@/lib/efficiency';
 
 interface EfficiencyDotProps {
-  value: number;
+  snapshot: EfficiencySnapshot | null;
   expected?: number;
   date?: string;
   showTooltip?: boolean;
 }
 
-export const EfficiencyDot: React.FC<EfficiencyDotProps> = ({ 
-  value, 
-  expected = 80, 
+const formatPart = (value: number | null) => (value === null ? 'no data' : `${Number(value)}%`);
+
+export const EfficiencyDot: React.FC<EfficiencyDotProps> = ({
+  snapshot,
+  expected = EFFICIENCY_TARGET,
   date,
-  showTooltip = true 
+  showTooltip = true
 }) => {
-  const getEfficiencyLevel = (val: number, exp: number) => {
-    if (val >= exp) return 'high';
-    if (val >= exp - 15) return 'medium';
-    return 'low';
-  };
-
+  const value = snapshot?.efficiency ?? null;
   const level = getEfficiencyLevel(value, expected);
-  
+
   const dot = (
-    <div 
+    <div
       className={cn(
         'efficiency-dot',
         level === 'high' && 'efficiency-high',
         level === 'medium' && 'efficiency-medium',
-        level === 'low' && 'efficiency-low'
+        level === 'low' && 'efficiency-low',
+        level === 'none' && 'bg-muted'
       )}
     />
   );
 
   if (!showTooltip) return dot;
 
+  const label = date || (snapshot ? formatSnapshotWeek(snapshot.week_start) : undefined);
+
   return (
     <Tooltip>
       <TooltipTrigger asChild>
@@ -42,9 +48,15 @@ export const EfficiencyDot: React.FC<EfficiencyDotProps> = ({
       </TooltipTrigger>
       <TooltipContent>
         <p className="text-sm">
-          {date && <span className="font-medium">{date}: </span>}
-          {value}% (Expected: {expected}%)
+          {label && <span className="font-medium">{label}: </span>}
+          {value === null ? 'Not scored' : `${Number(value)}% (Expected: ${expected}%)`}
         </p>
+        {snapshot && (
+          <p className="text-xs text-muted-foreground">
+            Utilization {formatPart(snapshot.utilization)} · Quality {formatPart(snapshot.quality)} · On time{' '}
+            {formatPart(snapshot.on_time_rate)}
+          </p>
+        )}
       </TooltipContent>
     </Tooltip>
   );
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { Download, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  LEDGER_ENTRY_LABELS,
+  LeaveStatementRow,
+  buildLeaveStatement,
+  exportLeaveStatement,
+  fetchLeaveLedger,
+  formatLedgerDays,
+} from '@/lib/leaveLedger';
+
+interface LeaveStatementModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string;
+  employeeName: string;
+}
+
+const ALL_TYPES = 'all';
+
+export const LeaveStatementModal = ({ open, onOpenChange, employeeId, employeeName }: LeaveStatementModalProps) => {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [leaveType, setLeaveType] = useState(ALL_TYPES);
+  const [rows, setRows] = useState<LeaveStatementRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadStatement = useCallback(async () => {
+    setLoading(true);
+    try {
+      const entries = await fetchLeaveLedger(employeeId, year);
+      setRows(buildLeaveStatement(entries));
+    } catch (error) {
+      console.error('Error fetching leave statement:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load leave statement',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId, year]);
+
+  useEffect(() => {
+    if (open && employeeId) {
+      loadStatement();
+    }
+  }, [open, employeeId, loadStatement]);
+
+  const leaveTypes = useMemo(() => Array.from(new Set(rows.map(r => r.leave_type))).sort(), [rows]);
+  const visibleRows = leaveType === ALL_TYPES ? rows : rows.filter(r => r.leave_type === leaveType);
+  const years = [currentYear + 1, currentYear, currentYear - 1, currentYear - 2];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Leave Statement – {employeeName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(y => (
+                <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={leaveType} onValueChange={setLeaveType}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>All leave types</SelectItem>
+              {leaveTypes.map(type => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            className="ml-auto"
+            disabled={visibleRows.length === 0}
+            onClick={() => exportLeaveStatement(employeeName, year, visibleRows)}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : visibleRows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No ledger entries for {year}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Leave Type</TableHead>
+                <TableHead>Entry</TableHead>
+                <TableHead className="text-right">Days</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map(row => (
+                <TableRow key={row.id}>
+                  <TableCell className="whitespace-nowrap">{format(parseISO(row.created_at), 'MMM d, yyyy')}</TableCell>
+                  <TableCell>{row.leave_type}</TableCell>
+                  <TableCell>{LEDGER_ENTRY_LABELS[row.entry_type] || row.entry_type}</TableCell>
+                  <TableCell
+                    className={cn(
+                      'text-right font-medium',
+                      row.change < 0 ? 'text-status-absent' : 'text-status-present'
+                    )}
+                  >
+                    {formatLedgerDays(row.change)}
+                  </TableCell>
+                  <TableCell className="text-right">{row.balance}</TableCell>
+                  <TableCell className="text-muted-foreground">{row.reason}</TableCell>
+                  <TableCell className="text-muted-foreground">{row.actor?.full_name || 'System'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
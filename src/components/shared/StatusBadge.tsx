@@ -1,7 +1,7 @@
 import { cn } from '@/lib/utils';
 
 interface StatusBadgeProps {
-  status: 'present' | 'absent' | 'partial' | 'pending' | 'approved' | 'rejected';
+  status: 'present' | 'absent' | 'partial' | 'wfh' | 'pending' | 'approved' | 'rejected';
   className?: string;
 }
 
@@ -12,6 +12,7 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className }) =
     absent: 'status-absent',
     rejected: 'status-absent',
     partial: 'status-partial',
+    wfh: 'status-wfh',
     pending: 'status-pending',
   };
 
@@ -19,6 +20,7 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className }) =
     present: 'Present',
     absent: 'Absent',
     partial: 'Partial',
+    wfh: 'Work From Home',
     pending: 'Pending',
     approved: 'Approved',
     rejected: 'Rejected',
@@ -5,12 +5,21 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { X, Save } from 'lucide-react';
-import { TASK_CATEGORIES, type TaskCategory, type WorkLogTask } from '@/types/worklog';
+import type { TaskCategory, WorkLogTask } from '@/types/worklog';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
+import { type Project, formatProjectLabel, isProjectOpenOn } from '@/lib/projects';
 import { CategoryIcon } from './CategoryIcon';
 
+// Select value for tasks not booked to a project
+const NO_PROJECT = 'none';
+
+// Preselected for new tasks when the org still has it
+const DEFAULT_CATEGORY = 'Development';
+
 interface AddTaskFormProps {
   dateStr: string;
   employees: { id: string; full_name: string; role: string }[];
+  projects?: Project[];
   managerId?: string;
   editingTask?: WorkLogTask | null;
   onSave: (data: {
@@ -21,6 +30,7 @@ interface AddTaskFormProps {
     assigned_by_type: 'Self' | 'Employee' | 'Manager' | 'Admin';
     assigned_by_id: string | null;
     description: string | null;
+    project_id: string | null;
   }) => Promise<boolean>;
   onUpdate?: (taskId: string, updates: Partial<WorkLogTask>) => Promise<boolean>;
   onCancel: () => void;
@@ -30,6 +40,7 @@ interface AddTaskFormProps {
 export const AddTaskForm = ({
   dateStr,
   employees,
+  projects = [],
   managerId,
   editingTask,
   onSave,
@@ -37,12 +48,14 @@ export const AddTaskForm = ({
   onCancel,
   saving,
 }: AddTaskFormProps) => {
+  const { available: availableCategories, getCategoryConfig } = useTaskCategories();
   const [taskTitle, setTaskTitle] = useState('');
-  const [category, setCategory] = useState<TaskCategory>('Development');
+  const [category, setCategory] = useState<TaskCategory>('');
   const [durationMinutes, setDurationMinutes] = useState<number>(60);
   const [assignedByType, setAssignedByType] = useState<'Self' | 'Employee' | 'Manager' | 'Admin'>('Self');
   const [assignedById, setAssignedById] = useState<string | null>(null);
   const [description, setDescription] = useState('');
+  const [projectId, setProjectId] = useState<string | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
@@ -53,15 +66,27 @@ export const AddTaskForm = ({
       setAssignedByType(editingTask.assigned_by_type);
       setAssignedById(editingTask.assigned_by_id);
       setDescription(editingTask.description || '');
+      setProjectId(editingTask.project_id);
     }
   }, [editingTask]);
 
+  useEffect(() => {
+    if (!editingTask && !category && availableCategories.length > 0) {
+      const preferred = availableCategories.find(c => c.value === DEFAULT_CATEGORY) || availableCategories[0];
+      setCategory(preferred.value);
+    }
+  }, [editingTask, category, availableCategories]);
+
   const validate = () => {
     const newErrors: Record<string, string> = {};
     
     if (!taskTitle.trim()) {
       newErrors.taskTitle = 'Task title is required';
     }
+
+    if (!category) {
+      newErrors.category = 'Please select a category';
+    }
     
     if (durationMinutes <= 0) {
       newErrors.duration = 'Duration must be greater than 0';
@@ -87,6 +112,7 @@ export const AddTaskForm = ({
       assigned_by_type: assignedByType,
       assigned_by_id: assignedByType === 'Self' ? null : assignedById,
       description: description.trim() || null,
+      project_id: projectId,
     };
 
     let success = false;
@@ -101,6 +127,14 @@ export const AddTaskForm = ({
     }
   };
 
+  // Categories this employee can choose, plus the task's current one so editing keeps it
+  const categoryOptions = editingTask && !availableCategories.some(c => c.value === editingTask.category)
+    ? [...availableCategories, getCategoryConfig(editingTask.category)]
+    : availableCategories;
+
+  // Projects open on this day, plus the task's current one so editing keeps it
+  const availableProjects = projects.filter(p => isProjectOpenOn(p, dateStr) || p.id === editingTask?.project_id);
+
   const managers = employees.filter(e => e.role === 'Manager');
   const admins = employees.filter(e => e.role === 'Admin');
 
@@ -137,10 +171,10 @@ export const AddTaskForm = ({
           <Label htmlFor="category">Category *</Label>
           <Select value={category} onValueChange={(v) => setCategory(v as TaskCategory)}>
             <SelectTrigger>
-              <SelectValue />
+              <SelectValue placeholder="Select category" />
             </SelectTrigger>
             <SelectContent className="bg-popover">
-              {TASK_CATEGORIES.map((cat) => (
+              {categoryOptions.map((cat) => (
                 <SelectItem key={cat.value} value={cat.value}>
                   <span className="flex items-center gap-2">
                     <CategoryIcon category={cat.value} size="sm" />
@@ -150,6 +184,7 @@ export const AddTaskForm = ({
               ))}
             </SelectContent>
           </Select>
+          {errors.category && <p className="text-xs text-destructive mt-1">{errors.category}</p>}
         </div>
 
         <div>
@@ -171,6 +206,29 @@ export const AddTaskForm = ({
           {errors.duration && <p className="text-xs text-destructive mt-1">{errors.duration}</p>}
         </div>
 
+        {(availableProjects.length > 0 || projectId) && (
+          <div className="sm:col-span-2">
+            <Label htmlFor="project">Project</Label>
+            <Select value={projectId || NO_PROJECT} onValueChange={(v) => setProjectId(v === NO_PROJECT ? null : v)}>
+              <SelectTrigger id="project">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover">
+                <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                {availableProjects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    <span className="flex items-center gap-2">
+                      <span>{formatProjectLabel(project)}</span>
+                      {project.client && <span className="text-muted-foreground">({project.client})</span>}
+                      {project.is_billable && <span className="text-xs text-emerald-600">Billable</span>}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div>
           <Label htmlFor="assignedByType">Assigned By</Label>
           <Select value={assignedByType} onValueChange={(v) => {
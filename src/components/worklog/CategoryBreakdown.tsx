@@ -1,4 +1,5 @@
-import { getCategoryConfig, type TaskCategory } from '@/types/worklog';
+import type { TaskCategory } from '@/types/worklog';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
 import { CategoryIcon } from './CategoryIcon';
 
 interface CategoryBreakdownProps {
@@ -13,6 +14,7 @@ const formatDuration = (minutes: number): string => {
 };
 
 export const CategoryBreakdown = ({ breakdown }: CategoryBreakdownProps) => {
+  const { getCategoryConfig } = useTaskCategories();
   const entries = Object.entries(breakdown)
     .filter(([_, mins]) => mins > 0)
     .sort((a, b) => b[1] - a[1]) as [TaskCategory, number][];
@@ -35,12 +37,12 @@ export const CategoryBreakdown = ({ breakdown }: CategoryBreakdownProps) => {
               </div>
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between text-sm mb-1">
-                  <span className="truncate">{category}</span>
+                  <span className="truncate">{config.label}</span>
                   <span className="text-muted-foreground font-mono">{formatDuration(minutes)}</span>
                 </div>
                 <div className="w-full bg-muted rounded-full h-1.5">
                   <div 
-                    className={`h-1.5 rounded-full transition-all ${config.color.replace('text-', 'bg-')}`}
+                    className={`h-1.5 rounded-full transition-all ${config.barColor}`}
                     style={{ width: `${percentage}%` }}
                   />
                 </div>
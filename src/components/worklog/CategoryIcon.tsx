@@ -1,4 +1,5 @@
-import { getCategoryConfig, type TaskCategory } from '@/types/worklog';
+import type { TaskCategory } from '@/types/worklog';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
 import { cn } from '@/lib/utils';
 
 interface CategoryIconProps {
@@ -15,6 +16,7 @@ const sizeMap = {
 };
 
 export const CategoryIcon = ({ category, size = 'md', showLabel = false, className }: CategoryIconProps) => {
+  const { getCategoryConfig } = useTaskCategories();
   const config = getCategoryConfig(category);
   const Icon = config.icon;
 
@@ -0,0 +1,58 @@
+import { useTaskCategories } from '@/hooks/useTaskCategories';
+import type { CategoryMixComparison as CategoryMixRow } from '@/lib/workExpectations';
+import { CategoryIcon } from './CategoryIcon';
+
+interface CategoryMixComparisonProps {
+  rows: CategoryMixRow[];
+  // Variances within this many percentage points are treated as on target
+  tolerance?: number;
+}
+
+export const CategoryMixComparison = ({ rows, tolerance = 5 }: CategoryMixComparisonProps) => {
+  const { getCategoryConfig } = useTaskCategories();
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {rows.map(row => {
+        const config = getCategoryConfig(row.category);
+        const offTarget = row.targetPercent > 0 && Math.abs(row.variance) > tolerance;
+        return (
+          <div key={row.category} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <CategoryIcon category={row.category} size="sm" />
+                <span>{config.label}</span>
+              </div>
+              <span className="font-mono text-muted-foreground">
+                {row.actualPercent}%
+                {row.targetPercent > 0 && (
+                  <>
+                    {' / '}{row.targetPercent}%
+                    <span className={`ml-2 ${offTarget ? 'text-amber-600' : 'text-green-600'}`}>
+                      {row.variance > 0 ? '+' : ''}{row.variance}
+                    </span>
+                  </>
+                )}
+              </span>
+            </div>
+            <div className="relative w-full bg-muted rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${config.barColor}`}
+                style={{ width: `${Math.min(row.actualPercent, 100)}%` }}
+              />
+              {row.targetPercent > 0 && (
+                <div
+                  className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-foreground/50"
+                  style={{ left: `${Math.min(row.targetPercent, 100)}%` }}
+                  title={`Target ${row.targetPercent}%`}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -6,10 +6,12 @@ import { DayStatusBadge } from './DayStatusBadge';
 import { TaskCard } from './TaskCard';
 import { AddTaskForm } from './AddTaskForm';
 import type { DayTasks, WorkLogTask, TaskCategory } from '@/types/worklog';
+import type { Project } from '@/lib/projects';
 
 interface DaySectionProps {
   day: DayTasks;
   employees: { id: string; full_name: string; role: string }[];
+  projects?: Project[];
   managerId?: string;
   isEditable: boolean;
   saving: boolean;
@@ -21,6 +23,7 @@ interface DaySectionProps {
     assigned_by_type: 'Self' | 'Employee' | 'Manager' | 'Admin';
     assigned_by_id: string | null;
     description: string | null;
+    project_id: string | null;
   }) => Promise<boolean>;
   onUpdateTask: (taskId: string, updates: Partial<WorkLogTask>) => Promise<boolean>;
   onDeleteTask: (taskId: string) => Promise<boolean>;
@@ -37,6 +40,7 @@ const formatDuration = (minutes: number): string => {
 export const DaySection = ({
   day,
   employees,
+  projects,
   managerId,
   isEditable,
   saving,
@@ -128,6 +132,7 @@ export const DaySection = ({
               key={task.id}
               dateStr={day.dateStr}
               employees={employees}
+              projects={projects}
               managerId={managerId}
               editingTask={task}
               onSave={handleSaveTask}
@@ -152,6 +157,7 @@ export const DaySection = ({
           <AddTaskForm
             dateStr={day.dateStr}
             employees={employees}
+            projects={projects}
             managerId={managerId}
             editingTask={duplicatingTask ? { ...duplicatingTask, id: '', log_date: day.dateStr } as WorkLogTask : null}
             onSave={handleSaveTask}
@@ -0,0 +1,52 @@
+import { Badge } from '@/components/ui/badge';
+import type { ProjectTimeRow } from '@/lib/projects';
+
+interface ProjectBreakdownProps {
+  rows: ProjectTimeRow[];
+}
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1)}h`;
+
+export const ProjectBreakdown = ({ rows }: ProjectBreakdownProps) => {
+  if (rows.length === 0) return null;
+
+  const totalMinutes = rows.reduce((sum, row) => sum + row.minutes, 0);
+  const billableMinutes = rows.filter(row => row.isBillable).reduce((sum, row) => sum + row.minutes, 0);
+
+  return (
+    <div className="space-y-3">
+      {rows.map(row => (
+        <div key={row.projectId ?? 'none'} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              {row.projectId && <span className="font-mono text-xs text-muted-foreground">{row.code}</span>}
+              <span className={`truncate ${row.projectId ? '' : 'text-muted-foreground'}`}>{row.name}</span>
+              {row.client && <span className="text-xs text-muted-foreground truncate">{row.client}</span>}
+              {row.isBillable && (
+                <Badge variant="outline" className="text-xs px-1.5 py-0 h-5 text-emerald-600 border-emerald-500/30">
+                  Billable
+                </Badge>
+              )}
+            </div>
+            <span className="font-mono text-muted-foreground whitespace-nowrap">
+              {formatHours(row.minutes)} ({row.percent}%)
+            </span>
+          </div>
+          <div className="w-full bg-muted rounded-full h-2">
+            <div
+              className={`h-2 rounded-full ${row.projectId ? (row.isBillable ? 'bg-emerald-500' : 'bg-primary') : 'bg-muted-foreground/40'}`}
+              style={{ width: `${Math.min(row.percent, 100)}%` }}
+            />
+          </div>
+        </div>
+      ))}
+
+      {totalMinutes > 0 && (
+        <p className="pt-3 border-t text-sm text-muted-foreground">
+          Billable: {formatHours(billableMinutes)} of {formatHours(totalMinutes)} (
+          {Math.round((billableMinutes / totalMinutes) * 100)}%)
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { Project, buildBurnDown, fetchProjectBurnDown, formatProjectLabel } from '@/lib/projects';
+
+interface ProjectBurnDownProps {
+  // Projects with a budget to choose from; the first is shown initially
+  projects: Project[];
+}
+
+export const ProjectBurnDown = ({ projects }: ProjectBurnDownProps) => {
+  const [projectId, setProjectId] = useState<string | null>(projects[0]?.id ?? null);
+  const [weeks, setWeeks] = useState<{ week_start: string; logged_minutes: number }[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Fall back to the first project when the list changes underneath the selection
+  useEffect(() => {
+    if (!projects.some(p => p.id === projectId)) {
+      setProjectId(projects[0]?.id ?? null);
+    }
+  }, [projects, projectId]);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchProjectBurnDown(projectId)
+      .then(data => { if (!cancelled) setWeeks(data); })
+      .catch(error => {
+        console.error('Error fetching project burn-down:', error);
+        if (!cancelled) setWeeks([]);
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const project = projects.find(p => p.id === projectId) || null;
+  const points = useMemo(() => (project ? buildBurnDown(project, weeks) : []), [project, weeks]);
+
+  if (!project) {
+    return (
+      <div className="flex items-center justify-center h-[200px] text-muted-foreground text-center">
+        No projects with a budget in this period
+      </div>
+    );
+  }
+
+  const budget = Number(project.budget_hours);
+  const usedHours = Math.round((weeks.reduce((sum, w) => sum + w.logged_minutes, 0) / 60) * 10) / 10;
+  const percentUsed = budget > 0 ? Math.round((usedHours / budget) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <Select value={project.id} onValueChange={setProjectId}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover">
+          {projects.map(p => (
+            <SelectItem key={p.id} value={p.id}>
+              {formatProjectLabel(p)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-[220px]">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="label" className="text-xs" />
+            <YAxis tickFormatter={(value) => `${value}h`} className="text-xs" />
+            <Tooltip
+              formatter={(value: number, name: string) => [`${value}h`, name]}
+              contentStyle={{ backgroundColor: 'hsl(var(--popover))', border: '1px solid hsl(var(--border))' }}
+            />
+            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+            <Line
+              type="monotone"
+              dataKey="remainingHours"
+              name="Remaining"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              dot={false}
+              connectNulls={false}
+            />
+            {project.end_date && (
+              <Line
+                type="linear"
+                dataKey="idealHours"
+                name="Planned"
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Budget used (whole organization)</span>
+          <span className={`font-mono font-medium ${usedHours > budget ? 'text-destructive' : ''}`}>
+            {usedHours}h / {budget}h ({percentUsed}%)
+          </span>
+        </div>
+        <div className="w-full bg-muted rounded-full h-2">
+          <div
+            className={`h-2 rounded-full ${usedHours > budget ? 'bg-destructive' : 'bg-primary'}`}
+            style={{ width: `${Math.min(percentUsed, 100)}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
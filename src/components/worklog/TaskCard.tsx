@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Edit2, Trash2, Copy, ChevronDown, ChevronUp, User, Briefcase, Shield, Users } from 'lucide-react';
 import { type WorkLogTask, getAssignmentBadgeConfig } from '@/types/worklog';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
 import { CategoryIcon } from './CategoryIcon';
 import { cn } from '@/lib/utils';
 
@@ -39,6 +40,7 @@ const AssignmentIcon = ({ type }: { type: string }) => {
 
 export const TaskCard = ({ task, isEditable, currentManagerId, onEdit, onDelete, onDuplicate }: TaskCardProps) => {
   const [expanded, setExpanded] = useState(false);
+  const { getCategoryConfig } = useTaskCategories();
   const hasDescription = task.description && task.description.length > 0;
   const hasReworkComment = task.rework_comment && task.rework_comment.length > 0;
 
@@ -67,8 +69,20 @@ export const TaskCard = ({ task, isEditable, currentManagerId, onEdit, onDelete,
             </div>
             
             <div className="flex items-center gap-2 mt-1 flex-wrap">
-              <span className="text-xs text-muted-foreground capitalize">{task.category}</span>
+              <span className="text-xs text-muted-foreground capitalize">{getCategoryConfig(task.category).label}</span>
               <span className="text-xs text-muted-foreground">•</span>
+              {task.project && (
+                <>
+                  <Badge
+                    variant="outline"
+                    className="text-xs px-1.5 py-0 h-5 font-mono"
+                    title={[task.project.name, task.project.client].filter(Boolean).join(' · ')}
+                  >
+                    {task.project.code}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">•</span>
+                </>
+              )}
               <Badge variant="outline" className={cn("text-xs px-1.5 py-0 h-5 gap-1", assignmentConfig.className)}>
                 <AssignmentIcon type={task.assigned_by_type} />
                 {task.assigned_by_type === 'Self' 
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useMemo, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TaskCategoriesContext } from '@/hooks/useTaskCategories';
+import { fetchTaskCategories, isCategoryAvailableTo, toCategoryConfig } from '@/lib/taskCategories';
+import { getCategoryConfig, type TaskCategory, type TaskCategoryConfig } from '@/types/worklog';
+
+interface TaskCategoriesProviderProps {
+  children: ReactNode;
+}
+
+export const TaskCategoriesProvider = ({ children }: TaskCategoriesProviderProps) => {
+  const { employee } = useAuth();
+  const [categories, setCategories] = useState<TaskCategoryConfig[]>([]);
+  const [department, setDepartment] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!employee?.id) {
+      setCategories([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [definitions, { data: details }] = await Promise.all([
+        fetchTaskCategories(true),
+        supabase.from('hr_employee_details').select('department').eq('employee_id', employee.id).maybeSingle(),
+      ]);
+      setCategories(definitions.map(toCategoryConfig));
+      setDepartment(details?.department ?? null);
+    } catch (err) {
+      console.error('Error fetching task categories:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const value = useMemo(
+    () => ({
+      categories,
+      available: categories.filter(c => isCategoryAvailableTo(c, department)),
+      getCategoryConfig: (category: TaskCategory) => getCategoryConfig(category, categories),
+      loading,
+      refresh,
+    }),
+    [categories, department, loading, refresh]
+  );
+
+  return <TaskCategoriesContext.Provider value={value}>{children}</TaskCategoriesContext.Provider>;
+};
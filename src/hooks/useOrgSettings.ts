@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_ORG_SETTINGS, OrgSettings, applyLeavePolicy, fetchOrgSettings } from '@/lib/orgSettings';
+
+export const useOrgSettings = () => {
+  const { orgId } = useAuth();
+  const [settings, setSettings] = useState<OrgSettings>(DEFAULT_ORG_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!orgId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setSettings(await fetchOrgSettings(orgId));
+    } catch (err) {
+      console.error('Error fetching org settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [orgId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Leave types with the org's quotas applied
+  const leaveTypes = useMemo(() => applyLeavePolicy(settings.leavePolicy), [settings.leavePolicy]);
+
+  return { settings, leaveTypes, loading, refresh };
+};
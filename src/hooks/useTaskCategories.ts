@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { TaskCategory, TaskCategoryConfig } from '@/types/worklog';
+
+export interface TaskCategoriesContextType {
+  categories: TaskCategoryConfig[]; // Archived ones included, so past tasks still display
+  available: TaskCategoryConfig[]; // Active categories the signed-in employee can choose
+  getCategoryConfig: (category: TaskCategory) => TaskCategoryConfig;
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export const TaskCategoriesContext = createContext<TaskCategoriesContextType | undefined>(undefined);
+
+// The org's work-log task categories, loaded once by TaskCategoriesProvider
+export const useTaskCategories = () => {
+  const context = useContext(TaskCategoriesContext);
+  if (context === undefined) {
+    throw new Error('useTaskCategories must be used within a TaskCategoriesProvider');
+  }
+  return context;
+};
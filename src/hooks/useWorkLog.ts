@@ -4,6 +4,9 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { format, startOfWeek, endOfWeek, addDays, parseISO, subWeeks, addWeeks } from 'date-fns';
 import type { WorkLogWeek, WorkLogTask, DayTasks, WeekSummary, TaskCategory } from '@/types/worklog';
+import { DEFAULT_WEEKLY_HOURS, WorkExpectation, fetchWorkExpectations, resolveExpectation } from '@/lib/workExpectations';
+import { ReconciliationDay, fetchWorkLogReconciliation } from '@/lib/workLogReconciliation';
+import { Project, TASK_PROJECT_SELECT, fetchProjects } from '@/lib/projects';
 
 const getMonday = (date: Date): Date => startOfWeek(date, { weekStartsOn: 1 });
 const getFriday = (date: Date): Date => addDays(getMonday(date), 4);
@@ -19,6 +22,8 @@ export const useWorkLog = () => {
   const [tasks, setTasks] = useState<WorkLogTask[]>([]);
   const [employees, setEmployees] = useState<{ id: string; full_name: string; role: string }[]>([]);
   const [autoSaveStatus, setAutoSaveStatus] = useState<'saved' | 'saving' | 'error' | null>(null);
+  const [expectations, setExpectations] = useState<WorkExpectation[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
 
   const weekStartStr = format(currentWeekStart, 'yyyy-MM-dd');
   const weekEndStr = format(getFriday(currentWeekStart), 'yyyy-MM-dd');
@@ -36,6 +41,21 @@ export const useWorkLog = () => {
     fetchEmployees();
   }, []);
 
+  // Project catalogue for the task form; archived ones are kept to label older tasks
+  useEffect(() => {
+    fetchProjects(true)
+      .then(setProjects)
+      .catch(error => console.error('Error fetching projects:', error));
+  }, []);
+
+  // Weekly hours target set by the manager; falls back to the 40h default
+  useEffect(() => {
+    if (!employee?.id) return;
+    fetchWorkExpectations({ id: employee.id, manager_id: employee.manager_id })
+      .then(setExpectations)
+      .catch(error => console.error('Error fetching work expectations:', error));
+  }, [employee?.id, employee?.manager_id]);
+
   // Fetch week log and tasks
   const fetchWeekData = useCallback(async () => {
     if (!employee?.id) return;
@@ -78,7 +98,8 @@ export const useWorkLog = () => {
           .from('hr_work_log_tasks')
           .select(`
             *,
-            assigned_by:hr_employees!assigned_by_id(full_name)
+            assigned_by:hr_employees!assigned_by_id(full_name),
+            ${TASK_PROJECT_SELECT}
           `)
           .eq('week_log_id', week.id)
           .order('log_date', { ascending: true })
@@ -156,13 +177,17 @@ export const useWorkLog = () => {
 
     const daysWithEntries = new Set(tasks.map(t => t.log_date)).size;
 
+    const weeklyHours = employee
+      ? resolveExpectation(expectations, employee, weekStartStr).weeklyHours
+      : DEFAULT_WEEKLY_HOURS;
+
     return {
       totalMinutes,
-      targetMinutes: 2400, // 40 hours
+      targetMinutes: Math.round(weeklyHours * 60),
       categoryBreakdown,
       daysWithEntries,
     };
-  }, [tasks]);
+  }, [tasks, employee, expectations, weekStartStr]);
 
   // Add task
   const addTask = async (taskData: {
@@ -173,6 +198,7 @@ export const useWorkLog = () => {
     assigned_by_type: 'Self' | 'Employee' | 'Manager' | 'Admin';
     assigned_by_id: string | null;
     description: string | null;
+    project_id: string | null;
   }) => {
     if (!weekLog || !employee?.id) return false;
 
@@ -196,7 +222,7 @@ export const useWorkLog = () => {
       console.error('Error adding task:', error);
       toast({
         title: 'Error',
-        description: 'Failed to add task',
+        description: error?.message || 'Failed to add task',
         variant: 'destructive',
       });
       return false;
@@ -226,7 +252,7 @@ export const useWorkLog = () => {
       console.error('Error updating task:', error);
       toast({
         title: 'Error',
-        description: 'Failed to update task',
+        description: error?.message || 'Failed to update task',
         variant: 'destructive',
       });
       return false;
@@ -296,6 +322,20 @@ export const useWorkLog = () => {
     }
   };
 
+  // Days this week where logged time doesn't match attendance or falls on leave,
+  // shown as a warning before the week is submitted
+  const getWeekReconciliation = async (): Promise<ReconciliationDay[]> => {
+    if (!employee?.id) return [];
+
+    try {
+      const days = await fetchWorkLogReconciliation(weekStartStr, weekEndStr, employee.id);
+      return days.filter(day => day.flag);
+    } catch (error) {
+      console.error('Error fetching work log reconciliation:', error);
+      return [];
+    }
+  };
+
   // Submit entire week
   const submitWeek = async () => {
     if (!weekLog) return false;
@@ -369,6 +409,7 @@ export const useWorkLog = () => {
     weekLog,
     tasks,
     employees,
+    projects,
     currentWeekStart,
     weekStartStr,
     weekEndStr,
@@ -386,6 +427,7 @@ export const useWorkLog = () => {
     deleteTask,
     submitDay,
     submitWeek,
+    getWeekReconciliation,
     refetch: fetchWeekData,
   };
 };
@@ -471,15 +471,94 @@ export type Database = {
           },
         ]
       }
+      hr_approval_delegations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          delegate_id: string
+          delegator_id: string
+          end_date: string
+          id: string
+          org_id: string
+          reason: string | null
+          revoked_at: string | null
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          delegate_id: string
+          delegator_id: string
+          end_date: string
+          id?: string
+          org_id: string
+          reason?: string | null
+          revoked_at?: string | null
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          delegate_id?: string
+          delegator_id?: string
+          end_date?: string
+          id?: string
+          org_id?: string
+          reason?: string | null
+          revoked_at?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_approval_delegations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_approval_delegations_delegate_id_fkey"
+            columns: ["delegate_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_approval_delegations_delegator_id_fkey"
+            columns: ["delegator_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_approval_delegations_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hr_attendance: {
         Row: {
           attendance_date: string
+          auto_closed: string | null
           created_at: string | null
           employee_id: string
           id: string
           is_consolidated: boolean | null
+          location_flags: string[]
           notes: string | null
-          punch_in_time: string
+          punch_in_ip: string | null
+          punch_in_latitude: number | null
+          punch_in_longitude: number | null
+          punch_in_time: string | null
+          punch_out_ip: string | null
+          punch_out_latitude: number | null
+          punch_out_longitude: number | null
           punch_out_time: string | null
           status: string | null
           total_hours: number | null
@@ -487,12 +566,20 @@ export type Database = {
         }
         Insert: {
           attendance_date: string
+          auto_closed?: string | null
           created_at?: string | null
           employee_id: string
           id?: string
           is_consolidated?: boolean | null
+          location_flags?: string[]
           notes?: string | null
-          punch_in_time: string
+          punch_in_ip?: string | null
+          punch_in_latitude?: number | null
+          punch_in_longitude?: number | null
+          punch_in_time?: string | null
+          punch_out_ip?: string | null
+          punch_out_latitude?: number | null
+          punch_out_longitude?: number | null
           punch_out_time?: string | null
           status?: string | null
           total_hours?: number | null
@@ -500,12 +587,20 @@ export type Database = {
         }
         Update: {
           attendance_date?: string
+          auto_closed?: string | null
           created_at?: string | null
           employee_id?: string
           id?: string
           is_consolidated?: boolean | null
+          location_flags?: string[]
           notes?: string | null
-          punch_in_time?: string
+          punch_in_ip?: string | null
+          punch_in_latitude?: number | null
+          punch_in_longitude?: number | null
+          punch_in_time?: string | null
+          punch_out_ip?: string | null
+          punch_out_latitude?: number | null
+          punch_out_longitude?: number | null
           punch_out_time?: string | null
           status?: string | null
           total_hours?: number | null
@@ -529,6 +624,7 @@ export type Database = {
           employee_id: string
           id: string
           reason: string
+          reason_id: string | null
           requested_at: string | null
           requested_status: string
           reviewed_at: string | null
@@ -542,6 +638,7 @@ export type Database = {
           employee_id: string
           id?: string
           reason: string
+          reason_id?: string | null
           requested_at?: string | null
           requested_status: string
           reviewed_at?: string | null
@@ -555,6 +652,7 @@ export type Database = {
           employee_id?: string
           id?: string
           reason?: string
+          reason_id?: string | null
           requested_at?: string | null
           requested_status?: string
           reviewed_at?: string | null
@@ -569,6 +667,13 @@ export type Database = {
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "hr_attendance_regularization_requests_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "hr_regularization_reasons"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "hr_attendance_regularization_requests_reviewed_by_fkey"
             columns: ["reviewed_by"]
@@ -578,6 +683,165 @@ export type Database = {
           },
         ]
       }
+      hr_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          entity_id: string | null
+          entity_type: string
+          id: string
+          org_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+          org_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+          org_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_audit_log_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          employee_id: string
+          id: string
+          last_accessed_at: string | null
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          employee_id: string
+          id?: string
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          token: string
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string
+          id?: string
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_calendar_feed_tokens_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_comp_off_credits: {
+        Row: {
+          created_at: string
+          days: number
+          employee_id: string
+          expired_days: number | null
+          expires_on: string
+          hours: number
+          id: string
+          ledger_year: number | null
+          org_id: string
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          work_date: string
+        }
+        Insert: {
+          created_at?: string
+          days: number
+          employee_id: string
+          expired_days?: number | null
+          expires_on: string
+          hours: number
+          id?: string
+          ledger_year?: number | null
+          org_id: string
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          work_date: string
+        }
+        Update: {
+          created_at?: string
+          days?: number
+          employee_id?: string
+          expired_days?: number | null
+          expires_on?: string
+          hours?: number
+          id?: string
+          ledger_year?: number | null
+          org_id?: string
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_comp_off_credits_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_comp_off_credits_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_comp_off_credits_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hr_documents: {
         Row: {
           created_at: string | null
@@ -638,6 +902,84 @@ export type Database = {
           },
         ]
       }
+      hr_efficiency_snapshots: {
+        Row: {
+          attended_minutes: number
+          computed_at: string
+          department: string | null
+          efficiency: number | null
+          employee_id: string | null
+          id: string
+          logged_minutes: number
+          member_count: number
+          on_time_rate: number | null
+          on_time_submissions: number
+          org_id: string
+          quality: number | null
+          reworks: number
+          scope: string
+          submissions: number
+          utilization: number | null
+          week_start: string
+          weeks_approved: number
+        }
+        Insert: {
+          attended_minutes?: number
+          computed_at?: string
+          department?: string | null
+          efficiency?: number | null
+          employee_id?: string | null
+          id?: string
+          logged_minutes?: number
+          member_count?: number
+          on_time_rate?: number | null
+          on_time_submissions?: number
+          org_id: string
+          quality?: number | null
+          reworks?: number
+          scope: string
+          submissions?: number
+          utilization?: number | null
+          week_start: string
+          weeks_approved?: number
+        }
+        Update: {
+          attended_minutes?: number
+          computed_at?: string
+          department?: string | null
+          efficiency?: number | null
+          employee_id?: string | null
+          id?: string
+          logged_minutes?: number
+          member_count?: number
+          on_time_rate?: number | null
+          on_time_submissions?: number
+          org_id?: string
+          quality?: number | null
+          reworks?: number
+          scope?: string
+          submissions?: number
+          utilization?: number | null
+          week_start?: string
+          weeks_approved?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_efficiency_snapshots_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_efficiency_snapshots_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hr_employee_details: {
         Row: {
           address: string | null
@@ -816,53 +1158,50 @@ export type Database = {
           },
         ]
       }
-      hr_leave_entitlements: {
+      hr_leave_accruals: {
         Row: {
-          created_at: string | null
+          accrual_month: string
+          created_at: string
+          days: number
           employee_id: string
           id: string
           leave_type: string
           org_id: string
-          remaining_leaves: number | null
-          total_leaves: number
-          updated_at: string | null
-          used_leaves: number
+          prorated: boolean
           year: number
         }
         Insert: {
-          created_at?: string | null
+          accrual_month: string
+          created_at?: string
+          days: number
           employee_id: string
           id?: string
           leave_type: string
           org_id: string
-          remaining_leaves?: number | null
-          total_leaves?: number
-          updated_at?: string | null
-          used_leaves?: number
+          prorated?: boolean
           year: number
         }
         Update: {
-          created_at?: string | null
+          accrual_month?: string
+          created_at?: string
+          days?: number
           employee_id?: string
           id?: string
           leave_type?: string
           org_id?: string
-          remaining_leaves?: number | null
-          total_leaves?: number
-          updated_at?: string | null
-          used_leaves?: number
+          prorated?: boolean
           year?: number
         }
         Relationships: [
           {
-            foreignKeyName: "hr_leave_entitlements_employee_id_fkey"
+            foreignKeyName: "hr_leave_accruals_employee_id_fkey"
             columns: ["employee_id"]
             isOneToOne: false
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "hr_leave_entitlements_org_id_fkey"
+            foreignKeyName: "hr_leave_accruals_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -870,56 +1209,333 @@ export type Database = {
           },
         ]
       }
-      hr_leave_requests: {
+      hr_leave_approval_steps: {
         Row: {
-          approved_at: string | null
-          approved_by: string | null
-          created_at: string | null
-          employee_id: string
-          end_date: string
+          acted_at: string | null
+          acted_by: string | null
+          approver_id: string | null
+          approver_role: string
+          comments: string | null
+          created_at: string
           id: string
-          leave_type: string
-          reason: string | null
-          rejection_reason: string | null
-          start_date: string
+          request_id: string
           status: string
-          total_days: number
-          updated_at: string | null
+          step_order: number
         }
         Insert: {
-          approved_at?: string | null
-          approved_by?: string | null
-          created_at?: string | null
-          employee_id: string
-          end_date: string
+          acted_at?: string | null
+          acted_by?: string | null
+          approver_id?: string | null
+          approver_role: string
+          comments?: string | null
+          created_at?: string
           id?: string
-          leave_type: string
-          reason?: string | null
-          rejection_reason?: string | null
-          start_date: string
+          request_id: string
           status?: string
-          total_days: number
-          updated_at?: string | null
+          step_order: number
         }
         Update: {
-          approved_at?: string | null
-          approved_by?: string | null
-          created_at?: string | null
-          employee_id?: string
-          end_date?: string
+          acted_at?: string | null
+          acted_by?: string | null
+          approver_id?: string | null
+          approver_role?: string
+          comments?: string | null
+          created_at?: string
           id?: string
-          leave_type?: string
-          reason?: string | null
-          rejection_reason?: string | null
-          start_date?: string
+          request_id?: string
           status?: string
-          total_days?: number
-          updated_at?: string | null
+          step_order?: number
         }
         Relationships: [
           {
-            foreignKeyName: "hr_leave_requests_approved_by_fkey"
-            columns: ["approved_by"]
+            foreignKeyName: "hr_leave_approval_steps_acted_by_fkey"
+            columns: ["acted_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_approval_steps_approver_id_fkey"
+            columns: ["approver_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_approval_steps_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "hr_leave_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_leave_encashments: {
+        Row: {
+          amount: number | null
+          created_at: string
+          daily_rate: number | null
+          days: number
+          employee_id: string
+          id: string
+          leave_type: string
+          org_id: string
+          reason: string | null
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          salary_history_id: string | null
+          status: string
+          updated_at: string
+          year: number
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          daily_rate?: number | null
+          days: number
+          employee_id: string
+          id?: string
+          leave_type?: string
+          org_id: string
+          reason?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          salary_history_id?: string | null
+          status?: string
+          updated_at?: string
+          year: number
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          daily_rate?: number | null
+          days?: number
+          employee_id?: string
+          id?: string
+          leave_type?: string
+          org_id?: string
+          reason?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          salary_history_id?: string | null
+          status?: string
+          updated_at?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_leave_encashments_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_encashments_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_encashments_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_encashments_salary_history_id_fkey"
+            columns: ["salary_history_id"]
+            isOneToOne: false
+            referencedRelation: "hr_salary_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_leave_entitlements: {
+        Row: {
+          carried_forward: number
+          created_at: string | null
+          employee_id: string
+          id: string
+          leave_type: string
+          org_id: string
+          remaining_leaves: number | null
+          total_leaves: number
+          updated_at: string | null
+          used_leaves: number
+          year: number
+        }
+        Insert: {
+          carried_forward?: number
+          created_at?: string | null
+          employee_id: string
+          id?: string
+          leave_type: string
+          org_id: string
+          remaining_leaves?: number | null
+          total_leaves?: number
+          updated_at?: string | null
+          used_leaves?: number
+          year: number
+        }
+        Update: {
+          carried_forward?: number
+          created_at?: string | null
+          employee_id?: string
+          id?: string
+          leave_type?: string
+          org_id?: string
+          remaining_leaves?: number | null
+          total_leaves?: number
+          updated_at?: string | null
+          used_leaves?: number
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_leave_entitlements_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_entitlements_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_leave_ledger: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          days: number
+          employee_id: string
+          entry_type: string
+          id: string
+          leave_type: string
+          org_id: string
+          reason: string
+          reference_id: string | null
+          reference_type: string | null
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          days: number
+          employee_id: string
+          entry_type: string
+          id?: string
+          leave_type: string
+          org_id: string
+          reason: string
+          reference_id?: string | null
+          reference_type?: string | null
+          year: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          days?: number
+          employee_id?: string
+          entry_type?: string
+          id?: string
+          leave_type?: string
+          org_id?: string
+          reason?: string
+          reference_id?: string | null
+          reference_type?: string | null
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_leave_ledger_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_ledger_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_leave_ledger_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_leave_requests: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string | null
+          employee_id: string
+          end_date: string
+          end_session: string
+          id: string
+          leave_type: string
+          reason: string | null
+          rejection_reason: string | null
+          start_date: string
+          start_session: string
+          status: string
+          total_days: number
+          updated_at: string | null
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string | null
+          employee_id: string
+          end_date: string
+          end_session?: string
+          id?: string
+          leave_type: string
+          reason?: string | null
+          rejection_reason?: string | null
+          start_date: string
+          start_session?: string
+          status?: string
+          total_days: number
+          updated_at?: string | null
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string | null
+          employee_id?: string
+          end_date?: string
+          end_session?: string
+          id?: string
+          leave_type?: string
+          reason?: string | null
+          rejection_reason?: string | null
+          start_date?: string
+          start_session?: string
+          status?: string
+          total_days?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_leave_requests_approved_by_fkey"
+            columns: ["approved_by"]
             isOneToOne: false
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
@@ -1068,203 +1684,861 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
-          completed_at?: string | null
-          completed_by?: string | null
-          created_at?: string | null
-          description?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          notes?: string | null
+          offboarding_id?: string
+          status?: string
+          task_category?: string
+          task_name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_offboarding_tasks_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_offboarding_tasks_offboarding_id_fkey"
+            columns: ["offboarding_id"]
+            isOneToOne: false
+            referencedRelation: "hr_offboarding"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_office_locations: {
+        Row: {
+          allowed_ip_ranges: string[]
+          created_at: string
+          id: string
+          latitude: number | null
+          location: string
+          longitude: number | null
+          name: string
+          org_id: string
+          radius_meters: number
+          updated_at: string
+        }
+        Insert: {
+          allowed_ip_ranges?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          location: string
+          longitude?: number | null
+          name: string
+          org_id: string
+          radius_meters?: number
+          updated_at?: string
+        }
+        Update: {
+          allowed_ip_ranges?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          location?: string
+          longitude?: number | null
+          name?: string
+          org_id?: string
+          radius_meters?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_office_locations_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_onboarding_tasks: {
+        Row: {
+          category: string
+          completed_at: string | null
+          created_at: string | null
+          document_url: string | null
+          employee_id: string
+          id: string
+          is_mandatory: boolean | null
+          status: string | null
+          task_description: string | null
+          task_order: number
+          task_title: string
+        }
+        Insert: {
+          category: string
+          completed_at?: string | null
+          created_at?: string | null
+          document_url?: string | null
+          employee_id: string
+          id?: string
+          is_mandatory?: boolean | null
+          status?: string | null
+          task_description?: string | null
+          task_order: number
+          task_title: string
+        }
+        Update: {
+          category?: string
+          completed_at?: string | null
+          created_at?: string | null
+          document_url?: string | null
+          employee_id?: string
+          id?: string
+          is_mandatory?: boolean | null
+          status?: string | null
+          task_description?: string | null
+          task_order?: number
+          task_title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_onboarding_tasks_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_optional_holiday_selections: {
+        Row: {
+          created_at: string
+          employee_id: string
+          holiday_id: string
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          employee_id: string
+          holiday_id: string
+          id?: string
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string
+          holiday_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_optional_holiday_selections_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_optional_holiday_selections_holiday_id_fkey"
+            columns: ["holiday_id"]
+            isOneToOne: false
+            referencedRelation: "hr_holidays"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_org_settings: {
+        Row: {
+          attendance_policy: Json
+          company_settings: Json
+          created_at: string
+          id: string
+          leave_policy: Json
+          org_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          attendance_policy?: Json
+          company_settings?: Json
+          created_at?: string
+          id?: string
+          leave_policy?: Json
+          org_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          attendance_policy?: Json
+          company_settings?: Json
+          created_at?: string
+          id?: string
+          leave_policy?: Json
+          org_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_org_settings_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_org_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_overtime_claims: {
+        Row: {
+          created_at: string
+          daily_hours: number
+          day_type: string
+          employee_id: string
+          hours: number
+          id: string
+          multiplier: number
+          org_id: string
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          weekly_hours: number
+          work_date: string
+          worked_hours: number
+        }
+        Insert: {
+          created_at?: string
+          daily_hours?: number
+          day_type: string
+          employee_id: string
+          hours: number
+          id?: string
+          multiplier?: number
+          org_id: string
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          weekly_hours?: number
+          work_date: string
+          worked_hours: number
+        }
+        Update: {
+          created_at?: string
+          daily_hours?: number
+          day_type?: string
+          employee_id?: string
+          hours?: number
+          id?: string
+          multiplier?: number
+          org_id?: string
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          weekly_hours?: number
+          work_date?: string
+          worked_hours?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_overtime_claims_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_overtime_claims_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_overtime_claims_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_projects: {
+        Row: {
+          budget_hours: number | null
+          client: string | null
+          code: string
+          created_at: string
+          end_date: string | null
+          id: string
+          is_active: boolean
+          is_billable: boolean
+          name: string
+          org_id: string
+          start_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          budget_hours?: number | null
+          client?: string | null
+          code: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          is_active?: boolean
+          is_billable?: boolean
+          name: string
+          org_id: string
+          start_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          budget_hours?: number | null
+          client?: string | null
+          code?: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          is_active?: boolean
+          is_billable?: boolean
+          name?: string
+          org_id?: string
+          start_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_projects_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_regularization_reasons: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          label: string
+          org_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label: string
+          org_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          org_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_regularization_reasons_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_salary_history: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          deductions: number | null
+          employee_id: string
+          gross_salary: number
+          id: string
+          month: number
+          net_salary: number
+          payment_date: string | null
+          payment_status: string | null
+          updated_at: string | null
+          year: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          deductions?: number | null
+          employee_id: string
+          gross_salary: number
+          id?: string
+          month: number
+          net_salary: number
+          payment_date?: string | null
+          payment_status?: string | null
+          updated_at?: string | null
+          year: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          deductions?: number | null
+          employee_id?: string
+          gross_salary?: number
+          id?: string
+          month?: number
+          net_salary?: number
+          payment_date?: string | null
+          payment_status?: string | null
+          updated_at?: string | null
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_salary_history_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_salary_history_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_salary_line_items: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          employee_id: string
+          id: string
+          item_type: string
+          reference_id: string | null
+          salary_history_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description: string
+          employee_id: string
+          id?: string
+          item_type: string
+          reference_id?: string | null
+          salary_history_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          employee_id?: string
+          id?: string
+          item_type?: string
+          reference_id?: string | null
+          salary_history_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_salary_line_items_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_salary_line_items_salary_history_id_fkey"
+            columns: ["salary_history_id"]
+            isOneToOne: false
+            referencedRelation: "hr_salary_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_salary_slips: {
+        Row: {
+          created_at: string | null
+          employee_id: string
+          file_name: string | null
+          file_url: string | null
+          gross_salary: number | null
+          id: string
+          month: number
+          net_salary: number | null
+          status: string | null
+          uploaded_at: string | null
+          uploaded_by: string | null
+          year: number
+        }
+        Insert: {
+          created_at?: string | null
+          employee_id: string
+          file_name?: string | null
+          file_url?: string | null
+          gross_salary?: number | null
+          id?: string
+          month: number
+          net_salary?: number | null
+          status?: string | null
+          uploaded_at?: string | null
+          uploaded_by?: string | null
+          year: number
+        }
+        Update: {
+          created_at?: string | null
+          employee_id?: string
+          file_name?: string | null
+          file_url?: string | null
+          gross_salary?: number | null
+          id?: string
+          month?: number
+          net_salary?: number | null
+          status?: string | null
+          uploaded_at?: string | null
+          uploaded_by?: string | null
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_salary_slips_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_salary_slips_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_shift_assignments: {
+        Row: {
+          assigned_by: string | null
+          created_at: string
+          employee_id: string
+          id: string
+          org_id: string
+          shift_id: string
+          updated_at: string
+          work_date: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          created_at?: string
+          employee_id: string
+          id?: string
+          org_id: string
+          shift_id: string
+          updated_at?: string
+          work_date: string
+        }
+        Update: {
+          assigned_by?: string | null
+          created_at?: string
+          employee_id?: string
+          id?: string
+          org_id?: string
+          shift_id?: string
+          updated_at?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_shift_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_shift_assignments_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_shift_assignments_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_shift_assignments_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "hr_shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_shifts: {
+        Row: {
+          break_minutes: number
+          created_at: string
+          end_time: string
+          grace_minutes: number
+          half_day_hours: number
+          id: string
+          is_active: boolean
+          name: string
+          org_id: string
+          overtime_multiplier: number | null
+          overtime_threshold_hours: number | null
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          break_minutes?: number
+          created_at?: string
+          end_time: string
+          grace_minutes?: number
+          half_day_hours?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          org_id: string
+          overtime_multiplier?: number | null
+          overtime_threshold_hours?: number | null
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          break_minutes?: number
+          created_at?: string
+          end_time?: string
+          grace_minutes?: number
+          half_day_hours?: number
           id?: string
-          notes?: string | null
-          offboarding_id?: string
-          status?: string
-          task_category?: string
-          task_name?: string
-          updated_at?: string | null
+          is_active?: boolean
+          name?: string
+          org_id?: string
+          overtime_multiplier?: number | null
+          overtime_threshold_hours?: number | null
+          start_time?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "hr_offboarding_tasks_completed_by_fkey"
-            columns: ["completed_by"]
-            isOneToOne: false
-            referencedRelation: "hr_employees"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "hr_offboarding_tasks_offboarding_id_fkey"
-            columns: ["offboarding_id"]
+            foreignKeyName: "hr_shifts_org_id_fkey"
+            columns: ["org_id"]
             isOneToOne: false
-            referencedRelation: "hr_offboarding"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      hr_onboarding_tasks: {
+      hr_task_categories: {
         Row: {
-          category: string
-          completed_at: string | null
-          created_at: string | null
-          document_url: string | null
-          employee_id: string
+          color: string
+          created_at: string
+          department: string | null
+          icon: string
           id: string
-          is_mandatory: boolean | null
-          status: string | null
-          task_description: string | null
-          task_order: number
-          task_title: string
+          is_active: boolean
+          label: string
+          org_id: string
+          sort_order: number
+          updated_at: string
+          value: string
         }
         Insert: {
-          category: string
-          completed_at?: string | null
-          created_at?: string | null
-          document_url?: string | null
-          employee_id: string
+          color?: string
+          created_at?: string
+          department?: string | null
+          icon?: string
           id?: string
-          is_mandatory?: boolean | null
-          status?: string | null
-          task_description?: string | null
-          task_order: number
-          task_title: string
+          is_active?: boolean
+          label: string
+          org_id: string
+          sort_order?: number
+          updated_at?: string
+          value: string
         }
         Update: {
-          category?: string
-          completed_at?: string | null
-          created_at?: string | null
-          document_url?: string | null
-          employee_id?: string
+          color?: string
+          created_at?: string
+          department?: string | null
+          icon?: string
           id?: string
-          is_mandatory?: boolean | null
-          status?: string | null
-          task_description?: string | null
-          task_order?: number
-          task_title?: string
+          is_active?: boolean
+          label?: string
+          org_id?: string
+          sort_order?: number
+          updated_at?: string
+          value?: string
         }
         Relationships: [
           {
-            foreignKeyName: "hr_onboarding_tasks_employee_id_fkey"
-            columns: ["employee_id"]
+            foreignKeyName: "hr_task_categories_org_id_fkey"
+            columns: ["org_id"]
             isOneToOne: false
-            referencedRelation: "hr_employees"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      hr_salary_history: {
+      hr_wfh_requests: {
         Row: {
-          created_at: string | null
-          created_by: string | null
-          deductions: number | null
+          created_at: string
           employee_id: string
-          gross_salary: number
+          end_date: string | null
           id: string
-          month: number
-          net_salary: number
-          payment_date: string | null
-          payment_status: string | null
-          updated_at: string | null
-          year: number
+          org_id: string
+          reason: string
+          recurrence: string
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          updated_at: string
+          weekdays: number[]
         }
         Insert: {
-          created_at?: string | null
-          created_by?: string | null
-          deductions?: number | null
+          created_at?: string
           employee_id: string
-          gross_salary: number
+          end_date?: string | null
           id?: string
-          month: number
-          net_salary: number
-          payment_date?: string | null
-          payment_status?: string | null
-          updated_at?: string | null
-          year: number
+          org_id: string
+          reason: string
+          recurrence?: string
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: string
+          updated_at?: string
+          weekdays?: number[]
         }
         Update: {
-          created_at?: string | null
-          created_by?: string | null
-          deductions?: number | null
+          created_at?: string
           employee_id?: string
-          gross_salary?: number
+          end_date?: string | null
           id?: string
-          month?: number
-          net_salary?: number
-          payment_date?: string | null
-          payment_status?: string | null
-          updated_at?: string | null
-          year?: number
+          org_id?: string
+          reason?: string
+          recurrence?: string
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: string
+          updated_at?: string
+          weekdays?: number[]
         }
         Relationships: [
           {
-            foreignKeyName: "hr_salary_history_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "hr_wfh_requests_employee_id_fkey"
+            columns: ["employee_id"]
             isOneToOne: false
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "hr_salary_history_employee_id_fkey"
-            columns: ["employee_id"]
+            foreignKeyName: "hr_wfh_requests_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_wfh_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
             isOneToOne: false
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
           },
         ]
       }
-      hr_salary_slips: {
+      hr_work_expectations: {
         Row: {
-          created_at: string | null
-          employee_id: string
-          file_name: string | null
-          file_url: string | null
-          gross_salary: number | null
+          category_mix: Json
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          employee_id: string | null
           id: string
-          month: number
-          net_salary: number | null
-          status: string | null
-          uploaded_at: string | null
-          uploaded_by: string | null
-          year: number
+          manager_id: string | null
+          org_id: string
+          scope: string
+          updated_at: string
+          weekly_hours: number
         }
         Insert: {
-          created_at?: string | null
-          employee_id: string
-          file_name?: string | null
-          file_url?: string | null
-          gross_salary?: number | null
+          category_mix?: Json
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          employee_id?: string | null
           id?: string
-          month: number
-          net_salary?: number | null
-          status?: string | null
-          uploaded_at?: string | null
-          uploaded_by?: string | null
-          year: number
+          manager_id?: string | null
+          org_id: string
+          scope: string
+          updated_at?: string
+          weekly_hours: number
         }
         Update: {
-          created_at?: string | null
-          employee_id?: string
-          file_name?: string | null
-          file_url?: string | null
-          gross_salary?: number | null
+          category_mix?: Json
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          employee_id?: string | null
           id?: string
-          month?: number
-          net_salary?: number | null
-          status?: string | null
-          uploaded_at?: string | null
-          uploaded_by?: string | null
-          year?: number
+          manager_id?: string | null
+          org_id?: string
+          scope?: string
+          updated_at?: string
+          weekly_hours?: number
         }
         Relationships: [
           {
-            foreignKeyName: "hr_salary_slips_employee_id_fkey"
+            foreignKeyName: "hr_work_expectations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "hr_employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_work_expectations_employee_id_fkey"
             columns: ["employee_id"]
             isOneToOne: false
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "hr_salary_slips_uploaded_by_fkey"
-            columns: ["uploaded_by"]
+            foreignKeyName: "hr_work_expectations_manager_id_fkey"
+            columns: ["manager_id"]
             isOneToOne: false
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "hr_work_expectations_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       hr_work_log_comments: {
@@ -1321,6 +2595,7 @@ export type Database = {
           employee_id: string
           id: string
           log_date: string
+          project_id: string | null
           rework_comment: string | null
           task_title: string
           updated_at: string
@@ -1337,6 +2612,7 @@ export type Database = {
           employee_id: string
           id?: string
           log_date: string
+          project_id?: string | null
           rework_comment?: string | null
           task_title: string
           updated_at?: string
@@ -1353,6 +2629,7 @@ export type Database = {
           employee_id?: string
           id?: string
           log_date?: string
+          project_id?: string | null
           rework_comment?: string | null
           task_title?: string
           updated_at?: string
@@ -1373,6 +2650,13 @@ export type Database = {
             referencedRelation: "hr_employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "hr_work_log_tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "hr_projects"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "hr_work_log_tasks_week_log_id_fkey"
             columns: ["week_log_id"]
@@ -1388,8 +2672,10 @@ export type Database = {
           approved_by: string | null
           created_at: string
           employee_id: string
+          first_submitted_at: string | null
           id: string
           rework_comment: string | null
+          rework_count: number
           status: string
           submitted_at: string | null
           total_minutes: number | null
@@ -1402,8 +2688,10 @@ export type Database = {
           approved_by?: string | null
           created_at?: string
           employee_id: string
+          first_submitted_at?: string | null
           id?: string
           rework_comment?: string | null
+          rework_count?: number
           status?: string
           submitted_at?: string | null
           total_minutes?: number | null
@@ -1416,8 +2704,10 @@ export type Database = {
           approved_by?: string | null
           created_at?: string
           employee_id?: string
+          first_submitted_at?: string | null
           id?: string
           rework_comment?: string | null
+          rework_count?: number
           status?: string
           submitted_at?: string | null
           total_minutes?: number | null
@@ -1767,10 +3057,234 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      carry_forward_earned_leaves: { Args: never; Returns: undefined }
+      accrue_earned_leave: { Args: { p_as_of?: string }; Returns: number }
+      active_delegate_for: { Args: { p_approver_id: string }; Returns: string }
+      active_delegator_ids: { Args: { p_delegate_id: string }; Returns: string[] }
+      adjust_leave_balance: {
+        Args: {
+          p_days: number
+          p_employee_id: string
+          p_leave_type: string
+          p_reason: string
+          p_year: number
+        }
+        Returns: string
+      }
+      bulk_override_attendance: {
+        Args: {
+          p_employee_ids: string[]
+          p_from: string
+          p_include_non_working?: boolean
+          p_reason: string
+          p_status: string
+          p_to: string
+        }
+        Returns: number
+      }
+      carry_forward_earned_leaves: {
+        Args: { p_from_year?: number }
+        Returns: undefined
+      }
+      compute_efficiency_snapshots: {
+        Args: { p_week_start?: string }
+        Returns: number
+      }
+      consolidate_attendance: { Args: { p_date?: string }; Returns: number }
+      create_calendar_feed_token: { Args: never; Returns: string }
+      distance_meters: {
+        Args: {
+          p_lat1: number
+          p_lat2: number
+          p_lng1: number
+          p_lng2: number
+        }
+        Returns: number
+      }
+      efficiency_score: {
+        Args: { p_on_time: number; p_quality: number; p_utilization: number }
+        Returns: number
+      }
+      employee_shift_on: {
+        Args: {
+          p_date: string
+          p_employee_id: string
+        }
+        Returns: {
+          break_minutes: number
+          crosses_midnight: boolean
+          end_time: string
+          full_day_hours: number
+          grace_minutes: number
+          half_day_hours: number
+          name: string
+          shift_id: string
+          start_time: string
+        }[]
+      }
+      expire_comp_off_credits: { Args: { p_as_of?: string }; Returns: number }
       generate_employee_code: { Args: { org_uuid: string }; Returns: string }
+      grant_opening_leave_balances: {
+        Args: { p_employee_id: string; p_leave_types: string[]; p_year?: number }
+        Returns: number
+      }
+      ip_in_ranges: { Args: { p_ip: unknown; p_ranges: string[] }; Returns: boolean }
+      is_acting_manager_of: { Args: { p_employee_id: string }; Returns: boolean }
+      is_non_working_day: {
+        Args: {
+          p_date: string
+          p_employee_id: string
+        }
+        Returns: boolean
+      }
+      is_valid_category_mix: {
+        Args: { p_mix: Json }
+        Returns: boolean
+      }
+      is_wfh_day: {
+        Args: { p_date: string; p_employee_id: string }
+        Returns: boolean
+      }
+      leave_approval_chain: {
+        Args: { p_leave_type: string; p_org_id: string; p_total_days: number }
+        Returns: string[]
+      }
+      leave_encashment_eligibility: {
+        Args: { p_employee_id: string; p_year: number }
+        Returns: number
+      }
+      log_audit_event: {
+        Args: {
+          p_action: string
+          p_details?: Json
+          p_entity_id: string
+          p_entity_type: string
+        }
+        Returns: string
+      }
+      org_attendance_policy: { Args: { p_org_id: string }; Returns: Json }
+      org_leave_policy: { Args: { p_org_id: string }; Returns: Json }
+      org_leave_quota: {
+        Args: { p_leave_type: string; p_org_id: string }
+        Returns: number
+      }
+      org_today: { Args: { p_org_id: string }; Returns: string }
+      override_attendance_day: {
+        Args: {
+          p_date: string
+          p_details?: Json
+          p_employee_id: string
+          p_notes: string
+          p_status: string
+        }
+        Returns: string
+      }
+      overtime_rule_on: {
+        Args: {
+          p_date: string
+          p_employee_id: string
+        }
+        Returns: {
+          day_type: string
+          multiplier: number
+          threshold_hours: number
+        }[]
+      }
+      process_comp_off_credit: {
+        Args: {
+          p_action: string
+          p_comments?: string
+          p_credit_id: string
+        }
+        Returns: Json
+      }
+      process_leave_encashment: {
+        Args: {
+          p_action: string
+          p_comments?: string
+          p_encashment_id: string
+        }
+        Returns: Json
+      }
+      process_leave_request: {
+        Args: {
+          p_decision: string
+          p_rejection_reason?: string
+          p_request_id: string
+        }
+        Returns: Json
+      }
+      process_overtime_claim: {
+        Args: {
+          p_action: string
+          p_claim_id: string
+          p_comments?: string
+        }
+        Returns: Json
+      }
+      process_regularization_requests: {
+        Args: {
+          p_action: string
+          p_notes?: string
+          p_request_ids: string[]
+        }
+        Returns: string[]
+      }
+      process_wfh_request: {
+        Args: { p_action: string; p_comments?: string; p_request_id: string }
+        Returns: Json
+      }
+      project_burn_down: {
+        Args: { p_project_id: string }
+        Returns: {
+          logged_minutes: number
+          week_start: string
+        }[]
+      }
+      regularization_requests_in_month: {
+        Args: { p_date: string; p_employee_id: string }
+        Returns: number
+      }
+      request_ip: { Args: never; Returns: unknown }
+      request_leave_encashment: {
+        Args: { p_days: number; p_reason?: string; p_year?: number }
+        Returns: string
+      }
+      revoke_calendar_feed_token: { Args: never; Returns: undefined }
+      seed_task_categories: { Args: { p_org_id: string }; Returns: undefined }
+      team_leave_calendar: {
+        Args: {
+          p_department?: string
+          p_from: string
+          p_manager_id?: string
+          p_to: string
+        }
+        Returns: {
+          department: string
+          employee_id: string
+          end_date: string
+          end_session: string
+          full_name: string
+          leave_type: string
+          request_id: string
+          start_date: string
+          start_session: string
+          status: string
+        }[]
+      }
       user_employee_id: { Args: never; Returns: string }
       user_role: { Args: never; Returns: string }
+      work_log_reconciliation: {
+        Args: { p_employee_id?: string; p_from: string; p_to: string }
+        Returns: {
+          attendance_status: string
+          attended_minutes: number
+          employee_id: string
+          flag: string
+          leave_type: string
+          log_date: string
+          logged_minutes: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Admin changes to consolidated attendance: bulk regularization decisions and direct
+// overrides. The database records each change, with the value it replaced, in the audit log.
+
+export type OverrideStatus = 'Present' | 'Work From Home' | 'Half Day' | 'Absent' | 'Holiday';
+
+export const OVERRIDE_STATUSES: { value: OverrideStatus; label: string; hint: string }[] = [
+  { value: 'Holiday', label: 'Holiday', hint: 'Office closure' },
+  { value: 'Present', label: 'Present', hint: 'Off-site work' },
+  { value: 'Work From Home', label: 'Work From Home', hint: 'Remote day without a request' },
+  { value: 'Half Day', label: 'Half Day', hint: 'Early closure' },
+  { value: 'Absent', label: 'Absent', hint: 'Unauthorised absence' },
+];
+
+export const OVERRIDE_SOURCE_LABELS: Record<AttendanceOverride['source'], string> = {
+  regularization: 'Regularization',
+  bulk_override: 'Bulk override',
+  wfh: 'WFH approval',
+};
+
+// The database rejects longer ranges
+export const MAX_OVERRIDE_DAYS = 62;
+
+export interface AttendanceOverride {
+  id: string;
+  createdAt: string;
+  actorName: string | null;
+  employeeId: string;
+  employeeName: string;
+  date: string;
+  previous: { status: string | null; total_hours: number | null; notes: string | null } | null;
+  newStatus: string;
+  source: 'regularization' | 'bulk_override' | 'wfh';
+  reason: string | null;
+  batchId: string | null;
+}
+
+interface OverrideDetails {
+  employee_id: string;
+  date: string;
+  previous: AttendanceOverride['previous'];
+  new_status: string;
+  source: AttendanceOverride['source'];
+  reason?: string;
+  batch_id?: string;
+}
+
+/**
+ * Approve or reject pending regularization requests in one go. A note is required to reject.
+ * Returns the ids processed; requests no longer pending are skipped.
+ */
+export const processRegularizationRequests = async (
+  requestIds: string[],
+  action: 'approve' | 'reject',
+  notes?: string
+): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('process_regularization_requests', {
+    p_request_ids: requestIds,
+    p_action: action,
+    p_notes: notes?.trim() || null,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+/**
+ * Set a status for employees over a date range. Returns the number of days changed.
+ */
+export const bulkOverrideAttendance = async (input: {
+  employeeIds: string[];
+  from: string;
+  to: string;
+  status: OverrideStatus;
+  reason: string;
+  includeNonWorkingDays: boolean;
+}): Promise<number> => {
+  const { data, error } = await supabase.rpc('bulk_override_attendance', {
+    p_employee_ids: input.employeeIds,
+    p_from: input.from,
+    p_to: input.to,
+    p_status: input.status,
+    p_reason: input.reason.trim(),
+    p_include_non_working: input.includeNonWorkingDays,
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+};
+
+/**
+ * Recent attendance overrides from the audit log, newest first
+ */
+export const fetchAttendanceOverrides = async (limit = 100): Promise<AttendanceOverride[]> => {
+  const { data, error } = await supabase
+    .from('hr_audit_log')
+    .select('id, created_at, details, actor:hr_employees!hr_audit_log_actor_id_fkey(full_name)')
+    .eq('action', 'attendance_overridden')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const entries = (data || []).map(entry => ({
+    ...entry,
+    details: entry.details as unknown as OverrideDetails,
+  }));
+
+  const employeeIds = Array.from(new Set(entries.map(e => e.details.employee_id)));
+  const names = new Map<string, string>();
+  if (employeeIds.length > 0) {
+    const { data: employees, error: employeesError } = await supabase
+      .from('hr_employees')
+      .select('id, full_name')
+      .in('id', employeeIds);
+
+    if (employeesError) throw employeesError;
+    (employees || []).forEach(e => names.set(e.id, e.full_name));
+  }
+
+  return entries.map(entry => ({
+    id: entry.id,
+    createdAt: entry.created_at,
+    actorName: entry.actor?.full_name ?? null,
+    employeeId: entry.details.employee_id,
+    employeeName: names.get(entry.details.employee_id) || 'Unknown',
+    date: entry.details.date,
+    previous: entry.details.previous,
+    newStatus: entry.details.new_status,
+    source: entry.details.source,
+    reason: entry.details.reason ?? null,
+    batchId: entry.details.batch_id ?? null,
+  }));
+};
@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Tokenized iCalendar subscription served by the calendar-feed edge function
+
+export interface CalendarFeedToken {
+  token: string;
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+export const getCalendarFeedUrl = (token: string): string => {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+};
+
+/**
+ * The employee's active feed token, if they have subscribed
+ */
+export const fetchCalendarFeedToken = async (employeeId: string): Promise<CalendarFeedToken | null> => {
+  const { data, error } = await supabase
+    .from('hr_calendar_feed_tokens')
+    .select('token, created_at, last_accessed_at')
+    .eq('employee_id', employeeId)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Issue a new token for the caller. Any previous URL stops working.
+ */
+export const createCalendarFeedToken = async (): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_calendar_feed_token');
+  if (error) throw error;
+  return data;
+};
+
+export const revokeCalendarFeedToken = async (): Promise<void> => {
+  const { error } = await supabase.rpc('revoke_calendar_feed_token');
+  if (error) throw error;
+};
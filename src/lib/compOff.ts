@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Comp-off credits (hr_comp_off_credits), created from consolidated attendance on
+// weekends and holidays. Approved credits are added to the 'Comp Off' leave balance.
+
+export type CompOffStatus = 'Pending' | 'Approved' | 'Rejected' | 'Expired';
+
+export interface CompOffCredit {
+  id: string;
+  employee_id: string;
+  work_date: string;
+  hours: number;
+  days: number;
+  status: CompOffStatus;
+  expires_on: string;
+  expired_days: number | null;
+  reviewed_at: string | null;
+  review_comments: string | null;
+  created_at: string;
+  employee?: { full_name: string; employee_code: string | null } | null;
+  reviewer?: { full_name: string } | null;
+}
+
+const COMP_OFF_SELECT = `
+  id, employee_id, work_date, hours, days, status, expires_on, expired_days,
+  reviewed_at, review_comments, created_at,
+  employee:hr_employees!hr_comp_off_credits_employee_id_fkey(full_name, employee_code),
+  reviewer:hr_employees!hr_comp_off_credits_reviewed_by_fkey(full_name)
+`;
+
+/**
+ * Comp-off credits visible to the caller, latest worked date first.
+ * Pass an employee to limit to their own.
+ */
+export const fetchCompOffCredits = async (employeeId?: string): Promise<CompOffCredit[]> => {
+  let query = supabase
+    .from('hr_comp_off_credits')
+    .select(COMP_OFF_SELECT)
+    .order('work_date', { ascending: false });
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as CompOffCredit[];
+};
+
+/**
+ * Manager/HR decision. Approval credits the days to the employee's Comp Off balance.
+ */
+export const processCompOffCredit = async (
+  creditId: string,
+  action: 'approve' | 'reject',
+  comments?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('process_comp_off_credit', {
+    p_credit_id: creditId,
+    p_action: action,
+    p_comments: comments || null,
+  });
+
+  if (error) throw error;
+};
+
+export const COMP_OFF_STATUS_STYLES: Record<CompOffStatus, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  Approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  Rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  Expired: 'bg-muted text-muted-foreground',
+};
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Out-of-office approval delegation (hr_approval_delegations)
+
+export interface ApprovalDelegation {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  delegator?: { full_name: string } | null;
+  delegate?: { full_name: string } | null;
+}
+
+const DELEGATION_SELECT = `
+  id, delegator_id, delegate_id, start_date, end_date, reason, revoked_at, created_at,
+  delegator:hr_employees!hr_approval_delegations_delegator_id_fkey(full_name),
+  delegate:hr_employees!hr_approval_delegations_delegate_id_fkey(full_name)
+`;
+
+/**
+ * Delegations the employee has given or received, newest first
+ */
+export const fetchDelegations = async (employeeId: string): Promise<ApprovalDelegation[]> => {
+  const { data, error } = await supabase
+    .from('hr_approval_delegations')
+    .select(DELEGATION_SELECT)
+    .or(`delegator_id.eq.${employeeId},delegate_id.eq.${employeeId}`)
+    .order('start_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as ApprovalDelegation[];
+};
+
+/**
+ * Approvers the employee is standing in for today
+ */
+export const fetchActiveDelegatorIds = async (employeeId: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('active_delegator_ids', { p_delegate_id: employeeId });
+  if (error) throw error;
+  return (data || []) as string[];
+};
+
+/**
+ * The employee who should receive an approver's requests today: their delegate
+ * while a delegation is active, otherwise the approver themselves
+ */
+export const resolveApproverId = async (approverId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('active_delegate_for', { p_approver_id: approverId });
+  if (error) throw error;
+  return (data as string | null) || approverId;
+};
+
+export const createDelegation = async (delegation: {
+  orgId: string;
+  delegatorId: string;
+  delegateId: string;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}): Promise<void> => {
+  const { error } = await supabase.from('hr_approval_delegations').insert({
+    org_id: delegation.orgId,
+    delegator_id: delegation.delegatorId,
+    delegate_id: delegation.delegateId,
+    start_date: delegation.startDate,
+    end_date: delegation.endDate,
+    reason: delegation.reason || null,
+    created_by: delegation.delegatorId,
+  });
+
+  if (error) throw error;
+};
+
+export const revokeDelegation = async (delegationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_approval_delegations')
+    .update({ revoked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', delegationId);
+
+  if (error) throw error;
+};
+
+export const isDelegationActive = (delegation: ApprovalDelegation, today: string): boolean => {
+  return !delegation.revoked_at && delegation.start_date <= today && delegation.end_date >= today;
+};
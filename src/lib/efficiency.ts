@@ -0,0 +1,127 @@
+import { supabase } from '@/integrations/supabase/client';
+import { format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+
+// Weekly efficiency snapshots (hr_efficiency_snapshots), scored server-side by
+// public.compute_efficiency_snapshots() from logged vs attended time, approved vs
+// reworked work-log weeks, and on-time submission. Blended 50/30/20 over the parts
+// that have data; department rows pool their members' counts.
+
+export type EfficiencyScope = 'employee' | 'department';
+
+export type EfficiencyLevel = 'high' | 'medium' | 'low' | 'none';
+
+export interface EfficiencySnapshot {
+  id: string;
+  scope: EfficiencyScope;
+  employee_id: string | null;
+  department: string | null;
+  week_start: string;
+  logged_minutes: number;
+  attended_minutes: number;
+  weeks_approved: number;
+  reworks: number;
+  submissions: number;
+  on_time_submissions: number;
+  utilization: number | null;
+  quality: number | null;
+  on_time_rate: number | null;
+  efficiency: number | null;
+  member_count: number;
+  computed_at: string;
+  employee?: {
+    full_name: string;
+    employee_code: string | null;
+    hr_employee_details: { department: string | null }[] | null;
+  } | null;
+}
+
+// Scores at or above the target are on track; within this many points are close
+export const EFFICIENCY_TARGET = 85;
+export const EFFICIENCY_CLOSE_MARGIN = 15;
+
+const SNAPSHOT_SELECT = `
+  id, scope, employee_id, department, week_start, logged_minutes, attended_minutes,
+  weeks_approved, reworks, submissions, on_time_submissions,
+  utilization, quality, on_time_rate, efficiency, member_count, computed_at,
+  employee:hr_employees!hr_efficiency_snapshots_employee_id_fkey(full_name, employee_code, hr_employee_details(department))
+`;
+
+/**
+ * Monday of the week `weeksBack` complete weeks ago (1 = last week), as yyyy-MM-dd
+ */
+export const weekStartBefore = (weeksBack: number): string =>
+  format(subWeeks(startOfWeek(new Date(), { weekStartsOn: 1 }), weeksBack), 'yyyy-MM-dd');
+
+/**
+ * Employee snapshots visible to the caller from a week onwards, newest first. Pass an
+ * employee to limit to their own.
+ */
+export const fetchEmployeeSnapshots = async (fromWeek: string, employeeId?: string): Promise<EfficiencySnapshot[]> => {
+  let query = supabase
+    .from('hr_efficiency_snapshots')
+    .select(SNAPSHOT_SELECT)
+    .eq('scope', 'employee')
+    .gte('week_start', fromWeek)
+    .order('week_start', { ascending: false });
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as EfficiencySnapshot[];
+};
+
+/**
+ * Department snapshots for the caller's organization from a week onwards, newest first
+ */
+export const fetchDepartmentSnapshots = async (fromWeek: string): Promise<EfficiencySnapshot[]> => {
+  const { data, error } = await supabase
+    .from('hr_efficiency_snapshots')
+    .select(SNAPSHOT_SELECT)
+    .eq('scope', 'department')
+    .gte('week_start', fromWeek)
+    .order('week_start', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as EfficiencySnapshot[];
+};
+
+/**
+ * Admin-only: rescore one week (any date in it), or the last four complete weeks.
+ * Returns the number of employee snapshots written.
+ */
+export const computeEfficiencySnapshots = async (weekStart?: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('compute_efficiency_snapshots', {
+    p_week_start: weekStart,
+  });
+
+  if (error) throw error;
+  return data as number;
+};
+
+export const getEfficiencyLevel = (
+  value: number | null | undefined,
+  expected: number = EFFICIENCY_TARGET
+): EfficiencyLevel => {
+  if (value === null || value === undefined) return 'none';
+  if (value >= expected) return 'high';
+  if (value >= expected - EFFICIENCY_CLOSE_MARGIN) return 'medium';
+  return 'low';
+};
+
+/**
+ * Average efficiency across snapshots that have a score, rounded; null when none do
+ */
+export const averageEfficiency = (snapshots: Pick<EfficiencySnapshot, 'efficiency'>[]): number | null => {
+  const scored = snapshots.filter(s => s.efficiency !== null);
+  if (scored.length === 0) return null;
+  return Math.round(scored.reduce((sum, s) => sum + Number(s.efficiency), 0) / scored.length);
+};
+
+/**
+ * "Week of 12 Jan"
+ */
+export const formatSnapshotWeek = (weekStart: string): string =>
+  `Week of ${format(parseISO(weekStart), 'd MMM')}`;
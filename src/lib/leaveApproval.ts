@@ -0,0 +1,90 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LeaveDecisionResult {
+  request_id: string;
+  status: 'Approved' | 'Rejected' | 'Pending'; // Pending = forwarded to the next approver
+  total_days: number;
+  leave_type?: string;
+  year?: number;
+  remaining_leaves?: number;
+  next_approver_role?: string;
+}
+
+export type ApprovalStepStatus = 'Waiting' | 'Pending' | 'Approved' | 'Rejected' | 'Skipped';
+
+export interface LeaveApprovalStep {
+  id: string;
+  step_order: number;
+  approver_role: string;
+  approver_id: string | null;
+  status: ApprovalStepStatus;
+  acted_at: string | null;
+  comments: string | null;
+  approver?: { full_name: string } | null;
+  actor?: { full_name: string } | null;
+}
+
+// Embed for selecting a request's approval chain alongside hr_leave_requests
+export const APPROVAL_STEPS_SELECT = `approval_steps:hr_leave_approval_steps(
+  id, step_order, approver_role, approver_id, status, acted_at, comments,
+  approver:hr_employees!hr_leave_approval_steps_approver_id_fkey(full_name),
+  actor:hr_employees!hr_leave_approval_steps_acted_by_fkey(full_name)
+)`;
+
+export const sortApprovalSteps = (steps: LeaveApprovalStep[] | null | undefined): LeaveApprovalStep[] => {
+  return [...(steps || [])].sort((a, b) => a.step_order - b.step_order);
+};
+
+/**
+ * The step currently awaiting a decision, if the request has a chain
+ */
+export const getCurrentApprovalStep = (steps: LeaveApprovalStep[] | null | undefined): LeaveApprovalStep | undefined => {
+  return sortApprovalSteps(steps).find(s => s.status === 'Pending');
+};
+
+/**
+ * Whether an approver may act on a request right now. approverIds holds the
+ * approver plus anyone they are standing in for under an active delegation.
+ * Requests submitted before approval chains existed have no steps and keep the
+ * manager/admin rule.
+ */
+export const canActOnLeaveStep = (
+  steps: LeaveApprovalStep[] | null | undefined,
+  approverIds: string[],
+  isAdmin: boolean
+): boolean => {
+  if (!steps || steps.length === 0) return true;
+  const current = getCurrentApprovalStep(steps);
+  if (!current) return false;
+  return isAdmin || (!!current.approver_id && approverIds.includes(current.approver_id));
+};
+
+/**
+ * Approve the current step of a leave request via process_leave_request. The server
+ * works out the days charged from the stored range, sessions and holidays. The final
+ * step re-validates the balance, deducts the entitlement, marks attendance and
+ * notifies the employee; earlier steps forward the request to the next approver.
+ */
+export const approveLeaveRequest = async (requestId: string): Promise<LeaveDecisionResult> => {
+  const { data, error } = await supabase.rpc('process_leave_request', {
+    p_request_id: requestId,
+    p_decision: 'Approved',
+  });
+
+  if (error) throw error;
+  return data as unknown as LeaveDecisionResult;
+};
+
+export const rejectLeaveRequest = async (
+  requestId: string,
+  rejectionReason?: string
+): Promise<LeaveDecisionResult> => {
+  const { data, error } = await supabase.rpc('process_leave_request', {
+    p_request_id: requestId,
+    p_decision: 'Rejected',
+    p_rejection_reason: rejectionReason || null,
+  });
+
+  if (error) throw error;
+  return data as unknown as LeaveDecisionResult;
+};
@@ -0,0 +1,161 @@
+import { supabase } from '@/integrations/supabase/client';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+
+// Shared leave duration engine used wherever total_days is computed
+
+export type LeaveSession = 'full' | 'first_half' | 'second_half';
+
+export const LEAVE_SESSIONS: { value: LeaveSession; label: string }[] = [
+  { value: 'full', label: 'Full Day' },
+  { value: 'first_half', label: 'First Half' },
+  { value: 'second_half', label: 'Second Half' },
+];
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+export interface LeaveDurationOptions {
+  nonWorkingDates: Set<string>; // yyyy-MM-dd holidays that apply to the employee
+  weekends?: string[]; // Day names from the attendance policy
+  sandwichRule?: boolean; // Count weekends/holidays enclosed by leave days
+  startSession?: LeaveSession;
+  endSession?: LeaveSession;
+}
+
+export interface LeaveDay {
+  date: string;
+  fraction: number; // 1 for a full day, 0.5 for a half day
+  sandwiched: boolean;
+}
+
+export interface LeaveDuration {
+  totalDays: number;
+  days: LeaveDay[];
+  excluded: { date: string; reason: 'weekend' | 'holiday' }[];
+}
+
+/**
+ * Half-day sessions only apply at the edges of a range, the first and last working
+ * days: a leave can start in the second half and end in the first half. A single-day
+ * leave may be either half.
+ */
+const sessionFraction = (session: LeaveSession | undefined, edge: 'start' | 'end' | 'single'): number => {
+  if (!session || session === 'full') return 1;
+  if (edge === 'single') return 0.5;
+  if (edge === 'start' && session === 'second_half') return 0.5;
+  if (edge === 'end' && session === 'first_half') return 0.5;
+  return 1;
+};
+
+export const calculateLeaveDuration = (
+  start: Date,
+  end: Date,
+  options: LeaveDurationOptions
+): LeaveDuration => {
+  if (end < start) return { totalDays: 0, days: [], excluded: [] };
+
+  const weekendDays = (options.weekends ?? ['saturday', 'sunday'])
+    .map(day => WEEKDAY_INDEX[day.toLowerCase()])
+    .filter(day => day !== undefined);
+
+  const range = eachDayOfInterval({ start, end }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    const reason: 'weekend' | 'holiday' | null = options.nonWorkingDates.has(date)
+      ? 'holiday'
+      : weekendDays.includes(day.getDay())
+        ? 'weekend'
+        : null;
+    return { date, reason };
+  });
+
+  const workingIndexes = range.map((d, i) => (d.reason ? -1 : i)).filter(i => i >= 0);
+  const firstWorking = workingIndexes[0];
+  const lastWorking = workingIndexes[workingIndexes.length - 1];
+  const isSingleDay = range.length === 1;
+
+  const days: LeaveDay[] = [];
+  const excluded: LeaveDuration['excluded'] = [];
+
+  range.forEach((d, i) => {
+    if (d.reason) {
+      const enclosed = options.sandwichRule && firstWorking !== undefined && i > firstWorking && i < lastWorking;
+      if (enclosed) {
+        days.push({ date: d.date, fraction: 1, sandwiched: true });
+      } else {
+        excluded.push({ date: d.date, reason: d.reason });
+      }
+      return;
+    }
+
+    let fraction = 1;
+    if (isSingleDay) {
+      fraction = sessionFraction(options.startSession, 'single');
+    } else {
+      if (i === firstWorking) fraction = Math.min(fraction, sessionFraction(options.startSession, 'start'));
+      if (i === lastWorking) fraction = Math.min(fraction, sessionFraction(options.endSession, 'end'));
+    }
+    days.push({ date: d.date, fraction, sandwiched: false });
+  });
+
+  return {
+    totalDays: days.reduce((sum, d) => sum + d.fraction, 0),
+    days,
+    excluded,
+  };
+};
+
+/**
+ * Holidays that are days off for an employee within a range: every mandatory
+ * holiday plus the optional holidays the employee has opted into.
+ */
+export const fetchNonWorkingDates = async (
+  employeeId: string,
+  start: Date | string,
+  end: Date | string
+): Promise<Set<string>> => {
+  const from = typeof start === 'string' ? start : format(start, 'yyyy-MM-dd');
+  const to = typeof end === 'string' ? end : format(end, 'yyyy-MM-dd');
+
+  const [{ data: holidays, error }, { data: selections, error: selectionError }] = await Promise.all([
+    supabase
+      .from('hr_holidays')
+      .select('id, holiday_date, is_optional')
+      .gte('holiday_date', from)
+      .lte('holiday_date', to),
+    supabase
+      .from('hr_optional_holiday_selections')
+      .select('holiday_id')
+      .eq('employee_id', employeeId),
+  ]);
+
+  if (error) throw error;
+  if (selectionError) throw selectionError;
+
+  const selected = new Set((selections || []).map(s => s.holiday_id));
+  return new Set(
+    (holidays || [])
+      .filter(h => !h.is_optional || selected.has(h.id))
+      .map(h => h.holiday_date)
+  );
+};
+
+/**
+ * Compute an employee's leave duration for a stored or requested range,
+ * loading the holidays that apply to them.
+ */
+export const computeEmployeeLeaveDuration = async (
+  employeeId: string,
+  startDate: string,
+  endDate: string,
+  options: Omit<LeaveDurationOptions, 'nonWorkingDates'>
+): Promise<LeaveDuration> => {
+  const nonWorkingDates = await fetchNonWorkingDates(employeeId, startDate, endDate);
+  return calculateLeaveDuration(parseISO(startDate), parseISO(endDate), { ...options, nonWorkingDates });
+};
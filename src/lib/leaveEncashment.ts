@@ -0,0 +1,149 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Earned Leave encashment (hr_leave_encashments). Approved amounts are paid as a
+// line item on the employee's next hr_salary_history record, on top of its gross
+// and net figures.
+
+export type EncashmentStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled' | 'Paid';
+
+export interface LeaveEncashment {
+  id: string;
+  employee_id: string;
+  leave_type: string;
+  year: number;
+  days: number;
+  reason: string | null;
+  status: EncashmentStatus;
+  daily_rate: number | null;
+  amount: number | null;
+  reviewed_at: string | null;
+  review_comments: string | null;
+  salary_history_id: string | null;
+  created_at: string;
+  employee?: { full_name: string; employee_code: string | null } | null;
+  reviewer?: { full_name: string } | null;
+}
+
+export interface SalaryLineItem {
+  id: string;
+  salary_history_id: string;
+  item_type: string;
+  description: string;
+  amount: number;
+}
+
+const ENCASHMENT_SELECT = `
+  id, employee_id, leave_type, year, days, reason, status, daily_rate, amount,
+  reviewed_at, review_comments, salary_history_id, created_at,
+  employee:hr_employees!hr_leave_encashments_employee_id_fkey(full_name, employee_code),
+  reviewer:hr_employees!hr_leave_encashments_reviewed_by_fkey(full_name)
+`;
+
+/**
+ * Encashment requests, newest first. Pass an employee to limit to their own.
+ */
+export const fetchLeaveEncashments = async (employeeId?: string): Promise<LeaveEncashment[]> => {
+  let query = supabase
+    .from('hr_leave_encashments')
+    .select(ENCASHMENT_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as LeaveEncashment[];
+};
+
+/**
+ * Days of Earned Leave above the carry-forward cap still available to encash
+ */
+export const fetchEncashmentEligibility = async (employeeId: string, year: number): Promise<number> => {
+  const { data, error } = await supabase.rpc('leave_encashment_eligibility', {
+    p_employee_id: employeeId,
+    p_year: year,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+};
+
+export const requestLeaveEncashment = async (days: number, year: number, reason?: string): Promise<void> => {
+  const { error } = await supabase.rpc('request_leave_encashment', {
+    p_days: days,
+    p_year: year,
+    p_reason: reason || null,
+  });
+
+  if (error) throw error;
+};
+
+export const cancelLeaveEncashment = async (encashmentId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_leave_encashments')
+    .update({ status: 'Cancelled', updated_at: new Date().toISOString() })
+    .eq('id', encashmentId);
+
+  if (error) throw error;
+};
+
+/**
+ * HR decision. Approval values the request at the org's daily rate and deducts
+ * the days from the Earned Leave balance.
+ */
+export const processLeaveEncashment = async (
+  encashmentId: string,
+  action: 'approve' | 'reject',
+  comments?: string
+): Promise<{ status: EncashmentStatus; daily_rate?: number; amount?: number }> => {
+  const { data, error } = await supabase.rpc('process_leave_encashment', {
+    p_encashment_id: encashmentId,
+    p_action: action,
+    p_comments: comments || null,
+  });
+
+  if (error) throw error;
+  return data as unknown as { status: EncashmentStatus; daily_rate?: number; amount?: number };
+};
+
+/**
+ * Line items for the given salary records, grouped by salary record
+ */
+export const fetchSalaryLineItems = async (salaryHistoryIds: string[]): Promise<Record<string, SalaryLineItem[]>> => {
+  if (salaryHistoryIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('hr_salary_line_items')
+    .select('id, salary_history_id, item_type, description, amount')
+    .in('salary_history_id', salaryHistoryIds);
+
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, SalaryLineItem[]>>((acc, item) => {
+    if (!acc[item.salary_history_id]) acc[item.salary_history_id] = [];
+    acc[item.salary_history_id].push(item);
+    return acc;
+  }, {});
+};
+
+/**
+ * Total paid on top of a salary record's net pay
+ */
+export const sumSalaryLineItems = (items: SalaryLineItem[] | undefined): number => {
+  return (items || []).reduce((sum, item) => sum + Number(item.amount), 0);
+};
+
+export const formatEncashmentAmount = (amount: number | null | undefined, currency = 'INR'): string => {
+  if (amount == null) return '-';
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+};
+
+export const ENCASHMENT_STATUS_STYLES: Record<EncashmentStatus, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  Approved: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  Paid: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  Rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  Cancelled: 'bg-muted text-muted-foreground',
+};
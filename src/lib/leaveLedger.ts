@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import { format, parseISO } from 'date-fns';
+import * as XLSX from 'xlsx';
+
+// Append-only leave ledger (hr_leave_ledger). Entitlement totals are derived from it.
+
+export type LedgerEntryType = 'credit' | 'debit' | 'reversal' | 'carry_forward' | 'adjustment';
+
+export interface LeaveLedgerEntry {
+  id: string;
+  leave_type: string;
+  year: number;
+  entry_type: LedgerEntryType;
+  days: number;
+  reason: string;
+  reference_type: string | null;
+  reference_id: string | null;
+  created_at: string;
+  actor?: { full_name: string } | null;
+}
+
+export interface LeaveStatementRow extends LeaveLedgerEntry {
+  /** Days added (+) or taken (-) from the balance */
+  change: number;
+  /** Balance of this leave type after the entry */
+  balance: number;
+}
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  credit: 'Credit',
+  debit: 'Leave Taken',
+  reversal: 'Reversal',
+  carry_forward: 'Carry Forward',
+  adjustment: 'Adjustment',
+};
+
+/**
+ * Signed effect of an entry on the balance: debits reduce it, everything else
+ * adds its (possibly negative) days
+ */
+export const getLedgerChange = (entry: Pick<LeaveLedgerEntry, 'entry_type' | 'days'>): number => {
+  const days = Number(entry.days);
+  return entry.entry_type === 'debit' ? -days : days;
+};
+
+/**
+ * Ledger entries for an employee's year, oldest first
+ */
+export const fetchLeaveLedger = async (employeeId: string, year: number): Promise<LeaveLedgerEntry[]> => {
+  const { data, error } = await supabase
+    .from('hr_leave_ledger')
+    .select(`
+      id, leave_type, year, entry_type, days, reason, reference_type, reference_id, created_at,
+      actor:hr_employees!hr_leave_ledger_created_by_fkey(full_name)
+    `)
+    .eq('employee_id', employeeId)
+    .eq('year', year)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as unknown as LeaveLedgerEntry[];
+};
+
+/**
+ * Attach the signed change and a running balance per leave type
+ */
+export const buildLeaveStatement = (entries: LeaveLedgerEntry[]): LeaveStatementRow[] => {
+  const balances: Record<string, number> = {};
+
+  return entries.map(entry => {
+    const change = getLedgerChange(entry);
+    balances[entry.leave_type] = (balances[entry.leave_type] || 0) + change;
+    return { ...entry, change, balance: balances[entry.leave_type] };
+  });
+};
+
+/**
+ * HR credit (positive days) or debit (negative days) with a mandatory reason.
+ * The employee is notified and the change is written to the audit log.
+ */
+export const adjustLeaveBalance = async (adjustment: {
+  employeeId: string;
+  leaveType: string;
+  year: number;
+  days: number;
+  reason: string;
+}): Promise<void> => {
+  const { error } = await supabase.rpc('adjust_leave_balance', {
+    p_employee_id: adjustment.employeeId,
+    p_leave_type: adjustment.leaveType,
+    p_year: adjustment.year,
+    p_days: adjustment.days,
+    p_reason: adjustment.reason,
+  });
+
+  if (error) throw error;
+};
+
+export const formatLedgerDays = (days: number): string => (days > 0 ? `+${days}` : `${days}`);
+
+/**
+ * Download an employee's statement for the year as an Excel workbook
+ */
+export const exportLeaveStatement = (
+  employeeName: string,
+  year: number,
+  rows: LeaveStatementRow[]
+): void => {
+  const wb = XLSX.utils.book_new();
+
+  const sheetData = [
+    [`Leave Statement - ${employeeName}`],
+    [`Year: ${year}`],
+    [`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm')}`],
+    [],
+    ['Date', 'Leave Type', 'Entry', 'Days', 'Balance', 'Reason', 'By'],
+    ...rows.map(row => [
+      format(parseISO(row.created_at), 'yyyy-MM-dd'),
+      row.leave_type,
+      LEDGER_ENTRY_LABELS[row.entry_type] || row.entry_type,
+      row.change,
+      row.balance,
+      row.reason,
+      row.actor?.full_name || 'System',
+    ]),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(sheetData);
+  XLSX.utils.book_append_sheet(wb, sheet, 'Statement');
+
+  const fileName = employeeName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  XLSX.writeFile(wb, `leave-statement-${fileName}-${year}.xlsx`);
+};
@@ -1,4 +1,5 @@
 // Leave type configuration with descriptions and rules
+// Quotas here are defaults; the org's stored policy overrides them (see orgSettings.ts)
 
 export interface LeaveTypeConfig {
   value: string;
@@ -58,6 +59,17 @@ export const LEAVE_TYPES: LeaveTypeConfig[] = [
   },
 ];
 
+// Earned by working on weekends/holidays; the balance comes only from approved
+// comp-off credits, so it has no annual quota and is not part of LEAVE_TYPES
+export const COMP_OFF_LEAVE_TYPE: LeaveTypeConfig = {
+  value: 'Comp Off',
+  label: 'Comp Off',
+  shortLabel: 'CO',
+  totalDays: 0,
+  description: 'Earned by working on weekends or holidays (expires if unused)',
+  carryForward: false,
+};
+
 export const SPECIAL_LEAVE_REASONS = [
   'Birthday',
   "Parent's Birthday",
@@ -66,20 +78,29 @@ export const SPECIAL_LEAVE_REASONS = [
   'Other',
 ];
 
-export const getLeaveTypesForGender = (gender: string | null | undefined): LeaveTypeConfig[] => {
-  return LEAVE_TYPES.filter(lt => {
+export const getLeaveTypesForGender = (
+  gender: string | null | undefined,
+  leaveTypes: LeaveTypeConfig[] = LEAVE_TYPES
+): LeaveTypeConfig[] => {
+  return leaveTypes.filter(lt => {
     if (!lt.genderRestriction) return true;
     return lt.genderRestriction === gender;
   });
 };
 
-export const getTotalLeaveDays = (gender: string | null | undefined): number => {
-  return getLeaveTypesForGender(gender).reduce((sum, lt) => sum + lt.totalDays, 0);
+export const getTotalLeaveDays = (
+  gender: string | null | undefined,
+  leaveTypes: LeaveTypeConfig[] = LEAVE_TYPES
+): number => {
+  return getLeaveTypesForGender(gender, leaveTypes).reduce((sum, lt) => sum + lt.totalDays, 0);
 };
 
-export const getLeaveSummaryText = (gender: string | null | undefined): string => {
-  const types = getLeaveTypesForGender(gender);
+export const getLeaveSummaryText = (
+  gender: string | null | undefined,
+  leaveTypes: LeaveTypeConfig[] = LEAVE_TYPES
+): string => {
+  const types = getLeaveTypesForGender(gender, leaveTypes);
   const parts = types.map(lt => `${lt.totalDays} ${lt.shortLabel}`);
-  const total = getTotalLeaveDays(gender);
+  const total = getTotalLeaveDays(gender, leaveTypes);
   return `${total} days total (${parts.join(' + ')})`;
 };
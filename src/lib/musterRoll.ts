@@ -0,0 +1,307 @@
+import { supabase } from '@/integrations/supabase/client';
+import * as XLSX from 'xlsx';
+import { eachDayOfInterval, endOfMonth, format, parseISO } from 'date-fns';
+import { LeaveTypeConfig } from '@/lib/leaveTypes';
+import { LeaveSession, calculateLeaveDuration } from '@/lib/leaveDuration';
+import { isWeekendDate } from '@/lib/teamCoverage';
+import { WFH_ATTENDANCE_STATUS, wfhCoversDate } from '@/lib/wfh';
+
+// Monthly muster roll: one row per employee, one attendance code per day, and the
+// payable days payroll is run on
+
+export interface MusterRollTotals {
+  present: number; // Includes days regularized to present
+  wfh: number;
+  halfDays: number;
+  absent: number;
+  leave: number;
+  holidays: number;
+  weekOffs: number;
+  payable: number;
+}
+
+export interface MusterRollRow {
+  employeeId: string;
+  employeeCode: string | null;
+  fullName: string;
+  department: string | null;
+  codes: string[]; // One per day of the month; blank before joining, for future days or with no record yet
+  totals: MusterRollTotals;
+}
+
+export interface MusterRoll {
+  year: number;
+  month: number;
+  days: string[];
+  rows: MusterRollRow[];
+}
+
+interface DayEntry {
+  code: string;
+  payable: number;
+  tally?: keyof Omit<MusterRollTotals, 'payable' | 'leave'>;
+  leave?: number;
+}
+
+export const MUSTER_CODE_LEGEND: { code: string; label: string }[] = [
+  { code: 'P', label: 'Present' },
+  { code: 'R', label: 'Regularized to present' },
+  { code: 'WFH', label: 'Work from home' },
+  { code: 'HD', label: 'Half day' },
+  { code: 'A', label: 'Absent' },
+  { code: 'H', label: 'Holiday' },
+  { code: 'WO', label: 'Weekly off' },
+  { code: 'L', label: 'On leave (type not recorded)' },
+];
+
+// Half-day leave is shown as the leave code with a half, e.g. CL½
+const HALF_LEAVE_SUFFIX = '½';
+
+const leaveCode = (leaveType: string, leaveTypes: LeaveTypeConfig[]): string => {
+  return leaveTypes.find(lt => lt.value === leaveType)?.shortLabel || 'L';
+};
+
+/**
+ * Build the muster roll for a month (1-12). Everyone active is listed, plus anyone
+ * who left but has attendance or leave in the month.
+ */
+export const fetchMusterRoll = async (
+  year: number,
+  month: number,
+  options: { weekends: string[]; sandwichRule: boolean; leaveTypes: LeaveTypeConfig[] }
+): Promise<MusterRoll> => {
+  const from = format(new Date(year, month - 1, 1), 'yyyy-MM-dd');
+  const to = format(endOfMonth(new Date(year, month - 1, 1)), 'yyyy-MM-dd');
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const days = eachDayOfInterval({ start: parseISO(from), end: parseISO(to) }).map(d => format(d, 'yyyy-MM-dd'));
+
+  const [employeesRes, attendanceRes, leavesRes, selectionsRes, regularizationsRes, wfhRes] = await Promise.all([
+    supabase
+      .from('hr_employees')
+      .select('id, full_name, employee_code, status, joining_date, hr_employee_details(department)')
+      .order('full_name'),
+    supabase
+      .from('hr_attendance')
+      .select('employee_id, attendance_date, status')
+      .eq('is_consolidated', true)
+      .gte('attendance_date', from)
+      .lte('attendance_date', to),
+    supabase
+      .from('hr_leave_requests')
+      .select('employee_id, leave_type, start_date, end_date, start_session, end_session')
+      .eq('status', 'Approved')
+      .lte('start_date', to)
+      .gte('end_date', from),
+    supabase.from('hr_optional_holiday_selections').select('employee_id, holiday_id'),
+    supabase
+      .from('hr_attendance_regularization_requests')
+      .select('employee_id, attendance_date')
+      .eq('status', 'Approved')
+      .gte('attendance_date', from)
+      .lte('attendance_date', to),
+    supabase
+      .from('hr_wfh_requests')
+      .select('employee_id, start_date, end_date, recurrence, weekdays')
+      .eq('status', 'Approved')
+      .lte('start_date', to)
+      .or(`end_date.is.null,end_date.gte.${from}`),
+  ]);
+
+  for (const res of [employeesRes, attendanceRes, leavesRes, selectionsRes, regularizationsRes, wfhRes]) {
+    if (res.error) throw res.error;
+  }
+
+  // Holidays across the whole of every leave, which can run into the months either side
+  const holidaysFrom = (leavesRes.data || []).reduce((min, l) => (l.start_date < min ? l.start_date : min), from);
+  const holidaysTo = (leavesRes.data || []).reduce((max, l) => (l.end_date > max ? l.end_date : max), to);
+  const holidaysRes = await supabase
+    .from('hr_holidays')
+    .select('id, holiday_date, is_optional')
+    .gte('holiday_date', holidaysFrom)
+    .lte('holiday_date', holidaysTo);
+
+  if (holidaysRes.error) throw holidaysRes.error;
+
+  const attendance = new Map((attendanceRes.data || []).map(a => [`${a.employee_id}|${a.attendance_date}`, a.status]));
+  const regularized = new Set((regularizationsRes.data || []).map(r => `${r.employee_id}|${r.attendance_date}`));
+  const mandatoryHolidays = new Set(
+    (holidaysRes.data || []).filter(h => !h.is_optional).map(h => h.holiday_date)
+  );
+  const optionalHolidays = new Map(
+    (holidaysRes.data || []).filter(h => h.is_optional).map(h => [h.id, h.holiday_date])
+  );
+  const optedHolidays = new Set(
+    (selectionsRes.data || [])
+      .filter(s => optionalHolidays.has(s.holiday_id))
+      .map(s => `${s.employee_id}|${optionalHolidays.get(s.holiday_id)}`)
+  );
+
+  // The days each approved leave takes, worked out as when it was approved: weekends
+  // and holidays inside it only count under the sandwich rule, and half-day sessions
+  // apply to its first and last working days
+  const leaveDays = new Map<string, { leaveType: string; fraction: number }>();
+  (leavesRes.data || []).forEach(leave => {
+    const nonWorkingDates = new Set([
+      ...mandatoryHolidays,
+      ...[...optionalHolidays.values()].filter(date => optedHolidays.has(`${leave.employee_id}|${date}`)),
+    ]);
+    const duration = calculateLeaveDuration(parseISO(leave.start_date), parseISO(leave.end_date), {
+      nonWorkingDates,
+      weekends: options.weekends,
+      sandwichRule: options.sandwichRule,
+      startSession: leave.start_session as LeaveSession,
+      endSession: leave.end_session as LeaveSession,
+    });
+    duration.days.forEach(day => {
+      leaveDays.set(`${leave.employee_id}|${day.date}`, { leaveType: leave.leave_type, fraction: day.fraction });
+    });
+  });
+
+  const wfhRequests = (wfhRes.data || []).map(r => ({ ...r, recurrence: r.recurrence as 'none' | 'weekly' }));
+  const withRecords = new Set([
+    ...(attendanceRes.data || []).map(a => a.employee_id),
+    ...(leavesRes.data || []).map(l => l.employee_id),
+  ]);
+
+  const dayEntry = (employeeId: string, date: string): DayEntry | null => {
+    const key = `${employeeId}|${date}`;
+    const status = attendance.get(key);
+    const leave = leaveDays.get(key);
+
+    if (leave) {
+      const code = leaveCode(leave.leaveType, options.leaveTypes);
+      if (leave.fraction === 1) {
+        return { code, payable: 1, leave: 1 };
+      }
+      // The other half is worked, or counted absent
+      const worked = status === 'Present' || status === 'Half Day' || status === WFH_ATTENDANCE_STATUS;
+      return { code: `${code}${HALF_LEAVE_SUFFIX}`, payable: worked ? 1 : 0.5, leave: 0.5 };
+    }
+
+    switch (status) {
+      case 'Present':
+        return regularized.has(key)
+          ? { code: 'R', payable: 1, tally: 'present' }
+          : { code: 'P', payable: 1, tally: 'present' };
+      case WFH_ATTENDANCE_STATUS:
+        return { code: 'WFH', payable: 1, tally: 'wfh' };
+      case 'Half Day':
+        return { code: 'HD', payable: 0.5, tally: 'halfDays' };
+      case 'On Leave':
+        return { code: 'L', payable: 1, leave: 1 };
+      case 'Holiday':
+        return { code: 'H', payable: 1, tally: 'holidays' };
+      case 'Absent':
+        return { code: 'A', payable: 0, tally: 'absent' };
+    }
+
+    if (mandatoryHolidays.has(date) || optedHolidays.has(key)) {
+      return { code: 'H', payable: 1, tally: 'holidays' };
+    }
+    if (isWeekendDate(date, options.weekends)) {
+      return { code: 'WO', payable: 1, tally: 'weekOffs' };
+    }
+    // Approved WFH on a day not consolidated yet
+    if (wfhRequests.some(r => r.employee_id === employeeId && wfhCoversDate(r, date))) {
+      return { code: 'WFH', payable: 1, tally: 'wfh' };
+    }
+    return null;
+  };
+
+  const rows: MusterRollRow[] = (employeesRes.data || [])
+    .filter(e => e.status === 'Active' || withRecords.has(e.id))
+    .map(e => {
+      const totals: MusterRollTotals = { present: 0, wfh: 0, halfDays: 0, absent: 0, leave: 0, holidays: 0, weekOffs: 0, payable: 0 };
+
+      const codes = days.map(date => {
+        if (date > today || (e.joining_date && date < e.joining_date)) return '';
+
+        const entry = dayEntry(e.id, date);
+        if (!entry) return '';
+
+        totals.payable += entry.payable;
+        if (entry.leave) totals.leave += entry.leave;
+        if (entry.tally) totals[entry.tally] += 1;
+        return entry.code;
+      });
+
+      return {
+        employeeId: e.id,
+        employeeCode: e.employee_code,
+        fullName: e.full_name,
+        department: e.hr_employee_details?.[0]?.department ?? null,
+        codes,
+        totals,
+      };
+    });
+
+  return { year, month, days, rows };
+};
+
+/**
+ * Download the muster roll. The Excel workbook adds a title and a sheet explaining the codes.
+ */
+export const exportMusterRoll = (
+  roll: MusterRoll,
+  leaveTypes: LeaveTypeConfig[],
+  fileType: 'xlsx' | 'csv'
+): void => {
+  const wb = XLSX.utils.book_new();
+  const fileName = `muster-roll-${roll.year}-${String(roll.month).padStart(2, '0')}`;
+
+  const grid = [
+    [
+      'Employee Code',
+      'Employee',
+      'Department',
+      ...roll.days.map(d => format(parseISO(d), 'd EEE')),
+      'Present',
+      'WFH',
+      'Half Days',
+      'Absent',
+      'Leave',
+      'Holidays',
+      'Week Offs',
+      'Payable Days',
+    ],
+    ...roll.rows.map(row => [
+      row.employeeCode || '',
+      row.fullName,
+      row.department || '',
+      ...row.codes,
+      row.totals.present,
+      row.totals.wfh,
+      row.totals.halfDays,
+      row.totals.absent,
+      row.totals.leave,
+      row.totals.holidays,
+      row.totals.weekOffs,
+      row.totals.payable,
+    ]),
+  ];
+
+  if (fileType === 'csv') {
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(grid), 'Muster Roll');
+    XLSX.writeFile(wb, `${fileName}.csv`);
+    return;
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet([
+    [`Muster Roll - ${format(new Date(roll.year, roll.month - 1, 1), 'MMMM yyyy')}`],
+    [`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm')}`],
+    [],
+    ...grid,
+  ]);
+  sheet['!cols'] = [{ wch: 14 }, { wch: 24 }, { wch: 16 }, ...roll.days.map(() => ({ wch: 6 }))];
+  XLSX.utils.book_append_sheet(wb, sheet, 'Muster Roll');
+
+  const legend = XLSX.utils.aoa_to_sheet([
+    ['Code', 'Meaning'],
+    ...MUSTER_CODE_LEGEND.map(c => [c.code, c.label]),
+    ...leaveTypes.map(lt => [lt.shortLabel, lt.label]),
+    [`<leave>${HALF_LEAVE_SUFFIX}`, 'Half-day leave'],
+  ]);
+  XLSX.utils.book_append_sheet(wb, legend, 'Codes');
+
+  XLSX.writeFile(wb, `${fileName}.xlsx`);
+};
@@ -0,0 +1,361 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { LEAVE_TYPES, LeaveTypeConfig } from '@/lib/leaveTypes';
+
+// Per-organization HR settings stored in hr_org_settings
+
+export type ApprovalStepRole = 'Manager' | 'HR';
+
+/**
+ * Approval chain for leave requests matching a leave type and/or a minimum duration.
+ * Rules are evaluated in order; the first match wins, otherwise the manager approves alone.
+ */
+export interface LeaveApprovalRule {
+  leaveType: string | null; // null = any leave type
+  moreThanDays: number | null; // null = any duration
+  steps: ApprovalStepRole[];
+}
+
+/**
+ * How Earned Leave above the carry-forward cap is valued when encashed
+ */
+export interface EncashmentPolicy {
+  enabled: boolean;
+  rateBasis: 'salary' | 'fixed'; // Latest gross salary / salaryDivisor, or a flat daily rate
+  fixedDailyRate: number;
+  salaryDivisor: number;
+}
+
+/**
+ * Comp-off earned by working on weekends and holidays
+ */
+export interface CompOffPolicy {
+  enabled: boolean;
+  minHours: number; // Hours worked on the day to earn a credit (a full day at fullDayHours)
+  expiryDays: number; // Days after the worked date before an unused credit lapses
+}
+
+/**
+ * Minimum people who must remain available in a team (a manager's direct reports)
+ * or department; approvers are warned before approving leave that breaks it
+ */
+export interface TeamCoveragePolicy {
+  minAvailable: number; // 0 turns the warning off
+  scope: 'team' | 'department';
+}
+
+export interface LeavePolicy {
+  quotas: Record<string, number>; // Annual days keyed by leave type value
+  earnedLeaveCarryForwardLimit: number;
+  earnedLeaveAccrual: 'monthly' | 'upfront'; // Credit EL a twelfth per month, or the full quota on Jan 1
+  requireApproval: boolean;
+  sandwichRule: boolean; // Weekends/holidays enclosed by leave days count as leave
+  approvalRules: LeaveApprovalRule[];
+  encashment: EncashmentPolicy;
+  compOff: CompOffPolicy;
+  teamCoverage: TeamCoveragePolicy;
+}
+
+/**
+ * What happens to a punch made away from the employee's approved office sites
+ */
+export type PunchEnforcement = 'off' | 'flag' | 'block';
+
+/**
+ * When worked hours become an overtime claim, and how they are weighted for pay.
+ * Shifts can override the daily threshold and the working-day multiplier.
+ */
+export interface OvertimePolicy {
+  enabled: boolean;
+  dailyThresholdHours: number | null; // null = the shift's full day
+  weeklyThresholdHours: number | null; // Working-day hours per week; null = no weekly limit
+  minMinutes: number; // Smaller amounts are not claimed
+  weekdayMultiplier: number;
+  weekendMultiplier: number; // Weekend and holiday rates apply only when comp-off is off
+  holidayMultiplier: number;
+}
+
+/**
+ * Limits on attendance regularization requests
+ */
+export interface RegularizationPolicy {
+  monthlyLimit: number | null; // Requests per employee per attendance month, rejected ones excluded; null = no limit
+  maxAgeDays: number | null; // How far back a day can be regularized; null = no limit
+}
+
+export interface AttendancePolicy {
+  workStartTime: string;
+  workEndTime: string;
+  graceMinutes: number;
+  halfDayHours: number;
+  fullDayHours: number;
+  weekends: string[];
+  punchEnforcement: Record<string, PunchEnforcement>; // Keyed by employment type
+  openSessionPolicy: 'shift_end' | 'review'; // How the end-of-day job closes a missing punch-out
+  overtime: OvertimePolicy;
+  regularization: RegularizationPolicy;
+}
+
+export interface CompanySettings {
+  companyName: string;
+  timezone: string;
+  dateFormat: string;
+  currency: string;
+}
+
+export interface OrgSettings {
+  leavePolicy: LeavePolicy;
+  attendancePolicy: AttendancePolicy;
+  companySettings: CompanySettings;
+}
+
+// Keep in sync with public.org_leave_policy() defaults
+export const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  quotas: Object.fromEntries(LEAVE_TYPES.map(lt => [lt.value, lt.totalDays])),
+  earnedLeaveCarryForwardLimit: 30,
+  earnedLeaveAccrual: 'monthly',
+  requireApproval: true,
+  sandwichRule: false,
+  approvalRules: [],
+  encashment: {
+    enabled: true,
+    rateBasis: 'salary',
+    fixedDailyRate: 0,
+    salaryDivisor: 30,
+  },
+  compOff: {
+    enabled: true,
+    minHours: 4,
+    expiryDays: 90,
+  },
+  teamCoverage: {
+    minAvailable: 1,
+    scope: 'team',
+  },
+};
+
+// Keep in sync with public.org_attendance_policy() defaults
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  workStartTime: '09:00',
+  workEndTime: '18:00',
+  graceMinutes: 15,
+  halfDayHours: 4,
+  fullDayHours: 8,
+  weekends: ['saturday', 'sunday'],
+  punchEnforcement: {
+    'Full-time': 'flag',
+    'Part-time': 'flag',
+    'Contract': 'flag',
+    'Intern': 'flag',
+  },
+  openSessionPolicy: 'shift_end',
+  overtime: {
+    enabled: false,
+    dailyThresholdHours: null,
+    weeklyThresholdHours: 48,
+    minMinutes: 30,
+    weekdayMultiplier: 1.5,
+    weekendMultiplier: 2,
+    holidayMultiplier: 2,
+  },
+  regularization: {
+    monthlyLimit: null,
+    maxAgeDays: 30,
+  },
+};
+
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  companyName: 'LabelNest',
+  timezone: 'Asia/Kolkata',
+  dateFormat: 'DD/MM/YYYY',
+  currency: 'INR',
+};
+
+export const DEFAULT_ORG_SETTINGS: OrgSettings = {
+  leavePolicy: DEFAULT_LEAVE_POLICY,
+  attendancePolicy: DEFAULT_ATTENDANCE_POLICY,
+  companySettings: DEFAULT_COMPANY_SETTINGS,
+};
+
+const asObject = (value: Json | null | undefined): Record<string, unknown> => {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+};
+
+/**
+ * Merge a stored leave policy over the defaults so newly added keys
+ * (or leave types) always have a value.
+ */
+export const parseLeavePolicy = (value: Json | null | undefined): LeavePolicy => {
+  const stored = asObject(value);
+  return {
+    ...DEFAULT_LEAVE_POLICY,
+    ...stored,
+    quotas: { ...DEFAULT_LEAVE_POLICY.quotas, ...asObject(stored.quotas as Json) },
+    approvalRules: Array.isArray(stored.approvalRules) ? stored.approvalRules : [],
+    encashment: { ...DEFAULT_LEAVE_POLICY.encashment, ...asObject(stored.encashment as Json) },
+    compOff: { ...DEFAULT_LEAVE_POLICY.compOff, ...asObject(stored.compOff as Json) },
+    teamCoverage: { ...DEFAULT_LEAVE_POLICY.teamCoverage, ...asObject(stored.teamCoverage as Json) },
+  } as LeavePolicy;
+};
+
+/**
+ * Same as parseLeavePolicy, for the attendance policy
+ */
+export const parseAttendancePolicy = (value: Json | null | undefined): AttendancePolicy => {
+  const stored = asObject(value);
+  return {
+    ...DEFAULT_ATTENDANCE_POLICY,
+    ...stored,
+    punchEnforcement: { ...DEFAULT_ATTENDANCE_POLICY.punchEnforcement, ...asObject(stored.punchEnforcement as Json) },
+    overtime: { ...DEFAULT_ATTENDANCE_POLICY.overtime, ...asObject(stored.overtime as Json) },
+    regularization: { ...DEFAULT_ATTENDANCE_POLICY.regularization, ...asObject(stored.regularization as Json) },
+  } as AttendancePolicy;
+};
+
+export const parseOrgSettings = (row: {
+  leave_policy: Json;
+  attendance_policy: Json;
+  company_settings: Json;
+} | null): OrgSettings => {
+  if (!row) return DEFAULT_ORG_SETTINGS;
+  return {
+    leavePolicy: parseLeavePolicy(row.leave_policy),
+    attendancePolicy: parseAttendancePolicy(row.attendance_policy),
+    companySettings: { ...DEFAULT_COMPANY_SETTINGS, ...asObject(row.company_settings) } as CompanySettings,
+  };
+};
+
+/**
+ * Load the org's settings, falling back to defaults when nothing is stored yet
+ */
+export const fetchOrgSettings = async (orgId: string): Promise<OrgSettings> => {
+  const { data, error } = await supabase
+    .from('hr_org_settings')
+    .select('leave_policy, attendance_policy, company_settings')
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return parseOrgSettings(data);
+};
+
+/**
+ * Persist the org's settings (Admin only, enforced by RLS)
+ */
+export const saveOrgSettings = async (
+  orgId: string,
+  settings: OrgSettings,
+  updatedBy?: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_org_settings')
+    .upsert(
+      {
+        org_id: orgId,
+        leave_policy: settings.leavePolicy as unknown as Json,
+        attendance_policy: settings.attendancePolicy as unknown as Json,
+        company_settings: settings.companySettings as unknown as Json,
+        updated_by: updatedBy ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id' }
+    );
+
+  if (error) throw error;
+};
+
+const describeLeaveType = (config: LeaveTypeConfig, days: number, policy: LeavePolicy): string => {
+  switch (config.value) {
+    case 'Earned Leave':
+      return policy.earnedLeaveAccrual === 'monthly'
+        ? `${Math.round((days / 12) * 100) / 100} days credited monthly (carries forward, max ${policy.earnedLeaveCarryForwardLimit} total)`
+        : `${days} days per year (carries forward, max ${policy.earnedLeaveCarryForwardLimit} total)`;
+    case 'Menstruation Leave':
+      return `${days} days per year (female employees only)`;
+    case 'Special Leave':
+      return `${days} ${days === 1 ? 'day' : 'days'} per year (birthday or special occasion)`;
+    default:
+      return `${days} days per year (${config.carryForward ? 'carries forward' : 'non-carry forward'})`;
+  }
+};
+
+/**
+ * Leave type configuration with quotas and carry-forward caps taken from the org policy
+ */
+export const applyLeavePolicy = (policy: LeavePolicy): LeaveTypeConfig[] => {
+  return LEAVE_TYPES.map(lt => {
+    const totalDays = policy.quotas[lt.value] ?? lt.totalDays;
+    return {
+      ...lt,
+      totalDays,
+      maxCarryForward: lt.carryForward ? policy.earnedLeaveCarryForwardLimit : lt.maxCarryForward,
+      description: describeLeaveType(lt, totalDays, policy),
+    };
+  });
+};
+
+/**
+ * Create the current year's leave entitlements for a new employee from the org policy.
+ * Balances come from opening credits the server posts to the leave ledger from the
+ * org's quotas; under monthly accrual EL starts empty and the accrual job credits it,
+ * pro-rated from the joining date.
+ */
+export const seedLeaveEntitlements = async (
+  orgId: string,
+  employeeId: string,
+  gender: string | null | undefined,
+  year: number = new Date().getFullYear()
+): Promise<void> => {
+  const { leavePolicy } = await fetchOrgSettings(orgId);
+  const leaveTypes = applyLeavePolicy(leavePolicy).filter(
+    lt => !lt.genderRestriction || lt.genderRestriction === gender
+  );
+
+  const accruesMonthly = leavePolicy.earnedLeaveAccrual === 'monthly';
+
+  const { error } = await supabase.from('hr_leave_entitlements').insert(
+    leaveTypes.map(lt => ({
+      org_id: orgId,
+      employee_id: employeeId,
+      leave_type: lt.value,
+      total_leaves: 0,
+      used_leaves: 0,
+      remaining_leaves: 0,
+      year,
+    }))
+  );
+
+  if (error) throw error;
+
+  const { error: grantError } = await supabase.rpc('grant_opening_leave_balances', {
+    p_employee_id: employeeId,
+    p_leave_types: leaveTypes.map(lt => lt.value),
+    p_year: year,
+  });
+
+  if (grantError) throw grantError;
+
+  if (accruesMonthly) {
+    await runEarnedLeaveAccrual();
+  }
+};
+
+/**
+ * Credit any Earned Leave months not yet accrued for the caller's org (Admin only).
+ * Safe to re-run: each employee-month is credited once.
+ */
+export const runEarnedLeaveAccrual = async (asOf?: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('accrue_earned_leave', asOf ? { p_as_of: asOf } : {});
+  if (error) throw error;
+  return data ?? 0;
+};
+
+/**
+ * Close missing punch-outs, consolidate sessions and mark absentees for a day
+ * (default: yesterday) in the caller's org (Admin only). Safe to re-run.
+ */
+export const runAttendanceConsolidation = async (date?: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('consolidate_attendance', date ? { p_date: date } : {});
+  if (error) throw error;
+  return data ?? 0;
+};
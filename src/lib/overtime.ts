@@ -0,0 +1,205 @@
+import { supabase } from '@/integrations/supabase/client';
+import * as XLSX from 'xlsx';
+import { format, parseISO } from 'date-fns';
+
+// Overtime claims (hr_overtime_claims), created from consolidated attendance under the
+// org's overtime policy. Approved hours are summarised monthly for payroll.
+
+export type OvertimeStatus = 'Pending' | 'Approved' | 'Rejected';
+
+export type OvertimeDayType = 'working' | 'weekend' | 'holiday';
+
+export interface OvertimeClaim {
+  id: string;
+  employee_id: string;
+  work_date: string;
+  day_type: OvertimeDayType;
+  worked_hours: number;
+  daily_hours: number;
+  weekly_hours: number;
+  hours: number;
+  multiplier: number;
+  status: OvertimeStatus;
+  reviewed_at: string | null;
+  review_comments: string | null;
+  created_at: string;
+  employee?: { full_name: string; employee_code: string | null } | null;
+  reviewer?: { full_name: string } | null;
+}
+
+export interface OvertimeSummaryRow {
+  employeeId: string;
+  fullName: string;
+  employeeCode: string | null;
+  days: number;
+  hours: Record<OvertimeDayType, number>;
+  totalHours: number;
+  payableHours: number; // Hours weighted by their multipliers
+}
+
+export const OVERTIME_DAY_LABELS: Record<OvertimeDayType, string> = {
+  working: 'Working day',
+  weekend: 'Weekend',
+  holiday: 'Holiday',
+};
+
+export const OVERTIME_STATUS_STYLES: Record<OvertimeStatus, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  Approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  Rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+};
+
+const OVERTIME_SELECT = `
+  id, employee_id, work_date, day_type, worked_hours, daily_hours, weekly_hours, hours,
+  multiplier, status, reviewed_at, review_comments, created_at,
+  employee:hr_employees!hr_overtime_claims_employee_id_fkey(full_name, employee_code),
+  reviewer:hr_employees!hr_overtime_claims_reviewed_by_fkey(full_name)
+`;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Overtime claims visible to the caller, latest worked date first.
+ * Pass an employee to limit to their own.
+ */
+export const fetchOvertimeClaims = async (employeeId?: string): Promise<OvertimeClaim[]> => {
+  let query = supabase
+    .from('hr_overtime_claims')
+    .select(OVERTIME_SELECT)
+    .order('work_date', { ascending: false });
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as OvertimeClaim[];
+};
+
+/**
+ * Manager/HR decision on a pending claim
+ */
+export const processOvertimeClaim = async (
+  claimId: string,
+  action: 'approve' | 'reject',
+  comments?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('process_overtime_claim', {
+    p_claim_id: claimId,
+    p_action: action,
+    p_comments: comments || null,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Approved claims worked in the month (1-12)
+ */
+export const fetchApprovedOvertime = async (year: number, month: number): Promise<OvertimeClaim[]> => {
+  const from = format(new Date(year, month - 1, 1), 'yyyy-MM-dd');
+  const to = format(new Date(year, month, 0), 'yyyy-MM-dd');
+
+  const { data, error } = await supabase
+    .from('hr_overtime_claims')
+    .select(OVERTIME_SELECT)
+    .eq('status', 'Approved')
+    .gte('work_date', from)
+    .lte('work_date', to)
+    .order('work_date');
+
+  if (error) throw error;
+  return (data || []) as unknown as OvertimeClaim[];
+};
+
+/**
+ * Per-employee totals of approved claims, by kind of day, alphabetically
+ */
+export const summarizeOvertime = (claims: OvertimeClaim[]): OvertimeSummaryRow[] => {
+  const rows = new Map<string, OvertimeSummaryRow>();
+
+  claims.forEach(claim => {
+    let row = rows.get(claim.employee_id);
+    if (!row) {
+      row = {
+        employeeId: claim.employee_id,
+        fullName: claim.employee?.full_name || 'Unknown',
+        employeeCode: claim.employee?.employee_code ?? null,
+        days: 0,
+        hours: { working: 0, weekend: 0, holiday: 0 },
+        totalHours: 0,
+        payableHours: 0,
+      };
+      rows.set(claim.employee_id, row);
+    }
+
+    const hours = Number(claim.hours);
+    row.days += 1;
+    row.hours[claim.day_type] = round2(row.hours[claim.day_type] + hours);
+    row.totalHours = round2(row.totalHours + hours);
+    row.payableHours = round2(row.payableHours + hours * Number(claim.multiplier));
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.fullName.localeCompare(b.fullName));
+};
+
+/**
+ * Download the month's overtime summary. The Excel workbook also lists each approved claim.
+ */
+export const exportOvertimeSummary = (
+  year: number,
+  month: number,
+  claims: OvertimeClaim[],
+  fileType: 'xlsx' | 'csv'
+): void => {
+  const wb = XLSX.utils.book_new();
+  const monthLabel = format(new Date(year, month - 1, 1), 'MMMM yyyy');
+
+  const summaryData = [
+    ['Employee Code', 'Employee', 'Days', 'Working Day Hours', 'Weekend Hours', 'Holiday Hours', 'Total Hours', 'Payable Hours'],
+    ...summarizeOvertime(claims).map(row => [
+      row.employeeCode || '',
+      row.fullName,
+      row.days,
+      row.hours.working,
+      row.hours.weekend,
+      row.hours.holiday,
+      row.totalHours,
+      row.payableHours,
+    ]),
+  ];
+
+  if (fileType === 'csv') {
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summaryData), 'Summary');
+    XLSX.writeFile(wb, `overtime-${year}-${String(month).padStart(2, '0')}.csv`);
+    return;
+  }
+
+  const summarySheet = XLSX.utils.aoa_to_sheet([
+    [`Overtime Summary - ${monthLabel}`],
+    [`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm')}`],
+    [],
+    ...summaryData,
+  ]);
+  XLSX.utils.book_append_sheet(wb, summarySheet, 'Summary');
+
+  const claimsSheet = XLSX.utils.aoa_to_sheet([
+    ['Employee Code', 'Employee', 'Date', 'Day', 'Worked Hours', 'Daily OT', 'Weekly OT', 'Overtime Hours', 'Multiplier', 'Approved By'],
+    ...claims.map(claim => [
+      claim.employee?.employee_code || '',
+      claim.employee?.full_name || '',
+      format(parseISO(claim.work_date), 'yyyy-MM-dd'),
+      OVERTIME_DAY_LABELS[claim.day_type],
+      Number(claim.worked_hours),
+      Number(claim.daily_hours),
+      Number(claim.weekly_hours),
+      Number(claim.hours),
+      Number(claim.multiplier),
+      claim.reviewer?.full_name || '',
+    ]),
+  ]);
+  XLSX.utils.book_append_sheet(wb, claimsSheet, 'Claims');
+
+  XLSX.writeFile(wb, `overtime-${year}-${String(month).padStart(2, '0')}.xlsx`);
+};
@@ -0,0 +1,186 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addWeeks, differenceInCalendarWeeks, format, isAfter, max, parseISO, startOfWeek } from 'date-fns';
+
+// Project catalogue (hr_projects) that work-log tasks are booked to, time by project
+// and budget burn-down. The database checks a task's project is active and open on
+// the task's date; archived projects stay on tasks already booked to them.
+
+export interface Project {
+  id: string;
+  code: string;
+  name: string;
+  client: string | null;
+  is_billable: boolean;
+  budget_hours: number | null;
+  start_date: string | null;
+  end_date: string | null;
+  is_active: boolean;
+}
+
+export type ProjectInput = Omit<Project, 'id' | 'is_active'>;
+
+export interface ProjectTimeRow {
+  projectId: string | null; // null for time not booked to a project
+  code: string;
+  name: string;
+  client: string | null;
+  isBillable: boolean;
+  minutes: number;
+  percent: number;
+}
+
+export interface BurnDownPoint {
+  week: string; // Monday, yyyy-MM-dd
+  label: string;
+  loggedHours: number;
+  remainingHours: number | null; // null for weeks still to come
+  idealHours: number | null; // Straight line to zero at the end date, when there is one
+}
+
+const PROJECT_COLUMNS = `
+  id, code, name, client, is_billable, budget_hours, start_date, end_date, is_active
+`;
+
+// Embeds a work-log task's project in hr_work_log_tasks queries
+export const TASK_PROJECT_SELECT = 'project:hr_projects!hr_work_log_tasks_project_id_fkey(code, name, client, is_billable)';
+
+const toMonday = (date: Date): Date => startOfWeek(date, { weekStartsOn: 1 });
+
+/**
+ * Projects for the caller's org, by code
+ */
+export const fetchProjects = async (includeInactive = false): Promise<Project[]> => {
+  let query = supabase.from('hr_projects').select(PROJECT_COLUMNS).order('code');
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create or update a project (Admin only, enforced by RLS)
+ */
+export const saveProject = async (orgId: string, input: ProjectInput, id?: string): Promise<void> => {
+  const { error } = id
+    ? await supabase
+        .from('hr_projects')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('hr_projects').insert({ ...input, org_id: orgId });
+
+  if (error) throw error;
+};
+
+/**
+ * Archived projects stay on past tasks but can't be booked to any more
+ */
+export const setProjectActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_projects')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Whether time can be booked to the project on a date (yyyy-MM-dd)
+ */
+export const isProjectOpenOn = (project: Project, date: string): boolean =>
+  project.is_active &&
+  (!project.start_date || date >= project.start_date) &&
+  (!project.end_date || date <= project.end_date);
+
+export const formatProjectLabel = (project: Pick<Project, 'code' | 'name'>): string =>
+  `${project.code} · ${project.name}`;
+
+/**
+ * Minutes per project across tasks, largest first, with time not booked to a
+ * project as its own row
+ */
+export const summarizeByProject = (
+  tasks: { project_id?: string | null; duration_minutes: number }[],
+  projects: Project[]
+): ProjectTimeRow[] => {
+  const totalMinutes = tasks.reduce((sum, t) => sum + t.duration_minutes, 0);
+  const minutesByProject = new Map<string | null, number>();
+  tasks.forEach(t => {
+    const key = t.project_id || null;
+    minutesByProject.set(key, (minutesByProject.get(key) || 0) + t.duration_minutes);
+  });
+
+  return Array.from(minutesByProject.entries())
+    .map(([projectId, minutes]) => {
+      const project = projects.find(p => p.id === projectId);
+      return {
+        projectId,
+        code: project?.code || (projectId ? 'Unknown' : 'None'),
+        name: project?.name || (projectId ? 'Unknown project' : 'No project'),
+        client: project?.client || null,
+        isBillable: project?.is_billable || false,
+        minutes,
+        percent: totalMinutes > 0 ? Math.round((minutes / totalMinutes) * 1000) / 10 : 0,
+      };
+    })
+    .sort((a, b) => b.minutes - a.minutes);
+};
+
+/**
+ * Minutes logged to a project per week across the whole organization, oldest first
+ */
+export const fetchProjectBurnDown = async (
+  projectId: string
+): Promise<{ week_start: string; logged_minutes: number }[]> => {
+  const { data, error } = await supabase.rpc('project_burn_down', { p_project_id: projectId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Weekly budget burn-down from the project's start (or first logged week) to its end
+ * date (or this week). Remaining hours stop at the current week.
+ */
+export const buildBurnDown = (
+  project: Project,
+  weeks: { week_start: string; logged_minutes: number }[]
+): BurnDownPoint[] => {
+  if (!project.budget_hours) return [];
+
+  const budget = Number(project.budget_hours);
+  const thisWeek = toMonday(new Date());
+  const firstLogged = weeks.length > 0 ? parseISO(weeks[0].week_start) : thisWeek;
+  const lastLogged = weeks.length > 0 ? parseISO(weeks[weeks.length - 1].week_start) : thisWeek;
+
+  const first = project.start_date ? toMonday(parseISO(project.start_date)) : firstLogged;
+  const last = project.end_date
+    ? max([toMonday(parseISO(project.end_date)), lastLogged])
+    : max([thisWeek, lastLogged]);
+
+  const loggedByWeek = new Map(weeks.map(w => [w.week_start, w.logged_minutes]));
+  const points: BurnDownPoint[] = [];
+  const spanWeeks = Math.max(differenceInCalendarWeeks(last, first, { weekStartsOn: 1 }), 0) + 1;
+  let usedMinutes = weeks
+    .filter(w => parseISO(w.week_start) < first)
+    .reduce((sum, w) => sum + w.logged_minutes, 0);
+
+  for (let i = 0; i < spanWeeks; i++) {
+    const monday = addWeeks(first, i);
+    const week = format(monday, 'yyyy-MM-dd');
+    const logged = loggedByWeek.get(week) || 0;
+    usedMinutes += logged;
+
+    points.push({
+      week,
+      label: format(monday, 'd MMM'),
+      loggedHours: Math.round((logged / 60) * 10) / 10,
+      remainingHours: isAfter(monday, thisWeek) ? null : Math.round((budget - usedMinutes / 60) * 10) / 10,
+      idealHours: project.end_date ? Math.round(budget * (1 - (i + 1) / spanWeeks) * 10) / 10 : null,
+    });
+  }
+
+  return points;
+};
@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PunchEnforcement } from '@/lib/orgSettings';
+
+// Approved office sites (hr_office_locations) and the device position sent with each
+// punch. The database checks the position and the request IP against the sites for
+// the employee's location and flags or rejects the punch.
+
+export interface OfficeLocation {
+  id: string;
+  location: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  radius_meters: number;
+  allowed_ip_ranges: string[];
+}
+
+export type OfficeLocationInput = Omit<OfficeLocation, 'id'>;
+
+export interface PunchPosition {
+  latitude: number;
+  longitude: number;
+}
+
+export const PUNCH_ENFORCEMENT_OPTIONS: { value: PunchEnforcement; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'flag', label: 'Flag' },
+  { value: 'block', label: 'Block' },
+];
+
+export const LOCATION_FLAG_LABELS: Record<string, string> = {
+  punch_in_outside: 'Punch in outside office',
+  punch_out_outside: 'Punch out outside office',
+};
+
+/**
+ * Device position for a punch, or null when the browser can't or won't share it.
+ * Never rejects; a missing position is judged by IP alone.
+ */
+export const getCurrentPosition = (timeoutMs = 10000): Promise<PunchPosition | null> => {
+  if (!('geolocation' in navigator)) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: Number(position.coords.latitude.toFixed(6)),
+        longitude: Number(position.coords.longitude.toFixed(6)),
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+};
+
+export const fetchOfficeLocations = async (): Promise<OfficeLocation[]> => {
+  const { data, error } = await supabase
+    .from('hr_office_locations')
+    .select('id, location, name, latitude, longitude, radius_meters, allowed_ip_ranges')
+    .order('location')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create or update a site (Admin only, enforced by RLS)
+ */
+export const saveOfficeLocation = async (
+  orgId: string,
+  input: OfficeLocationInput,
+  id?: string
+): Promise<void> => {
+  const { error } = id
+    ? await supabase
+        .from('hr_office_locations')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('hr_office_locations').insert({ ...input, org_id: orgId });
+
+  if (error) throw error;
+};
+
+export const deleteOfficeLocation = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('hr_office_locations').delete().eq('id', id);
+  if (error) throw error;
+};
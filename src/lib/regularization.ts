@@ -0,0 +1,151 @@
+import { supabase } from '@/integrations/supabase/client';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { RegularizationPolicy } from '@/lib/orgSettings';
+
+// Regularization reason codes (hr_regularization_reasons) and the org's limits on
+// requests. The database enforces the same limits when a request is inserted.
+
+export interface RegularizationReason {
+  id: string;
+  label: string;
+  is_active: boolean;
+}
+
+export interface RegularizationUsageRow {
+  employeeId: string;
+  fullName: string;
+  employeeCode: string | null;
+  pending: number;
+  approved: number;
+  rejected: number;
+  used: number; // Pending and approved, which count towards the limit
+}
+
+interface RequestForLimits {
+  employee_id: string;
+  attendance_date: string;
+  status: string;
+}
+
+const monthKey = (date: string): string => date.slice(0, 7);
+
+/**
+ * Reason codes for the caller's org, alphabetically
+ */
+export const fetchRegularizationReasons = async (includeInactive = false): Promise<RegularizationReason[]> => {
+  let query = supabase.from('hr_regularization_reasons').select('id, label, is_active').order('label');
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create or rename a reason code (Admin only, enforced by RLS)
+ */
+export const saveRegularizationReason = async (orgId: string, label: string, id?: string): Promise<void> => {
+  const { error } = id
+    ? await supabase
+        .from('hr_regularization_reasons')
+        .update({ label, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('hr_regularization_reasons').insert({ label, org_id: orgId });
+
+  if (error) throw error;
+};
+
+/**
+ * Archived reasons stay on past requests but can't be chosen any more
+ */
+export const setRegularizationReasonActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_regularization_reasons')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Requests counting towards the monthly limit in the month of `date`. Rejected ones don't.
+ */
+export const countRegularizationsInMonth = (
+  requests: RequestForLimits[],
+  employeeId: string,
+  date: string
+): number => {
+  return requests.filter(r =>
+    r.employee_id === employeeId &&
+    r.status !== 'Rejected' &&
+    monthKey(r.attendance_date) === monthKey(date)
+  ).length;
+};
+
+/**
+ * Why a new request for `date` would be refused, or null if it is allowed.
+ * Keep in sync with public.enforce_regularization_policy().
+ */
+export const checkRegularizationPolicy = (
+  policy: RegularizationPolicy,
+  employeeId: string,
+  date: string,
+  existing: RequestForLimits[]
+): string | null => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  if (date > today) {
+    return 'Cannot regularize future dates';
+  }
+
+  if (policy.maxAgeDays !== null && differenceInCalendarDays(parseISO(today), parseISO(date)) > policy.maxAgeDays) {
+    return `Regularization must be requested within ${policy.maxAgeDays} days of the date`;
+  }
+
+  if (existing.some(r => r.employee_id === employeeId && r.attendance_date === date && r.status === 'Pending')) {
+    return 'You already have a pending request for this date';
+  }
+
+  if (policy.monthlyLimit !== null && countRegularizationsInMonth(existing, employeeId, date) >= policy.monthlyLimit) {
+    return `You have used all ${policy.monthlyLimit} regularization request(s) allowed for ${format(parseISO(date), 'MMMM yyyy')}`;
+  }
+
+  return null;
+};
+
+/**
+ * Per-employee request counts for an attendance month (yyyy-MM), most used first
+ */
+export const summarizeRegularizationUsage = (
+  requests: (RequestForLimits & { employee?: { full_name: string; employee_code: string | null } | null })[],
+  month: string
+): RegularizationUsageRow[] => {
+  const rows = new Map<string, RegularizationUsageRow>();
+
+  requests
+    .filter(r => monthKey(r.attendance_date) === month)
+    .forEach(r => {
+      let row = rows.get(r.employee_id);
+      if (!row) {
+        row = {
+          employeeId: r.employee_id,
+          fullName: r.employee?.full_name || 'Unknown',
+          employeeCode: r.employee?.employee_code ?? null,
+          pending: 0,
+          approved: 0,
+          rejected: 0,
+          used: 0,
+        };
+        rows.set(r.employee_id, row);
+      }
+
+      if (r.status === 'Pending') row.pending += 1;
+      else if (r.status === 'Approved') row.approved += 1;
+      else if (r.status === 'Rejected') row.rejected += 1;
+      if (r.status !== 'Rejected') row.used += 1;
+    });
+
+  return Array.from(rows.values()).sort((a, b) => b.used - a.used || a.fullName.localeCompare(b.fullName));
+};
@@ -0,0 +1,264 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addDays, differenceInMinutes, format, parseISO, subDays } from 'date-fns';
+import type { AttendancePolicy } from '@/lib/orgSettings';
+
+// Shift definitions (hr_shifts), the weekly roster (hr_shift_assignments), and how a
+// day's punches are judged against the shift the employee was rostered on. Days with
+// no rostered shift use the standard hours from the attendance policy.
+
+export interface Shift {
+  id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  grace_minutes: number;
+  break_minutes: number;
+  half_day_hours: number;
+  overtime_threshold_hours: number | null; // Overrides the org's daily overtime threshold
+  overtime_multiplier: number | null; // Overrides the org's working-day overtime multiplier
+  is_active: boolean;
+}
+
+export type ShiftInput = Omit<Shift, 'id' | 'is_active'>;
+
+export interface ShiftAssignment {
+  id: string;
+  employee_id: string;
+  work_date: string;
+  shift_id: string;
+  shift?: Shift | null;
+}
+
+export interface ShiftRule {
+  shiftId: string | null;
+  name: string;
+  startTime: string;
+  endTime: string;
+  graceMinutes: number;
+  breakMinutes: number;
+  fullDayHours: number;
+  halfDayHours: number;
+  crossesMidnight: boolean;
+  flexible: boolean; // Judged on hours alone, no late/early checks
+}
+
+export interface AttendanceEvaluation {
+  status: 'Present' | 'Half Day' | 'Absent';
+  lateMinutes: number;
+  earlyExitMinutes: number;
+  shortHours: number;
+}
+
+// How long after a night shift's end a punch still belongs to that shift
+const OVERNIGHT_PUNCH_OUT_BUFFER_HOURS = 4;
+
+const SHIFT_COLUMNS = `
+  id, name, start_time, end_time, grace_minutes, break_minutes, half_day_hours,
+  overtime_threshold_hours, overtime_multiplier, is_active
+`;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const atTime = (date: string, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = parseISO(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+export const formatShiftTime = (time: string): string => time.slice(0, 5);
+
+export const formatShiftWindow = (rule: ShiftRule): string => {
+  return `${formatShiftTime(rule.startTime)}–${formatShiftTime(rule.endTime)}${rule.crossesMidnight ? ' (+1)' : ''}`;
+};
+
+export const toShiftRule = (shift: Shift): ShiftRule => {
+  const crossesMidnight = toMinutes(shift.end_time) < toMinutes(shift.start_time);
+  const spanMinutes = toMinutes(shift.end_time) - toMinutes(shift.start_time) + (crossesMidnight ? 24 * 60 : 0);
+
+  return {
+    shiftId: shift.id,
+    name: shift.name,
+    startTime: shift.start_time,
+    endTime: shift.end_time,
+    graceMinutes: shift.grace_minutes,
+    breakMinutes: shift.break_minutes,
+    fullDayHours: Math.max(spanMinutes - shift.break_minutes, 0) / 60,
+    halfDayHours: Number(shift.half_day_hours),
+    crossesMidnight,
+    flexible: false,
+  };
+};
+
+/**
+ * The policy's standard hours, for days with no rostered shift. Part-timers keep
+ * their flexible hours: present once they reach the half-day threshold.
+ */
+export const getStandardShift = (policy: AttendancePolicy, employmentType?: string | null): ShiftRule => {
+  const partTime = employmentType === 'Part-time';
+
+  return {
+    shiftId: null,
+    name: 'Standard hours',
+    startTime: policy.workStartTime,
+    endTime: policy.workEndTime,
+    graceMinutes: policy.graceMinutes,
+    breakMinutes: 0,
+    fullDayHours: partTime ? policy.halfDayHours : policy.fullDayHours,
+    halfDayHours: policy.halfDayHours,
+    crossesMidnight: toMinutes(policy.workEndTime) < toMinutes(policy.workStartTime),
+    flexible: partTime,
+  };
+};
+
+// Keep in sync with public.employee_shift_on()
+export const getShiftRule = (
+  shift: Shift | null | undefined,
+  policy: AttendancePolicy,
+  employmentType?: string | null
+): ShiftRule => {
+  return shift ? toShiftRule(shift) : getStandardShift(policy, employmentType);
+};
+
+/**
+ * Start and end of a shift worked on the given attendance date; a night shift ends the next day
+ */
+export const getShiftWindow = (rule: ShiftRule, date: string): { start: Date; end: Date } => {
+  const start = atTime(date, rule.startTime);
+  const end = atTime(date, rule.endTime);
+  return { start, end: rule.crossesMidnight ? addDays(end, 1) : end };
+};
+
+/**
+ * The attendance date a punch made now belongs to: yesterday while a night shift
+ * that started yesterday is still running (or just ended), otherwise today
+ */
+export const resolveWorkDate = (now: Date, previousDayRule: ShiftRule): string => {
+  const yesterday = format(subDays(now, 1), 'yyyy-MM-dd');
+  if (previousDayRule.crossesMidnight) {
+    const { end } = getShiftWindow(previousDayRule, yesterday);
+    if (differenceInMinutes(now, end) < OVERNIGHT_PUNCH_OUT_BUFFER_HOURS * 60) {
+      return yesterday;
+    }
+  }
+  return format(now, 'yyyy-MM-dd');
+};
+
+/**
+ * Judge a day's punches against the shift. Arrivals and exits within the grace
+ * period are on time; beyond it the full difference counts.
+ */
+export const evaluateAttendance = (
+  rule: ShiftRule,
+  date: string,
+  firstPunchIn: string | null,
+  lastPunchOut: string | null,
+  hours: number
+): AttendanceEvaluation => {
+  const window = getShiftWindow(rule, date);
+  const late = firstPunchIn ? differenceInMinutes(new Date(firstPunchIn), window.start) : 0;
+  const early = lastPunchOut ? differenceInMinutes(window.end, new Date(lastPunchOut)) : 0;
+
+  let status: AttendanceEvaluation['status'] = 'Absent';
+  if (hours >= rule.fullDayHours) {
+    status = 'Present';
+  } else if (hours >= rule.halfDayHours) {
+    status = 'Half Day';
+  }
+
+  return {
+    status,
+    lateMinutes: !rule.flexible && late > rule.graceMinutes ? late : 0,
+    earlyExitMinutes: !rule.flexible && early > rule.graceMinutes ? early : 0,
+    shortHours: Math.max(parseFloat((rule.fullDayHours - hours).toFixed(2)), 0),
+  };
+};
+
+export const fetchShifts = async (includeInactive = false): Promise<Shift[]> => {
+  let query = supabase.from('hr_shifts').select(SHIFT_COLUMNS).order('start_time');
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create or update a shift (Admin only, enforced by RLS)
+ */
+export const saveShift = async (orgId: string, input: ShiftInput, id?: string): Promise<void> => {
+  const { error } = id
+    ? await supabase
+        .from('hr_shifts')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('hr_shifts').insert({ ...input, org_id: orgId });
+
+  if (error) throw error;
+};
+
+/**
+ * Archived shifts stay on past rosters but can't be assigned any more
+ */
+export const setShiftActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_shifts')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Roster entries in the range with their shift, optionally for one employee
+ */
+export const fetchRoster = async (from: string, to: string, employeeId?: string): Promise<ShiftAssignment[]> => {
+  let query = supabase
+    .from('hr_shift_assignments')
+    .select(`id, employee_id, work_date, shift_id, shift:hr_shifts!hr_shift_assignments_shift_id_fkey(${SHIFT_COLUMNS})`)
+    .gte('work_date', from)
+    .lte('work_date', to);
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as ShiftAssignment[];
+};
+
+/**
+ * Write roster edits: assign (or reassign) shifts and clear removed entries
+ */
+export const saveRoster = async (
+  orgId: string,
+  assignments: { employee_id: string; work_date: string; shift_id: string }[],
+  removedIds: string[],
+  assignedBy?: string
+): Promise<void> => {
+  if (assignments.length > 0) {
+    const { error } = await supabase
+      .from('hr_shift_assignments')
+      .upsert(
+        assignments.map(a => ({
+          ...a,
+          org_id: orgId,
+          assigned_by: assignedBy ?? null,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'employee_id,work_date' }
+      );
+    if (error) throw error;
+  }
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from('hr_shift_assignments').delete().in('id', removedIds);
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,189 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  LucideIcon,
+  BarChart3,
+  BookOpen,
+  Briefcase,
+  Bug,
+  Calendar,
+  ClipboardCheck,
+  Code,
+  FileText,
+  Headphones,
+  Lightbulb,
+  Mail,
+  Megaphone,
+  Palette,
+  Phone,
+  Search,
+  ShieldCheck,
+  Target,
+  Truck,
+  Users,
+  Wrench,
+} from 'lucide-react';
+import type { TaskCategoryConfig } from '@/types/worklog';
+
+// Org-defined work-log task categories (hr_task_categories). Tasks and category mixes
+// store a category's value, which is fixed when it's created, so admins can rename,
+// recolour and archive categories without remapping existing tasks. Icons and colours
+// are stored by name and drawn from the sets below.
+
+export interface TaskCategoryDefinition {
+  id: string;
+  value: string;
+  label: string;
+  icon: string;
+  color: string;
+  department: string | null;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export type TaskCategoryInput = Omit<TaskCategoryDefinition, 'id' | 'value' | 'is_active'>;
+
+export interface CategoryColor {
+  label: string;
+  text: string; // Icon colour
+  bg: string; // Bars
+  hex: string; // Charts
+}
+
+const TASK_CATEGORY_COLUMNS = 'id, value, label, icon, color, department, sort_order, is_active';
+
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Calendar,
+  Code,
+  Bug,
+  BookOpen,
+  FileText,
+  Palette,
+  Search,
+  BarChart3,
+  Mail,
+  Target,
+  Users,
+  Briefcase,
+  Phone,
+  Headphones,
+  Wrench,
+  Lightbulb,
+  ClipboardCheck,
+  Megaphone,
+  ShieldCheck,
+  Truck,
+};
+
+// Classes are spelled out in full so Tailwind keeps them
+export const CATEGORY_COLORS: Record<string, CategoryColor> = {
+  blue: { label: 'Blue', text: 'text-blue-500', bg: 'bg-blue-500', hex: '#3b82f6' },
+  emerald: { label: 'Emerald', text: 'text-emerald-500', bg: 'bg-emerald-500', hex: '#10b981' },
+  red: { label: 'Red', text: 'text-red-500', bg: 'bg-red-500', hex: '#ef4444' },
+  purple: { label: 'Purple', text: 'text-purple-500', bg: 'bg-purple-500', hex: '#8b5cf6' },
+  amber: { label: 'Amber', text: 'text-amber-500', bg: 'bg-amber-500', hex: '#f59e0b' },
+  pink: { label: 'Pink', text: 'text-pink-500', bg: 'bg-pink-500', hex: '#ec4899' },
+  cyan: { label: 'Cyan', text: 'text-cyan-500', bg: 'bg-cyan-500', hex: '#06b6d4' },
+  indigo: { label: 'Indigo', text: 'text-indigo-500', bg: 'bg-indigo-500', hex: '#6366f1' },
+  orange: { label: 'Orange', text: 'text-orange-500', bg: 'bg-orange-500', hex: '#f97316' },
+  teal: { label: 'Teal', text: 'text-teal-500', bg: 'bg-teal-500', hex: '#14b8a6' },
+  lime: { label: 'Lime', text: 'text-lime-500', bg: 'bg-lime-500', hex: '#84cc16' },
+  rose: { label: 'Rose', text: 'text-rose-500', bg: 'bg-rose-500', hex: '#f43f5e' },
+  slate: { label: 'Slate', text: 'text-slate-500', bg: 'bg-slate-500', hex: '#64748b' },
+  gray: { label: 'Gray', text: 'text-gray-500', bg: 'bg-gray-500', hex: '#9ca3af' },
+};
+
+const FALLBACK_ICON = 'Target';
+const FALLBACK_COLOR = 'gray';
+
+/**
+ * Display settings for a category, falling back to a grey target for unknown icons
+ * and colours
+ */
+export const toCategoryConfig = (category: TaskCategoryDefinition): TaskCategoryConfig => {
+  const color = CATEGORY_COLORS[category.color] || CATEGORY_COLORS[FALLBACK_COLOR];
+  return {
+    value: category.value,
+    label: category.label,
+    icon: CATEGORY_ICONS[category.icon] || CATEGORY_ICONS[FALLBACK_ICON],
+    color: color.text,
+    barColor: color.bg,
+    hex: color.hex,
+    department: category.department,
+    isActive: category.is_active,
+  };
+};
+
+/**
+ * Config for a category value that isn't in the org's list (e.g. before it loads)
+ */
+export const unknownCategoryConfig = (value: string): TaskCategoryConfig =>
+  toCategoryConfig({
+    id: '',
+    value,
+    label: value,
+    icon: FALLBACK_ICON,
+    color: FALLBACK_COLOR,
+    department: null,
+    sort_order: 0,
+    is_active: false,
+  });
+
+/**
+ * Whether someone in `department` can choose the category for a new task
+ */
+export const isCategoryAvailableTo = (
+  category: Pick<TaskCategoryConfig, 'isActive' | 'department'>,
+  department: string | null
+): boolean => category.isActive && (!category.department || category.department === department);
+
+/**
+ * Task categories for the caller's org, in the admin's order
+ */
+export const fetchTaskCategories = async (includeInactive = false): Promise<TaskCategoryDefinition[]> => {
+  let query = supabase
+    .from('hr_task_categories')
+    .select(TASK_CATEGORY_COLUMNS)
+    .order('sort_order')
+    .order('label');
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// A new category's value is a slug of its label with a random suffix, so it can't
+// collide with the value a renamed category still keeps
+const newCategoryValue = (label: string): string => {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'category'}-${crypto.randomUUID().slice(0, 8)}`;
+};
+
+/**
+ * Create or update a category (Admin only, enforced by RLS). A category's value is
+ * set when it's created and stays the same when it's renamed.
+ */
+export const saveTaskCategory = async (orgId: string, input: TaskCategoryInput, id?: string): Promise<void> => {
+  const { error } = id
+    ? await supabase
+        .from('hr_task_categories')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('hr_task_categories').insert({ ...input, value: newCategoryValue(input.label), org_id: orgId });
+
+  if (error) throw error;
+};
+
+/**
+ * Archived categories stay on past tasks but can't be chosen any more
+ */
+export const setTaskCategoryActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_task_categories')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
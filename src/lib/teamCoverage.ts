@@ -0,0 +1,177 @@
+import { supabase } from '@/integrations/supabase/client';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import type { TeamCoveragePolicy } from '@/lib/orgSettings';
+
+// Team leave calendar and the minimum-headcount check shown to leave approvers
+
+export interface TeamLeave {
+  request_id: string;
+  leave_type: string;
+  start_date: string;
+  end_date: string;
+  start_session: string;
+  end_session: string;
+  status: 'Approved' | 'Pending';
+}
+
+export interface TeamCalendarMember {
+  employee_id: string;
+  full_name: string;
+  department: string | null;
+  leaves: TeamLeave[];
+}
+
+export interface CoverageDay {
+  date: string;
+  teamSize: number;
+  available: number;
+  away: string[]; // Names on approved leave (or the request being approved)
+  pendingAway: string[]; // Names with a pending request for the day
+}
+
+/**
+ * Members of a department, or of a manager's team (default: the caller's reports),
+ * with their approved and pending leaves overlapping the range
+ */
+export const fetchTeamLeaveCalendar = async (
+  from: string,
+  to: string,
+  scope: { managerId?: string; department?: string } = {}
+): Promise<TeamCalendarMember[]> => {
+  const { data, error } = await supabase.rpc('team_leave_calendar', {
+    p_from: from,
+    p_to: to,
+    p_manager_id: scope.managerId ?? null,
+    p_department: scope.department ?? null,
+  });
+
+  if (error) throw error;
+
+  const members = new Map<string, TeamCalendarMember>();
+  for (const row of data || []) {
+    if (!members.has(row.employee_id)) {
+      members.set(row.employee_id, {
+        employee_id: row.employee_id,
+        full_name: row.full_name,
+        department: row.department,
+        leaves: [],
+      });
+    }
+    if (row.request_id) {
+      members.get(row.employee_id)!.leaves.push({
+        request_id: row.request_id,
+        leave_type: row.leave_type,
+        start_date: row.start_date,
+        end_date: row.end_date,
+        start_session: row.start_session,
+        end_session: row.end_session,
+        status: row.status as TeamLeave['status'],
+      });
+    }
+  }
+  return Array.from(members.values());
+};
+
+/**
+ * Mandatory holidays in the range, keyed by date
+ */
+export const fetchMandatoryHolidays = async (from: string, to: string): Promise<Map<string, string>> => {
+  const { data, error } = await supabase
+    .from('hr_holidays')
+    .select('holiday_date, holiday_name')
+    .eq('is_optional', false)
+    .gte('holiday_date', from)
+    .lte('holiday_date', to);
+
+  if (error) throw error;
+  return new Map((data || []).map(h => [h.holiday_date, h.holiday_name]));
+};
+
+/**
+ * The member's leave covering the date, preferring an approved one over a pending
+ * request for the same day
+ */
+export const getLeaveOn = (member: TeamCalendarMember, date: string): TeamLeave | undefined => {
+  const leaves = member.leaves.filter(l => l.start_date <= date && l.end_date >= date);
+  return leaves.find(l => l.status === 'Approved') || leaves[0];
+};
+
+export const isWeekendDate = (date: string, weekends: string[]): boolean => {
+  return weekends.map(d => d.toLowerCase()).includes(format(parseISO(date), 'EEEE').toLowerCase());
+};
+
+/**
+ * Availability on each working day of the range. Anyone on approved leave that
+ * day counts as away, half days included; assumeAwayId marks the employee whose
+ * request is being considered as away too.
+ */
+export const computeTeamCoverage = (
+  members: TeamCalendarMember[],
+  from: string,
+  to: string,
+  options: { weekends: string[]; holidays: Map<string, string>; assumeAwayId?: string }
+): CoverageDay[] => {
+  return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })
+    .map(day => format(day, 'yyyy-MM-dd'))
+    .filter(date => !isWeekendDate(date, options.weekends) && !options.holidays.has(date))
+    .map(date => {
+      const away: string[] = [];
+      const pendingAway: string[] = [];
+
+      members.forEach(member => {
+        const leave = getLeaveOn(member, date);
+        if (member.employee_id === options.assumeAwayId || leave?.status === 'Approved') {
+          away.push(member.full_name);
+        } else if (leave?.status === 'Pending') {
+          pendingAway.push(member.full_name);
+        }
+      });
+
+      return {
+        date,
+        teamSize: members.length,
+        available: members.length - away.length,
+        away,
+        pendingAway,
+      };
+    });
+};
+
+/**
+ * Working days on which approving an employee's leave would leave fewer than the
+ * policy's minimum available in their team or department. Empty when the check is
+ * off or the employee has no team to measure against.
+ */
+export const checkLeaveCoverage = async (
+  employee: { id: string; manager_id: string | null },
+  startDate: string,
+  endDate: string,
+  policy: TeamCoveragePolicy,
+  weekends: string[]
+): Promise<CoverageDay[]> => {
+  if (!policy.minAvailable || policy.minAvailable <= 0) return [];
+
+  let scope: { managerId?: string; department?: string };
+  if (policy.scope === 'department') {
+    const { data, error } = await supabase
+      .from('hr_employee_details')
+      .select('department')
+      .eq('employee_id', employee.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data?.department) return [];
+    scope = { department: data.department };
+  } else {
+    if (!employee.manager_id) return [];
+    scope = { managerId: employee.manager_id };
+  }
+
+  const [members, holidays] = await Promise.all([
+    fetchTeamLeaveCalendar(startDate, endDate, scope),
+    fetchMandatoryHolidays(startDate, endDate),
+  ]);
+
+  return computeTeamCoverage(members, startDate, endDate, { weekends, holidays, assumeAwayId: employee.id })
+    .filter(day => day.available < policy.minAvailable);
+};
@@ -0,0 +1,174 @@
+import { supabase } from '@/integrations/supabase/client';
+import { format, getISODay, parseISO } from 'date-fns';
+
+// Work-from-home requests (hr_wfh_requests): a date range, or set weekdays from a start
+// date. Approved WFH working days are consolidated as 'Work From Home' instead of absent.
+
+export type WfhStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled';
+
+export type WfhRecurrence = 'none' | 'weekly';
+
+export interface WfhRequest {
+  id: string;
+  employee_id: string;
+  start_date: string;
+  end_date: string | null;
+  recurrence: WfhRecurrence;
+  weekdays: number[]; // ISO days of week, 1 = Monday
+  reason: string;
+  status: WfhStatus;
+  reviewed_at: string | null;
+  review_comments: string | null;
+  created_at: string;
+  employee?: { full_name: string; employee_code: string | null } | null;
+  reviewer?: { full_name: string } | null;
+}
+
+export interface WfhRequestInput {
+  startDate: string;
+  endDate: string | null;
+  recurrence: WfhRecurrence;
+  weekdays: number[];
+  reason: string;
+}
+
+// The status consolidated attendance records for an approved WFH day
+export const WFH_ATTENDANCE_STATUS = 'Work From Home';
+
+export const WFH_WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+];
+
+export const WFH_STATUS_STYLES: Record<WfhStatus, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  Approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  Rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  Cancelled: 'bg-muted text-muted-foreground',
+};
+
+const WFH_SELECT = `
+  id, employee_id, start_date, end_date, recurrence, weekdays, reason, status,
+  reviewed_at, review_comments, created_at,
+  employee:hr_employees!hr_wfh_requests_employee_id_fkey(full_name, employee_code),
+  reviewer:hr_employees!hr_wfh_requests_reviewed_by_fkey(full_name)
+`;
+
+/**
+ * WFH requests visible to the caller, newest first. Pass an employee to limit to their own.
+ */
+export const fetchWfhRequests = async (employeeId?: string): Promise<WfhRequest[]> => {
+  let query = supabase
+    .from('hr_wfh_requests')
+    .select(WFH_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as WfhRequest[];
+};
+
+/**
+ * Approved requests overlapping a date range (yyyy-MM-dd), optionally for one employee
+ */
+export const fetchApprovedWfh = async (from: string, to: string, employeeId?: string): Promise<WfhRequest[]> => {
+  let query = supabase
+    .from('hr_wfh_requests')
+    .select(WFH_SELECT)
+    .eq('status', 'Approved')
+    .lte('start_date', to)
+    .or(`end_date.is.null,end_date.gte.${from}`);
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as WfhRequest[];
+};
+
+export const requestWfh = async (orgId: string, employeeId: string, input: WfhRequestInput): Promise<void> => {
+  const weekly = input.recurrence === 'weekly';
+  const { error } = await supabase.from('hr_wfh_requests').insert({
+    org_id: orgId,
+    employee_id: employeeId,
+    start_date: input.startDate,
+    end_date: input.endDate,
+    recurrence: input.recurrence,
+    weekdays: weekly ? [...input.weekdays].sort((a, b) => a - b) : [],
+    reason: input.reason.trim(),
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Withdraw a pending or approved request. Days already consolidated keep their status.
+ */
+export const cancelWfhRequest = async (requestId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('hr_wfh_requests')
+    .update({ status: 'Cancelled', updated_at: new Date().toISOString() })
+    .eq('id', requestId);
+
+  if (error) throw error;
+};
+
+/**
+ * Manager/HR decision. Approval also corrects covered days already marked absent.
+ */
+export const processWfhRequest = async (
+  requestId: string,
+  action: 'approve' | 'reject',
+  comments?: string
+): Promise<{ status: WfhStatus; corrected_days?: number }> => {
+  const { data, error } = await supabase.rpc('process_wfh_request', {
+    p_request_id: requestId,
+    p_action: action,
+    p_comments: comments || null,
+  });
+
+  if (error) throw error;
+  return data as unknown as { status: WfhStatus; corrected_days?: number };
+};
+
+/**
+ * Whether a request covers a date (yyyy-MM-dd). Weekends and holidays are not
+ * excluded here; callers check those first, as public.is_wfh_day() does.
+ */
+export const wfhCoversDate = (
+  request: Pick<WfhRequest, 'start_date' | 'end_date' | 'recurrence' | 'weekdays'>,
+  date: string
+): boolean => {
+  if (date < request.start_date) return false;
+  if (request.end_date && date > request.end_date) return false;
+  return request.recurrence !== 'weekly' || request.weekdays.includes(getISODay(parseISO(date)));
+};
+
+/**
+ * "12 Jan 2026", "12 Jan – 16 Jan 2026" or "Every Fri from 12 Jan 2026"
+ */
+export const describeWfhRequest = (
+  request: Pick<WfhRequest, 'start_date' | 'end_date' | 'recurrence' | 'weekdays'>
+): string => {
+  const start = format(parseISO(request.start_date), 'd MMM yyyy');
+
+  if (request.recurrence === 'weekly') {
+    const days = WFH_WEEKDAYS.filter(d => request.weekdays.includes(d.value)).map(d => d.label).join(', ');
+    const until = request.end_date ? ` to ${format(parseISO(request.end_date), 'd MMM yyyy')}` : '';
+    return `Every ${days} from ${start}${until}`;
+  }
+
+  if (!request.end_date || request.end_date === request.start_date) return start;
+  return `${format(parseISO(request.start_date), 'd MMM')} – ${format(parseISO(request.end_date), 'd MMM yyyy')}`;
+};
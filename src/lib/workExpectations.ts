@@ -0,0 +1,207 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addDays, format, parseISO } from 'date-fns';
+import type { TaskCategory } from '@/types/worklog';
+
+// Work expectations (hr_work_expectations): target logged hours per week and a category
+// mix for a manager's team or one employee. A row applies from its effective date until
+// the next row for the same target; an employee row overrides their team's.
+
+export type ExpectationScope = 'team' | 'employee';
+
+// Percent of logged time per category, totalling 100 (or empty for no mix target)
+export type CategoryMix = Partial<Record<TaskCategory, number>>;
+
+export interface WorkExpectation {
+  id: string;
+  scope: ExpectationScope;
+  manager_id: string | null;
+  employee_id: string | null;
+  weekly_hours: number;
+  category_mix: CategoryMix;
+  effective_from: string;
+  created_at: string;
+  creator?: { full_name: string } | null;
+}
+
+export interface WorkExpectationInput {
+  scope: ExpectationScope;
+  targetId: string; // Manager for team scope, employee for employee scope
+  weeklyHours: number;
+  categoryMix: CategoryMix;
+  effectiveFrom: string;
+}
+
+export interface ResolvedExpectation {
+  weeklyHours: number;
+  categoryMix: CategoryMix;
+  source: ExpectationScope | 'default';
+  effectiveFrom: string | null;
+}
+
+export interface CategoryMixComparison {
+  category: TaskCategory;
+  actualPercent: number;
+  targetPercent: number;
+  variance: number; // Percentage points, actual minus target
+}
+
+// The work log's long-standing 40h week, used until a team or employee target is set
+export const DEFAULT_WEEKLY_HOURS = 40;
+
+const EXPECTATION_SELECT = `
+  id, scope, manager_id, employee_id, weekly_hours, category_mix, effective_from, created_at,
+  creator:hr_employees!hr_work_expectations_created_by_fkey(full_name)
+`;
+
+/**
+ * Expectations visible to the caller, newest effective date first. Pass an employee
+ * to limit to the rows that can apply to them: their own and their manager's team.
+ */
+export const fetchWorkExpectations = async (
+  employee?: { id: string; manager_id: string | null }
+): Promise<WorkExpectation[]> => {
+  let query = supabase
+    .from('hr_work_expectations')
+    .select(EXPECTATION_SELECT)
+    .order('effective_from', { ascending: false });
+
+  if (employee) {
+    query = employee.manager_id
+      ? query.or(`employee_id.eq.${employee.id},manager_id.eq.${employee.manager_id}`)
+      : query.eq('employee_id', employee.id);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as WorkExpectation[];
+};
+
+/**
+ * Save an expectation. A row for the same team or employee and effective date is
+ * replaced; any other date starts a new period.
+ */
+export const saveWorkExpectation = async (
+  orgId: string,
+  createdBy: string,
+  input: WorkExpectationInput
+): Promise<void> => {
+  const targetColumn = input.scope === 'team' ? 'manager_id' : 'employee_id';
+  const values = {
+    weekly_hours: input.weeklyHours,
+    category_mix: cleanCategoryMix(input.categoryMix),
+  };
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('hr_work_expectations')
+    .select('id')
+    .eq('scope', input.scope)
+    .eq(targetColumn, input.targetId)
+    .eq('effective_from', input.effectiveFrom)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  const { error } = existing
+    ? await supabase
+        .from('hr_work_expectations')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+    : await supabase.from('hr_work_expectations').insert({
+        ...values,
+        org_id: orgId,
+        scope: input.scope,
+        manager_id: input.scope === 'team' ? input.targetId : null,
+        employee_id: input.scope === 'employee' ? input.targetId : null,
+        effective_from: input.effectiveFrom,
+        created_by: createdBy,
+      });
+
+  if (error) throw error;
+};
+
+export const deleteWorkExpectation = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('hr_work_expectations').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Drop zero entries so an untouched mix is stored as {}
+ */
+export const cleanCategoryMix = (mix: CategoryMix): CategoryMix =>
+  Object.fromEntries(Object.entries(mix).filter(([, percent]) => (percent || 0) > 0)) as CategoryMix;
+
+export const categoryMixTotal = (mix: CategoryMix): number =>
+  Object.values(mix).reduce((sum, percent) => sum + (percent || 0), 0);
+
+/**
+ * The expectation in force for an employee on a date (yyyy-MM-dd): their latest own
+ * row on or before it, else their manager's team row, else the 40h default.
+ */
+export const resolveExpectation = (
+  expectations: WorkExpectation[],
+  employee: { id: string; manager_id: string | null },
+  date: string
+): ResolvedExpectation => {
+  const latest = (rows: WorkExpectation[]) =>
+    rows
+      .filter(e => e.effective_from <= date)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+
+  const own = latest(expectations.filter(e => e.scope === 'employee' && e.employee_id === employee.id));
+  const team = employee.manager_id
+    ? latest(expectations.filter(e => e.scope === 'team' && e.manager_id === employee.manager_id))
+    : undefined;
+  const match = own || team;
+
+  if (!match) {
+    return { weeklyHours: DEFAULT_WEEKLY_HOURS, categoryMix: {}, source: 'default', effectiveFrom: null };
+  }
+
+  return {
+    weeklyHours: Number(match.weekly_hours),
+    categoryMix: match.category_mix || {},
+    source: match.scope,
+    effectiveFrom: match.effective_from,
+  };
+};
+
+/**
+ * Expected logged minutes over a date range, prorating each day's weekly target so a
+ * change of expectation mid-range is honoured.
+ */
+export const expectedMinutesBetween = (
+  expectations: WorkExpectation[],
+  employee: { id: string; manager_id: string | null },
+  from: string,
+  to: string
+): number => {
+  let minutes = 0;
+  for (let day = parseISO(from); format(day, 'yyyy-MM-dd') <= to; day = addDays(day, 1)) {
+    minutes += (resolveExpectation(expectations, employee, format(day, 'yyyy-MM-dd')).weeklyHours * 60) / 7;
+  }
+  return Math.round(minutes);
+};
+
+/**
+ * Actual share of logged minutes per category against the target mix, for every
+ * category that has either time logged or a target. Targeted categories come first.
+ */
+export const compareCategoryMix = (
+  minutesByCategory: Partial<Record<TaskCategory, number>>,
+  mix: CategoryMix
+): CategoryMixComparison[] => {
+  const totalMinutes = Object.values(minutesByCategory).reduce((sum, m) => sum + (m || 0), 0);
+
+  const categories = Array.from(new Set([...Object.keys(mix), ...Object.keys(minutesByCategory)]));
+
+  return categories.map(value => {
+    const actualPercent = totalMinutes > 0 ? ((minutesByCategory[value] || 0) / totalMinutes) * 100 : 0;
+    const targetPercent = mix[value] || 0;
+    return {
+      category: value,
+      actualPercent: Math.round(actualPercent * 10) / 10,
+      targetPercent,
+      variance: Math.round((actualPercent - targetPercent) * 10) / 10,
+    };
+  }).filter(row => row.actualPercent > 0 || row.targetPercent > 0);
+};
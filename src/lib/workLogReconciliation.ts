@@ -0,0 +1,62 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Day-by-day comparison of logged work (hr_work_log_tasks) with attendance
+// (hr_attendance), from public.work_log_reconciliation(). The server flags days
+// logged under 75% of the time present, over 30 minutes beyond it, or logged on
+// full-day approved leave.
+
+export type ReconciliationFlag = 'under' | 'over' | 'leave';
+
+export interface ReconciliationDay {
+  employee_id: string;
+  log_date: string;
+  attended_minutes: number;
+  logged_minutes: number;
+  attendance_status: string | null;
+  leave_type: string | null;
+  flag: ReconciliationFlag | null;
+}
+
+export const RECONCILIATION_FLAG_LABELS: Record<ReconciliationFlag, string> = {
+  under: 'Under-logged',
+  over: 'Over-logged',
+  leave: 'Logged on leave',
+};
+
+const formatHours = (minutes: number) => `${Number((minutes / 60).toFixed(1))}h`;
+
+/**
+ * Attendance, logged minutes and leave per employee per day in the range. Pass an
+ * employee for one person; otherwise everyone the caller reviews (their reports and
+ * delegated reports, or the whole organization for admins).
+ */
+export const fetchWorkLogReconciliation = async (
+  from: string,
+  to: string,
+  employeeId?: string
+): Promise<ReconciliationDay[]> => {
+  const { data, error } = await supabase.rpc('work_log_reconciliation', {
+    p_from: from,
+    p_to: to,
+    p_employee_id: employeeId ?? null,
+  });
+
+  if (error) throw error;
+  return (data || []) as ReconciliationDay[];
+};
+
+/**
+ * Days keyed by employee and date ("<employee_id>:<yyyy-MM-dd>")
+ */
+export const indexReconciliation = (days: ReconciliationDay[]): Map<string, ReconciliationDay> =>
+  new Map(days.map(day => [`${day.employee_id}:${day.log_date}`, day]));
+
+/**
+ * "8h present, 3h logged" or "2h logged on Sick Leave"
+ */
+export const describeReconciliation = (day: ReconciliationDay): string => {
+  if (day.flag === 'leave') {
+    return `${formatHours(day.logged_minutes)} logged on ${day.leave_type || 'leave'}`;
+  }
+  return `${formatHours(day.attended_minutes)} present, ${formatHours(day.logged_minutes)} logged`;
+};
@@ -3,8 +3,8 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/shared/StatusBadge';
 import { StatCard } from '@/components/shared/StatCard';
-import { Clock, LogIn, LogOut, Calendar as CalendarIcon, Loader2, List, CalendarDays, Palmtree } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, isSaturday, isSunday, isWeekend } from 'date-fns';
+import { Clock, LogIn, LogOut, Calendar as CalendarIcon, Loader2, List, CalendarDays, Palmtree, House } from 'lucide-react';
+import { format, startOfMonth, endOfMonth, isSaturday, isSunday, isWeekend, subDays } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -25,17 +25,30 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { getCurrentPosition } from '@/lib/punchLocation';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
+import {
+  ShiftRule,
+  evaluateAttendance,
+  fetchRoster,
+  formatShiftWindow,
+  getShiftRule,
+  resolveWorkDate,
+} from '@/lib/shifts';
+import { WfhRequest, fetchApprovedWfh, wfhCoversDate } from '@/lib/wfh';
 
 interface AttendanceRecord {
   id: string;
   employee_id: string;
   attendance_date: string;
-  punch_in_time: string;
+  punch_in_time: string | null;
   punch_out_time: string | null;
   total_hours: number | null;
   status: string | null;
   notes: string | null;
   is_consolidated: boolean | null;
+  location_flags?: string[];
+  auto_closed?: string | null;
 }
 
 interface Holiday {
@@ -47,6 +60,7 @@ interface Holiday {
 const AttendancePage = () => {
   const { employee } = useAuth();
   const { toast } = useToast();
+  const { settings, loading: settingsLoading } = useOrgSettings();
   
   const [todaySessions, setTodaySessions] = useState<AttendanceRecord[]>([]);
   const [attendanceHistory, setAttendanceHistory] = useState<AttendanceRecord[]>([]);
@@ -60,27 +74,62 @@ const AttendancePage = () => {
   const [calendarMonth, setCalendarMonth] = useState<Date>(new Date());
   const [monthAttendance, setMonthAttendance] = useState<AttendanceRecord[]>([]);
   const [monthHolidays, setMonthHolidays] = useState<Holiday[]>([]);
+  const [monthWfh, setMonthWfh] = useState<WfhRequest[]>([]);
 
   const today = format(new Date(), 'yyyy-MM-dd');
 
+  // Attendance date punches go to (yesterday while a night shift runs) and its shift
+  const [workDate, setWorkDate] = useState(today);
+  const [shiftRule, setShiftRule] = useState<ShiftRule | null>(null);
+  const [isWfhDay, setIsWfhDay] = useState(false);
+
   // Update current time every second
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(new Date()), 1000);
     return () => clearInterval(timer);
   }, []);
 
+  // Today's rostered shift, or yesterday's while a night shift that started then is running
+  const resolveShift = async (): Promise<string> => {
+    const now = new Date();
+    const yesterday = format(subDays(now, 1), 'yyyy-MM-dd');
+    const [roster, { data: details }] = await Promise.all([
+      fetchRoster(yesterday, today, employee!.id),
+      supabase
+        .from('hr_employee_details')
+        .select('employment_type')
+        .eq('employee_id', employee!.id)
+        .maybeSingle(),
+    ]);
+
+    const ruleFor = (date: string) => getShiftRule(
+      roster.find(a => a.work_date === date)?.shift,
+      settings.attendancePolicy,
+      details?.employment_type
+    );
+    const date = resolveWorkDate(now, ruleFor(yesterday));
+    setWorkDate(date);
+    setShiftRule(ruleFor(date));
+    return date;
+  };
+
   // Fetch attendance data function - extracted for reuse
   const fetchAttendance = async (showLoading = true) => {
     if (!employee?.id) return;
     
     if (showLoading) setLoading(true);
     try {
+      const date = await resolveShift();
+
+      const { data: wfh } = await supabase.rpc('is_wfh_day', { p_employee_id: employee.id, p_date: date });
+      setIsWfhDay(!!wfh);
+
       // Fetch all today's sessions (non-consolidated only)
       const { data: todayData, error: todayError } = await supabase
         .from('hr_attendance')
         .select('*')
         .eq('employee_id', employee.id)
-        .eq('attendance_date', today)
+        .eq('attendance_date', date)
         .eq('is_consolidated', false)
         .order('punch_in_time', { ascending: true });
 
@@ -143,7 +192,7 @@ const AttendancePage = () => {
 
   // Fetch today's attendance and history
   useEffect(() => {
-    if (!employee?.id) return;
+    if (!employee?.id || settingsLoading) return;
 
     fetchAttendance();
 
@@ -167,7 +216,7 @@ const AttendancePage = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [employee?.id, today]);
+  }, [employee?.id, today, settingsLoading]);
 
   // Fetch calendar data when month changes
   useEffect(() => {
@@ -197,6 +246,13 @@ const AttendancePage = () => {
           .lte('holiday_date', format(monthEnd, 'yyyy-MM-dd'));
 
         setMonthHolidays(holidays || []);
+
+        // Approved work-from-home covering the month
+        setMonthWfh(await fetchApprovedWfh(
+          format(monthStart, 'yyyy-MM-dd'),
+          format(monthEnd, 'yyyy-MM-dd'),
+          employee.id
+        ));
       } catch (error) {
         console.error('Error fetching calendar data:', error);
       }
@@ -205,62 +261,6 @@ const AttendancePage = () => {
     fetchCalendarData();
   }, [employee?.id, calendarMonth]);
 
-  // Consolidate daily attendance helper
-  const consolidateDailyAttendance = async (
-    employeeId: string, 
-    date: string, 
-    sessions: AttendanceRecord[], 
-    totalHours: number, 
-    finalStatus: string
-  ) => {
-    // Get first punch in and last punch out
-    const sortedByPunchIn = [...sessions].sort(
-      (a, b) => new Date(a.punch_in_time).getTime() - new Date(b.punch_in_time).getTime()
-    );
-    const firstPunchIn = sortedByPunchIn[0]?.punch_in_time;
-    
-    const sessionsWithPunchOut = sessions.filter(s => s.punch_out_time);
-    const sortedByPunchOut = [...sessionsWithPunchOut].sort(
-      (a, b) => new Date(b.punch_out_time!).getTime() - new Date(a.punch_out_time!).getTime()
-    );
-    const lastPunchOut = sortedByPunchOut[0]?.punch_out_time || null;
-
-    // Check if consolidated record exists
-    const { data: existing } = await supabase
-      .from('hr_attendance')
-      .select('id')
-      .eq('employee_id', employeeId)
-      .eq('attendance_date', date)
-      .eq('is_consolidated', true)
-      .maybeSingle();
-
-    if (existing) {
-      // Update existing consolidated record
-      await supabase
-        .from('hr_attendance')
-        .update({
-          punch_in_time: firstPunchIn,
-          punch_out_time: lastPunchOut,
-          total_hours: parseFloat(totalHours.toFixed(2)),
-          status: finalStatus,
-        })
-        .eq('id', existing.id);
-    } else {
-      // Create new consolidated record
-      await supabase
-        .from('hr_attendance')
-        .insert({
-          employee_id: employeeId,
-          attendance_date: date,
-          punch_in_time: firstPunchIn,
-          punch_out_time: lastPunchOut,
-          total_hours: parseFloat(totalHours.toFixed(2)),
-          status: finalStatus,
-          is_consolidated: true,
-        });
-    }
-  };
-
   const handlePunchIn = async () => {
     if (!employee?.id) return;
 
@@ -277,14 +277,17 @@ const AttendancePage = () => {
 
     setPunching(true);
     try {
+      const position = await getCurrentPosition();
       const now = new Date().toISOString();
       
       const { error } = await supabase
         .from('hr_attendance')
         .insert({
           employee_id: employee.id,
-          attendance_date: today,
+          attendance_date: workDate,
           punch_in_time: now,
+          punch_in_latitude: position?.latitude ?? null,
+          punch_in_longitude: position?.longitude ?? null,
           status: 'present',
           is_consolidated: false,
         });
@@ -327,6 +330,7 @@ const AttendancePage = () => {
 
     setPunching(true);
     try {
+      const position = await getCurrentPosition();
       const now = new Date();
       const punchIn = new Date(activeSession.punch_in_time);
       const hoursWorked = (now.getTime() - punchIn.getTime()) / (1000 * 60 * 60);
@@ -336,76 +340,26 @@ const AttendancePage = () => {
         .from('hr_attendance')
         .update({
           punch_out_time: now.toISOString(),
+          punch_out_latitude: position?.latitude ?? null,
+          punch_out_longitude: position?.longitude ?? null,
           total_hours: parseFloat(hoursWorked.toFixed(2)),
         })
         .eq('id', activeSession.id);
 
       if (error) throw error;
 
-      // Get employee type for status calculation
-      const { data: employeeDetails } = await supabase
-        .from('hr_employee_details')
-        .select('employment_type')
-        .eq('employee_id', employee.id)
-        .maybeSingle();
-
-      const isPartTime = employeeDetails?.employment_type === 'Part-time';
-
-      // Fetch all sessions for today (including the just-updated one)
-      const { data: allSessions } = await supabase
-        .from('hr_attendance')
-        .select('*')
-        .eq('employee_id', employee.id)
-        .eq('attendance_date', today)
-        .eq('is_consolidated', false);
-
-      // Calculate total hours from all sessions
-      const totalHours = (allSessions || []).reduce((sum, session) => {
-        if (session.id === activeSession.id) {
-          return sum + hoursWorked;
-        }
-        return sum + (session.total_hours || 0);
-      }, 0);
-
-      // Determine final status based on total hours
-      let finalStatus = 'Absent';
-      if (isPartTime) {
-        // Part-time logic: <2h = Absent, 4h+ = Present
-        if (totalHours >= 4) {
-          finalStatus = 'Present';
-        } else {
-          finalStatus = 'Absent';
-        }
-      } else {
-        // Full-time logic: <4h = Absent, 4-8h = Half Day, 8h+ = Present
-        if (totalHours >= 8) {
-          finalStatus = 'Present';
-        } else if (totalHours >= 4) {
-          finalStatus = 'Half Day';
-        } else {
-          finalStatus = 'Absent';
-        }
-      }
-
-      // Update all today's sessions with final status
-      await supabase
+      // Punching out rebuilds the day's summary on the server
+      const { data: summary } = await supabase
         .from('hr_attendance')
-        .update({ status: finalStatus })
+        .select('total_hours, status')
         .eq('employee_id', employee.id)
-        .eq('attendance_date', today)
-        .eq('is_consolidated', false);
-
-      // Create/Update consolidated record (for HR view and calendar)
-      const updatedSessions = (allSessions || []).map(s => 
-        s.id === activeSession.id 
-          ? { ...s, punch_out_time: now.toISOString(), total_hours: hoursWorked }
-          : s
-      );
-      await consolidateDailyAttendance(employee.id, today, updatedSessions, totalHours, finalStatus);
+        .eq('attendance_date', activeSession.attendance_date)
+        .eq('is_consolidated', true)
+        .maybeSingle();
 
       toast({
         title: 'Punched Out',
-        description: `Total: ${totalHours.toFixed(1)}h - Status: ${finalStatus}`,
+        description: `Total: ${(summary?.total_hours ?? hoursWorked).toFixed(1)}h - Status: ${summary?.status ?? 'Recorded'}`,
       });
 
       // Refresh attendance data immediately
@@ -432,11 +386,23 @@ const AttendancePage = () => {
   const activeSession = todaySessions.find(s => !s.punch_out_time);
   const isPunchedIn = !!activeSession;
 
-  const getStatus = (): 'present' | 'absent' | 'partial' => {
-    if (todaySessions.length === 0) return 'absent';
+  // Today's sessions judged against the shift; an open session counts up to now
+  const todayEvaluation = shiftRule && todaySessions.length > 0
+    ? evaluateAttendance(
+        shiftRule,
+        workDate,
+        todaySessions[0].punch_in_time,
+        isPunchedIn ? null : todaySessions.map(s => s.punch_out_time).sort().slice(-1)[0] ?? null,
+        totalHoursToday
+      )
+    : null;
+
+  const getStatus = (): 'present' | 'absent' | 'partial' | 'wfh' => {
+    if (isWfhDay) return 'wfh';
+    if (!todayEvaluation) return 'absent';
     if (isPunchedIn) return 'present';
-    if (totalHoursToday >= 8) return 'present';
-    if (totalHoursToday >= 4) return 'partial';
+    if (todayEvaluation.status === 'Present') return 'present';
+    if (todayEvaluation.status === 'Half Day') return 'partial';
     return 'absent';
   };
 
@@ -447,14 +413,14 @@ const AttendancePage = () => {
   });
   
   const presentDays = weekdayHistory.filter(r => 
-    r.status?.toLowerCase() === 'present'
+    r.status?.toLowerCase() === 'present' || r.status?.toLowerCase() === 'work from home'
   ).length;
   const partialDays = weekdayHistory.filter(r => 
     r.status?.toLowerCase() === 'half day' || r.status?.toLowerCase() === 'partial'
   ).length;
 
   // Calendar helper functions
-  const getDateStatus = (date: Date): 'present' | 'absent' | 'partial' | 'holiday' | 'leave' | 'weekend' | null => {
+  const getDateStatus = (date: Date): 'present' | 'absent' | 'partial' | 'holiday' | 'leave' | 'wfh' | 'weekend' | null => {
     const dateStr = format(date, 'yyyy-MM-dd');
     const todayDate = new Date();
     
@@ -476,10 +442,14 @@ const AttendancePage = () => {
       if (status === 'partial' || status === 'half_day') return 'partial';
       if (status === 'absent') return 'absent';
       if (status === 'leave' || status === 'on_leave') return 'leave';
+      if (status === 'work_from_home') return 'wfh';
     }
     
     // If weekend with no attendance record, show as weekend (not absent)
     if (isWeekendDay) return 'weekend';
+
+    // Approved WFH not consolidated yet (e.g. today)
+    if (monthWfh.some(r => wfhCoversDate(r, dateStr))) return 'wfh';
     
     // Weekday with no record = absent
     return 'absent';
@@ -501,6 +471,7 @@ const AttendancePage = () => {
     if (status === 'partial') return 'Half Day';
     if (status === 'absent') return 'Absent';
     if (status === 'leave') return 'On Leave';
+    if (status === 'wfh') return 'Work From Home';
     return '';
   };
 
@@ -566,11 +537,36 @@ const AttendancePage = () => {
                 <Badge className="bg-green-500 text-white">Currently Active</Badge>
               )}
             </div>
+            {isWfhDay && (
+              <p className="text-sm text-muted-foreground mt-2 flex items-center justify-center gap-1">
+                <House className="w-4 h-4" />
+                Approved to work from home. Punches are optional and not checked against the office.
+              </p>
+            )}
             {isPunchedIn && activeSession && (
               <p className="text-sm text-muted-foreground mt-2">
                 Punched in at {formatTime(activeSession.punch_in_time)}
               </p>
             )}
+            {shiftRule && (
+              <p className="text-sm text-muted-foreground mt-1">
+                {workDate !== today && 'Yesterday\'s '}Shift: {shiftRule.name} ({formatShiftWindow(shiftRule)})
+              </p>
+            )}
+            {todayEvaluation && (todayEvaluation.lateMinutes > 0 || todayEvaluation.earlyExitMinutes > 0) && (
+              <div className="flex items-center justify-center gap-2 mt-2">
+                {todayEvaluation.lateMinutes > 0 && (
+                  <Badge variant="outline" className="border-orange-500 text-orange-600">
+                    Late by {todayEvaluation.lateMinutes}m
+                  </Badge>
+                )}
+                {todayEvaluation.earlyExitMinutes > 0 && (
+                  <Badge variant="outline" className="border-orange-500 text-orange-600">
+                    Left {todayEvaluation.earlyExitMinutes}m early
+                  </Badge>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Punch Buttons */}
@@ -628,6 +624,9 @@ const AttendancePage = () => {
                         {!session.punch_out_time && (
                           <p className="text-xs text-green-600 dark:text-green-400">Active</p>
                         )}
+                        {!!session.location_flags?.length && (
+                          <p className="text-xs text-orange-600">Recorded outside office</p>
+                        )}
                       </div>
                     </div>
                     {session.total_hours && (
@@ -645,7 +644,11 @@ const AttendancePage = () => {
                   <span className="text-lg font-bold text-primary">{totalHoursToday.toFixed(2)}h</span>
                 </div>
                 <p className="text-sm text-muted-foreground mt-1">
-                  {totalHoursToday >= 8 ? '✅ Present' : totalHoursToday >= 4 ? '⚠️ Half Day' : '❌ Absent (Apply regularization if needed)'}
+                  {todayEvaluation?.status === 'Present'
+                    ? '✅ Present'
+                    : todayEvaluation?.status === 'Half Day'
+                      ? `⚠️ Half Day (${todayEvaluation.shortHours.toFixed(1)}h short of a full day)`
+                      : '❌ Absent (Apply regularization if needed)'}
                 </p>
               </div>
             )}
@@ -711,9 +714,13 @@ const AttendancePage = () => {
                               if (status === 'present') return 'present';
                               if (status === 'partial' || status === 'half_day') return 'partial';
                               if (status === 'absent') return 'absent';
+                              if (status === 'work_from_home') return 'wfh';
                               return 'absent';
                             })()
                           } />
+                          {record.auto_closed && (
+                            <p className="text-xs text-orange-600 mt-1">Missed punch-out</p>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))
@@ -749,6 +756,10 @@ const AttendancePage = () => {
                     <div className="w-4 h-4 rounded bg-purple-100 dark:bg-purple-900/40 border border-purple-200"></div>
                     <span className="text-sm">On Leave</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded bg-teal-100 dark:bg-teal-900/40 border border-teal-200"></div>
+                    <span className="text-sm">Work From Home</span>
+                  </div>
                   <div className="flex items-center gap-2">
                     <div className="w-4 h-4 rounded bg-slate-200 dark:bg-slate-700/40 border border-slate-300 flex items-center justify-center">
                       <Palmtree className="h-2.5 w-2.5 text-slate-500" />
@@ -772,6 +783,7 @@ const AttendancePage = () => {
                       partial: (date) => getDateStatus(date) === 'partial',
                       holiday: (date) => getDateStatus(date) === 'holiday',
                       leave: (date) => getDateStatus(date) === 'leave',
+                      wfh: (date) => getDateStatus(date) === 'wfh',
                       weekend: (date) => getDateStatus(date) === 'weekend',
                     }}
                     modifiersClassNames={{
@@ -780,6 +792,7 @@ const AttendancePage = () => {
                       partial: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200',
                       holiday: 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200',
                       leave: 'bg-purple-100 dark:bg-purple-900/40 text-purple-800 dark:text-purple-200',
+                      wfh: 'bg-teal-100 dark:bg-teal-900/40 text-teal-800 dark:text-teal-200',
                       weekend: 'bg-slate-200 dark:bg-slate-700/40 text-slate-500 dark:text-slate-400',
                     }}
                   />
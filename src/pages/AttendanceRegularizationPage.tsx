@@ -14,9 +14,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Skeleton } from '@/components/ui/skeleton';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { CalendarIcon, Loader2, FileEdit, Eye } from 'lucide-react';
+import { CalendarIcon, Loader2, FileEdit, Eye, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { sendRegularizationAppliedEmail } from '@/lib/emailService';
+import { resolveApproverId } from '@/lib/delegation';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
+import {
+  RegularizationReason,
+  checkRegularizationPolicy,
+  countRegularizationsInMonth,
+  fetchRegularizationReasons,
+} from '@/lib/regularization';
 
 interface RegularizationRequest {
   id: string;
@@ -25,10 +33,12 @@ interface RegularizationRequest {
   current_status: string;
   requested_status: string;
   reason: string;
+  reason_id: string | null;
   status: string;
   admin_notes: string | null;
   requested_at: string;
   reviewed_at: string | null;
+  reason_code?: { label: string } | null;
 }
 
 // Use snake_case values for database, display as Title Case
@@ -79,6 +89,8 @@ const attendanceStatusColors: Record<string, string> = {
 const AttendanceRegularizationPage = () => {
   const { employee } = useAuth();
   const { toast } = useToast();
+  const { settings } = useOrgSettings();
+  const policy = settings.attendancePolicy.regularization;
 
   const [requests, setRequests] = useState<RegularizationRequest[]>([]);
   const [loading, setLoading] = useState(true);
@@ -91,15 +103,26 @@ const AttendanceRegularizationPage = () => {
   const [currentStatus, setCurrentStatus] = useState<string>('');
   const [requestedStatus, setRequestedStatus] = useState<string>('');
   const [reason, setReason] = useState('');
+  const [reasonId, setReasonId] = useState('');
+  const [reasons, setReasons] = useState<RegularizationReason[]>([]);
   const [fetchingStatus, setFetchingStatus] = useState(false);
 
-  const minDate = subDays(new Date(), 30);
-  const maxDate = new Date();
+  const minDate = policy.maxAgeDays !== null ? startOfDay(subDays(new Date(), policy.maxAgeDays)) : undefined;
+  const selectedDateStr = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : null;
+  const policyError = selectedDateStr && employee?.id
+    ? checkRegularizationPolicy(policy, employee.id, selectedDateStr, requests)
+    : null;
 
   useEffect(() => {
     fetchRequests();
   }, [employee?.id]);
 
+  useEffect(() => {
+    fetchRegularizationReasons()
+      .then(setReasons)
+      .catch(error => console.error('Error fetching regularization reasons:', error));
+  }, []);
+
   const fetchRequests = async () => {
     if (!employee?.id) return;
 
@@ -107,7 +130,7 @@ const AttendanceRegularizationPage = () => {
     try {
       const { data, error } = await supabase
         .from('hr_attendance_regularization_requests')
-        .select('*')
+        .select('*, reason_code:hr_regularization_reasons(label)')
         .eq('employee_id', employee.id)
         .order('requested_at', { ascending: false });
 
@@ -203,6 +226,15 @@ const AttendanceRegularizationPage = () => {
       return;
     }
 
+    if (reasons.length > 0 && !reasonId) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please choose a reason',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     if (reason.length < 10) {
       toast({
         title: 'Validation Error',
@@ -221,14 +253,11 @@ const AttendanceRegularizationPage = () => {
       return;
     }
 
-    // Check if pending request exists for this date
-    const existingPending = requests.find(
-      r => r.attendance_date === format(selectedDate, 'yyyy-MM-dd') && r.status === 'Pending'
-    );
-    if (existingPending) {
+    // Window, duplicate and monthly limits from the org's regularization policy
+    if (policyError) {
       toast({
-        title: 'Duplicate Request',
-        description: 'You already have a pending request for this date',
+        title: 'Request Not Allowed',
+        description: policyError,
         variant: 'destructive',
       });
       return;
@@ -254,6 +283,7 @@ const AttendanceRegularizationPage = () => {
           current_status: formattedCurrentStatus,
           requested_status: requestedStatus,
           reason,
+          reason_id: reasonId || null,
           status: 'Pending',
         });
 
@@ -262,10 +292,12 @@ const AttendanceRegularizationPage = () => {
       // Send email notification to manager if employee has a manager
       if (employee.manager_id) {
         try {
+          // Goes to the manager's delegate while they are away
+          const approverId = await resolveApproverId(employee.manager_id);
           const { data: manager } = await supabase
             .from('hr_employees')
             .select('email, full_name')
-            .eq('id', employee.manager_id)
+            .eq('id', approverId)
             .single();
 
           if (manager) {
@@ -289,6 +321,7 @@ const AttendanceRegularizationPage = () => {
       setCurrentStatus('');
       setRequestedStatus('');
       setReason('');
+      setReasonId('');
       fetchRequests();
     } catch (error: any) {
       console.error('Error submitting request:', error);
@@ -357,14 +390,18 @@ const AttendanceRegularizationPage = () => {
                       onSelect={handleDateSelect}
                       disabled={(date) => 
                         isAfter(startOfDay(date), startOfDay(new Date())) || 
-                        isBefore(date, minDate)
+                        (!!minDate && isBefore(date, minDate))
                       }
                       initialFocus
                       className="pointer-events-auto"
                     />
                   </PopoverContent>
                 </Popover>
-                <p className="text-xs text-muted-foreground">Cannot select future dates or dates older than 30 days</p>
+                <p className="text-xs text-muted-foreground">
+                  {policy.maxAgeDays !== null
+                    ? `Cannot select future dates or dates older than ${policy.maxAgeDays} days`
+                    : 'Cannot select future dates'}
+                </p>
               </div>
 
               <div className="space-y-2">
@@ -403,8 +440,38 @@ const AttendanceRegularizationPage = () => {
               </div>
             </div>
 
+            {selectedDateStr && employee?.id && policy.monthlyLimit !== null && (
+              <p className="text-sm text-muted-foreground">
+                {countRegularizationsInMonth(requests, employee.id, selectedDateStr)} of {policy.monthlyLimit} request(s)
+                used for {format(selectedDate!, 'MMMM yyyy')}
+              </p>
+            )}
+
+            {policyError && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {policyError}
+              </div>
+            )}
+
+            {reasons.length > 0 && (
+              <div className="space-y-2">
+                <Label>Reason Code *</Label>
+                <Select value={reasonId} onValueChange={setReasonId}>
+                  <SelectTrigger className="md:w-1/2">
+                    <SelectValue placeholder="Select a reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reasons.map(r => (
+                      <SelectItem key={r.id} value={r.id}>{r.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2">
-              <Label>Reason * (min 10 characters)</Label>
+              <Label>{reasons.length > 0 ? 'Details' : 'Reason'} * (min 10 characters)</Label>
               <Textarea
                 value={reason}
                 onChange={(e) => setReason(e.target.value)}
@@ -415,7 +482,7 @@ const AttendanceRegularizationPage = () => {
               <p className="text-xs text-muted-foreground">{reason.length}/500 characters</p>
             </div>
 
-            <Button type="submit" disabled={submitting} className="bg-green-600 hover:bg-green-700">
+            <Button type="submit" disabled={submitting || !!policyError} className="bg-green-600 hover:bg-green-700">
               {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Submit Request
             </Button>
@@ -481,6 +548,9 @@ const AttendanceRegularizationPage = () => {
                         </Badge>
                       </TableCell>
                       <TableCell className="max-w-[200px] truncate">
+                        {request.reason_code && (
+                          <span className="font-medium">{request.reason_code.label}: </span>
+                        )}
                         {request.reason}
                       </TableCell>
                       <TableCell>
@@ -540,6 +610,9 @@ const AttendanceRegularizationPage = () => {
               </div>
               <div>
                 <Label className="text-muted-foreground">Reason</Label>
+                {viewRequest.reason_code && (
+                  <p className="mt-1 text-sm font-medium">{viewRequest.reason_code.label}</p>
+                )}
                 <p className="mt-1 text-sm">{viewRequest.reason}</p>
               </div>
               <div className="grid grid-cols-2 gap-4">
@@ -27,6 +27,7 @@ import {
 } from 'lucide-react';
 import { useEmployeeGender } from '@/hooks/useEmployeeGender';
 import { getLeaveTypesForGender, getLeaveSummaryText, LEAVE_TYPES } from '@/lib/leaveTypes';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
 import {
   Tooltip,
   TooltipContent,
@@ -65,9 +66,10 @@ const DashboardPage = () => {
   const { role, employee, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const { gender, loading: genderLoading } = useEmployeeGender(employee?.id);
+  const { leaveTypes } = useOrgSettings();
   
-  // Get leave types based on gender
-  const availableLeaveTypes = getLeaveTypesForGender(gender);
+  // Get leave types based on gender, with the org's quotas applied
+  const availableLeaveTypes = getLeaveTypesForGender(gender, leaveTypes);
   
   const [dataLoading, setDataLoading] = useState(true);
   const [leaveBalances, setLeaveBalances] = useState<LeaveBalance[]>([]);
@@ -267,7 +269,7 @@ const DashboardPage = () => {
             </div>
             <div>
               <p className="text-sm text-muted-foreground">My Leave Entitlement</p>
-              <p className="text-lg font-semibold text-foreground">{getLeaveSummaryText(gender)}</p>
+              <p className="text-lg font-semibold text-foreground">{getLeaveSummaryText(gender, leaveTypes)}</p>
             </div>
           </div>
           
@@ -526,7 +528,7 @@ const DashboardPage = () => {
             </div>
             <div className="flex-1">
               <p className="text-sm text-muted-foreground">My Leave Balance</p>
-              <p className="text-xs text-muted-foreground mb-2">{getLeaveSummaryText(gender)}</p>
+              <p className="text-xs text-muted-foreground mb-2">{getLeaveSummaryText(gender, leaveTypes)}</p>
               {dataLoading || genderLoading ? (
                 <Skeleton className="h-6 w-48" />
               ) : (
@@ -738,7 +740,7 @@ const DashboardPage = () => {
           </div>
           <div className="flex-1">
             <p className="text-sm text-muted-foreground">My Leave Balance</p>
-            <p className="text-xs text-muted-foreground mb-2">{getLeaveSummaryText(gender)}</p>
+            <p className="text-xs text-muted-foreground mb-2">{getLeaveSummaryText(gender, leaveTypes)}</p>
             {dataLoading || genderLoading ? (
               <Skeleton className="h-6 w-48" />
             ) : (
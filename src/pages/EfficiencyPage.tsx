@@ -1,19 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
 import { Card } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
 import { EfficiencyDot } from '@/components/shared/EfficiencyDot';
 import { ProgressBar } from '@/components/shared/ProgressBar';
 import { StatCard } from '@/components/shared/StatCard';
-import { TrendingUp, Target, Calendar } from 'lucide-react';
-import { getEfficiencyForEmployee, currentUser, employeeExpectations, getAverageEfficiency } from '@/data/mockData';
-import { format } from 'date-fns';
+import { TrendingUp, Target, Calendar, Gauge } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  EFFICIENCY_CLOSE_MARGIN,
+  EFFICIENCY_TARGET,
+  EfficiencySnapshot,
+  averageEfficiency,
+  fetchEmployeeSnapshots,
+  formatSnapshotWeek,
+  weekStartBefore,
+} from '@/lib/efficiency';
+
+// How far back the history goes
+const HISTORY_WEEKS = 12;
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1)}h`;
 
 const EfficiencyPage = () => {
-  const efficiencyRecords = getEfficiencyForEmployee(currentUser.id);
-  const employeeExpectation = employeeExpectations.find(e => e.employeeId === currentUser.id);
-  const expectedEfficiency = employeeExpectation?.expectedEfficiency || 80;
-  const averageEfficiency = getAverageEfficiency(currentUser.id);
+  const { employee } = useAuth();
+  const [snapshots, setSnapshots] = useState<EfficiencySnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!employee?.id) return;
+
+    try {
+      setSnapshots(await fetchEmployeeSnapshots(weekStartBefore(HISTORY_WEEKS), employee.id));
+    } catch (error) {
+      console.error('Error fetching efficiency snapshots:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load efficiency',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id]);
 
-  const todayRecord = efficiencyRecords[0];
-  const weeklyRecords = efficiencyRecords.slice(0, 5);
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const expectedEfficiency = EFFICIENCY_TARGET;
+  const latest = snapshots[0] || null;
+  const previous = snapshots[1] || null;
+  const monthAverage = averageEfficiency(snapshots.slice(0, 4));
+  const recentWeeks = snapshots.slice(0, 8).reverse();
+
+  const latestTrend = latest?.efficiency != null && previous?.efficiency != null
+    ? {
+        value: Math.abs(Math.round(Number(latest.efficiency) - Number(previous.efficiency))),
+        isPositive: Number(latest.efficiency) >= Number(previous.efficiency),
+      }
+    : undefined;
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[1, 2, 3].map(i => <Skeleton key={i} className="h-32" />)}
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -25,60 +84,101 @@ const EfficiencyPage = () => {
       {/* Info Note */}
       <Card className="p-4 bg-primary/5 border-primary/20">
         <p className="text-sm text-foreground">
-          <strong>Note:</strong> Efficiency is based on work output, not hours. 
-          It measures your productivity and contribution to team goals.
+          <strong>Note:</strong> Efficiency is scored each week from your work log and attendance:
+          time logged against time attended (50%), weeks approved without rework (30%) and
+          submitting the week by the following Monday (20%). Scores update every Tuesday.
         </p>
       </Card>
 
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <StatCard 
-          title="Today's Efficiency" 
-          value={`${todayRecord?.efficiency || 0}%`}
+        <StatCard
+          title="Last Week's Efficiency"
+          value={latest?.efficiency != null ? `${Number(latest.efficiency)}%` : '-'}
+          subtitle={latest ? formatSnapshotWeek(latest.week_start) : 'Not scored yet'}
           icon={TrendingUp}
-          trend={todayRecord?.efficiency >= expectedEfficiency ? { value: 5, isPositive: true } : undefined}
+          trend={latestTrend}
         />
-        <StatCard 
-          title="Expected" 
+        <StatCard
+          title="Expected"
           value={`${expectedEfficiency}%`}
-          subtitle={`${employeeExpectation?.period || 'daily'}`}
+          subtitle="weekly"
           icon={Target}
         />
-        <StatCard 
-          title="Weekly Average" 
-          value={`${averageEfficiency}%`}
+        <StatCard
+          title="4-Week Average"
+          value={monthAverage !== null ? `${monthAverage}%` : '-'}
           icon={Calendar}
-          trend={averageEfficiency >= expectedEfficiency ? { value: 3, isPositive: true } : { value: 2, isPositive: false }}
         />
       </div>
 
-      {/* Today's Progress */}
+      {/* Last Week's Breakdown */}
       <Card className="p-6 glass-card">
-        <h2 className="font-semibold text-foreground mb-4">Today's Progress</h2>
-        <ProgressBar 
-          value={todayRecord?.efficiency || 0} 
-          expected={expectedEfficiency}
-        />
+        <h2 className="font-semibold text-foreground mb-4 flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-primary" />
+          Last Week's Breakdown
+        </h2>
+        {latest ? (
+          <div className="space-y-6">
+            <ProgressBar value={Number(latest.efficiency ?? 0)} expected={expectedEfficiency} />
+            <div className="grid md:grid-cols-3 gap-6 pt-4 border-t border-border">
+              <div>
+                <p className="text-sm text-muted-foreground">Utilization</p>
+                <p className="text-xl font-semibold text-foreground">
+                  {latest.utilization !== null ? `${Number(latest.utilization)}%` : '-'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatHours(latest.logged_minutes)} logged of {formatHours(latest.attended_minutes)} attended
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Quality</p>
+                <p className="text-xl font-semibold text-foreground">
+                  {latest.quality !== null ? `${Number(latest.quality)}%` : '-'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {latest.weeks_approved > 0 ? 'Approved' : 'Not approved yet'}
+                  {latest.reworks > 0 && `, sent back ${latest.reworks} time(s)`}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">On Time</p>
+                <p className="text-xl font-semibold text-foreground">
+                  {latest.on_time_rate !== null ? `${Number(latest.on_time_rate)}%` : '-'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {latest.submissions === 0
+                    ? 'Not submitted'
+                    : latest.on_time_submissions > 0 ? 'Submitted on time' : 'Submitted late'}
+                </p>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No scores yet. Your first score appears the Tuesday after a week with attendance or logged work.
+          </p>
+        )}
       </Card>
 
-      {/* Last 7 Days */}
+      {/* Recent Weeks */}
       <Card className="p-6 glass-card">
-        <h2 className="font-semibold text-foreground mb-4">Last 7 Days</h2>
-        <div className="flex items-center justify-center gap-4 py-4">
-          {weeklyRecords.map((record) => (
-            <div key={record.id} className="flex flex-col items-center gap-2">
-              <EfficiencyDot 
-                value={record.efficiency} 
-                expected={expectedEfficiency}
-                date={format(new Date(record.date), 'MMM d')}
-              />
-              <span className="text-xs text-muted-foreground">
-                {format(new Date(record.date), 'EEE')}
-              </span>
-            </div>
-          ))}
-        </div>
-        
+        <h2 className="font-semibold text-foreground mb-4">Last 8 Weeks</h2>
+        {recentWeeks.length > 0 ? (
+          <div className="flex items-center justify-center gap-4 py-4 flex-wrap">
+            {recentWeeks.map((snapshot) => (
+              <div key={snapshot.id} className="flex flex-col items-center gap-2">
+                <EfficiencyDot snapshot={snapshot} expected={expectedEfficiency} />
+                <span className="text-xs text-muted-foreground">
+                  {format(parseISO(snapshot.week_start), 'd MMM')}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4 text-center">No weeks scored yet</p>
+        )}
+
         {/* Legend */}
         <div className="flex justify-center gap-6 pt-4 border-t border-border mt-4">
           <div className="flex items-center gap-2">
@@ -87,11 +187,15 @@ const EfficiencyPage = () => {
           </div>
           <div className="flex items-center gap-2">
             <div className="efficiency-dot efficiency-medium" />
-            <span className="text-xs text-muted-foreground">Close ({expectedEfficiency - 15}%-{expectedEfficiency - 1}%)</span>
+            <span className="text-xs text-muted-foreground">
+              Close ({expectedEfficiency - EFFICIENCY_CLOSE_MARGIN}%-{expectedEfficiency - 1}%)
+            </span>
           </div>
           <div className="flex items-center gap-2">
             <div className="efficiency-dot efficiency-low" />
-            <span className="text-xs text-muted-foreground">Below (&lt;{expectedEfficiency - 15}%)</span>
+            <span className="text-xs text-muted-foreground">
+              Below (&lt;{expectedEfficiency - EFFICIENCY_CLOSE_MARGIN}%)
+            </span>
           </div>
         </div>
       </Card>
@@ -101,34 +205,37 @@ const EfficiencyPage = () => {
         <div className="p-4 border-b border-border">
           <h2 className="font-semibold text-foreground">Efficiency History</h2>
         </div>
-        <div className="divide-y divide-border">
-          {efficiencyRecords.map((record) => (
-            <div key={record.id} className="p-4 flex items-center justify-between hover:bg-secondary/50 transition-colors">
-              <div className="flex items-center gap-3">
-                <EfficiencyDot 
-                  value={record.efficiency} 
-                  expected={record.expected}
-                  showTooltip={false}
-                />
-                <div>
-                  <p className="font-medium text-foreground">
-                    {format(new Date(record.date), 'EEEE, MMM d')}
-                  </p>
-                </div>
-              </div>
-              <div className="flex items-center gap-8">
-                <div className="text-right">
-                  <p className="text-sm text-muted-foreground">Actual</p>
-                  <p className="font-semibold text-foreground">{record.efficiency}%</p>
+        {snapshots.length === 0 ? (
+          <p className="p-6 text-center text-muted-foreground">No history yet</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {snapshots.map((snapshot) => (
+              <div key={snapshot.id} className="p-4 flex items-center justify-between hover:bg-secondary/50 transition-colors">
+                <div className="flex items-center gap-3">
+                  <EfficiencyDot snapshot={snapshot} expected={expectedEfficiency} showTooltip={false} />
+                  <div>
+                    <p className="font-medium text-foreground">{formatSnapshotWeek(snapshot.week_start)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatHours(snapshot.logged_minutes)} logged · {formatHours(snapshot.attended_minutes)} attended
+                    </p>
+                  </div>
                 </div>
-                <div className="text-right">
-                  <p className="text-sm text-muted-foreground">Expected</p>
-                  <p className="font-medium text-muted-foreground">{record.expected}%</p>
+                <div className="flex items-center gap-8">
+                  <div className="text-right">
+                    <p className="text-sm text-muted-foreground">Actual</p>
+                    <p className="font-semibold text-foreground">
+                      {snapshot.efficiency !== null ? `${Number(snapshot.efficiency)}%` : '-'}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-muted-foreground">Expected</p>
+                    <p className="font-medium text-muted-foreground">{expectedEfficiency}%</p>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        )}
       </Card>
     </div>
   );
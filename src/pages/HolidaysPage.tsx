@@ -73,10 +73,76 @@ const HolidaysPage = () => {
   // Calendar view state
   const [calendarMonth, setCalendarMonth] = useState<Date>(new Date());
 
+  // Optional holidays this employee has opted into (excluded from their leave days)
+  const [optedHolidayIds, setOptedHolidayIds] = useState<Set<string>>(new Set());
+  const [togglingHolidayId, setTogglingHolidayId] = useState<string | null>(null);
+
   useEffect(() => {
     fetchHolidays();
   }, [selectedYear]);
 
+  useEffect(() => {
+    if (!employee?.id) return;
+
+    const fetchOptedHolidays = async () => {
+      const { data, error } = await supabase
+        .from('hr_optional_holiday_selections')
+        .select('holiday_id')
+        .eq('employee_id', employee.id);
+
+      if (error) {
+        console.error('Error fetching optional holiday selections:', error);
+        return;
+      }
+      setOptedHolidayIds(new Set((data || []).map(s => s.holiday_id)));
+    };
+
+    fetchOptedHolidays();
+  }, [employee?.id]);
+
+  const handleToggleOptionalHoliday = async (holiday: Holiday) => {
+    if (!employee?.id) return;
+
+    const optedIn = optedHolidayIds.has(holiday.id);
+    setTogglingHolidayId(holiday.id);
+    try {
+      const { error } = optedIn
+        ? await supabase
+            .from('hr_optional_holiday_selections')
+            .delete()
+            .eq('employee_id', employee.id)
+            .eq('holiday_id', holiday.id)
+        : await supabase
+            .from('hr_optional_holiday_selections')
+            .insert({ employee_id: employee.id, holiday_id: holiday.id });
+
+      if (error) throw error;
+
+      const next = new Set(optedHolidayIds);
+      if (optedIn) {
+        next.delete(holiday.id);
+      } else {
+        next.add(holiday.id);
+      }
+      setOptedHolidayIds(next);
+
+      toast({
+        title: optedIn ? 'Opted out' : 'Opted in',
+        description: optedIn
+          ? `${holiday.holiday_name} will count as a working day for you.`
+          : `${holiday.holiday_name} will not be charged as leave.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error updating optional holiday',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setTogglingHolidayId(null);
+    }
+  };
+
   const fetchHolidays = async () => {
     setLoading(true);
     try {
@@ -483,7 +549,17 @@ const HolidaysPage = () => {
                             </TableCell>
                             <TableCell>
                               {holiday.is_optional && (
-                                <Badge variant="outline">Optional</Badge>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline">Optional</Badge>
+                                  <Button
+                                    variant={optedHolidayIds.has(holiday.id) ? 'secondary' : 'outline'}
+                                    size="sm"
+                                    disabled={togglingHolidayId === holiday.id}
+                                    onClick={() => handleToggleOptionalHoliday(holiday)}
+                                  >
+                                    {optedHolidayIds.has(holiday.id) ? 'Opted In' : 'Opt In'}
+                                  </Button>
+                                </div>
                               )}
                             </TableCell>
                             {isAdmin && (
@@ -2,12 +2,14 @@ import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/shared/StatusBadge';
+import { ApprovalChain } from '@/components/shared/ApprovalChain';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Calendar, Plus, Loader2, X, Info } from 'lucide-react';
-import { format, eachDayOfInterval, isWeekend, parseISO } from 'date-fns';
+import { format, isSameDay, parseISO } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
 import { sendLeaveAppliedEmail } from '@/lib/emailService';
+import { resolveApproverId } from '@/lib/delegation';
 import {
   Dialog,
   DialogContent,
@@ -42,14 +44,24 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { useEmployeeGender } from '@/hooks/useEmployeeGender';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
+import { APPROVAL_STEPS_SELECT, LeaveApprovalStep, approveLeaveRequest } from '@/lib/leaveApproval';
+import {
+  LEAVE_SESSIONS,
+  LeaveSession,
+  calculateLeaveDuration,
+  fetchNonWorkingDates,
+} from '@/lib/leaveDuration';
 import { 
-  LEAVE_TYPES, 
+  COMP_OFF_LEAVE_TYPE,
   SPECIAL_LEAVE_REASONS, 
   getLeaveTypesForGender, 
   getTotalLeaveDays, 
   getLeaveSummaryText,
   LeaveTypeConfig 
 } from '@/lib/leaveTypes';
+import { LeaveEncashmentCard } from '@/components/leave/LeaveEncashmentCard';
+import { CompOffCreditsCard } from '@/components/leave/CompOffCreditsCard';
 
 interface LeaveEntitlement {
   id: string;
@@ -57,6 +69,15 @@ interface LeaveEntitlement {
   total_leaves: number;
   used_leaves: number;
   remaining_leaves: number;
+  carried_forward: number;
+}
+
+interface LeaveAccrual {
+  id: string;
+  leave_type: string;
+  accrual_month: string;
+  days: number;
+  prorated: boolean;
 }
 
 interface LeaveRequest {
@@ -65,16 +86,21 @@ interface LeaveRequest {
   start_date: string;
   end_date: string;
   total_days: number;
+  start_session: string;
+  end_session: string;
   status: string;
   reason: string | null;
   created_at: string;
+  approval_steps: LeaveApprovalStep[];
 }
 
 const MyLeavesPage = () => {
   const { employee } = useAuth();
   const { gender, loading: genderLoading } = useEmployeeGender(employee?.id);
+  const { settings, leaveTypes, loading: settingsLoading } = useOrgSettings();
   const [entitlements, setEntitlements] = useState<LeaveEntitlement[]>([]);
   const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [accruals, setAccruals] = useState<LeaveAccrual[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -83,14 +109,22 @@ const MyLeavesPage = () => {
   const [leaveType, setLeaveType] = useState('');
   const [startDate, setStartDate] = useState<Date | undefined>();
   const [endDate, setEndDate] = useState<Date | undefined>();
+  const [startSession, setStartSession] = useState<LeaveSession>('full');
+  const [endSession, setEndSession] = useState<LeaveSession>('full');
+  const [nonWorkingDates, setNonWorkingDates] = useState<Set<string>>(new Set());
+  const [holidaysLoading, setHolidaysLoading] = useState(false);
   const [reason, setReason] = useState('');
   const [specialLeaveReason, setSpecialLeaveReason] = useState('');
 
   const currentYear = new Date().getFullYear();
   
-  // Get leave types based on gender
-  const availableLeaveTypes = getLeaveTypesForGender(gender);
-  const selectedLeaveTypeConfig = LEAVE_TYPES.find(lt => lt.value === leaveType);
+  // Get leave types based on gender, with the org's quotas applied
+  const availableLeaveTypes = [
+    ...getLeaveTypesForGender(gender, leaveTypes),
+    ...(settings.leavePolicy.compOff.enabled ? [COMP_OFF_LEAVE_TYPE] : []),
+  ];
+  const selectedLeaveTypeConfig = availableLeaveTypes.find(lt => lt.value === leaveType);
+  const requiresApproval = settings.leavePolicy.requireApproval;
 
   const fetchData = async () => {
     if (!employee?.id) return;
@@ -99,22 +133,33 @@ const MyLeavesPage = () => {
       // Fetch leave entitlements
       const { data: entData, error: entError } = await supabase
         .from('hr_leave_entitlements')
-        .select('id, leave_type, total_leaves, used_leaves, remaining_leaves')
+        .select('id, leave_type, total_leaves, used_leaves, remaining_leaves, carried_forward')
         .eq('employee_id', employee.id)
         .eq('year', currentYear);
 
       if (entError) throw entError;
       setEntitlements(entData || []);
 
+      // Fetch this year's accrual ledger
+      const { data: accData, error: accError } = await supabase
+        .from('hr_leave_accruals')
+        .select('id, leave_type, accrual_month, days, prorated')
+        .eq('employee_id', employee.id)
+        .eq('year', currentYear)
+        .order('accrual_month');
+
+      if (accError) throw accError;
+      setAccruals(accData || []);
+
       // Fetch leave requests
       const { data: reqData, error: reqError } = await supabase
         .from('hr_leave_requests')
-        .select('id, leave_type, start_date, end_date, total_days, status, reason, created_at')
+        .select(`id, leave_type, start_date, end_date, total_days, start_session, end_session, status, reason, created_at, ${APPROVAL_STEPS_SELECT}`)
         .eq('employee_id', employee.id)
         .order('created_at', { ascending: false });
 
       if (reqError) throw reqError;
-      setLeaveRequests(reqData || []);
+      setLeaveRequests((reqData || []) as unknown as LeaveRequest[]);
     } catch (error) {
       console.error('Error fetching leave data:', error);
       toast({
@@ -170,29 +215,57 @@ const MyLeavesPage = () => {
 
   const getEntitlement = (type: string) => {
     const ent = entitlements.find((e) => e.leave_type === type);
-    const config = LEAVE_TYPES.find(lt => lt.value === type);
+    const config = availableLeaveTypes.find(lt => lt.value === type);
     return {
       remaining: ent?.remaining_leaves ?? 0,
       total: ent?.total_leaves ?? config?.totalDays ?? 0,
     };
   };
 
-  const calculateWorkingDays = (start: Date, end: Date): number => {
-    const days = eachDayOfInterval({ start, end });
-    return days.filter((day) => !isWeekend(day)).length;
-  };
-
-  const totalDays = startDate && endDate ? calculateWorkingDays(startDate, endDate) : 0;
+  // Load holidays (mandatory + opted-in optional) for the selected range. The previous
+  // range's holidays are cleared so a stale total can't be submitted meanwhile.
+  useEffect(() => {
+    setNonWorkingDates(new Set());
+    if (!employee?.id || !startDate || !endDate) return;
+
+    let cancelled = false;
+    setHolidaysLoading(true);
+    fetchNonWorkingDates(employee.id, startDate, endDate)
+      .then((dates) => { if (!cancelled) setNonWorkingDates(dates); })
+      .catch((error) => console.error('Error fetching holidays:', error))
+      .finally(() => { if (!cancelled) setHolidaysLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [employee?.id, startDate, endDate]);
+
+  const isSingleDay = startDate && endDate ? isSameDay(startDate, endDate) : false;
+
+  const duration = startDate && endDate
+    ? calculateLeaveDuration(startDate, endDate, {
+        nonWorkingDates,
+        weekends: settings.attendancePolicy.weekends,
+        sandwichRule: settings.leavePolicy.sandwichRule,
+        startSession,
+        endSession: isSingleDay ? startSession : endSession,
+      })
+    : null;
+  const totalDays = duration?.totalDays ?? 0;
+  const excludedHolidays = duration?.excluded.filter((d) => d.reason === 'holiday').length ?? 0;
 
   const resetForm = () => {
     setLeaveType('');
     setStartDate(undefined);
     setEndDate(undefined);
+    setStartSession('full');
+    setEndSession('full');
     setReason('');
     setSpecialLeaveReason('');
   };
 
   const handleSubmit = async () => {
+    // The total isn't final until the range's holidays have loaded
+    if (holidaysLoading) return;
+
     if (!employee?.id || !leaveType || !startDate || !endDate) {
       toast({
         title: 'Validation Error',
@@ -212,6 +285,15 @@ const MyLeavesPage = () => {
       return;
     }
 
+    if (totalDays <= 0) {
+      toast({
+        title: 'Validation Error',
+        description: 'The selected dates fall entirely on weekends or holidays',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const { remaining } = getEntitlement(leaveType);
     if (totalDays > remaining) {
       toast({
@@ -230,25 +312,34 @@ const MyLeavesPage = () => {
         finalReason = specialLeaveReason + (reason ? `: ${reason}` : '');
       }
 
-      const { error } = await supabase.from('hr_leave_requests').insert({
+      const { data: created, error } = await supabase.from('hr_leave_requests').insert({
         employee_id: employee.id,
         leave_type: leaveType,
         start_date: format(startDate, 'yyyy-MM-dd'),
         end_date: format(endDate, 'yyyy-MM-dd'),
         total_days: totalDays,
+        start_session: startSession,
+        end_session: isSingleDay ? startSession : endSession,
         reason: finalReason || null,
         status: 'Pending',
-      });
+      }).select('id').single();
 
       if (error) throw error;
 
+      // Org policy can waive approval, in which case the request is approved on submission
+      if (!requiresApproval) {
+        await approveLeaveRequest(created.id);
+      }
+
       // Send email notification to manager if employee has a manager
-      if (employee.manager_id) {
+      if (requiresApproval && employee.manager_id) {
         try {
+          // Goes to the manager's delegate while they are away
+          const approverId = await resolveApproverId(employee.manager_id);
           const { data: manager } = await supabase
             .from('hr_employees')
             .select('email, full_name')
-            .eq('id', employee.manager_id)
+            .eq('id', approverId)
             .single();
 
           if (manager) {
@@ -269,7 +360,7 @@ const MyLeavesPage = () => {
 
       toast({
         title: 'Success',
-        description: 'Leave request submitted successfully',
+        description: requiresApproval ? 'Leave request submitted successfully' : 'Leave approved and deducted from your balance',
       });
       setDialogOpen(false);
       resetForm();
@@ -322,7 +413,7 @@ const MyLeavesPage = () => {
     }
   };
 
-  if (loading || genderLoading) {
+  if (loading || genderLoading || settingsLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -474,12 +565,64 @@ const MyLeavesPage = () => {
                 </div>
               </div>
 
+              {startDate && endDate && (
+                isSingleDay ? (
+                  <div className="space-y-2">
+                    <Label>Session</Label>
+                    <Select value={startSession} onValueChange={(value) => setStartSession(value as LeaveSession)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LEAVE_SESSIONS.map((session) => (
+                          <SelectItem key={session.value} value={session.value}>{session.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Start Session</Label>
+                      <Select value={startSession} onValueChange={(value) => setStartSession(value as LeaveSession)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="full">Full Day</SelectItem>
+                          <SelectItem value="second_half">Second Half</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>End Session</Label>
+                      <Select value={endSession} onValueChange={(value) => setEndSession(value as LeaveSession)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="full">Full Day</SelectItem>
+                          <SelectItem value="first_half">First Half</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )
+              )}
+
               {startDate && endDate && (
                 <div className="p-3 bg-muted rounded-lg">
                   <p className="text-sm text-muted-foreground">
                     Total Working Days: <span className="font-semibold text-foreground">{totalDays}</span>
-                    <span className="text-xs ml-2">(excluding weekends)</span>
+                    <span className="text-xs ml-2">
+                      {settings.leavePolicy.sandwichRule ? '(sandwich rule applies)' : '(excluding weekends and holidays)'}
+                    </span>
                   </p>
+                  {excludedHolidays > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {excludedHolidays} holiday{excludedHolidays > 1 ? 's' : ''} not counted
+                    </p>
+                  )}
                   {leaveType && totalDays > getEntitlement(leaveType).remaining && (
                     <p className="text-sm text-destructive mt-1">
                       ⚠️ Insufficient balance! You only have {getEntitlement(leaveType).remaining} days remaining.
@@ -506,7 +649,7 @@ const MyLeavesPage = () => {
                 </Button>
                 <Button 
                   onClick={handleSubmit} 
-                  disabled={submitting || (leaveType && totalDays > getEntitlement(leaveType).remaining)}
+                  disabled={submitting || holidaysLoading || (leaveType && totalDays > getEntitlement(leaveType).remaining)}
                 >
                   {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                   Submit Request
@@ -525,7 +668,7 @@ const MyLeavesPage = () => {
           </div>
           <div>
             <p className="text-sm text-muted-foreground">Total Leave Entitlement</p>
-            <p className="text-lg font-semibold text-foreground">{getLeaveSummaryText(gender)}</p>
+            <p className="text-lg font-semibold text-foreground">{getLeaveSummaryText(gender, leaveTypes)}</p>
           </div>
         </div>
       </Card>
@@ -578,6 +721,68 @@ const MyLeavesPage = () => {
         </div>
       </TooltipProvider>
 
+      {/* Earned Leave Accrual History */}
+      {accruals.length > 0 && (
+        <Card className="glass-card overflow-hidden">
+          <div className="p-4 border-b border-border">
+            <h2 className="font-semibold text-foreground">Earned Leave Accruals ({currentYear})</h2>
+            <p className="text-sm text-muted-foreground">
+              Credited monthly{entitlements.find((e) => e.leave_type === 'Earned Leave')?.carried_forward
+                ? ` on top of ${entitlements.find((e) => e.leave_type === 'Earned Leave')?.carried_forward} days carried forward`
+                : ''}
+            </p>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead>Credited</TableHead>
+                <TableHead>Accrued Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accruals.map((accrual, index) => {
+                const carried = entitlements.find((e) => e.leave_type === accrual.leave_type)?.carried_forward ?? 0;
+                const runningTotal = accruals
+                  .slice(0, index + 1)
+                  .filter((a) => a.leave_type === accrual.leave_type)
+                  .reduce((sum, a) => sum + Number(a.days), Number(carried));
+                return (
+                  <TableRow key={accrual.id}>
+                    <TableCell>{format(parseISO(accrual.accrual_month), 'MMMM yyyy')}</TableCell>
+                    <TableCell>
+                      +{accrual.days} days
+                      {accrual.prorated && (
+                        <span className="text-xs text-muted-foreground ml-2">(pro-rated)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{runningTotal} days</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {settings.leavePolicy.encashment.enabled && employee?.id && (
+        <LeaveEncashmentCard
+          employeeId={employee.id}
+          year={currentYear}
+          carryForwardLimit={settings.leavePolicy.earnedLeaveCarryForwardLimit}
+          currency={settings.companySettings.currency}
+          onChange={fetchData}
+        />
+      )}
+
+      {settings.leavePolicy.compOff.enabled && employee?.id && (
+        <CompOffCreditsCard
+          employeeId={employee.id}
+          minHours={settings.leavePolicy.compOff.minHours}
+          expiryDays={settings.leavePolicy.compOff.expiryDays}
+        />
+      )}
+
       {/* Leave Requests History */}
       <Card className="glass-card overflow-hidden">
         <div className="p-4 border-b border-border">
@@ -603,11 +808,15 @@ const MyLeavesPage = () => {
                   <TableCell>
                     {format(parseISO(request.start_date), 'MMM d')} -{' '}
                     {format(parseISO(request.end_date), 'MMM d, yyyy')}
+                    {(request.start_session !== 'full' || request.end_session !== 'full') && (
+                      <p className="text-xs text-muted-foreground">Half day</p>
+                    )}
                   </TableCell>
                   <TableCell>{request.total_days}</TableCell>
                   <TableCell>
                     <div className="space-y-1">
                       <StatusBadge status={getStatusVariant(request.status)} />
+                      <ApprovalChain steps={request.approval_steps} />
                       {request.status === 'Approved' && (
                         <p className="text-xs text-green-600">
                           {request.total_days} days deducted
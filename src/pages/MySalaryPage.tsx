@@ -11,6 +11,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Download, IndianRupee, Calendar, TrendingUp, FileText } from 'lucide-react';
 import { StatCard } from '@/components/shared/StatCard';
+import { SalaryLineItem, fetchSalaryLineItems, sumSalaryLineItems } from '@/lib/leaveEncashment';
 
 interface SalaryHistory {
   id: string;
@@ -46,6 +47,7 @@ const MySalaryPage = () => {
 
   const [salaryHistory, setSalaryHistory] = useState<SalaryHistory[]>([]);
   const [salarySlips, setSalarySlips] = useState<SalarySlip[]>([]);
+  const [lineItems, setLineItems] = useState<Record<string, SalaryLineItem[]>>({});
   const [loading, setLoading] = useState(true);
   const [yearFilter, setYearFilter] = useState<string>('all');
 
@@ -79,6 +81,7 @@ const MySalaryPage = () => {
 
       setSalaryHistory(historyRes.data || []);
       setSalarySlips(slipsRes.data || []);
+      setLineItems(await fetchSalaryLineItems((historyRes.data || []).map(h => h.id)));
     } catch (error: any) {
       console.error('Error fetching salary data:', error);
       toast({ title: 'Error', description: 'Failed to load salary data', variant: 'destructive' });
@@ -124,7 +127,7 @@ const MySalaryPage = () => {
   const currentYear = new Date().getFullYear();
   const ytdEarnings = salaryHistory
     .filter(s => s.year === currentYear)
-    .reduce((sum, s) => sum + s.net_salary, 0);
+    .reduce((sum, s) => sum + s.net_salary + sumSalaryLineItems(lineItems[s.id]), 0);
 
   const years = [...new Set(salaryHistory.map(s => s.year))].sort((a, b) => b - a);
 
@@ -164,7 +167,7 @@ const MySalaryPage = () => {
                 <p className="text-sm text-muted-foreground">Last Salary</p>
                 {lastSalary ? (
                   <>
-                    <p className="text-2xl font-bold text-foreground">{formatCurrency(lastSalary.net_salary)}</p>
+                    <p className="text-2xl font-bold text-foreground">{formatCurrency(lastSalary.net_salary + sumSalaryLineItems(lineItems[lastSalary.id]))}</p>
                     <p className="text-xs text-muted-foreground">{monthNames[lastSalary.month - 1]} {lastSalary.year}</p>
                     <Badge className={paymentStatusColors[lastSalary.payment_status || 'Pending']} style={{ marginTop: '4px' }}>
                       {lastSalary.payment_status || 'Pending'}
@@ -251,9 +254,16 @@ const MySalaryPage = () => {
                   {filteredHistory.map((h) => (
                     <TableRow key={h.id}>
                       <TableCell className="font-medium">{monthNames[h.month - 1]} {h.year}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(h.gross_salary)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(h.gross_salary)}
+                        {(lineItems[h.id] || []).map((item) => (
+                          <p key={item.id} className="text-xs text-muted-foreground" title={item.description}>
+                            + {item.item_type === 'leave_encashment' ? 'leave encashment' : item.item_type} {formatCurrency(item.amount)}
+                          </p>
+                        ))}
+                      </TableCell>
                       <TableCell className="text-right">{formatCurrency(h.deductions || 0)}</TableCell>
-                      <TableCell className="text-right font-bold">{formatCurrency(h.net_salary)}</TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(h.net_salary + sumSalaryLineItems(lineItems[h.id]))}</TableCell>
                       <TableCell>
                         <Badge className={paymentStatusColors[h.payment_status || 'Pending']}>
                           {h.payment_status || 'Pending'}
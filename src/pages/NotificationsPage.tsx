@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { 
   Bell, Heart, CheckCircle, XCircle, FileText, RefreshCw, Megaphone, 
-  Loader2, Trash2, Check 
+  Loader2, Trash2, Check, Clock, UserCheck, SlidersHorizontal, Banknote, CalendarPlus, CalendarX, Timer, House 
 } from 'lucide-react';
 import {
   Select,
@@ -39,6 +39,35 @@ const getNotificationIcon = (type: string) => {
       return <CheckCircle className="h-5 w-5 text-green-500" />;
     case 'leave_rejected':
       return <XCircle className="h-5 w-5 text-red-500" />;
+    case 'leave_approval_pending':
+    case 'leave_step_approved':
+      return <Clock className="h-5 w-5 text-orange-500" />;
+    case 'approval_delegated':
+    case 'approval_delegation_revoked':
+      return <UserCheck className="h-5 w-5 text-blue-500" />;
+    case 'leave_encashment_requested':
+    case 'leave_encashment_approved':
+    case 'leave_encashment_rejected':
+      return <Banknote className="h-5 w-5 text-green-500" />;
+    case 'comp_off_pending':
+    case 'comp_off_approved':
+    case 'comp_off_rejected':
+    case 'comp_off_expired':
+      return <CalendarPlus className="h-5 w-5 text-purple-500" />;
+    case 'attendance_absent':
+    case 'attendance_auto_closed':
+    case 'attendance_overridden':
+      return <CalendarX className="h-5 w-5 text-orange-500" />;
+    case 'overtime_pending':
+    case 'overtime_approved':
+    case 'overtime_rejected':
+      return <Timer className="h-5 w-5 text-indigo-500" />;
+    case 'wfh_pending':
+    case 'wfh_approved':
+    case 'wfh_rejected':
+      return <House className="h-5 w-5 text-teal-500" />;
+    case 'leave_balance_adjusted':
+      return <SlidersHorizontal className="h-5 w-5 text-blue-500" />;
     case 'work_log_approved':
       return <FileText className="h-5 w-5 text-green-500" />;
     case 'work_log_rework':
@@ -214,6 +243,16 @@ const NotificationsPage = () => {
             <SelectItem value="appreciation_received">Appreciations</SelectItem>
             <SelectItem value="leave_approved">Leave Approved</SelectItem>
             <SelectItem value="leave_rejected">Leave Rejected</SelectItem>
+            <SelectItem value="leave_approval_pending">Leave Approval Required</SelectItem>
+            <SelectItem value="approval_delegated">Approval Delegations</SelectItem>
+            <SelectItem value="leave_balance_adjusted">Leave Balance Adjustments</SelectItem>
+            <SelectItem value="leave_encashment_approved">Leave Encashments</SelectItem>
+            <SelectItem value="comp_off_pending">Comp-Off Approval Required</SelectItem>
+            <SelectItem value="attendance_absent">Marked Absent</SelectItem>
+            <SelectItem value="attendance_auto_closed">Missing Punch-Outs</SelectItem>
+            <SelectItem value="attendance_overridden">Attendance Overrides</SelectItem>
+            <SelectItem value="overtime_pending">Overtime Approval Required</SelectItem>
+            <SelectItem value="wfh_pending">WFH Approval Required</SelectItem>
             <SelectItem value="work_log_approved">Work Log Approved</SelectItem>
             <SelectItem value="work_log_rework">Work Log Rework</SelectItem>
             <SelectItem value="announcement_new">Announcements</SelectItem>
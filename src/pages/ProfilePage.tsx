@@ -18,12 +18,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { 
   User, Mail, Phone, MapPin, Building2, Briefcase, Calendar, 
   AlertCircle, Pencil, X, Check, Loader2, RefreshCw,
-  TreePalm, Lock, Cake, Users
+  TreePalm, Lock, Cake, Users, FileText
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { z } from 'zod';
 import { ChangePasswordModal } from '@/components/profile/ChangePasswordModal';
+import { LeaveStatementModal } from '@/components/shared/LeaveStatementModal';
+import { CalendarFeedCard } from '@/components/profile/CalendarFeedCard';
 
 interface EmployeeDetails {
   phone: string | null;
@@ -65,6 +67,7 @@ const ProfilePage = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showLeaveStatement, setShowLeaveStatement] = useState(false);
   const [formData, setFormData] = useState({
     phone: '',
     address: '',
@@ -431,6 +434,13 @@ const ProfilePage = () => {
         email={employee.email}
       />
 
+      <LeaveStatementModal
+        open={showLeaveStatement}
+        onOpenChange={setShowLeaveStatement}
+        employeeId={employee.id}
+        employeeName={employee.full_name}
+      />
+
       {/* Profile Header with Avatar */}
       <Card className="p-6">
         <div className="flex items-center gap-6">
@@ -479,6 +489,10 @@ const ProfilePage = () => {
               </div>
             </div>
           </div>
+          <Button variant="outline" size="sm" onClick={() => setShowLeaveStatement(true)}>
+            <FileText className="w-4 h-4 mr-2" />
+            Statement
+          </Button>
         </div>
       </Card>
 
@@ -794,6 +808,8 @@ const ProfilePage = () => {
           </div>
         )}
       </Card>
+
+      <CalendarFeedCard employeeId={employee.id} isManager={employee.role !== 'Employee'} />
     </div>
   );
 };
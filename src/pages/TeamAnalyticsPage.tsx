@@ -7,6 +7,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { CategoryIcon } from '@/components/worklog/CategoryIcon';
+import { CategoryMixComparison } from '@/components/worklog/CategoryMixComparison';
+import { ProjectBreakdown } from '@/components/worklog/ProjectBreakdown';
+import { ProjectBurnDown } from '@/components/worklog/ProjectBurnDown';
+import { ProgressBar } from '@/components/shared/ProgressBar';
 import {
   BarChart,
   Bar,
@@ -29,24 +33,24 @@ import {
   Briefcase,
   User,
   Shield,
+  Target,
+  FolderKanban,
+  TrendingDown,
 } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
-import { TASK_CATEGORIES, type TaskCategory, type WorkLogTask } from '@/types/worklog';
+import { format, startOfMonth, endOfMonth, subMonths, min } from 'date-fns';
+import type { TaskCategory, WorkLogTask } from '@/types/worklog';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
+import {
+  CategoryMix,
+  WorkExpectation,
+  compareCategoryMix,
+  expectedMinutesBetween,
+  fetchWorkExpectations,
+  resolveExpectation,
+} from '@/lib/workExpectations';
+import { Project, TASK_PROJECT_SELECT, fetchProjects, summarizeByProject } from '@/lib/projects';
 import * as XLSX from 'xlsx';
 
-const COLORS = {
-  Meeting: '#3b82f6',
-  Development: '#10b981',
-  Support: '#ef4444',
-  Learning: '#8b5cf6',
-  Documentation: '#f59e0b',
-  Design: '#ec4899',
-  Review: '#06b6d4',
-  Planning: '#6366f1',
-  Admin: '#64748b',
-  Other: '#9ca3af',
-};
-
 const formatMinutes = (minutes: number): string => {
   if (minutes === 0) return '0h';
   const hours = Math.floor(minutes / 60);
@@ -54,10 +58,28 @@ const formatMinutes = (minutes: number): string => {
   return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
 };
 
+// Members logging less than this share of their target so far are flagged
+const BELOW_TARGET_RATIO = 0.7;
+// Category shares this many points off the target mix are flagged
+const MIX_ALERT_POINTS = 15;
+
+// The selected month, with targets counted only up to today for the current month
+const getPeriodRange = (period: 'month' | 'lastMonth') => {
+  const base = period === 'month' ? new Date() : subMonths(new Date(), 1);
+  const start = startOfMonth(base);
+  const end = endOfMonth(base);
+  return {
+    from: format(start, 'yyyy-MM-dd'),
+    to: format(end, 'yyyy-MM-dd'),
+    targetTo: format(min([end, new Date()]), 'yyyy-MM-dd'),
+  };
+};
+
 interface TeamMember {
   id: string;
   full_name: string;
   role: string;
+  manager_id: string | null;
 }
 
 interface MemberStats {
@@ -67,15 +89,21 @@ interface MemberStats {
   taskCount: number;
   categoryBreakdown: Record<TaskCategory, number>;
   assignmentBreakdown: Record<string, number>;
+  targetMinutes: number;
+  percentOfTarget: number;
+  targetMix: CategoryMix;
 }
 
 const TeamAnalyticsPage = () => {
   const { employee, role } = useAuth();
   const { toast } = useToast();
+  const { getCategoryConfig } = useTaskCategories();
   
   const [loading, setLoading] = useState(true);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [allTasks, setAllTasks] = useState<WorkLogTask[]>([]);
+  const [expectations, setExpectations] = useState<WorkExpectation[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
   const [period, setPeriod] = useState<'month' | 'lastMonth'>('month');
   
   useEffect(() => {
@@ -89,21 +117,12 @@ const TeamAnalyticsPage = () => {
     
     setLoading(true);
     try {
-      let startDate: Date;
-      let endDate: Date;
-
-      if (period === 'month') {
-        startDate = startOfMonth(new Date());
-        endDate = endOfMonth(new Date());
-      } else {
-        startDate = startOfMonth(subMonths(new Date(), 1));
-        endDate = endOfMonth(subMonths(new Date(), 1));
-      }
+      const { from, to } = getPeriodRange(period);
 
       // Fetch team members based on role
       let membersQuery = supabase
         .from('hr_employees')
-        .select('id, full_name, role')
+        .select('id, full_name, role, manager_id')
         .eq('status', 'Active');
 
       if (role === 'Manager') {
@@ -111,10 +130,16 @@ const TeamAnalyticsPage = () => {
         membersQuery = membersQuery.eq('manager_id', employee.id);
       }
 
-      const { data: members, error: membersError } = await membersQuery;
+      const [{ data: members, error: membersError }, expectationData, projectData] = await Promise.all([
+        membersQuery,
+        fetchWorkExpectations(),
+        fetchProjects(true),
+      ]);
       if (membersError) throw membersError;
 
       setTeamMembers(members || []);
+      setExpectations(expectationData);
+      setProjects(projectData);
 
       // Fetch tasks for all team members
       const memberIds = (members || []).map(m => m.id);
@@ -128,11 +153,12 @@ const TeamAnalyticsPage = () => {
         .from('hr_work_log_tasks')
         .select(`
           *,
-          assigned_by:hr_employees!assigned_by_id(full_name)
+          assigned_by:hr_employees!assigned_by_id(full_name),
+          ${TASK_PROJECT_SELECT}
         `)
         .in('employee_id', memberIds)
-        .gte('log_date', format(startDate, 'yyyy-MM-dd'))
-        .lte('log_date', format(endDate, 'yyyy-MM-dd'))
+        .gte('log_date', from)
+        .lte('log_date', to)
         .order('log_date');
 
       if (tasksError) throw tasksError;
@@ -151,6 +177,7 @@ const TeamAnalyticsPage = () => {
 
   // Calculate team analytics
   const analytics = useMemo(() => {
+    const { from, targetTo } = getPeriodRange(period);
     const totalMinutes = allTasks.reduce((sum, t) => sum + t.duration_minutes, 0);
     const totalTasks = allTasks.length;
 
@@ -167,6 +194,8 @@ const TeamAnalyticsPage = () => {
         assignmentBreakdown[t.assigned_by_type] = (assignmentBreakdown[t.assigned_by_type] || 0) + t.duration_minutes;
       });
 
+      const targetMinutes = expectedMinutesBetween(expectations, member, from, targetTo);
+
       return {
         id: member.id,
         name: member.full_name,
@@ -174,6 +203,9 @@ const TeamAnalyticsPage = () => {
         taskCount: memberTasks.length,
         categoryBreakdown,
         assignmentBreakdown,
+        targetMinutes,
+        percentOfTarget: targetMinutes > 0 ? Math.round((memberMinutes / targetMinutes) * 100) : 0,
+        targetMix: resolveExpectation(expectations, member, targetTo).categoryMix,
       };
     }).sort((a, b) => b.totalMinutes - a.totalMinutes);
 
@@ -186,7 +218,9 @@ const TeamAnalyticsPage = () => {
     const categoryData = Object.entries(teamCategoryBreakdown)
       .filter(([_, mins]) => mins > 0)
       .map(([category, minutes]) => ({
-        name: category,
+        category,
+        name: getCategoryConfig(category).label,
+        color: getCategoryConfig(category).hex,
         value: minutes,
         hours: (minutes / 60).toFixed(1),
         percentage: totalMinutes > 0 ? ((minutes / totalMinutes) * 100).toFixed(1) : '0',
@@ -204,13 +238,50 @@ const TeamAnalyticsPage = () => {
       else if (t.assigned_by_type === 'Admin') adminAssigned += t.duration_minutes;
     });
 
+    // Team mix target: members' target mixes weighted by their target hours, against
+    // the actual split of those members' time
+    const withMix = memberStats.filter(m => Object.keys(m.targetMix).length > 0);
+    const mixWeight = withMix.reduce((sum, m) => sum + m.targetMinutes, 0);
+    const teamTargetMix: CategoryMix = {};
+    const teamMixActual: Partial<Record<TaskCategory, number>> = {};
+    withMix.forEach(m => {
+      Object.entries(m.targetMix).forEach(([category, percent]) => {
+        const weighted = mixWeight > 0 ? ((percent || 0) * m.targetMinutes) / mixWeight : 0;
+        teamTargetMix[category as TaskCategory] = (teamTargetMix[category as TaskCategory] || 0) + weighted;
+      });
+      Object.entries(m.categoryBreakdown).forEach(([category, minutes]) => {
+        teamMixActual[category as TaskCategory] = (teamMixActual[category as TaskCategory] || 0) + minutes;
+      });
+    });
+    Object.keys(teamTargetMix).forEach(category => {
+      teamTargetMix[category as TaskCategory] = Math.round((teamTargetMix[category as TaskCategory] || 0) * 10) / 10;
+    });
+    const mixComparison = compareCategoryMix(teamMixActual, teamTargetMix);
+
+    // Projects: team time per project, and the budgeted ones the team worked on
+    const projectData = summarizeByProject(allTasks, projects);
+    const budgetedProjects = projects.filter(
+      p => p.budget_hours !== null && projectData.some(row => row.projectId === p.id)
+    );
+
     // Alerts
     const alerts: { type: 'warning' | 'info'; message: string }[] = [];
     memberStats.forEach(m => {
-      // Weekly target is 40h = 2400 mins, monthly ~160h = 9600 mins
-      const monthlyTarget = 9600;
-      if (m.totalMinutes < monthlyTarget * 0.7) {
-        alerts.push({ type: 'warning', message: `${m.name} is below target (${formatMinutes(m.totalMinutes)} logged)` });
+      if (m.targetMinutes > 0 && m.totalMinutes < m.targetMinutes * BELOW_TARGET_RATIO) {
+        alerts.push({
+          type: 'warning',
+          message: `${m.name} is below target (${formatMinutes(m.totalMinutes)} of ${formatMinutes(m.targetMinutes)} logged)`,
+        });
+      }
+      if (m.totalMinutes > 0) {
+        compareCategoryMix(m.categoryBreakdown, m.targetMix)
+          .filter(row => row.targetPercent > 0 && Math.abs(row.variance) >= MIX_ALERT_POINTS)
+          .forEach(row => {
+            alerts.push({
+              type: 'info',
+              message: `${m.name} spent ${row.actualPercent}% on ${getCategoryConfig(row.category).label} against a ${row.targetPercent}% target`,
+            });
+          });
       }
     });
 
@@ -223,9 +294,13 @@ const TeamAnalyticsPage = () => {
       selfAssigned,
       adminAssigned,
       avgPerMember: memberStats.length > 0 ? totalMinutes / memberStats.length : 0,
+      totalTargetMinutes: memberStats.reduce((sum, m) => sum + m.targetMinutes, 0),
+      mixComparison,
+      projectData,
+      budgetedProjects,
       alerts,
     };
-  }, [allTasks, teamMembers]);
+  }, [allTasks, teamMembers, expectations, projects, period, getCategoryConfig]);
 
   const handleExportExcel = () => {
     // Create workbook
@@ -237,15 +312,23 @@ const TeamAnalyticsPage = () => {
       [`Period: ${period === 'month' ? 'This Month' : 'Last Month'}`],
       [`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm')}`],
       [],
-      ['Member', 'Total Hours', 'Tasks', 'Avg/Task'],
+      ['Member', 'Total Hours', 'Target Hours', '% of Target', 'Tasks', 'Avg/Task'],
       ...analytics.memberStats.map(m => [
         m.name,
         (m.totalMinutes / 60).toFixed(1),
+        (m.targetMinutes / 60).toFixed(1),
+        `${m.percentOfTarget}%`,
         m.taskCount,
         m.taskCount > 0 ? (m.totalMinutes / 60 / m.taskCount).toFixed(1) : 0,
       ]),
       [],
-      ['Total', (analytics.totalMinutes / 60).toFixed(1), analytics.totalTasks],
+      [
+        'Total',
+        (analytics.totalMinutes / 60).toFixed(1),
+        (analytics.totalTargetMinutes / 60).toFixed(1),
+        '',
+        analytics.totalTasks,
+      ],
     ];
     const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
     XLSX.utils.book_append_sheet(wb, summarySheet, 'Summary');
@@ -254,22 +337,43 @@ const TeamAnalyticsPage = () => {
     const categorySheetData = [
       ['Category Breakdown'],
       [],
-      ['Category', 'Hours', 'Percentage'],
-      ...analytics.categoryData.map(c => [c.name, c.hours, `${c.percentage}%`]),
+      ['Category', 'Hours', 'Percentage', 'Target'],
+      ...analytics.categoryData.map(c => {
+        const target = analytics.mixComparison.find(row => row.category === c.category)?.targetPercent;
+        return [c.name, c.hours, `${c.percentage}%`, target ? `${target}%` : ''];
+      }),
     ];
     const categorySheet = XLSX.utils.aoa_to_sheet(categorySheetData);
     XLSX.utils.book_append_sheet(wb, categorySheet, 'By Category');
 
-    // Sheet 3: All Tasks
+    // Sheet 3: Project Breakdown
+    const projectSheetData = [
+      ['Project Breakdown'],
+      [],
+      ['Code', 'Project', 'Client', 'Billable', 'Hours', 'Percentage'],
+      ...analytics.projectData.map(p => [
+        p.projectId ? p.code : '',
+        p.name,
+        p.client || '',
+        p.isBillable ? 'Yes' : 'No',
+        (p.minutes / 60).toFixed(1),
+        `${p.percent}%`,
+      ]),
+    ];
+    const projectSheet = XLSX.utils.aoa_to_sheet(projectSheetData);
+    XLSX.utils.book_append_sheet(wb, projectSheet, 'By Project');
+
+    // Sheet 4: All Tasks
     const tasksSheetData = [
-      ['Date', 'Employee', 'Task', 'Category', 'Duration (mins)', 'Assigned By'],
+      ['Date', 'Employee', 'Task', 'Category', 'Project', 'Duration (mins)', 'Assigned By'],
       ...allTasks.map(t => {
         const member = teamMembers.find(m => m.id === t.employee_id);
         return [
           t.log_date,
           member?.full_name || 'Unknown',
           t.task_title,
-          t.category,
+          getCategoryConfig(t.category).label,
+          t.project?.code || '',
           t.duration_minutes,
           t.assigned_by_type === 'Self' ? 'Self' : t.assigned_by?.full_name || t.assigned_by_type,
         ];
@@ -412,6 +516,58 @@ const TeamAnalyticsPage = () => {
         </CardContent>
       </Card>
 
+      {/* Expectations Row */}
+      <div className="grid gap-4 md:grid-cols-2">
+        {/* Hours vs Target */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Hours vs Target
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Targets come from team and individual expectations{period === 'month' ? ', counted up to today' : ''}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {analytics.memberStats.length > 0 ? (
+              analytics.memberStats.map(member => (
+                <div key={member.id} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{member.name}</span>
+                    <span className="font-mono text-muted-foreground">
+                      {formatMinutes(member.totalMinutes)} / {formatMinutes(member.targetMinutes)} ({member.percentOfTarget}%)
+                    </span>
+                  </div>
+                  <ProgressBar value={member.percentOfTarget} expected={100} showLabels={false} />
+                </div>
+              ))
+            ) : (
+              <div className="flex items-center justify-center h-[200px] text-muted-foreground">
+                No team data available
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Category Mix vs Target */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Category Mix vs Target</CardTitle>
+            <p className="text-sm text-muted-foreground">Actual share of time / target share, for members with a mix target</p>
+          </CardHeader>
+          <CardContent>
+            {analytics.mixComparison.some(row => row.targetPercent > 0) ? (
+              <CategoryMixComparison rows={analytics.mixComparison} />
+            ) : (
+              <div className="flex items-center justify-center h-[200px] text-muted-foreground text-center">
+                No category mix targets set for this team
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Category & Assignment Row */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Team Category Breakdown */}
@@ -433,7 +589,7 @@ const TeamAnalyticsPage = () => {
                       label={({ name, percentage }) => `${name} (${percentage}%)`}
                     >
                       {analytics.categoryData.map((entry) => (
-                        <Cell key={entry.name} fill={COLORS[entry.name as TaskCategory] || '#9ca3af'} />
+                        <Cell key={entry.category} fill={entry.color} />
                       ))}
                     </Pie>
                     <Tooltip 
@@ -444,9 +600,9 @@ const TeamAnalyticsPage = () => {
                 </ResponsiveContainer>
                 <div className="mt-4 space-y-2">
                   {analytics.categoryData.slice(0, 5).map((cat) => (
-                    <div key={cat.name} className="flex items-center justify-between text-sm">
+                    <div key={cat.category} className="flex items-center justify-between text-sm">
                       <div className="flex items-center gap-2">
-                        <CategoryIcon category={cat.name as TaskCategory} size="sm" />
+                        <CategoryIcon category={cat.category} size="sm" />
                         <span>{cat.name}</span>
                       </div>
                       <span className="font-mono text-muted-foreground">{cat.hours}h</span>
@@ -503,6 +659,42 @@ const TeamAnalyticsPage = () => {
         </Card>
       </div>
 
+      {/* Projects Row */}
+      {projects.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <FolderKanban className="h-5 w-5" />
+                Team Time by Project
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analytics.projectData.length > 0 ? (
+                <ProjectBreakdown rows={analytics.projectData} />
+              ) : (
+                <div className="flex items-center justify-center h-[200px] text-muted-foreground">
+                  No data for this period
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Budget Burn-down
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">Hours left on budgeted projects the team worked on this period</p>
+            </CardHeader>
+            <CardContent>
+              <ProjectBurnDown projects={analytics.budgetedProjects} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Top Performers & Alerts */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Top Performers */}
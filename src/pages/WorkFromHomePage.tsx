@@ -0,0 +1,314 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { House, Loader2, XCircle } from 'lucide-react';
+import {
+  WFH_STATUS_STYLES,
+  WFH_WEEKDAYS,
+  WfhRecurrence,
+  WfhRequest,
+  cancelWfhRequest,
+  describeWfhRequest,
+  fetchWfhRequests,
+  requestWfh,
+} from '@/lib/wfh';
+
+const WorkFromHomePage = () => {
+  const { employee, orgId } = useAuth();
+
+  const [requests, setRequests] = useState<WfhRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  // Form state
+  const [recurrence, setRecurrence] = useState<WfhRecurrence>('none');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [reason, setReason] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchRequests = useCallback(async () => {
+    if (!employee?.id) return;
+
+    try {
+      setRequests(await fetchWfhRequests(employee.id));
+    } catch (error) {
+      console.error('Error fetching WFH requests:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load WFH requests',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const toggleWeekday = (day: number, checked: boolean) => {
+    setWeekdays(prev => (checked ? [...prev, day] : prev.filter(d => d !== day)));
+  };
+
+  const resetForm = () => {
+    setStartDate('');
+    setEndDate('');
+    setWeekdays([]);
+    setReason('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!employee?.id || !orgId) return;
+
+    const weekly = recurrence === 'weekly';
+    let validationError: string | null = null;
+    if (!startDate || (!weekly && !endDate) || !reason.trim()) {
+      validationError = 'Please fill all required fields';
+    } else if (endDate && endDate < startDate) {
+      validationError = 'End date cannot be before the start date';
+    } else if (weekly && weekdays.length === 0) {
+      validationError = 'Choose at least one day of the week';
+    }
+
+    if (validationError) {
+      toast({ title: 'Validation Error', description: validationError, variant: 'destructive' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await requestWfh(orgId, employee.id, {
+        startDate,
+        endDate: endDate || null,
+        recurrence,
+        weekdays,
+        reason,
+      });
+      toast({
+        title: 'Request Submitted',
+        description: employee.manager_id ? 'Your manager has been notified' : 'HR has been notified',
+      });
+      resetForm();
+      fetchRequests();
+    } catch (error) {
+      console.error('Error submitting WFH request:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to submit request',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: WfhRequest) => {
+    setCancellingId(request.id);
+    try {
+      await cancelWfhRequest(request.id);
+      toast({ title: 'Request Cancelled' });
+      fetchRequests();
+    } catch (error) {
+      console.error('Error cancelling WFH request:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to cancel request',
+        variant: 'destructive',
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  // Approved requests can be withdrawn while they still cover days ahead
+  const canCancel = (request: WfhRequest) =>
+    request.status === 'Pending' ||
+    (request.status === 'Approved' && (!request.end_date || request.end_date >= today));
+
+  if (loading) {
+    return (
+      <div className="space-y-6 p-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-64" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Work From Home</h1>
+        <p className="text-muted-foreground">Let your manager know when you will be working remotely</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <House className="h-5 w-5" />
+            Request Work From Home
+          </CardTitle>
+          <CardDescription>
+            Approved days count as worked, with or without punching in. Punches on those days are not
+            checked against the office location.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Type *</Label>
+                <Select value={recurrence} onValueChange={(v) => setRecurrence(v as WfhRecurrence)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Specific dates</SelectItem>
+                    <SelectItem value="weekly">Every week</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{recurrence === 'weekly' ? 'Starting *' : 'From *'}</Label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>{recurrence === 'weekly' ? 'Until' : 'To *'}</Label>
+                <Input
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+                {recurrence === 'weekly' && (
+                  <p className="text-xs text-muted-foreground">Leave blank to keep it going</p>
+                )}
+              </div>
+            </div>
+
+            {recurrence === 'weekly' && (
+              <div className="space-y-2">
+                <Label>On *</Label>
+                <div className="flex flex-wrap gap-4">
+                  {WFH_WEEKDAYS.map(day => (
+                    <label key={day.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={weekdays.includes(day.value)}
+                        onCheckedChange={(checked) => toggleWeekday(day.value, checked === true)}
+                      />
+                      {day.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Team is remote on Fridays, home repairs, client calls in the evening"
+                rows={3}
+                maxLength={500}
+              />
+            </div>
+
+            <Button type="submit" disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit Request
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>My Requests</CardTitle>
+          <CardDescription>Your work-from-home request history</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <House className="mx-auto h-12 w-12 mb-4 opacity-50" />
+              <p>No work-from-home requests yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Reviewer</TableHead>
+                    <TableHead>Requested On</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell className="font-medium">{describeWfhRequest(request)}</TableCell>
+                      <TableCell className="max-w-[240px] truncate">{request.reason}</TableCell>
+                      <TableCell>
+                        <Badge className={WFH_STATUS_STYLES[request.status]}>{request.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {request.reviewer?.full_name || '-'}
+                        {request.review_comments && (
+                          <p className="text-xs text-muted-foreground">{request.review_comments}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(request.created_at), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell>
+                        {canCancel(request) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCancel(request)}
+                            disabled={cancellingId === request.id}
+                          >
+                            {cancellingId === request.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <>
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Cancel
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WorkFromHomePage;
@@ -8,6 +8,10 @@ import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { CategoryIcon } from '@/components/worklog/CategoryIcon';
+import { CategoryMixComparison } from '@/components/worklog/CategoryMixComparison';
+import { ProjectBreakdown } from '@/components/worklog/ProjectBreakdown';
+import { ProjectBurnDown } from '@/components/worklog/ProjectBurnDown';
+import { ProgressBar } from '@/components/shared/ProgressBar';
 import {
   BarChart,
   Bar,
@@ -20,6 +24,7 @@ import {
   Pie,
   Cell,
   Legend,
+  ReferenceLine,
 } from 'recharts';
 import {
   Clock,
@@ -33,24 +38,23 @@ import {
   User,
   Briefcase,
   Shield,
+  FolderKanban,
+  TrendingDown,
 } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, subMonths, startOfWeek, endOfWeek, addDays, parseISO } from 'date-fns';
-import { TASK_CATEGORIES, getCategoryConfig, type TaskCategory, type WorkLogTask } from '@/types/worklog';
+import { format, startOfMonth, endOfMonth, subMonths, startOfWeek, endOfWeek, addDays, parseISO, min } from 'date-fns';
+import type { TaskCategory, WorkLogTask } from '@/types/worklog';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
+import {
+  DEFAULT_WEEKLY_HOURS,
+  WorkExpectation,
+  compareCategoryMix,
+  expectedMinutesBetween,
+  fetchWorkExpectations,
+  resolveExpectation,
+} from '@/lib/workExpectations';
+import { Project, TASK_PROJECT_SELECT, fetchProjects, summarizeByProject } from '@/lib/projects';
 import * as XLSX from 'xlsx';
 
-const COLORS = {
-  Meeting: '#3b82f6',
-  Development: '#10b981',
-  Support: '#ef4444',
-  Learning: '#8b5cf6',
-  Documentation: '#f59e0b',
-  Design: '#ec4899',
-  Review: '#06b6d4',
-  Planning: '#6366f1',
-  Admin: '#64748b',
-  Other: '#9ca3af',
-};
-
 const formatMinutes = (minutes: number): string => {
   if (minutes === 0) return '0h';
   const hours = Math.floor(minutes / 60);
@@ -61,9 +65,13 @@ const formatMinutes = (minutes: number): string => {
 const WorkLogAnalyticsPage = () => {
   const { employee } = useAuth();
   const { toast } = useToast();
+  const { categories, getCategoryConfig } = useTaskCategories();
   
   const [loading, setLoading] = useState(true);
   const [tasks, setTasks] = useState<WorkLogTask[]>([]);
+  const [expectations, setExpectations] = useState<WorkExpectation[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [range, setRange] = useState<{ from: string; to: string } | null>(null);
   const [period, setPeriod] = useState<'week' | 'month' | 'lastMonth'>('month');
   
   useEffect(() => {
@@ -97,19 +105,31 @@ const WorkLogAnalyticsPage = () => {
           startDate = startOfMonth(new Date());
       }
 
-      const { data, error } = await supabase
-        .from('hr_work_log_tasks')
-        .select(`
-          *,
-          assigned_by:hr_employees!assigned_by_id(full_name)
-        `)
-        .eq('employee_id', employee.id)
-        .gte('log_date', format(startDate, 'yyyy-MM-dd'))
-        .lte('log_date', format(endDate, 'yyyy-MM-dd'))
-        .order('log_date');
+      const [{ data, error }, expectationData, projectData] = await Promise.all([
+        supabase
+          .from('hr_work_log_tasks')
+          .select(`
+            *,
+            assigned_by:hr_employees!assigned_by_id(full_name),
+            ${TASK_PROJECT_SELECT}
+          `)
+          .eq('employee_id', employee.id)
+          .gte('log_date', format(startDate, 'yyyy-MM-dd'))
+          .lte('log_date', format(endDate, 'yyyy-MM-dd'))
+          .order('log_date'),
+        fetchWorkExpectations({ id: employee.id, manager_id: employee.manager_id }),
+        fetchProjects(true),
+      ]);
 
       if (error) throw error;
       setTasks((data || []) as WorkLogTask[]);
+      setExpectations(expectationData);
+      setProjects(projectData);
+      // Targets only count days up to today
+      setRange({
+        from: format(startDate, 'yyyy-MM-dd'),
+        to: format(min([endDate, new Date()]), 'yyyy-MM-dd'),
+      });
     } catch (error: any) {
       console.error('Error fetching analytics:', error);
       toast({
@@ -137,7 +157,9 @@ const WorkLogAnalyticsPage = () => {
     const categoryData = Object.entries(categoryBreakdown)
       .filter(([_, mins]) => mins > 0)
       .map(([category, minutes]) => ({
-        name: category,
+        category,
+        name: getCategoryConfig(category).label,
+        color: getCategoryConfig(category).hex,
         value: minutes,
         hours: (minutes / 60).toFixed(1),
         percentage: ((minutes / totalMinutes) * 100).toFixed(1),
@@ -204,6 +226,23 @@ const WorkLogAnalyticsPage = () => {
       .sort((a, b) => b.minutes - a.minutes)
       .slice(0, 5);
 
+    // Expectation set by the manager, in force at the end of the period
+    const expectation = employee && range
+      ? resolveExpectation(expectations, employee, range.to)
+      : null;
+    const targetMinutes = employee && range
+      ? expectedMinutesBetween(expectations, employee, range.from, range.to)
+      : 0;
+    const percentOfTarget = targetMinutes > 0 ? Math.round((totalMinutes / targetMinutes) * 100) : 0;
+    const mixComparison = compareCategoryMix(categoryBreakdown, expectation?.categoryMix || {});
+
+    // Projects: time per project, and the budgeted ones worked on for the burn-down
+    const projectData = summarizeByProject(tasks, projects);
+    const billableMinutes = projectData.filter(p => p.isBillable).reduce((sum, p) => sum + p.minutes, 0);
+    const budgetedProjects = projects.filter(
+      p => p.budget_hours !== null && projectData.some(row => row.projectId === p.id)
+    );
+
     // Insights
     const insights: string[] = [];
     
@@ -212,6 +251,23 @@ const WorkLogAnalyticsPage = () => {
       insights.push(`Your top activity is ${topCategory.name} at ${topCategory.percentage}% of your time`);
     }
 
+    if (targetMinutes > 0) {
+      insights.push(`You've logged ${percentOfTarget}% of your ${formatMinutes(targetMinutes)} target for this period so far`);
+    }
+
+    const biggestGap = mixComparison
+      .filter(row => row.targetPercent > 0)
+      .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance))[0];
+    if (biggestGap && totalMinutes > 0 && Math.abs(biggestGap.variance) >= 10) {
+      insights.push(
+        `${getCategoryConfig(biggestGap.category).label} is ${Math.abs(biggestGap.variance)} points ${biggestGap.variance > 0 ? 'above' : 'below'} your target mix`
+      );
+    }
+
+    if (billableMinutes > 0) {
+      insights.push(`${Math.round((billableMinutes / totalMinutes) * 100)}% of your time went to billable projects`);
+    }
+
     const avgHoursPerDay = uniqueDays > 0 ? totalMinutes / 60 / uniqueDays : 0;
     if (avgHoursPerDay >= 8) {
       insights.push(`Great work! You're averaging ${avgHoursPerDay.toFixed(1)} hours per day`);
@@ -224,8 +280,9 @@ const WorkLogAnalyticsPage = () => {
       insights.push(`${selfPercent.toFixed(0)}% of your work is self-directed`);
     }
 
+    const hasLearning = categories.some(c => c.value === 'Learning' && c.isActive);
     const learningPercent = totalMinutes > 0 ? ((categoryBreakdown.Learning || 0) / totalMinutes) * 100 : 0;
-    if (learningPercent < 5 && totalMinutes > 0) {
+    if (hasLearning && learningPercent < 5 && totalMinutes > 0) {
       insights.push('Consider allocating more time for learning and development');
     }
 
@@ -239,15 +296,22 @@ const WorkLogAnalyticsPage = () => {
       weeklyData,
       topTasks,
       insights,
+      expectation,
+      targetMinutes,
+      percentOfTarget,
+      mixComparison,
+      projectData,
+      budgetedProjects,
     };
-  }, [tasks, period]);
+  }, [tasks, period, employee, expectations, projects, range, categories, getCategoryConfig]);
 
   const handleExportCSV = () => {
-    const headers = ['Date', 'Task', 'Category', 'Duration (mins)', 'Assigned By'];
+    const headers = ['Date', 'Task', 'Category', 'Project', 'Duration (mins)', 'Assigned By'];
     const rows = tasks.map(t => [
       t.log_date,
       t.task_title,
-      t.category,
+      getCategoryConfig(t.category).label,
+      t.project?.code || '',
       t.duration_minutes.toString(),
       t.assigned_by_type === 'Self' ? 'Self' : t.assigned_by?.full_name || t.assigned_by_type,
     ]);
@@ -278,6 +342,8 @@ const WorkLogAnalyticsPage = () => {
       ['Total Tasks', analytics.totalTasks],
       ['Days Logged', analytics.uniqueDays],
       ['Avg Hours/Day', analytics.avgHoursPerDay.toFixed(1)],
+      ['Target Hours', (analytics.targetMinutes / 60).toFixed(1)],
+      ['% of Target', `${analytics.percentOfTarget}%`],
     ];
     const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
     XLSX.utils.book_append_sheet(wb, summarySheet, 'Summary');
@@ -286,19 +352,40 @@ const WorkLogAnalyticsPage = () => {
     const categorySheetData = [
       ['Category Breakdown'],
       [],
-      ['Category', 'Hours', 'Percentage'],
-      ...analytics.categoryData.map(c => [c.name, c.hours, `${c.percentage}%`]),
+      ['Category', 'Hours', 'Percentage', 'Target'],
+      ...analytics.categoryData.map(c => {
+        const target = analytics.mixComparison.find(row => row.category === c.category)?.targetPercent;
+        return [c.name, c.hours, `${c.percentage}%`, target ? `${target}%` : ''];
+      }),
     ];
     const categorySheet = XLSX.utils.aoa_to_sheet(categorySheetData);
     XLSX.utils.book_append_sheet(wb, categorySheet, 'By Category');
 
-    // Sheet 3: All Tasks
+    // Sheet 3: Project Breakdown
+    const projectSheetData = [
+      ['Project Breakdown'],
+      [],
+      ['Code', 'Project', 'Client', 'Billable', 'Hours', 'Percentage'],
+      ...analytics.projectData.map(p => [
+        p.projectId ? p.code : '',
+        p.name,
+        p.client || '',
+        p.isBillable ? 'Yes' : 'No',
+        (p.minutes / 60).toFixed(1),
+        `${p.percent}%`,
+      ]),
+    ];
+    const projectSheet = XLSX.utils.aoa_to_sheet(projectSheetData);
+    XLSX.utils.book_append_sheet(wb, projectSheet, 'By Project');
+
+    // Sheet 4: All Tasks
     const tasksSheetData = [
-      ['Date', 'Task', 'Category', 'Duration (mins)', 'Duration (hours)', 'Assigned By', 'Description'],
+      ['Date', 'Task', 'Category', 'Project', 'Duration (mins)', 'Duration (hours)', 'Assigned By', 'Description'],
       ...tasks.map(t => [
         t.log_date,
         t.task_title,
-        t.category,
+        getCategoryConfig(t.category).label,
+        t.project?.code || '',
         t.duration_minutes,
         (t.duration_minutes / 60).toFixed(2),
         t.assigned_by_type === 'Self' ? 'Self' : t.assigned_by?.full_name || t.assigned_by_type,
@@ -439,7 +526,7 @@ const WorkLogAnalyticsPage = () => {
                     label={({ name, percentage }) => `${name} (${percentage}%)`}
                   >
                     {analytics.categoryData.map((entry) => (
-                      <Cell key={entry.name} fill={COLORS[entry.name as TaskCategory] || '#9ca3af'} />
+                      <Cell key={entry.category} fill={entry.color} />
                     ))}
                   </Pie>
                   <Tooltip 
@@ -457,9 +544,9 @@ const WorkLogAnalyticsPage = () => {
             {/* Category Legend */}
             <div className="mt-4 space-y-2">
               {analytics.categoryData.slice(0, 5).map((cat) => (
-                <div key={cat.name} className="flex items-center justify-between text-sm">
+                <div key={cat.category} className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-2">
-                    <CategoryIcon category={cat.name as TaskCategory} size="sm" />
+                    <CategoryIcon category={cat.category} size="sm" />
                     <span>{cat.name}</span>
                   </div>
                   <span className="font-mono text-muted-foreground">{cat.hours}h ({cat.percentage}%)</span>
@@ -496,6 +583,13 @@ const WorkLogAnalyticsPage = () => {
                     fill="hsl(var(--primary))" 
                     radius={[4, 4, 0, 0]}
                   />
+                  {analytics.expectation && (
+                    <ReferenceLine
+                      y={analytics.expectation.weeklyHours * 60}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="4 4"
+                    />
+                  )}
                 </BarChart>
               </ResponsiveContainer>
             ) : (
@@ -505,16 +599,85 @@ const WorkLogAnalyticsPage = () => {
             )}
 
             {/* Target Line Info */}
-            <div className="mt-4 p-3 bg-muted/50 rounded-lg">
+            <div className="mt-4 p-3 bg-muted/50 rounded-lg space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Weekly Target</span>
-                <span className="font-mono font-medium">40h</span>
+                <span className="text-muted-foreground">
+                  Weekly Target
+                  {analytics.expectation?.source === 'team' && ' (team)'}
+                  {analytics.expectation?.source === 'default' && ' (default)'}
+                </span>
+                <span className="font-mono font-medium">{analytics.expectation?.weeklyHours ?? DEFAULT_WEEKLY_HOURS}h</span>
               </div>
+              {analytics.targetMinutes > 0 && (
+                <>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Logged vs target so far</span>
+                    <span className="font-mono font-medium">
+                      {formatMinutes(analytics.totalMinutes)} / {formatMinutes(analytics.targetMinutes)}
+                    </span>
+                  </div>
+                  <ProgressBar value={analytics.percentOfTarget} expected={100} showLabels={false} />
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Category Mix vs Target */}
+      {analytics.mixComparison.some(row => row.targetPercent > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Category Mix vs Target
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Your share of time per category / the share your {analytics.expectation?.source === 'team' ? 'team' : 'manager'} expects
+            </p>
+          </CardHeader>
+          <CardContent>
+            <CategoryMixComparison rows={analytics.mixComparison} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Projects Row */}
+      {projects.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <FolderKanban className="h-5 w-5" />
+                Time by Project
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analytics.projectData.length > 0 ? (
+                <ProjectBreakdown rows={analytics.projectData} />
+              ) : (
+                <div className="flex items-center justify-center h-[200px] text-muted-foreground">
+                  No data for this period
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Budget Burn-down
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">Hours left on budgeted projects you worked on this period</p>
+            </CardHeader>
+            <CardContent>
+              <ProjectBurnDown projects={analytics.budgetedProjects} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Assignment & Insights Row */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Assignment Breakdown */}
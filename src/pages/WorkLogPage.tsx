@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useWorkLog } from '@/hooks/useWorkLog';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -10,7 +10,12 @@ import { WeekProgressBar } from '@/components/worklog/WeekProgressBar';
 import { DaySection } from '@/components/worklog/DaySection';
 import { CategoryBreakdown } from '@/components/worklog/CategoryBreakdown';
 import { DayStatusBadge } from '@/components/worklog/DayStatusBadge';
-import { Send, Save, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { Send, Save, Clock, CheckCircle, AlertCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  RECONCILIATION_FLAG_LABELS,
+  ReconciliationDay,
+  describeReconciliation,
+} from '@/lib/workLogReconciliation';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,6 +34,7 @@ const WorkLogPage = () => {
     saving,
     weekLog,
     employees,
+    projects,
     currentWeekStart,
     isWeekEditable,
     getDayTasks,
@@ -42,9 +48,12 @@ const WorkLogPage = () => {
     deleteTask,
     submitDay,
     submitWeek,
+    getWeekReconciliation,
   } = useWorkLog();
 
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
+  const [submitWarnings, setSubmitWarnings] = useState<ReconciliationDay[]>([]);
+  const [checkingWeek, setCheckingWeek] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
 
@@ -68,6 +77,14 @@ const WorkLogPage = () => {
     }
   };
 
+  const openSubmitDialog = async () => {
+    setSubmitWarnings([]);
+    setCheckingWeek(true);
+    setShowSubmitDialog(true);
+    setSubmitWarnings(await getWeekReconciliation());
+    setCheckingWeek(false);
+  };
+
   const handleSubmitWeek = async () => {
     await submitWeek();
     setShowSubmitDialog(false);
@@ -143,6 +160,7 @@ const WorkLogPage = () => {
             key={day.dateStr}
             day={day}
             employees={employees}
+            projects={projects}
             managerId={employee?.manager_id || undefined}
             isEditable={isWeekEditable}
             saving={saving}
@@ -167,7 +185,7 @@ const WorkLogPage = () => {
               <div className="flex items-center gap-2">
                 <Button 
                   variant="default" 
-                  onClick={() => setShowSubmitDialog(true)}
+                  onClick={openSubmitDialog}
                   disabled={saving}
                 >
                   <Send className="h-4 w-4 mr-2" />
@@ -222,10 +240,34 @@ const WorkLogPage = () => {
               You won't be able to edit these entries until they're approved or sent back for rework.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {checkingWeek ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking against your attendance...
+            </div>
+          ) : submitWarnings.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-lg p-3 space-y-2">
+              <p className="text-sm font-medium text-amber-700 dark:text-amber-400 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                Your logged time doesn't match your attendance
+              </p>
+              <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-300">
+                {submitWarnings.map(day => (
+                  <li key={day.log_date}>
+                    <span className="font-medium">{format(parseISO(day.log_date), 'EEEE')}:</span>{' '}
+                    {day.flag && RECONCILIATION_FLAG_LABELS[day.flag]} ({describeReconciliation(day)})
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                You can still submit; your manager will see these days flagged.
+              </p>
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleSubmitWeek}>
-              Submit Week
+            <AlertDialogAction onClick={handleSubmitWeek} disabled={checkingWeek}>
+              {submitWarnings.length > 0 ? 'Submit Anyway' : 'Submit Week'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -18,6 +18,7 @@ import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { generateEmailFromName, generateEmployeeCode } from '@/lib/employeeUtils';
 import { sendWelcomeEmail } from '@/lib/emailService';
+import { seedLeaveEntitlements } from '@/lib/orgSettings';
 
 interface Manager {
   id: string;
@@ -251,23 +252,11 @@ const AddEmployeePage = () => {
         throw new Error(`Details creation failed: ${detailsError.message}`);
       }
 
-      // Step 4: Initialize Leave Balances
-      const currentYear = new Date().getFullYear();
-      const leaveTypes = [
-        { type: 'Earned Leave', total: 18 },
-        { type: 'Casual Leave', total: 6 },
-        { type: 'Sick Leave', total: 6 },
-      ];
-
-      for (const leave of leaveTypes) {
-        await supabase.from('hr_leave_entitlements').insert({
-          org_id: currentEmployee.org_id,
-          employee_id: employeeData.id,
-          leave_type: leave.type,
-          total_leaves: leave.total,
-          used_leaves: 0,
-          year: currentYear,
-        });
+      // Step 4: Initialize Leave Balances from the org's leave policy
+      try {
+        await seedLeaveEntitlements(currentEmployee.org_id, employeeData.id, formData.gender || null);
+      } catch (leaveError) {
+        console.error('Error initializing leave balances:', leaveError);
       }
 
       // Step 5: Auto-assign onboarding tasks using database function (always)
@@ -2,12 +2,30 @@ import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/shared/StatusBadge';
+import { DelegateApprovalsModal } from '@/components/hr/DelegateApprovalsModal';
+import { LeaveEncashmentApprovals } from '@/components/hr/LeaveEncashmentApprovals';
+import { CompOffApprovals } from '@/components/hr/CompOffApprovals';
+import { OvertimeApprovals } from '@/components/hr/OvertimeApprovals';
+import { WfhApprovals } from '@/components/hr/WfhApprovals';
+import { TeamLeaveCalendar } from '@/components/leave/TeamLeaveCalendar';
+import { ApprovalChain } from '@/components/shared/ApprovalChain';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { CheckCircle, XCircle, Clock, Calendar, Loader2, Users, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Calendar, Loader2, Users, ThumbsUp, ThumbsDown, UserCheck, Banknote, CalendarPlus, CalendarDays, AlertTriangle, Timer, House } from 'lucide-react';
 import { format, parseISO, startOfMonth, endOfMonth } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
 import { sendLeaveApprovalEmail } from '@/lib/emailService';
+import {
+  APPROVAL_STEPS_SELECT,
+  LeaveApprovalStep,
+  approveLeaveRequest,
+  canActOnLeaveStep,
+  getCurrentApprovalStep,
+  rejectLeaveRequest,
+} from '@/lib/leaveApproval';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
+import { fetchActiveDelegatorIds } from '@/lib/delegation';
+import { CoverageDay, checkLeaveCoverage } from '@/lib/teamCoverage';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Table,
@@ -27,6 +45,16 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 interface LeaveRequestWithEmployee {
   id: string;
@@ -34,6 +62,8 @@ interface LeaveRequestWithEmployee {
   start_date: string;
   end_date: string;
   total_days: number;
+  start_session: string;
+  end_session: string;
   reason: string | null;
   status: string;
   created_at: string;
@@ -44,16 +74,29 @@ interface LeaveRequestWithEmployee {
     role: string;
     manager_id: string | null;
   };
+  approval_steps: LeaveApprovalStep[];
 }
 
 const ApprovalsPage = () => {
   const { employee, role } = useAuth();
+  const { settings } = useOrgSettings();
   const [leaveRequests, setLeaveRequests] = useState<LeaveRequestWithEmployee[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequestWithEmployee | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [delegateDialogOpen, setDelegateDialogOpen] = useState(false);
+  // Managers this user is standing in for under an active delegation
+  const [delegators, setDelegators] = useState<{ id: string; full_name: string }[]>([]);
+  const [pendingEncashments, setPendingEncashments] = useState(0);
+  const [pendingCompOffs, setPendingCompOffs] = useState(0);
+  const [pendingOvertime, setPendingOvertime] = useState(0);
+  const [pendingWfh, setPendingWfh] = useState(0);
+  const [coverageWarning, setCoverageWarning] = useState<{
+    request: LeaveRequestWithEmployee;
+    shortfalls: CoverageDay[];
+  } | null>(null);
 
   // Stats
   const [pendingCount, setPendingCount] = useState(0);
@@ -68,10 +111,25 @@ const ApprovalsPage = () => {
     try {
       let requests: LeaveRequestWithEmployee[] = [];
 
+      const delegatorIds = await fetchActiveDelegatorIds(employee.id);
+      if (delegatorIds.length > 0) {
+        const { data: delegatorData, error: delegatorError } = await supabase
+          .from('hr_employees')
+          .select('id, full_name')
+          .in('id', delegatorIds);
+
+        if (delegatorError) throw delegatorError;
+        setDelegators(delegatorData || []);
+      } else {
+        setDelegators([]);
+      }
+      const managerIds = [employee.id, ...delegatorIds];
+
       if (isAdmin) {
         // Admin sees leave requests from:
         // 1. Employees who have NO manager assigned
-        // 2. Employees whose manager IS this admin
+        // 2. Employees whose manager IS this admin (or a manager this admin stands in for)
+        // 3. Requests whose approval chain includes an HR step
         const { data, error } = await supabase
           .from('hr_leave_requests')
           .select(`
@@ -80,28 +138,35 @@ const ApprovalsPage = () => {
             start_date,
             end_date,
             total_days,
+            start_session,
+            end_session,
             reason,
             status,
             created_at,
-            employee:hr_employees!hr_leave_requests_employee_id_fkey(id, full_name, employee_code, role, manager_id)
+            employee:hr_employees!hr_leave_requests_employee_id_fkey(id, full_name, employee_code, role, manager_id),
+            ${APPROVAL_STEPS_SELECT}
           `)
           .order('created_at', { ascending: false });
 
         if (error) throw error;
 
-        // Filter to show employees without a manager OR employees whose manager is this admin
+        // Filter to show employees without a manager, employees whose manager is this admin, or HR steps
         requests = (data || [])
-          .filter((r: any) => r.employee?.manager_id === null || r.employee?.manager_id === employee.id)
+          .filter((r: any) =>
+            r.employee?.manager_id === null ||
+            managerIds.includes(r.employee?.manager_id) ||
+            (r.approval_steps || []).some((s: LeaveApprovalStep) => s.approver_role === 'HR')
+          )
           .map((r: any) => ({
             ...r,
             employee: r.employee,
           }));
       } else {
-        // Manager sees only their direct reports' leave requests
+        // Manager sees their direct reports' leave requests, plus those of managers they stand in for
         const { data: teamMembers, error: teamError } = await supabase
           .from('hr_employees')
           .select('id')
-          .eq('manager_id', employee.id);
+          .in('manager_id', managerIds);
 
         if (teamError) throw teamError;
 
@@ -121,10 +186,13 @@ const ApprovalsPage = () => {
             start_date,
             end_date,
             total_days,
+            start_session,
+            end_session,
             reason,
             status,
             created_at,
-            employee:hr_employees!hr_leave_requests_employee_id_fkey(id, full_name, employee_code, role, manager_id)
+            employee:hr_employees!hr_leave_requests_employee_id_fkey(id, full_name, employee_code, role, manager_id),
+            ${APPROVAL_STEPS_SELECT}
           `)
           .in('employee_id', teamIds)
           .order('created_at', { ascending: false });
@@ -201,99 +269,49 @@ const ApprovalsPage = () => {
     };
   }, [employee?.id, role]);
 
+  // Warn before approving leave that leaves the team below the minimum headcount
   const handleApprove = async (request: LeaveRequestWithEmployee) => {
-    if (!employee?.id) return;
-
     setProcessingId(request.id);
     try {
-      // Step 1: Update leave request to Approved
-      const { error } = await supabase
-        .from('hr_leave_requests')
-        .update({
-          status: 'Approved',
-          approved_by: employee.id,
-          approved_at: new Date().toISOString(),
-        })
-        .eq('id', request.id);
-
-      if (error) throw error;
-
-      // Step 2: Deduct from employee's leave entitlement
-      const currentYear = new Date().getFullYear();
-      const { data: entitlement } = await supabase
-        .from('hr_leave_entitlements')
-        .select('id, used_leaves, remaining_leaves, total_leaves')
-        .eq('employee_id', request.employee.id)
-        .eq('leave_type', request.leave_type)
-        .eq('year', currentYear)
-        .maybeSingle();
-
-      if (entitlement) {
-        const newUsedLeaves = (entitlement.used_leaves || 0) + request.total_days;
-        const newRemainingLeaves = Math.max(0, (entitlement.total_leaves || 0) - newUsedLeaves);
-        
-        await supabase
-          .from('hr_leave_entitlements')
-          .update({
-            used_leaves: newUsedLeaves,
-            remaining_leaves: newRemainingLeaves,
-          })
-          .eq('id', entitlement.id);
-      }
+      const shortfalls = await checkLeaveCoverage(
+        request.employee,
+        request.start_date,
+        request.end_date,
+        settings.leavePolicy.teamCoverage,
+        settings.attendancePolicy.weekends
+      );
 
-      // Also update hr_employees.leave_balance for system-wide visibility
-      const { data: empData } = await supabase
-        .from('hr_employees')
-        .select('leave_balance')
-        .eq('id', request.employee.id)
-        .single();
-
-      const currentBalance = empData?.leave_balance || 0;
-      const newBalance = Math.max(0, currentBalance - request.total_days);
-
-      await supabase
-        .from('hr_employees')
-        .update({ 
-          leave_balance: newBalance,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', request.employee.id);
-
-      // Step 3: Mark leave dates as "On Leave" in attendance
-      const startDate = parseISO(request.start_date);
-      const endDate = parseISO(request.end_date);
-      const leaveRecords = [];
-      
-      for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-        // Skip weekends
-        if (d.getDay() !== 0 && d.getDay() !== 6) {
-          leaveRecords.push({
-            employee_id: request.employee.id,
-            attendance_date: format(d, 'yyyy-MM-dd'),
-            punch_in_time: new Date().toISOString(),
-            status: 'On Leave',
-            notes: `${request.leave_type} - Approved`,
-          });
-        }
+      if (shortfalls.length > 0) {
+        setCoverageWarning({ request, shortfalls });
+        setProcessingId(null);
+        return;
       }
+    } catch (error) {
+      // The check is advisory; approval goes ahead without it
+      console.error('Error checking team coverage:', error);
+    }
 
-      if (leaveRecords.length > 0) {
-        // Use upsert to avoid conflicts
-        for (const record of leaveRecords) {
-          await supabase
-            .from('hr_attendance')
-            .upsert(record, { onConflict: 'employee_id,attendance_date' });
-        }
-      }
+    approveRequest(request);
+  };
 
-      // Create notification for employee
-      await supabase.from('hr_notifications').insert({
-        employee_id: request.employee.id,
-        type: 'leave_approved',
-        title: 'Leave Approved',
-        message: `Your ${request.leave_type} leave from ${format(parseISO(request.start_date), 'MMM d')} to ${format(parseISO(request.end_date), 'MMM d, yyyy')} has been approved by ${employee.full_name}`,
-        link: '/app/leaves',
-      });
+  const approveRequest = async (request: LeaveRequestWithEmployee) => {
+    if (!employee?.id) return;
+
+    setProcessingId(request.id);
+    try {
+      // Approve, deduct the balance, mark attendance and notify in one transaction; the
+      // server recomputes the duration so holidays added after submission are not charged
+      const result = await approveLeaveRequest(request.id);
+
+      // Intermediate approval: the request moves on to the next approver in the chain
+      if (result.status === 'Pending') {
+        toast({
+          title: 'Leave Forwarded',
+          description: `${request.employee.full_name}'s leave approved at your level and sent for ${result.next_approver_role} approval.`,
+        });
+        fetchLeaveRequests();
+        return;
+      }
 
       // Send email notification
       sendLeaveApprovalEmail(
@@ -307,16 +325,18 @@ const ApprovalsPage = () => {
 
       toast({
         title: 'Leave Approved',
-        description: `${request.employee.full_name}'s leave approved. Balance deducted by ${request.total_days} days.`,
+        description: `${request.employee.full_name}'s leave approved. Balance deducted by ${result.total_days} days (${result.remaining_leaves} remaining).`,
       });
       fetchLeaveRequests();
     } catch (error) {
       console.error('Error approving leave:', error);
       toast({
         title: 'Error',
-        description: 'Failed to approve leave request',
+        description: (error as Error)?.message || 'Failed to approve leave request',
         variant: 'destructive',
       });
+      // The request may have been decided by another approver meanwhile
+      fetchLeaveRequests();
     } finally {
       setProcessingId(null);
     }
@@ -333,26 +353,7 @@ const ApprovalsPage = () => {
 
     setProcessingId(selectedRequest.id);
     try {
-      const { error } = await supabase
-        .from('hr_leave_requests')
-        .update({
-          status: 'Rejected',
-          rejection_reason: rejectionReason || null,
-          approved_by: employee.id,
-          approved_at: new Date().toISOString(),
-        })
-        .eq('id', selectedRequest.id);
-
-      if (error) throw error;
-
-      // Create notification for employee
-      await supabase.from('hr_notifications').insert({
-        employee_id: selectedRequest.employee.id,
-        type: 'leave_rejected',
-        title: 'Leave Rejected',
-        message: `Your ${selectedRequest.leave_type} leave from ${format(parseISO(selectedRequest.start_date), 'MMM d')} to ${format(parseISO(selectedRequest.end_date), 'MMM d, yyyy')} has been rejected${rejectionReason ? `: ${rejectionReason}` : ''}`,
-        link: '/app/leaves',
-      });
+      await rejectLeaveRequest(selectedRequest.id, rejectionReason);
 
       // Send email notification
       sendLeaveApprovalEmail(
@@ -376,7 +377,7 @@ const ApprovalsPage = () => {
       console.error('Error rejecting leave:', error);
       toast({
         title: 'Error',
-        description: 'Failed to reject leave request',
+        description: (error as Error)?.message || 'Failed to reject leave request',
         variant: 'destructive',
       });
     } finally {
@@ -395,6 +396,8 @@ const ApprovalsPage = () => {
     }
   };
 
+  const approverIds = [employee?.id, ...delegators.map((d) => d.id)].filter(Boolean) as string[];
+
   const pendingRequests = leaveRequests.filter((r) => r.status === 'Pending');
   const approvedRequests = leaveRequests.filter((r) => r.status === 'Approved');
   const rejectedRequests = leaveRequests.filter((r) => r.status === 'Rejected');
@@ -427,6 +430,7 @@ const ApprovalsPage = () => {
             <TableHead>Days</TableHead>
             <TableHead>Reason</TableHead>
             <TableHead>Applied On</TableHead>
+            <TableHead>Approval</TableHead>
             {showActions && <TableHead>Actions</TableHead>}
           </TableRow>
         </TableHeader>
@@ -454,34 +458,43 @@ const ApprovalsPage = () => {
               <TableCell>{request.total_days}</TableCell>
               <TableCell className="max-w-[200px] truncate">{request.reason || '-'}</TableCell>
               <TableCell>{format(parseISO(request.created_at), 'MMM d, yyyy')}</TableCell>
+              <TableCell>
+                {request.approval_steps?.length > 0 ? <ApprovalChain steps={request.approval_steps} /> : '-'}
+              </TableCell>
               {showActions && (
                 <TableCell>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="success"
-                      size="sm"
-                      onClick={() => handleApprove(request)}
-                      disabled={processingId === request.id}
-                    >
-                      {processingId === request.id ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <>
-                          <CheckCircle className="w-4 h-4 mr-1" />
-                          Approve
-                        </>
-                      )}
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => openRejectDialog(request)}
-                      disabled={processingId === request.id}
-                    >
-                      <XCircle className="w-4 h-4 mr-1" />
-                      Reject
-                    </Button>
-                  </div>
+                  {!canActOnLeaveStep(request.approval_steps, approverIds, isAdmin) ? (
+                    <span className="text-xs text-muted-foreground">
+                      Awaiting {getCurrentApprovalStep(request.approval_steps)?.approver_role || 'approval'}
+                    </span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="success"
+                        size="sm"
+                        onClick={() => handleApprove(request)}
+                        disabled={processingId === request.id}
+                      >
+                        {processingId === request.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <>
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Approve
+                          </>
+                        )}
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => openRejectDialog(request)}
+                        disabled={processingId === request.id}
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
                 </TableCell>
               )}
             </TableRow>
@@ -493,13 +506,28 @@ const ApprovalsPage = () => {
 
   return (
     <div className="space-y-6 animate-fade-in">
-      <div>
-        <h1 className="text-2xl font-display font-bold text-foreground">Leave Approvals</h1>
-        <p className="text-muted-foreground">
-          {isAdmin ? 'Review leaves for employees without a manager' : 'Review and approve team leave requests'}
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-foreground">Leave Approvals</h1>
+          <p className="text-muted-foreground">
+            {isAdmin ? 'Review leaves for employees without a manager and requests awaiting HR' : 'Review and approve team leave requests'}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setDelegateDialogOpen(true)}>
+          <UserCheck className="w-4 h-4 mr-2" />
+          Delegate Approvals
+        </Button>
       </div>
 
+      {delegators.length > 0 && (
+        <Card className="p-4 glass-card flex items-center gap-3">
+          <Users className="w-5 h-5 text-primary" />
+          <p className="text-sm text-foreground">
+            You are approving on behalf of {delegators.map((d) => d.full_name).join(', ')}
+          </p>
+        </Card>
+      )}
+
       {/* Summary Cards */}
       <div className="grid md:grid-cols-3 gap-4">
         <Card className="p-4 glass-card">
@@ -551,6 +579,32 @@ const ApprovalsPage = () => {
             <XCircle className="w-4 h-4" />
             Rejected ({rejectedRequests.length})
           </TabsTrigger>
+          <TabsTrigger value="calendar" className="gap-2">
+            <CalendarDays className="w-4 h-4" />
+            Team Calendar
+          </TabsTrigger>
+          {settings.leavePolicy.compOff.enabled && (
+            <TabsTrigger value="comp-off" className="gap-2">
+              <CalendarPlus className="w-4 h-4" />
+              Comp-Off ({pendingCompOffs})
+            </TabsTrigger>
+          )}
+          <TabsTrigger value="wfh" className="gap-2">
+            <House className="w-4 h-4" />
+            WFH ({pendingWfh})
+          </TabsTrigger>
+          {settings.attendancePolicy.overtime.enabled && (
+            <TabsTrigger value="overtime" className="gap-2">
+              <Timer className="w-4 h-4" />
+              Overtime ({pendingOvertime})
+            </TabsTrigger>
+          )}
+          {isAdmin && (
+            <TabsTrigger value="encashments" className="gap-2">
+              <Banknote className="w-4 h-4" />
+              Encashments ({pendingEncashments})
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="pending">
@@ -570,8 +624,95 @@ const ApprovalsPage = () => {
             {renderRequestsTable(rejectedRequests, false)}
           </Card>
         </TabsContent>
+
+        <TabsContent value="calendar">
+          <Card className="glass-card overflow-hidden">
+            <TeamLeaveCalendar
+              minAvailable={settings.leavePolicy.teamCoverage.minAvailable}
+              weekends={settings.attendancePolicy.weekends}
+            />
+          </Card>
+        </TabsContent>
+
+        {settings.leavePolicy.compOff.enabled && (
+          <TabsContent value="comp-off" forceMount className="data-[state=inactive]:hidden">
+            <Card className="glass-card overflow-hidden">
+              <CompOffApprovals onCountChange={setPendingCompOffs} />
+            </Card>
+          </TabsContent>
+        )}
+
+        <TabsContent value="wfh" forceMount className="data-[state=inactive]:hidden">
+          <Card className="glass-card overflow-hidden">
+            <WfhApprovals onCountChange={setPendingWfh} />
+          </Card>
+        </TabsContent>
+
+        {settings.attendancePolicy.overtime.enabled && (
+          <TabsContent value="overtime" forceMount className="data-[state=inactive]:hidden">
+            <Card className="glass-card overflow-hidden">
+              <OvertimeApprovals onCountChange={setPendingOvertime} />
+            </Card>
+          </TabsContent>
+        )}
+
+        {isAdmin && (
+          <TabsContent value="encashments" forceMount className="data-[state=inactive]:hidden">
+            <Card className="glass-card overflow-hidden">
+              <LeaveEncashmentApprovals
+                currency={settings.companySettings.currency}
+                onCountChange={setPendingEncashments}
+              />
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
 
+      <AlertDialog open={!!coverageWarning} onOpenChange={(open) => !open && setCoverageWarning(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Team Coverage Below Minimum
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Approving {coverageWarning?.request.employee.full_name}'s leave leaves fewer than{' '}
+              {settings.leavePolicy.teamCoverage.minAvailable} of the{' '}
+              {settings.leavePolicy.teamCoverage.scope === 'department' ? 'department' : 'team'} available on:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="space-y-2 text-sm max-h-60 overflow-y-auto">
+            {coverageWarning?.shortfalls.map((day) => (
+              <li key={day.date}>
+                <span className="font-medium text-foreground">
+                  {format(parseISO(day.date), 'EEE, MMM d')}: {day.available} of {day.teamSize} available
+                </span>
+                <p className="text-xs text-muted-foreground">
+                  Away: {day.away.join(', ')}
+                  {day.pendingAway.length > 0 && ` · Pending: ${day.pendingAway.join(', ')}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (coverageWarning) approveRequest(coverageWarning.request);
+                setCoverageWarning(null);
+              }}
+            >
+              Approve Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <DelegateApprovalsModal
+        open={delegateDialogOpen}
+        onOpenChange={setDelegateDialogOpen}
+      />
+
       {/* Reject Dialog */}
       <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
         <DialogContent>
@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { Link } from 'react-router-dom';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -22,6 +23,13 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from '@/components/shared/StatusBadge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { 
@@ -34,8 +42,21 @@ import {
   XCircle, 
   Clock,
   ChevronLeft,
-  ChevronRight 
+  ChevronRight,
+  MapPinOff,
+  ClipboardList
 } from 'lucide-react';
+import { LOCATION_FLAG_LABELS } from '@/lib/punchLocation';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
+import {
+  AttendanceEvaluation,
+  ShiftAssignment,
+  ShiftRule,
+  evaluateAttendance,
+  fetchRoster,
+  formatShiftWindow,
+  getShiftRule,
+} from '@/lib/shifts';
 
 interface AttendanceRecord {
   id: string;
@@ -45,12 +66,15 @@ interface AttendanceRecord {
   punch_out_time: string | null;
   total_hours: number | null;
   notes: string | null;
+  location_flags: string[];
+  auto_closed: 'shift_end' | 'review' | null;
   employee: {
     id: string;
     full_name: string;
     employee_code: string;
     hr_employee_details: {
       department: string | null;
+      employment_type: string | null;
     }[] | null;
   };
 }
@@ -62,7 +86,7 @@ interface Employee {
 }
 
 const DEPARTMENTS = ['All', 'NestOps', 'NestHQ', 'NestTech', 'NestLabs', 'Nest People'];
-const STATUSES = ['All', 'Present', 'Absent', 'Half Day', 'On Leave', 'Holiday'];
+const STATUSES = ['All', 'Present', 'Absent', 'Half Day', 'Work From Home', 'On Leave', 'Holiday'];
 const MONTHS = [
   { value: '1', label: 'January' },
   { value: '2', label: 'February' },
@@ -79,11 +103,18 @@ const MONTHS = [
 ];
 const ITEMS_PER_PAGE = 50;
 
+const AUTO_CLOSED_LABELS: Record<string, string> = {
+  shift_end: 'Auto punch-out',
+  review: 'Missed punch-out',
+};
+
 const AttendanceRecordsPage = () => {
   const { employee } = useAuth();
   const { toast } = useToast();
+  const { settings } = useOrgSettings();
 
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
+  const [roster, setRoster] = useState<ShiftAssignment[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
@@ -132,11 +163,13 @@ const AttendanceRecordsPage = () => {
           total_hours,
           notes,
           is_consolidated,
+          location_flags,
+          auto_closed,
           employee:hr_employees!employee_id(
             id,
             full_name,
             employee_code,
-            hr_employee_details(department)
+            hr_employee_details(department, employment_type)
           )
         `)
         .eq('is_consolidated', true)
@@ -176,6 +209,7 @@ const AttendanceRecordsPage = () => {
       }
 
       setAttendanceRecords(filteredData);
+      setRoster(await fetchRoster(startDate, endDate, selectedEmployee !== 'all' ? selectedEmployee : undefined));
     } catch (error) {
       console.error('Error:', error);
       toast({
@@ -220,6 +254,32 @@ const AttendanceRecordsPage = () => {
     return { total, present, absent, halfDay, leave, percentage };
   }, [attendanceRecords]);
 
+  // Each worked day judged against the shift the employee was rostered on
+  const timings = useMemo(() => {
+    const shiftsByDay = new Map(roster.map(a => [`${a.employee_id}|${a.work_date}`, a.shift]));
+    const result = new Map<string, { rule: ShiftRule; evaluation: AttendanceEvaluation }>();
+
+    attendanceRecords.forEach(record => {
+      if (!record.punch_in_time || !record.employee) return;
+      const rule = getShiftRule(
+        shiftsByDay.get(`${record.employee.id}|${record.attendance_date}`),
+        settings.attendancePolicy,
+        record.employee.hr_employee_details?.[0]?.employment_type
+      );
+      result.set(record.id, {
+        rule,
+        evaluation: evaluateAttendance(
+          rule,
+          record.attendance_date,
+          record.punch_in_time,
+          record.punch_out_time,
+          record.total_hours || 0
+        ),
+      });
+    });
+    return result;
+  }, [attendanceRecords, roster, settings.attendancePolicy]);
+
   // Pagination
   const paginatedRecords = useMemo(() => {
     const start = (currentPage - 1) * ITEMS_PER_PAGE;
@@ -231,16 +291,22 @@ const AttendanceRecordsPage = () => {
   // Export to CSV
   const exportToCSV = () => {
     const csv = [
-      ['Date', 'Employee Code', 'Employee Name', 'Department', 'Status', 'Punch In', 'Punch Out', 'Hours'],
+      ['Date', 'Employee Code', 'Employee Name', 'Department', 'Shift', 'Status', 'Punch In', 'Punch Out', 'Hours', 'Late (min)', 'Early Exit (min)', 'Short Hours', 'Punch-Out', 'Location Flags'],
       ...attendanceRecords.map(record => [
         format(new Date(record.attendance_date), 'dd MMM yyyy'),
         record.employee?.employee_code || '-',
         record.employee?.full_name || '-',
         record.employee?.hr_employee_details?.[0]?.department || '-',
+        timings.get(record.id)?.rule.name || '-',
         record.status || '-',
         record.punch_in_time ? format(new Date(record.punch_in_time), 'hh:mm a') : '-',
         record.punch_out_time ? format(new Date(record.punch_out_time), 'hh:mm a') : '-',
-        record.total_hours ? `${record.total_hours}h` : '-'
+        record.total_hours ? `${record.total_hours}h` : '-',
+        timings.get(record.id)?.evaluation.lateMinutes ?? '-',
+        timings.get(record.id)?.evaluation.earlyExitMinutes ?? '-',
+        timings.get(record.id)?.evaluation.shortHours ?? '-',
+        record.auto_closed ? AUTO_CLOSED_LABELS[record.auto_closed] : '-',
+        (record.location_flags || []).map(f => LOCATION_FLAG_LABELS[f] || f).join('; ') || '-'
       ])
     ].map(row => row.join(',')).join('\n');
 
@@ -254,11 +320,12 @@ const AttendanceRecordsPage = () => {
   };
 
   // Normalize status for StatusBadge
-  const normalizeStatus = (status: string | null): 'present' | 'absent' | 'partial' | 'pending' => {
+  const normalizeStatus = (status: string | null): 'present' | 'absent' | 'partial' | 'wfh' | 'pending' => {
     if (!status) return 'absent';
     const s = status.toLowerCase().replace(/\s+/g, '_');
     if (s === 'present') return 'present';
     if (s === 'partial' || s === 'half_day') return 'partial';
+    if (s === 'work_from_home') return 'wfh';
     if (s === 'on_leave') return 'pending';
     return 'absent';
   };
@@ -274,10 +341,18 @@ const AttendanceRecordsPage = () => {
           </h1>
           <p className="text-muted-foreground mt-1">View attendance history for all employees</p>
         </div>
-        <Button onClick={exportToCSV} variant="outline" className="flex items-center gap-2">
-          <Download className="h-4 w-4" />
-          Export CSV
-        </Button>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" className="flex items-center gap-2">
+            <Link to="/app/admin/muster-roll">
+              <ClipboardList className="h-4 w-4" />
+              Muster Roll
+            </Link>
+          </Button>
+          <Button onClick={exportToCSV} variant="outline" className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -460,6 +535,7 @@ const AttendanceRecordsPage = () => {
                       <TableHead>Employee Code</TableHead>
                       <TableHead>Employee Name</TableHead>
                       <TableHead>Department</TableHead>
+                      <TableHead>Shift</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>First Punch In</TableHead>
                       <TableHead>Last Punch Out</TableHead>
@@ -467,34 +543,90 @@ const AttendanceRecordsPage = () => {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {paginatedRecords.map((record) => (
-                      <TableRow key={record.id}>
-                        <TableCell className="font-medium">
-                          {format(new Date(record.attendance_date), 'dd MMM yyyy')}
-                        </TableCell>
-                        <TableCell>{record.employee?.employee_code || '-'}</TableCell>
-                        <TableCell>{record.employee?.full_name || '-'}</TableCell>
-                        <TableCell>
-                          {record.employee?.hr_employee_details?.[0]?.department || '-'}
-                        </TableCell>
-                        <TableCell>
-                          <StatusBadge status={normalizeStatus(record.status)} />
-                        </TableCell>
-                        <TableCell className="font-mono">
-                          {record.punch_in_time 
-                            ? format(new Date(record.punch_in_time), 'hh:mm a')
-                            : '-'}
-                        </TableCell>
-                        <TableCell className="font-mono">
-                          {record.punch_out_time 
-                            ? format(new Date(record.punch_out_time), 'hh:mm a')
-                            : '-'}
-                        </TableCell>
-                        <TableCell>
-                          {record.total_hours ? `${record.total_hours}h` : '-'}
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                    {paginatedRecords.map((record) => {
+                      const timing = timings.get(record.id);
+                      return (
+                        <TableRow key={record.id}>
+                          <TableCell className="font-medium">
+                            {format(new Date(record.attendance_date), 'dd MMM yyyy')}
+                          </TableCell>
+                          <TableCell>{record.employee?.employee_code || '-'}</TableCell>
+                          <TableCell>{record.employee?.full_name || '-'}</TableCell>
+                          <TableCell>
+                            {record.employee?.hr_employee_details?.[0]?.department || '-'}
+                          </TableCell>
+                          <TableCell>
+                            {timing ? (
+                              <>
+                                <p className="text-sm">{timing.rule.name}</p>
+                                <p className="text-xs text-muted-foreground font-mono">
+                                  {formatShiftWindow(timing.rule)}
+                                </p>
+                              </>
+                            ) : '-'}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <StatusBadge status={normalizeStatus(record.status)} />
+                              {timing?.evaluation.lateMinutes > 0 && (
+                                <Badge variant="outline" className="border-orange-500 text-orange-600">
+                                  Late {timing.evaluation.lateMinutes}m
+                                </Badge>
+                              )}
+                              {timing?.evaluation.earlyExitMinutes > 0 && (
+                                <Badge variant="outline" className="border-orange-500 text-orange-600">
+                                  Early exit {timing.evaluation.earlyExitMinutes}m
+                                </Badge>
+                              )}
+                              {record.auto_closed && (
+                                <Badge
+                                  variant="outline"
+                                  title={record.auto_closed === 'shift_end'
+                                    ? 'No punch-out recorded; closed at the shift end'
+                                    : 'No punch-out recorded; no hours counted until regularized'}
+                                  className="border-orange-500 text-orange-600"
+                                >
+                                  {AUTO_CLOSED_LABELS[record.auto_closed]}
+                                </Badge>
+                              )}
+                              {record.location_flags?.length > 0 && (
+                                <TooltipProvider>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <Badge variant="outline" className="gap-1 border-orange-500 text-orange-600">
+                                        <MapPinOff className="w-3 h-3" />
+                                        Off-site
+                                      </Badge>
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                      {record.location_flags.map(f => LOCATION_FLAG_LABELS[f] || f).join(', ')}
+                                    </TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-mono">
+                            {record.punch_in_time 
+                              ? format(new Date(record.punch_in_time), 'hh:mm a')
+                              : '-'}
+                          </TableCell>
+                          <TableCell className="font-mono">
+                            {record.punch_out_time 
+                              ? format(new Date(record.punch_out_time), 'hh:mm a')
+                              : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {record.total_hours ? `${record.total_hours}h` : '-'}
+                            {timing?.evaluation.shortHours > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {timing.evaluation.shortHours}h short
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
                   </TableBody>
                 </Table>
               </div>
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { format, startOfDay, endOfDay } from 'date-fns';
+import { format, startOfDay, endOfDay, subMonths } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -11,12 +11,22 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { Clock, CheckCircle, XCircle, Loader2, Eye, Search } from 'lucide-react';
+import { Clock, CheckCircle, XCircle, Loader2, Eye, Search, CalendarCog, History, BarChart3 } from 'lucide-react';
 import { StatCard } from '@/components/shared/StatCard';
+import { BulkAttendanceOverrideDialog } from '@/components/hr/BulkAttendanceOverrideDialog';
 import { sendRegularizationApprovedEmail, sendRegularizationRejectedEmail } from '@/lib/emailService';
+import {
+  AttendanceOverride,
+  OVERRIDE_SOURCE_LABELS,
+  fetchAttendanceOverrides,
+  processRegularizationRequests,
+} from '@/lib/attendanceOverrides';
+import { summarizeRegularizationUsage } from '@/lib/regularization';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
 
 interface RegularizationRequest {
   id: string;
@@ -25,6 +35,7 @@ interface RegularizationRequest {
   current_status: string;
   requested_status: string;
   reason: string;
+  reason_id: string | null;
   status: string;
   admin_notes: string | null;
   requested_at: string;
@@ -34,8 +45,12 @@ interface RegularizationRequest {
     full_name: string;
     employee_code: string | null;
   };
+  reason_code?: { label: string } | null;
 }
 
+// This month and the five before it
+const USAGE_MONTHS = Array.from({ length: 6 }, (_, i) => subMonths(new Date(), i));
+
 // Format snake_case to Title Case for display
 const formatStatusDisplay = (status: string): string => {
   const displayMap: Record<string, string> = {
@@ -70,6 +85,7 @@ const attendanceStatusColors: Record<string, string> = {
   'No Record': 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300',
   'holiday': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
   'Holiday': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  'Work From Home': 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-300',
   'week_off': 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300',
   'Week Off': 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300',
 };
@@ -77,6 +93,8 @@ const attendanceStatusColors: Record<string, string> = {
 const AttendanceRegularizationAdminPage = () => {
   const { employee } = useAuth();
   const { toast } = useToast();
+  const { settings } = useOrgSettings();
+  const monthlyLimit = settings.attendancePolicy.regularization.monthlyLimit;
 
   const [requests, setRequests] = useState<RegularizationRequest[]>([]);
   const [loading, setLoading] = useState(true);
@@ -89,6 +107,14 @@ const AttendanceRegularizationAdminPage = () => {
   const [actionType, setActionType] = useState<'approve' | 'reject' | 'view' | null>(null);
   const [adminNotes, setAdminNotes] = useState('');
 
+  // Bulk state
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<'approve' | 'reject' | null>(null);
+  const [bulkNotes, setBulkNotes] = useState('');
+  const [overrideOpen, setOverrideOpen] = useState(false);
+  const [overrides, setOverrides] = useState<AttendanceOverride[]>([]);
+  const [usageMonth, setUsageMonth] = useState(format(new Date(), 'yyyy-MM'));
+
   // Stats
   const pendingCount = requests.filter(r => r.status === 'Pending').length;
   const approvedToday = requests.filter(r => 
@@ -104,6 +130,7 @@ const AttendanceRegularizationAdminPage = () => {
 
   useEffect(() => {
     fetchRequests();
+    fetchOverrides();
   }, []);
 
   const fetchRequests = async () => {
@@ -113,7 +140,8 @@ const AttendanceRegularizationAdminPage = () => {
         .from('hr_attendance_regularization_requests')
         .select(`
           *,
-          employee:hr_employees!employee_id(full_name, employee_code)
+          employee:hr_employees!employee_id(full_name, employee_code),
+          reason_code:hr_regularization_reasons(label)
         `)
         .order('requested_at', { ascending: false });
 
@@ -131,111 +159,49 @@ const AttendanceRegularizationAdminPage = () => {
     }
   };
 
-  const handleApprove = async () => {
-    if (!selectedRequest || !employee?.id) return;
-
-    setProcessing(true);
+  // Emails are best-effort; the decision is already saved
+  const sendDecisionEmail = async (request: RegularizationRequest, action: 'approve' | 'reject', notes: string) => {
+    if (!employee) return;
+    const dateLabel = format(new Date(request.attendance_date), 'MMMM d, yyyy');
     try {
-      // Map lowercase snake_case status to Title Case for hr_attendance table
-      const STATUS_MAP: Record<string, string> = {
-        'present': 'Present',
-        'absent': 'Absent',
-        'half_day': 'Half Day',
-        'on_leave': 'On Leave',
-        'holiday': 'Holiday',
-        'week_off': 'Week Off',
-      };
-
-      const requestedStatus = selectedRequest.requested_status.toLowerCase().replace(/\s+/g, '_');
-      const dbStatus = STATUS_MAP[requestedStatus];
-
-      if (!dbStatus) {
-        throw new Error(
-          `Invalid attendance status: "${selectedRequest.requested_status}". Allowed: present, half_day, on_leave`
+      if (action === 'approve') {
+        await sendRegularizationApprovedEmail(
+          request.employee_id,
+          dateLabel,
+          employee.full_name,
+          formatStatusDisplay(request.current_status),
+          formatStatusDisplay(request.requested_status),
+          notes || undefined
         );
+      } else {
+        await sendRegularizationRejectedEmail(request.employee_id, dateLabel, employee.full_name, notes);
       }
+    } catch (emailError) {
+      console.error(`Failed to send regularization ${action === 'approve' ? 'approval' : 'rejection'} email:`, emailError);
+    }
+  };
 
-      // Validate: Cannot regularize future dates
-      const attendanceDate = new Date(selectedRequest.attendance_date);
-      if (attendanceDate > new Date()) {
-        throw new Error('Cannot regularize future dates');
-      }
+  const fetchOverrides = async () => {
+    try {
+      setOverrides(await fetchAttendanceOverrides());
+    } catch (error) {
+      console.error('Error fetching attendance overrides:', error);
+    }
+  };
 
-      // Check if attendance record exists
-      const { data: existingAttendance } = await supabase
-        .from('hr_attendance')
-        .select('id')
-        .eq('employee_id', selectedRequest.employee_id)
-        .eq('attendance_date', selectedRequest.attendance_date)
-        .maybeSingle();
-
-      if (existingAttendance) {
-        // Update existing attendance record
-        const { error: attendanceError } = await supabase
-          .from('hr_attendance')
-          .update({ 
-            status: dbStatus, 
-            updated_at: new Date().toISOString(),
-            notes: `Regularized: ${selectedRequest.reason}`
-          })
-          .eq('id', existingAttendance.id);
-
-        if (attendanceError) throw attendanceError;
-      } else {
-        // Create new attendance record with sensible defaults
-        const dateStr = selectedRequest.attendance_date;
-        const isHalfDay = dbStatus === 'Half Day';
-        const punchIn = new Date(`${dateStr}T09:00:00`).toISOString();
-        const punchOut = isHalfDay 
-          ? new Date(`${dateStr}T13:00:00`).toISOString()
-          : new Date(`${dateStr}T18:00:00`).toISOString();
-        const totalHours = isHalfDay ? 4.0 : 9.0;
-
-        const { error: insertError } = await supabase
-          .from('hr_attendance')
-          .insert({
-            employee_id: selectedRequest.employee_id,
-            attendance_date: selectedRequest.attendance_date,
-            punch_in_time: punchIn,
-            punch_out_time: punchOut,
-            total_hours: totalHours,
-            status: dbStatus,
-            notes: `Regularized: ${selectedRequest.reason}`
-          });
-
-        if (insertError) throw insertError;
-      }
+  const handleApprove = async () => {
+    if (!selectedRequest || !employee?.id) return;
 
-      // Update request status
-      const { error: requestError } = await supabase
-        .from('hr_attendance_regularization_requests')
-        .update({
-          status: 'Approved',
-          admin_notes: adminNotes || null,
-          reviewed_by: employee.id,
-          reviewed_at: new Date().toISOString(),
-        })
-        .eq('id', selectedRequest.id);
-
-      if (requestError) throw requestError;
-
-      // Send approval email
-      try {
-        await sendRegularizationApprovedEmail(
-          selectedRequest.employee_id,
-          format(new Date(selectedRequest.attendance_date), 'MMMM d, yyyy'),
-          employee.full_name,
-          formatStatusDisplay(selectedRequest.current_status),
-          formatStatusDisplay(selectedRequest.requested_status),
-          adminNotes || undefined
-        );
-      } catch (emailError) {
-        console.error('Failed to send regularization approval email:', emailError);
-      }
+    setProcessing(true);
+    try {
+      // Updates the consolidated day and records the previous value for audit
+      await processRegularizationRequests([selectedRequest.id], 'approve', adminNotes);
+      await sendDecisionEmail(selectedRequest, 'approve', adminNotes);
 
       toast({ title: 'Request approved and attendance updated!' });
       closeAction();
       fetchRequests();
+      fetchOverrides();
     } catch (error: any) {
       console.error('Error approving request:', error);
       toast({
@@ -262,29 +228,8 @@ const AttendanceRegularizationAdminPage = () => {
 
     setProcessing(true);
     try {
-      const { error } = await supabase
-        .from('hr_attendance_regularization_requests')
-        .update({
-          status: 'Rejected',
-          admin_notes: adminNotes,
-          reviewed_by: employee.id,
-          reviewed_at: new Date().toISOString(),
-        })
-        .eq('id', selectedRequest.id);
-
-      if (error) throw error;
-
-      // Send rejection email
-      try {
-        await sendRegularizationRejectedEmail(
-          selectedRequest.employee_id,
-          format(new Date(selectedRequest.attendance_date), 'MMMM d, yyyy'),
-          employee.full_name,
-          adminNotes
-        );
-      } catch (emailError) {
-        console.error('Failed to send regularization rejection email:', emailError);
-      }
+      await processRegularizationRequests([selectedRequest.id], 'reject', adminNotes);
+      await sendDecisionEmail(selectedRequest, 'reject', adminNotes);
 
       toast({ title: 'Request rejected' });
       closeAction();
@@ -301,6 +246,53 @@ const AttendanceRegularizationAdminPage = () => {
     }
   };
 
+  const handleBulkAction = async () => {
+    if (!bulkAction || !employee?.id) return;
+
+    if (bulkAction === 'reject' && !bulkNotes.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please provide a reason for rejection',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const selected = requests.filter(r => selectedIds.has(r.id) && r.status === 'Pending');
+
+    setProcessing(true);
+    try {
+      const processedIds = await processRegularizationRequests(selected.map(r => r.id), bulkAction, bulkNotes);
+      const processed = selected.filter(r => processedIds.includes(r.id));
+      await Promise.all(processed.map(r => sendDecisionEmail(r, bulkAction, bulkNotes)));
+
+      toast({
+        title: bulkAction === 'approve' ? 'Requests approved' : 'Requests rejected',
+        description: processed.length < selected.length
+          ? `${processed.length} of ${selected.length} request(s) processed; the rest were already handled`
+          : `${processed.length} request(s) ${bulkAction === 'approve' ? 'approved and attendance updated' : 'rejected'}`,
+      });
+      closeBulkAction();
+      setSelectedIds(new Set());
+      fetchRequests();
+      if (bulkAction === 'approve') fetchOverrides();
+    } catch (error) {
+      console.error('Error processing requests:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to process requests',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const closeBulkAction = () => {
+    setBulkAction(null);
+    setBulkNotes('');
+  };
+
   const closeAction = () => {
     setSelectedRequest(null);
     setActionType(null);
@@ -319,6 +311,25 @@ const AttendanceRegularizationAdminPage = () => {
     return true;
   });
 
+  const usage = summarizeRegularizationUsage(requests, usageMonth);
+
+  const selectablePending = filteredRequests.filter(r => r.status === 'Pending');
+  const allPendingSelected = selectablePending.length > 0 && selectablePending.every(r => selectedIds.has(r.id));
+  const selectedPendingCount = requests.filter(r => selectedIds.has(r.id) && r.status === 'Pending').length;
+
+  const toggleRequest = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAllPending = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(selectablePending.map(r => r.id)) : new Set());
+  };
+
   if (loading) {
     return (
       <div className="space-y-6 p-6">
@@ -335,9 +346,15 @@ const AttendanceRegularizationAdminPage = () => {
 
   return (
     <div className="space-y-6 p-6">
-      <div>
-        <h1 className="text-2xl font-bold text-foreground">Attendance Regularization</h1>
-        <p className="text-muted-foreground">Review and process employee attendance regularization requests</p>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Attendance Regularization</h1>
+          <p className="text-muted-foreground">Review and process employee attendance regularization requests</p>
+        </div>
+        <Button variant="outline" onClick={() => setOverrideOpen(true)}>
+          <CalendarCog className="h-4 w-4 mr-2" />
+          Bulk Override
+        </Button>
       </div>
 
       {/* Stats */}
@@ -380,6 +397,24 @@ const AttendanceRegularizationAdminPage = () => {
           </div>
         </CardHeader>
         <CardContent>
+          {selectedPendingCount > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4 p-3 rounded-lg bg-muted">
+              <span className="text-sm font-medium">{selectedPendingCount} pending request(s) selected</span>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                  Clear
+                </Button>
+                <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => setBulkAction('approve')}>
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => setBulkAction('reject')}>
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          )}
           {filteredRequests.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               <Clock className="mx-auto h-12 w-12 mb-4 opacity-50" />
@@ -390,6 +425,14 @@ const AttendanceRegularizationAdminPage = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allPendingSelected}
+                        onCheckedChange={(checked) => toggleAllPending(checked as boolean)}
+                        disabled={selectablePending.length === 0}
+                        aria-label="Select all pending requests"
+                      />
+                    </TableHead>
                     <TableHead>Employee</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead>Current</TableHead>
@@ -403,6 +446,15 @@ const AttendanceRegularizationAdminPage = () => {
                 <TableBody>
                   {filteredRequests.map((request) => (
                     <TableRow key={request.id}>
+                      <TableCell>
+                        {request.status === 'Pending' && (
+                          <Checkbox
+                            checked={selectedIds.has(request.id)}
+                            onCheckedChange={(checked) => toggleRequest(request.id, checked as boolean)}
+                            aria-label={`Select request from ${request.employee?.full_name}`}
+                          />
+                        )}
+                      </TableCell>
                       <TableCell>
                         <div>
                           <p className="font-medium">{request.employee?.full_name}</p>
@@ -423,6 +475,9 @@ const AttendanceRegularizationAdminPage = () => {
                         </Badge>
                       </TableCell>
                       <TableCell className="max-w-[200px] truncate">
+                        {request.reason_code && (
+                          <span className="font-medium">{request.reason_code.label}: </span>
+                        )}
                         {request.reason}
                       </TableCell>
                       <TableCell>
@@ -482,6 +537,178 @@ const AttendanceRegularizationAdminPage = () => {
         </CardContent>
       </Card>
 
+      {/* Usage per Employee */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Usage by Employee
+              </CardTitle>
+              <CardDescription>
+                Requests per employee for days in the month
+                {monthlyLimit !== null ? `, against the limit of ${monthlyLimit}` : ''}. Rejected requests don't count.
+              </CardDescription>
+            </div>
+            <Select value={usageMonth} onValueChange={setUsageMonth}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USAGE_MONTHS.map(date => (
+                  <SelectItem key={format(date, 'yyyy-MM')} value={format(date, 'yyyy-MM')}>
+                    {format(date, 'MMMM yyyy')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {usage.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No regularization requests for this month</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead className="text-right">Pending</TableHead>
+                    <TableHead className="text-right">Approved</TableHead>
+                    <TableHead className="text-right">Rejected</TableHead>
+                    <TableHead className="text-right">Used</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usage.map(row => (
+                    <TableRow key={row.employeeId}>
+                      <TableCell>
+                        <p className="font-medium">{row.fullName}</p>
+                        <p className="text-xs text-muted-foreground">{row.employeeCode}</p>
+                      </TableCell>
+                      <TableCell className="text-right">{row.pending}</TableCell>
+                      <TableCell className="text-right">{row.approved}</TableCell>
+                      <TableCell className="text-right">{row.rejected}</TableCell>
+                      <TableCell className="text-right">
+                        {monthlyLimit !== null ? (
+                          <Badge className={row.used >= monthlyLimit ? statusColors.Rejected : statusColors.Approved}>
+                            {row.used} / {monthlyLimit}
+                          </Badge>
+                        ) : (
+                          <span className="font-medium">{row.used}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Override History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Override History
+          </CardTitle>
+          <CardDescription>Recent changes to attendance by admins, with the status each one replaced</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overrides.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No attendance overrides yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>When</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overrides.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">{entry.employeeName}</TableCell>
+                      <TableCell>{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Badge className={attendanceStatusColors[entry.previous?.status || 'No Record'] || 'bg-gray-100'}>
+                            {entry.previous?.status || 'No Record'}
+                          </Badge>
+                          <span className="text-muted-foreground">→</span>
+                          <Badge className={attendanceStatusColors[entry.newStatus] || 'bg-gray-100'}>
+                            {entry.newStatus}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {OVERRIDE_SOURCE_LABELS[entry.source] || entry.source}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">{entry.reason}</TableCell>
+                      <TableCell className="text-sm">{entry.actorName || '-'}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(entry.createdAt), 'MMM d, HH:mm')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Bulk Approve / Reject Dialog */}
+      <Dialog open={bulkAction !== null} onOpenChange={() => closeBulkAction()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{bulkAction === 'approve' ? 'Approve' : 'Reject'} {selectedPendingCount} Request(s)</DialogTitle>
+            <DialogDescription>
+              {bulkAction === 'approve'
+                ? 'Attendance for each selected day will be set to the requested status.'
+                : 'Each employee will be told the reason below.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>{bulkAction === 'approve' ? 'Admin Notes (optional)' : 'Rejection Reason *'}</Label>
+            <Textarea
+              value={bulkNotes}
+              onChange={(e) => setBulkNotes(e.target.value)}
+              placeholder={bulkAction === 'approve' ? 'Add any notes...' : 'Provide reason for rejection...'}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">The same note is recorded on every selected request.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeBulkAction}>Cancel</Button>
+            <Button
+              onClick={handleBulkAction}
+              disabled={processing}
+              variant={bulkAction === 'reject' ? 'destructive' : 'default'}
+              className={bulkAction === 'approve' ? 'bg-green-600 hover:bg-green-700' : undefined}
+            >
+              {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {bulkAction === 'approve' ? 'Approve All' : 'Reject All'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <BulkAttendanceOverrideDialog
+        open={overrideOpen}
+        onOpenChange={setOverrideOpen}
+        onApplied={fetchOverrides}
+      />
+
       {/* Approve Dialog */}
       <Dialog open={actionType === 'approve'} onOpenChange={() => closeAction()}>
         <DialogContent>
@@ -510,6 +737,9 @@ const AttendanceRegularizationAdminPage = () => {
               </div>
               <div>
                 <Label className="text-muted-foreground text-xs">Employee's Reason</Label>
+                {selectedRequest.reason_code && (
+                  <p className="text-sm mt-1 font-medium">{selectedRequest.reason_code.label}</p>
+                )}
                 <p className="text-sm mt-1">{selectedRequest.reason}</p>
               </div>
               <div className="space-y-2">
@@ -550,6 +780,9 @@ const AttendanceRegularizationAdminPage = () => {
               </div>
               <div>
                 <Label className="text-muted-foreground text-xs">Employee's Reason</Label>
+                {selectedRequest.reason_code && (
+                  <p className="text-sm mt-1 font-medium">{selectedRequest.reason_code.label}</p>
+                )}
                 <p className="text-sm mt-1">{selectedRequest.reason}</p>
               </div>
               <div className="space-y-2">
@@ -612,6 +845,9 @@ const AttendanceRegularizationAdminPage = () => {
               </div>
               <div>
                 <Label className="text-muted-foreground">Reason</Label>
+                {selectedRequest.reason_code && (
+                  <p className="mt-1 text-sm font-medium">{selectedRequest.reason_code.label}</p>
+                )}
                 <p className="mt-1 text-sm">{selectedRequest.reason}</p>
               </div>
               <div className="grid grid-cols-2 gap-4">
@@ -14,6 +14,7 @@ import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import { generateEmailFromName, generateEmployeeCode, parseDDMMYYYY } from '@/lib/employeeUtils';
 import { sendWelcomeEmail } from '@/lib/emailService';
+import { seedLeaveEntitlements } from '@/lib/orgSettings';
 
 interface CSVRow {
   full_name: string;
@@ -349,21 +350,13 @@ const BulkUploadPage = () => {
         console.error('Error assigning onboarding tasks:', taskError);
       }
       
-      // Step 5: Create initial leave entitlements
+      // Step 5: Create initial leave entitlements from the org's leave policy
       if (employee?.org_id) {
-        const leaveTypes = ['Casual Leave', 'Sick Leave', 'Earned Leave'];
-        const leaveEntitlements = leaveTypes.map(type => ({
-          employee_id: newEmployee.id,
-          leave_type: type,
-          total_leaves: type === 'Casual Leave' ? 12 : type === 'Sick Leave' ? 6 : 0,
-          used_leaves: 0,
-          year: new Date().getFullYear(),
-          org_id: employee.org_id!
-        }));
-        
-        await supabase
-          .from('hr_leave_entitlements')
-          .insert(leaveEntitlements);
+        try {
+          await seedLeaveEntitlements(employee.org_id, newEmployee.id, row.gender || null);
+        } catch (leaveError) {
+          console.error('Error initializing leave balances:', leaveError);
+        }
       }
 
       // Step 6: Send welcome email
@@ -13,7 +13,8 @@ import {
 } from '@/components/ui/alert-dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { ArrowLeft, UserCog, Loader2, Trash2, AlertCircle } from 'lucide-react';
+import { ArrowLeft, UserCog, Loader2, Trash2, AlertCircle, SlidersHorizontal } from 'lucide-react';
+import { AdjustLeaveBalanceModal } from '@/components/hr/AdjustLeaveBalanceModal';
 import { format } from 'date-fns';
 
 interface Manager { id: string; full_name: string; role: string; }
@@ -25,6 +26,7 @@ const EditEmployeePage = () => {
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showAdjustBalance, setShowAdjustBalance] = useState(false);
   const [managers, setManagers] = useState<Manager[]>([]);
   const [userId, setUserId] = useState<string | null>(null);
   const [notFound, setNotFound] = useState(false);
@@ -260,6 +262,16 @@ const EditEmployeePage = () => {
               <h2 className="font-semibold text-lg text-foreground">{formData.fullName || 'Employee Name'}</h2>
               <p className="text-sm text-muted-foreground">{formData.employeeCode || 'Employee Code Pending'}</p>
             </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="ml-auto"
+              onClick={() => setShowAdjustBalance(true)}
+              disabled={saving || deleting}
+            >
+              <SlidersHorizontal className="w-4 h-4 mr-2" />
+              Adjust balance
+            </Button>
           </div>
 
           {/* Basic Information */}
@@ -507,6 +519,15 @@ const EditEmployeePage = () => {
         </form>
       </Card>
 
+      {id && (
+        <AdjustLeaveBalanceModal
+          open={showAdjustBalance}
+          onOpenChange={setShowAdjustBalance}
+          employeeId={id}
+          employeeName={formData.fullName}
+        />
+      )}
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { format, parseISO, subMonths } from 'date-fns';
+import { ClipboardList, Download, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
+import { COMP_OFF_LEAVE_TYPE } from '@/lib/leaveTypes';
+import { MUSTER_CODE_LEGEND, MusterRoll, exportMusterRoll, fetchMusterRoll } from '@/lib/musterRoll';
+
+const ALL_DEPARTMENTS = '__all__';
+
+// This month and the eleven before it
+const MONTH_OPTIONS = Array.from({ length: 12 }, (_, i) => subMonths(new Date(), i));
+
+const CODE_STYLES: Record<string, string> = {
+  P: 'text-green-700 dark:text-green-400',
+  R: 'text-green-700 dark:text-green-400 font-semibold',
+  WFH: 'text-teal-700 dark:text-teal-400',
+  HD: 'text-yellow-700 dark:text-yellow-400',
+  A: 'text-red-600 dark:text-red-400 font-semibold',
+  H: 'text-purple-600 dark:text-purple-400',
+  WO: 'text-muted-foreground',
+};
+
+const MusterRollPage = () => {
+  const { settings, leaveTypes, loading: settingsLoading } = useOrgSettings();
+  const [period, setPeriod] = useState(format(new Date(), 'yyyy-MM'));
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [roll, setRoll] = useState<MusterRoll | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const allLeaveTypes = useMemo(() => [...leaveTypes, COMP_OFF_LEAVE_TYPE], [leaveTypes]);
+  const [year, month] = period.split('-').map(Number);
+
+  const loadRoll = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRoll(await fetchMusterRoll(year, month, {
+        weekends: settings.attendancePolicy.weekends,
+        sandwichRule: settings.leavePolicy.sandwichRule,
+        leaveTypes: allLeaveTypes,
+      }));
+    } catch (error) {
+      console.error('Error building muster roll:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to build muster roll',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, month, settings.attendancePolicy.weekends, settings.leavePolicy.sandwichRule, allLeaveTypes]);
+
+  useEffect(() => {
+    if (settingsLoading) return;
+    loadRoll();
+  }, [loadRoll, settingsLoading]);
+
+  const departments = useMemo(
+    () => Array.from(new Set((roll?.rows || []).map(r => r.department).filter(Boolean) as string[])).sort(),
+    [roll]
+  );
+
+  const visibleRoll = useMemo(() => {
+    if (!roll || department === ALL_DEPARTMENTS) return roll;
+    return { ...roll, rows: roll.rows.filter(r => r.department === department) };
+  }, [roll, department]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <ClipboardList className="h-7 w-7 text-primary" />
+            Muster Roll
+          </h1>
+          <p className="text-muted-foreground mt-1">Monthly attendance register with payable days for payroll</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => visibleRoll && exportMusterRoll(visibleRoll, allLeaveTypes, 'xlsx')}
+            disabled={loading || !visibleRoll?.rows.length}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Excel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => visibleRoll && exportMusterRoll(visibleRoll, allLeaveTypes, 'csv')}
+            disabled={loading || !visibleRoll?.rows.length}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card className="glass-card overflow-hidden">
+        <div className="p-4 border-b border-border flex flex-wrap items-center justify-between gap-4">
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_OPTIONS.map(date => (
+                <SelectItem key={format(date, 'yyyy-MM')} value={format(date, 'yyyy-MM')}>
+                  {format(date, 'MMMM yyyy')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+              {departments.map(d => (
+                <SelectItem key={d} value={d}>{d}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !visibleRoll || visibleRoll.rows.length === 0 ? (
+          <div className="p-12 text-center">
+            <ClipboardList className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No employees on the roll for this month</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-card text-left font-medium text-muted-foreground px-4 py-2 min-w-[180px]">
+                    Employee
+                  </th>
+                  {visibleRoll.days.map(date => (
+                    <th key={date} className="px-1 py-2 font-medium text-muted-foreground text-center min-w-[32px]">
+                      <div>{format(parseISO(date), 'd')}</div>
+                      <div className="font-normal">{format(parseISO(date), 'EEEEE')}</div>
+                    </th>
+                  ))}
+                  <th className="px-2 py-2 font-medium text-muted-foreground text-center">P</th>
+                  <th className="px-2 py-2 font-medium text-muted-foreground text-center">WFH</th>
+                  <th className="px-2 py-2 font-medium text-muted-foreground text-center">HD</th>
+                  <th className="px-2 py-2 font-medium text-muted-foreground text-center">A</th>
+                  <th className="px-2 py-2 font-medium text-muted-foreground text-center">Leave</th>
+                  <th className="px-2 py-2 font-medium text-foreground text-center">Payable</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRoll.rows.map(row => (
+                  <tr key={row.employeeId} className="border-t border-border">
+                    <td className="sticky left-0 bg-card px-4 py-2">
+                      <p className="font-medium text-foreground truncate">{row.fullName}</p>
+                      <p className="text-muted-foreground">{row.employeeCode}</p>
+                    </td>
+                    {row.codes.map((code, i) => (
+                      <td
+                        key={visibleRoll.days[i]}
+                        className={cn('px-1 py-2 text-center', CODE_STYLES[code] || 'text-blue-600 dark:text-blue-400')}
+                      >
+                        {code}
+                      </td>
+                    ))}
+                    <td className="px-2 py-2 text-center">{row.totals.present}</td>
+                    <td className="px-2 py-2 text-center">{row.totals.wfh}</td>
+                    <td className="px-2 py-2 text-center">{row.totals.halfDays}</td>
+                    <td className="px-2 py-2 text-center">{row.totals.absent}</td>
+                    <td className="px-2 py-2 text-center">{row.totals.leave}</td>
+                    <td className="px-2 py-2 text-center font-semibold text-foreground">{row.totals.payable}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="p-4 border-t border-border flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {MUSTER_CODE_LEGEND.map(c => (
+            <span key={c.code}>
+              <span className={cn('font-medium', CODE_STYLES[c.code])}>{c.code}</span> {c.label}
+            </span>
+          ))}
+          {allLeaveTypes.map(lt => (
+            <span key={lt.value}>
+              <span className="font-medium text-blue-600 dark:text-blue-400">{lt.shortLabel}</span> {lt.label}
+            </span>
+          ))}
+          <span>A ½ after a leave code marks a half-day leave</span>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default MusterRollPage;
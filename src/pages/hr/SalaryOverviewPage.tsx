@@ -16,6 +16,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Upload, FileUp, Plus, Search, History, Edit, DollarSign, Users } from 'lucide-react';
 import { StatCard } from '@/components/shared/StatCard';
+import { OvertimeSummaryCard } from '@/components/hr/OvertimeSummaryCard';
+import { SalaryLineItem, fetchSalaryLineItems, sumSalaryLineItems } from '@/lib/leaveEncashment';
+import { useOrgSettings } from '@/hooks/useOrgSettings';
 
 interface Employee {
   id: string;
@@ -54,6 +57,7 @@ const paymentStatusColors: Record<string, string> = {
 const SalaryOverviewPage = () => {
   const { employee } = useAuth();
   const { toast } = useToast();
+  const { settings } = useOrgSettings();
 
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [salaryHistory, setSalaryHistory] = useState<Record<string, SalaryHistory[]>>({});
@@ -69,6 +73,7 @@ const SalaryOverviewPage = () => {
   const [statusModalOpen, setStatusModalOpen] = useState(false);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
   const [selectedHistory, setSelectedHistory] = useState<SalaryHistory[]>([]);
+  const [selectedLineItems, setSelectedLineItems] = useState<Record<string, SalaryLineItem[]>>({});
   const [processing, setProcessing] = useState(false);
 
   // Form states
@@ -317,10 +322,18 @@ const SalaryOverviewPage = () => {
     }
   };
 
-  const openHistoryModal = (emp: Employee) => {
+  const openHistoryModal = async (emp: Employee) => {
+    const history = salaryHistory[emp.id] || [];
     setSelectedEmployee(emp);
-    setSelectedHistory(salaryHistory[emp.id] || []);
+    setSelectedHistory(history);
+    setSelectedLineItems({});
     setHistoryModalOpen(true);
+
+    try {
+      setSelectedLineItems(await fetchSalaryLineItems(history.map(h => h.id)));
+    } catch (error) {
+      console.error('Error fetching salary line items:', error);
+    }
   };
 
   const formatCurrency = (amount: number) => {
@@ -473,6 +486,8 @@ const SalaryOverviewPage = () => {
         </CardContent>
       </Card>
 
+      {settings.attendancePolicy.overtime.enabled && <OvertimeSummaryCard />}
+
       {/* Single Upload Modal */}
       <Dialog open={uploadModalOpen} onOpenChange={setUploadModalOpen}>
         <DialogContent>
@@ -648,9 +663,16 @@ const SalaryOverviewPage = () => {
                 {selectedHistory.map((h) => (
                   <TableRow key={h.id}>
                     <TableCell>{monthNames[h.month - 1]} {h.year}</TableCell>
-                    <TableCell className="text-right">{formatCurrency(h.gross_salary)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(h.gross_salary)}
+                      {(selectedLineItems[h.id] || []).map((item) => (
+                        <p key={item.id} className="text-xs text-muted-foreground" title={item.description}>
+                          + {item.item_type === 'leave_encashment' ? 'leave encashment' : item.item_type} {formatCurrency(item.amount)}
+                        </p>
+                      ))}
+                    </TableCell>
                     <TableCell className="text-right">{formatCurrency(h.deductions || 0)}</TableCell>
-                    <TableCell className="text-right font-medium">{formatCurrency(h.net_salary)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(h.net_salary + sumSalaryLineItems(selectedLineItems[h.id]))}</TableCell>
                     <TableCell>
                       <Badge className={paymentStatusColors[h.payment_status || 'Pending']}>{h.payment_status || 'Pending'}</Badge>
                     </TableCell>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,6 +7,7 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
+import { format, subDays } from 'date-fns';
 import { 
   Clock, 
   Calendar, 
@@ -14,7 +15,10 @@ import {
   Save,
   Info,
   RefreshCw,
-  Loader2
+  Loader2,
+  Plus,
+  Trash2,
+  ClipboardList
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
@@ -24,45 +28,138 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { LEAVE_TYPES } from '@/lib/leaveTypes';
+import { useAuth } from '@/contexts/AuthContext';
+import { OfficeLocationsCard } from '@/components/hr/OfficeLocationsCard';
+import { ShiftsCard } from '@/components/hr/ShiftsCard';
+import { RegularizationReasonsCard } from '@/components/hr/RegularizationReasonsCard';
+import { ProjectsCard } from '@/components/hr/ProjectsCard';
+import { TaskCategoriesCard } from '@/components/hr/TaskCategoriesCard';
+import {
+  AttendancePolicy,
+  CompanySettings,
+  DEFAULT_ATTENDANCE_POLICY,
+  DEFAULT_COMPANY_SETTINGS,
+  DEFAULT_LEAVE_POLICY,
+  EncashmentPolicy,
+  LeaveApprovalRule,
+  LeavePolicy,
+  TeamCoveragePolicy,
+  applyLeavePolicy,
+  fetchOrgSettings,
+  runAttendanceConsolidation,
+  runEarnedLeaveAccrual,
+  saveOrgSettings,
+} from '@/lib/orgSettings';
+
+// Approval chains offered in the workflow editor, keyed by their Select value
+const APPROVAL_CHAIN_OPTIONS: Record<string, LeaveApprovalRule['steps']> = {
+  'Manager': ['Manager'],
+  'Manager,HR': ['Manager', 'HR'],
+  'HR': ['HR'],
+};
 
 const SettingsPage = () => {
   const { toast } = useToast();
+  const { employee, orgId } = useAuth();
   const [carryingForward, setCarryingForward] = useState(false);
+  const [accruing, setAccruing] = useState(false);
+  const [consolidating, setConsolidating] = useState(false);
+  const [consolidationDate, setConsolidationDate] = useState(format(subDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
   
-  const [attendanceSettings, setAttendanceSettings] = useState({
-    workStartTime: '09:00',
-    workEndTime: '18:00',
-    graceMinutes: 15,
-    halfDayHours: 4,
-    fullDayHours: 8,
-    weekends: ['saturday', 'sunday'],
-  });
-
-  const [leaveSettings, setLeaveSettings] = useState({
-    casualLeaveQuota: 6,
-    sickLeaveQuota: 6,
-    earnedLeaveQuota: 18,
-    menstruationLeaveQuota: 12,
-    specialLeaveQuota: 1,
-    earnedLeaveCarryForwardLimit: 30,
-    requireApproval: true,
-  });
-
-  const [companySettings, setCompanySettings] = useState({
-    companyName: 'LabelNest',
-    timezone: 'Asia/Kolkata',
-    dateFormat: 'DD/MM/YYYY',
-    currency: 'INR',
-  });
-
-  const handleSave = () => {
-    toast({
-      title: 'Settings saved',
-      description: 'Your changes have been saved successfully.',
+  const [attendanceSettings, setAttendanceSettings] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY);
+  const [leaveSettings, setLeaveSettings] = useState<LeavePolicy>(DEFAULT_LEAVE_POLICY);
+  const [companySettings, setCompanySettings] = useState<CompanySettings>(DEFAULT_COMPANY_SETTINGS);
+
+  useEffect(() => {
+    if (!orgId) {
+      setLoading(false);
+      return;
+    }
+
+    const loadSettings = async () => {
+      try {
+        const settings = await fetchOrgSettings(orgId);
+        setAttendanceSettings(settings.attendancePolicy);
+        setLeaveSettings(settings.leavePolicy);
+        setCompanySettings(settings.companySettings);
+      } catch (error) {
+        console.error('Error loading settings:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load settings',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [orgId, toast]);
+
+  const leaveTypes = useMemo(() => applyLeavePolicy(leaveSettings), [leaveSettings]);
+
+  const setLeaveQuota = (leaveType: string, days: number) => {
+    setLeaveSettings({
+      ...leaveSettings,
+      quotas: { ...leaveSettings.quotas, [leaveType]: isNaN(days) ? 0 : days },
     });
   };
 
+  const updateApprovalRule = (index: number, changes: Partial<LeaveApprovalRule>) => {
+    setLeaveSettings({
+      ...leaveSettings,
+      approvalRules: leaveSettings.approvalRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const addApprovalRule = () => {
+    setLeaveSettings({
+      ...leaveSettings,
+      approvalRules: [...leaveSettings.approvalRules, { leaveType: null, moreThanDays: 5, steps: ['Manager', 'HR'] }],
+    });
+  };
+
+  const removeApprovalRule = (index: number) => {
+    setLeaveSettings({
+      ...leaveSettings,
+      approvalRules: leaveSettings.approvalRules.filter((_, i) => i !== index),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!orgId) return;
+
+    setSaving(true);
+    try {
+      await saveOrgSettings(
+        orgId,
+        {
+          leavePolicy: leaveSettings,
+          attendancePolicy: attendanceSettings,
+          companySettings,
+        },
+        employee?.id
+      );
+
+      toast({
+        title: 'Settings saved',
+        description: 'Your changes have been saved successfully.',
+      });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save settings. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleCarryForwardEL = async () => {
     setCarryingForward(true);
     try {
@@ -72,7 +169,7 @@ const SettingsPage = () => {
       
       toast({
         title: 'Carry Forward Complete',
-        description: 'Earned Leave balances have been carried forward successfully (max 30 days).',
+        description: `Earned Leave balances have been carried forward successfully (max ${leaveSettings.earnedLeaveCarryForwardLimit} days).`,
       });
     } catch (error) {
       console.error('Error carrying forward EL:', error);
@@ -86,6 +183,60 @@ const SettingsPage = () => {
     }
   };
 
+  const handleRunAccrual = async () => {
+    setAccruing(true);
+    try {
+      const credited = await runEarnedLeaveAccrual();
+
+      toast({
+        title: 'Accrual Complete',
+        description: credited > 0
+          ? `Credited Earned Leave for ${credited} employee-month${credited === 1 ? '' : 's'}.`
+          : 'All employees are already up to date.',
+      });
+    } catch (error) {
+      console.error('Error running EL accrual:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to run earned leave accrual. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setAccruing(false);
+    }
+  };
+
+  const handleRunConsolidation = async () => {
+    setConsolidating(true);
+    try {
+      const processed = await runAttendanceConsolidation(consolidationDate);
+
+      toast({
+        title: 'Consolidation Complete',
+        description: processed > 0
+          ? `Updated attendance for ${processed} employee${processed === 1 ? '' : 's'}.`
+          : 'Nothing to consolidate for that day.',
+      });
+    } catch (error) {
+      console.error('Error consolidating attendance:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to consolidate attendance. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setConsolidating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
@@ -93,14 +244,18 @@ const SettingsPage = () => {
           <h1 className="text-2xl font-display font-bold text-foreground">Settings</h1>
           <p className="text-muted-foreground">Configure HR policies and system preferences</p>
         </div>
-        <Button onClick={handleSave}>
-          <Save className="w-4 h-4 mr-2" />
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
           Save Changes
         </Button>
       </div>
 
       <Tabs defaultValue="leave" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="attendance" className="flex items-center gap-2">
             <Clock className="w-4 h-4" />
             Attendance
@@ -113,15 +268,22 @@ const SettingsPage = () => {
             <Building2 className="w-4 h-4" />
             Company
           </TabsTrigger>
+          <TabsTrigger value="worklog" className="flex items-center gap-2">
+            <ClipboardList className="w-4 h-4" />
+            Work Log
+          </TabsTrigger>
         </TabsList>
 
         {/* Attendance Settings */}
         <TabsContent value="attendance">
           <Card className="p-6 glass-card">
-            <h3 className="text-lg font-semibold text-foreground mb-6 flex items-center gap-2">
+            <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center gap-2">
               <Clock className="w-5 h-5" />
               Attendance Policy
             </h3>
+            <p className="text-sm text-muted-foreground mb-6">
+              Standard hours, used for anyone without a shift on the roster that day.
+            </p>
             <div className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
@@ -171,8 +333,231 @@ const SettingsPage = () => {
                   />
                 </div>
               </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label>Missing Punch-Outs</Label>
+                    <Select
+                      value={attendanceSettings.openSessionPolicy}
+                      onValueChange={(value) => setAttendanceSettings({
+                        ...attendanceSettings,
+                        openSessionPolicy: value as AttendancePolicy['openSessionPolicy'],
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="shift_end">Punch out at the shift end</SelectItem>
+                        <SelectItem value="review">Count no hours, pending regularization</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="p-4 bg-muted/50 rounded-lg">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h4 className="font-medium text-foreground">End-of-Day Consolidation</h4>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Closes missing punch-outs, sets each day's final status, and marks absent anyone with no punch, leave or holiday. Runs automatically a few hours after each shift ends; employees are notified so they can apply for regularization.
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Input
+                        type="date"
+                        value={consolidationDate}
+                        max={format(new Date(), 'yyyy-MM-dd')}
+                        onChange={(e) => setConsolidationDate(e.target.value)}
+                        className="w-40"
+                      />
+                      <Button
+                        onClick={handleRunConsolidation}
+                        disabled={consolidating || !consolidationDate}
+                        variant="outline"
+                      >
+                        {consolidating ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                        )}
+                        Run Now
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">Overtime</p>
+                    <p className="text-sm text-muted-foreground">
+                      Hours beyond the daily or weekly threshold become overtime claims for the manager to approve. Shifts can set their own threshold and rate.{' '}
+                      {leaveSettings.compOff.enabled
+                        ? 'Weekend and holiday work earns comp-off instead while that is enabled.'
+                        : 'All weekend and holiday hours are overtime.'}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={attendanceSettings.overtime.enabled}
+                    onCheckedChange={(checked) => setAttendanceSettings({
+                      ...attendanceSettings,
+                      overtime: { ...attendanceSettings.overtime, enabled: checked },
+                    })}
+                  />
+                </div>
+
+                {attendanceSettings.overtime.enabled && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      <div className="space-y-2">
+                        <Label>Daily Threshold (hours)</Label>
+                        <Input
+                          type="number"
+                          min={0.5}
+                          step={0.5}
+                          value={attendanceSettings.overtime.dailyThresholdHours ?? ''}
+                          placeholder="Full day"
+                          onChange={(e) => setAttendanceSettings({
+                            ...attendanceSettings,
+                            overtime: { ...attendanceSettings.overtime, dailyThresholdHours: parseFloat(e.target.value) || null },
+                          })}
+                        />
+                        <p className="text-xs text-muted-foreground">Leave blank to use each shift's full day</p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Weekly Threshold (hours)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={attendanceSettings.overtime.weeklyThresholdHours ?? ''}
+                          placeholder="No limit"
+                          onChange={(e) => setAttendanceSettings({
+                            ...attendanceSettings,
+                            overtime: { ...attendanceSettings.overtime, weeklyThresholdHours: parseFloat(e.target.value) || null },
+                          })}
+                        />
+                        <p className="text-xs text-muted-foreground">Working-day hours, Monday to Sunday</p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Minimum Claim (minutes)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={attendanceSettings.overtime.minMinutes}
+                          onChange={(e) => setAttendanceSettings({
+                            ...attendanceSettings,
+                            overtime: { ...attendanceSettings.overtime, minMinutes: parseInt(e.target.value) },
+                          })}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      <div className="space-y-2">
+                        <Label>Working Day Rate (×)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          step={0.25}
+                          value={attendanceSettings.overtime.weekdayMultiplier}
+                          onChange={(e) => setAttendanceSettings({
+                            ...attendanceSettings,
+                            overtime: { ...attendanceSettings.overtime, weekdayMultiplier: parseFloat(e.target.value) },
+                          })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Weekend Rate (×)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          step={0.25}
+                          value={attendanceSettings.overtime.weekendMultiplier}
+                          disabled={leaveSettings.compOff.enabled}
+                          onChange={(e) => setAttendanceSettings({
+                            ...attendanceSettings,
+                            overtime: { ...attendanceSettings.overtime, weekendMultiplier: parseFloat(e.target.value) },
+                          })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Holiday Rate (×)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          step={0.25}
+                          value={attendanceSettings.overtime.holidayMultiplier}
+                          disabled={leaveSettings.compOff.enabled}
+                          onChange={(e) => setAttendanceSettings({
+                            ...attendanceSettings,
+                            overtime: { ...attendanceSettings.overtime, holidayMultiplier: parseFloat(e.target.value) },
+                          })}
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div>
+                  <p className="font-medium text-foreground">Regularization Limits</p>
+                  <p className="text-sm text-muted-foreground">
+                    Pending and approved requests count towards the monthly limit; rejected ones don't.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label>Requests per Month</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={attendanceSettings.regularization.monthlyLimit ?? ''}
+                      placeholder="No limit"
+                      onChange={(e) => setAttendanceSettings({
+                        ...attendanceSettings,
+                        regularization: { ...attendanceSettings.regularization, monthlyLimit: parseInt(e.target.value) || null },
+                      })}
+                    />
+                    <p className="text-xs text-muted-foreground">Per employee, by the month of the day being corrected</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Request Window (days)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={attendanceSettings.regularization.maxAgeDays ?? ''}
+                      placeholder="No limit"
+                      onChange={(e) => setAttendanceSettings({
+                        ...attendanceSettings,
+                        regularization: { ...attendanceSettings.regularization, maxAgeDays: parseInt(e.target.value) || null },
+                      })}
+                    />
+                    <p className="text-xs text-muted-foreground">How far back employees can request a correction</p>
+                  </div>
+                </div>
+              </div>
             </div>
           </Card>
+
+          {orgId && (
+            <div className="mt-6 space-y-6">
+              <ShiftsCard orgId={orgId} />
+              <OfficeLocationsCard
+                orgId={orgId}
+                enforcement={attendanceSettings.punchEnforcement}
+                onEnforcementChange={(punchEnforcement) => setAttendanceSettings({ ...attendanceSettings, punchEnforcement })}
+              />
+              <RegularizationReasonsCard orgId={orgId} />
+            </div>
+          )}
         </TabsContent>
 
         {/* Leave Settings */}
@@ -189,7 +574,7 @@ const SettingsPage = () => {
                 <h4 className="font-medium text-foreground mb-3">Leave Types Overview</h4>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                   <TooltipProvider>
-                    {LEAVE_TYPES.map((type) => (
+                    {leaveTypes.map((type) => (
                       <div key={type.value} className="flex items-start gap-2 p-2 bg-background rounded">
                         <div className="flex-1">
                           <p className="text-sm font-medium">{type.label}</p>
@@ -216,67 +601,19 @@ const SettingsPage = () => {
 
               <div className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                  <div className="space-y-2">
-                    <Label>Casual Leave Quota</Label>
-                    <Input 
-                      type="number" 
-                      value={leaveSettings.casualLeaveQuota}
-                      onChange={(e) => setLeaveSettings({ ...leaveSettings, casualLeaveQuota: parseInt(e.target.value) })}
-                    />
-                    <p className="text-xs text-muted-foreground">Days per year (non-carry forward)</p>
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Sick Leave Quota</Label>
-                    <Input 
-                      type="number" 
-                      value={leaveSettings.sickLeaveQuota}
-                      onChange={(e) => setLeaveSettings({ ...leaveSettings, sickLeaveQuota: parseInt(e.target.value) })}
-                    />
-                    <p className="text-xs text-muted-foreground">Days per year (non-carry forward)</p>
-                  </div>
-                  <div className="space-y-2">
-                    <Label className="flex items-center gap-1">
-                      Earned Leave Quota
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Info className="w-3 h-3 text-muted-foreground" />
-                          </TooltipTrigger>
-                          <TooltipContent>
-                            <p>1.5 days accrued per month</p>
-                            <p>Carries forward to max 30 days</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
-                    </Label>
-                    <Input 
-                      type="number" 
-                      value={leaveSettings.earnedLeaveQuota}
-                      onChange={(e) => setLeaveSettings({ ...leaveSettings, earnedLeaveQuota: parseInt(e.target.value) })}
-                    />
-                    <p className="text-xs text-muted-foreground">Days per year (carries forward)</p>
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                  <div className="space-y-2">
-                    <Label>Menstruation Leave Quota</Label>
-                    <Input 
-                      type="number" 
-                      value={leaveSettings.menstruationLeaveQuota}
-                      onChange={(e) => setLeaveSettings({ ...leaveSettings, menstruationLeaveQuota: parseInt(e.target.value) })}
-                    />
-                    <p className="text-xs text-muted-foreground">Days per year (female employees)</p>
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Special Leave Quota</Label>
-                    <Input 
-                      type="number" 
-                      value={leaveSettings.specialLeaveQuota}
-                      onChange={(e) => setLeaveSettings({ ...leaveSettings, specialLeaveQuota: parseInt(e.target.value) })}
-                    />
-                    <p className="text-xs text-muted-foreground">Days per year (birthday/occasion)</p>
-                  </div>
+                  {leaveTypes.map((type) => (
+                    <div key={type.value} className="space-y-2">
+                      <Label>{type.label} Quota</Label>
+                      <Input 
+                        type="number" 
+                        value={leaveSettings.quotas[type.value] ?? 0}
+                        onChange={(e) => setLeaveQuota(type.value, parseFloat(e.target.value))}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Days per year ({type.carryForward ? 'carries forward' : type.genderRestriction ? `${type.genderRestriction.toLowerCase()} employees` : 'non-carry forward'})
+                      </p>
+                    </div>
+                  ))}
                   <div className="space-y-2">
                     <Label className="flex items-center gap-1">
                       EL Carry Forward Limit
@@ -296,7 +633,23 @@ const SettingsPage = () => {
                       value={leaveSettings.earnedLeaveCarryForwardLimit}
                       onChange={(e) => setLeaveSettings({ ...leaveSettings, earnedLeaveCarryForwardLimit: parseInt(e.target.value) })}
                     />
-                    <p className="text-xs text-muted-foreground">Max days (default: 30)</p>
+                    <p className="text-xs text-muted-foreground">Max days (default: {DEFAULT_LEAVE_POLICY.earnedLeaveCarryForwardLimit})</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>EL Accrual</Label>
+                    <Select
+                      value={leaveSettings.earnedLeaveAccrual}
+                      onValueChange={(value) => setLeaveSettings({ ...leaveSettings, earnedLeaveAccrual: value as LeavePolicy['earnedLeaveAccrual'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="monthly">Monthly (pro-rated from joining date)</SelectItem>
+                        <SelectItem value="upfront">Full quota at start of year</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">How Earned Leave is credited</p>
                   </div>
                 </div>
 
@@ -312,6 +665,255 @@ const SettingsPage = () => {
                     onCheckedChange={(checked) => setLeaveSettings({ ...leaveSettings, requireApproval: checked })}
                   />
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">Sandwich Rule</p>
+                    <p className="text-sm text-muted-foreground">Weekends and holidays falling between leave days are counted as leave</p>
+                  </div>
+                  <Switch 
+                    checked={leaveSettings.sandwichRule}
+                    onCheckedChange={(checked) => setLeaveSettings({ ...leaveSettings, sandwichRule: checked })}
+                  />
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-foreground">Leave Encashment</p>
+                      <p className="text-sm text-muted-foreground">
+                        Employees can encash Earned Leave above the {leaveSettings.earnedLeaveCarryForwardLimit}-day carry-forward cap. Approved amounts are paid with the next salary record.
+                      </p>
+                    </div>
+                    <Switch
+                      checked={leaveSettings.encashment.enabled}
+                      onCheckedChange={(checked) => setLeaveSettings({ ...leaveSettings, encashment: { ...leaveSettings.encashment, enabled: checked } })}
+                    />
+                  </div>
+
+                  {leaveSettings.encashment.enabled && (
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Daily Rate</Label>
+                        <Select
+                          value={leaveSettings.encashment.rateBasis}
+                          onValueChange={(value) => setLeaveSettings({
+                            ...leaveSettings,
+                            encashment: { ...leaveSettings.encashment, rateBasis: value as EncashmentPolicy['rateBasis'] },
+                          })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="salary">From latest gross salary</SelectItem>
+                            <SelectItem value="fixed">Fixed amount per day</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {leaveSettings.encashment.rateBasis === 'salary' ? (
+                        <div className="space-y-2">
+                          <Label>Days per Month</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={leaveSettings.encashment.salaryDivisor}
+                            onChange={(e) => setLeaveSettings({
+                              ...leaveSettings,
+                              encashment: { ...leaveSettings.encashment, salaryDivisor: parseInt(e.target.value) },
+                            })}
+                          />
+                          <p className="text-xs text-muted-foreground">Daily rate = gross salary / days per month</p>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <Label>Rate per Day ({companySettings.currency})</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={leaveSettings.encashment.fixedDailyRate}
+                            onChange={(e) => setLeaveSettings({
+                              ...leaveSettings,
+                              encashment: { ...leaveSettings.encashment, fixedDailyRate: parseFloat(e.target.value) },
+                            })}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-foreground">Compensatory Off</p>
+                      <p className="text-sm text-muted-foreground">
+                        Working on a weekend or holiday earns comp-off once the manager approves it. A full day needs {attendanceSettings.fullDayHours} hours; less earns half a day.
+                      </p>
+                    </div>
+                    <Switch
+                      checked={leaveSettings.compOff.enabled}
+                      onCheckedChange={(checked) => setLeaveSettings({ ...leaveSettings, compOff: { ...leaveSettings.compOff, enabled: checked } })}
+                    />
+                  </div>
+
+                  {leaveSettings.compOff.enabled && (
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Minimum Hours Worked</Label>
+                        <Input
+                          type="number"
+                          min={0.5}
+                          step={0.5}
+                          value={leaveSettings.compOff.minHours}
+                          onChange={(e) => setLeaveSettings({
+                            ...leaveSettings,
+                            compOff: { ...leaveSettings.compOff, minHours: parseFloat(e.target.value) },
+                          })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Expires After (days)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={leaveSettings.compOff.expiryDays}
+                          onChange={(e) => setLeaveSettings({
+                            ...leaveSettings,
+                            compOff: { ...leaveSettings.compOff, expiryDays: parseInt(e.target.value) },
+                          })}
+                        />
+                        <p className="text-xs text-muted-foreground">Counted from the day worked; unused credit lapses</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <div>
+                    <p className="font-medium text-foreground">Team Coverage</p>
+                    <p className="text-sm text-muted-foreground">
+                      Approvers are warned when approving a leave would leave fewer people available than this on a working day. Set to 0 to turn the warning off.
+                    </p>
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Minimum Available Headcount</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={leaveSettings.teamCoverage.minAvailable}
+                        onChange={(e) => setLeaveSettings({
+                          ...leaveSettings,
+                          teamCoverage: { ...leaveSettings.teamCoverage, minAvailable: parseInt(e.target.value) },
+                        })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Measured Across</Label>
+                      <Select
+                        value={leaveSettings.teamCoverage.scope}
+                        onValueChange={(value) => setLeaveSettings({
+                          ...leaveSettings,
+                          teamCoverage: { ...leaveSettings.teamCoverage, scope: value as TeamCoveragePolicy['scope'] },
+                        })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="team">Team (same manager)</SelectItem>
+                          <SelectItem value="department">Department</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-foreground">Approval Workflows</p>
+                      <p className="text-sm text-muted-foreground">
+                        Rules are checked in order and the first match decides who approves. Requests matching no rule go to the manager only.
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={addApprovalRule} disabled={!leaveSettings.requireApproval}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Rule
+                    </Button>
+                  </div>
+
+                  {leaveSettings.approvalRules.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No rules configured</p>
+                  ) : (
+                    leaveSettings.approvalRules.map((rule, index) => (
+                      <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-3 items-end p-3 bg-muted/50 rounded-lg">
+                        <div className="space-y-2">
+                          <Label>Leave Type</Label>
+                          <Select
+                            value={rule.leaveType ?? 'any'}
+                            onValueChange={(value) => updateApprovalRule(index, { leaveType: value === 'any' ? null : value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="any">Any leave type</SelectItem>
+                              {leaveTypes.map((type) => (
+                                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>More Than (days)</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            placeholder="Any duration"
+                            value={rule.moreThanDays ?? ''}
+                            onChange={(e) => updateApprovalRule(index, {
+                              moreThanDays: e.target.value === '' ? null : parseFloat(e.target.value),
+                            })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Approved By</Label>
+                          <Select
+                            value={rule.steps.join(',')}
+                            onValueChange={(value) => updateApprovalRule(index, { steps: APPROVAL_CHAIN_OPTIONS[value] })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(APPROVAL_CHAIN_OPTIONS).map(([value, steps]) => (
+                                <SelectItem key={value} value={value}>{steps.join(' → ')}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeApprovalRule(index)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
               </div>
             </Card>
 
@@ -319,14 +921,44 @@ const SettingsPage = () => {
             <Card className="p-6 glass-card">
               <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
                 <RefreshCw className="w-5 h-5" />
-                Year-End Operations
+                Leave Balance Operations
               </h3>
+              {leaveSettings.earnedLeaveAccrual === 'monthly' && (
+                <div className="p-4 bg-muted/50 rounded-lg mb-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h4 className="font-medium text-foreground">Monthly Earned Leave Accrual</h4>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Credits {Math.round(((leaveSettings.quotas['Earned Leave'] ?? 0) / 12) * 100) / 100} days of Earned Leave per month to every active employee, pro-rated for the month they joined. Runs automatically on the 1st; running it again never credits a month twice.
+                      </p>
+                    </div>
+                    <Button
+                      onClick={handleRunAccrual}
+                      disabled={accruing}
+                      variant="outline"
+                      className="shrink-0"
+                    >
+                      {accruing ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Processing...
+                        </>
+                      ) : (
+                        <>
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                          Run Accrual
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              )}
               <div className="p-4 bg-muted/50 rounded-lg">
                 <div className="flex items-start justify-between gap-4">
                   <div>
                     <h4 className="font-medium text-foreground">Carry Forward Earned Leaves</h4>
                     <p className="text-sm text-muted-foreground mt-1">
-                      Process year-end carry forward for all employees. Unused Earned Leave will be carried forward to the next year, up to a maximum of 30 days.
+                      Process year-end carry forward for all employees. Unused Earned Leave will be carried forward to the next year, up to a maximum of {leaveSettings.earnedLeaveCarryForwardLimit} days.
                     </p>
                     <div className="mt-3 p-3 bg-background rounded border border-border">
                       <p className="text-xs text-muted-foreground">
@@ -334,8 +966,9 @@ const SettingsPage = () => {
                       </p>
                       <ul className="text-xs text-muted-foreground mt-1 space-y-1 list-disc list-inside">
                         <li>Only Earned Leave (EL) carries forward</li>
-                        <li>Maximum carry forward: 30 days</li>
+                        <li>Maximum carry forward: {leaveSettings.earnedLeaveCarryForwardLimit} days (saved policy)</li>
                         <li>Casual Leave, Sick Leave, and other types reset to their annual quota</li>
+                        <li>Save policy changes before running carry forward</li>
                         <li>Run this at the end of the year or beginning of new year</li>
                       </ul>
                     </div>
@@ -428,6 +1061,16 @@ const SettingsPage = () => {
             </div>
           </Card>
         </TabsContent>
+
+        {/* Work Log Settings */}
+        <TabsContent value="worklog">
+          {orgId && (
+            <div className="space-y-6">
+              <TaskCategoriesCard orgId={orgId} />
+              <ProjectsCard orgId={orgId} />
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
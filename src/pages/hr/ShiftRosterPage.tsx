@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { addDays, addWeeks, format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { CalendarClock, ChevronLeft, ChevronRight, Copy, Loader2, Save } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  Shift,
+  ShiftAssignment,
+  fetchRoster,
+  fetchShifts,
+  formatShiftWindow,
+  saveRoster,
+  toShiftRule,
+} from '@/lib/shifts';
+
+interface RosterEmployee {
+  id: string;
+  full_name: string;
+  employee_code: string | null;
+  department: string | null;
+}
+
+const ALL_DEPARTMENTS = '__all__';
+const STANDARD = '__standard__';
+
+const cellKey = (employeeId: string, date: string) => `${employeeId}|${date}`;
+
+const ShiftRosterPage = () => {
+  const { employee, orgId } = useAuth();
+  const [weekStart, setWeekStart] = useState(startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [employees, setEmployees] = useState<RosterEmployee[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [assignments, setAssignments] = useState<ShiftAssignment[]>([]);
+  const [edits, setEdits] = useState<Map<string, string>>(new Map()); // cell -> shift id or STANDARD
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const days = useMemo(
+    () => Array.from({ length: 7 }, (_, i) => format(addDays(weekStart, i), 'yyyy-MM-dd')),
+    [weekStart]
+  );
+
+  useEffect(() => {
+    const loadEmployees = async () => {
+      try {
+        const [{ data, error }, shiftData] = await Promise.all([
+          supabase
+            .from('hr_employees')
+            .select('id, full_name, employee_code, hr_employee_details(department)')
+            .eq('status', 'Active')
+            .order('full_name'),
+          fetchShifts(true),
+        ]);
+
+        if (error) throw error;
+        setEmployees((data || []).map(e => ({
+          id: e.id,
+          full_name: e.full_name,
+          employee_code: e.employee_code,
+          department: e.hr_employee_details?.[0]?.department ?? null,
+        })));
+        setShifts(shiftData);
+      } catch (error) {
+        console.error('Error fetching employees:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load employees',
+          variant: 'destructive',
+        });
+      }
+    };
+    loadEmployees();
+  }, []);
+
+  const loadRoster = useCallback(async () => {
+    setLoading(true);
+    try {
+      setAssignments(await fetchRoster(days[0], days[6]));
+      setEdits(new Map());
+    } catch (error) {
+      console.error('Error fetching roster:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load roster',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadRoster();
+  }, [loadRoster]);
+
+  const departments = useMemo(
+    () => Array.from(new Set(employees.map(e => e.department).filter(Boolean) as string[])).sort(),
+    [employees]
+  );
+
+  const visibleEmployees = department === ALL_DEPARTMENTS
+    ? employees
+    : employees.filter(e => e.department === department);
+
+  const saved = useMemo(
+    () => new Map(assignments.map(a => [cellKey(a.employee_id, a.work_date), a])),
+    [assignments]
+  );
+
+  const getCellValue = (employeeId: string, date: string): string => {
+    const key = cellKey(employeeId, date);
+    return edits.get(key) ?? saved.get(key)?.shift_id ?? STANDARD;
+  };
+
+  const setCell = (employeeId: string, date: string, value: string) => {
+    const key = cellKey(employeeId, date);
+    const next = new Map(edits);
+    if ((saved.get(key)?.shift_id ?? STANDARD) === value) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+    setEdits(next);
+  };
+
+  // Repeat last week's roster for the visible employees
+  const handleCopyPreviousWeek = async () => {
+    try {
+      const previous = await fetchRoster(
+        format(subWeeks(weekStart, 1), 'yyyy-MM-dd'),
+        format(addDays(subWeeks(weekStart, 1), 6), 'yyyy-MM-dd')
+      );
+      const byCell = new Map(previous.map(a => [cellKey(a.employee_id, format(addWeeks(parseISO(a.work_date), 1), 'yyyy-MM-dd')), a.shift_id]));
+      const next = new Map(edits);
+
+      visibleEmployees.forEach(emp => {
+        days.forEach(date => {
+          const key = cellKey(emp.id, date);
+          const value = byCell.get(key) ?? STANDARD;
+          if ((saved.get(key)?.shift_id ?? STANDARD) === value) {
+            next.delete(key);
+          } else {
+            next.set(key, value);
+          }
+        });
+      });
+      setEdits(next);
+    } catch (error) {
+      console.error('Error fetching previous roster:', error);
+      toast({
+        title: 'Error',
+        description: "Failed to load last week's roster",
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!orgId || edits.size === 0) return;
+
+    const upserts: { employee_id: string; work_date: string; shift_id: string }[] = [];
+    const removedIds: string[] = [];
+    edits.forEach((value, key) => {
+      const [employeeId, date] = key.split('|');
+      if (value === STANDARD) {
+        const existing = saved.get(key);
+        if (existing) removedIds.push(existing.id);
+      } else {
+        upserts.push({ employee_id: employeeId, work_date: date, shift_id: value });
+      }
+    });
+
+    setSaving(true);
+    try {
+      await saveRoster(orgId, upserts, removedIds, employee?.id);
+      toast({ title: 'Roster Saved', description: `${edits.size} shift assignment(s) updated` });
+      loadRoster();
+    } catch (error) {
+      console.error('Error saving roster:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to save roster',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeShifts = shifts.filter(s => s.is_active);
+  const shiftById = new Map(shifts.map(s => [s.id, s]));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <CalendarClock className="h-7 w-7 text-primary" />
+            Shift Roster
+          </h1>
+          <p className="text-muted-foreground mt-1">Assign shifts for the week. Unassigned days use the standard hours.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopyPreviousWeek} disabled={loading}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Last Week
+          </Button>
+          <Button onClick={handleSave} disabled={saving || edits.size === 0}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save{edits.size > 0 ? ` (${edits.size})` : ''}
+          </Button>
+        </div>
+      </div>
+
+      <Card className="glass-card overflow-hidden">
+        <div className="p-4 border-b border-border flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(subWeeks(weekStart, 1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="font-semibold text-foreground w-48 text-center">
+              {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+              {departments.map(d => (
+                <SelectItem key={d} value={d}>{d}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : activeShifts.length === 0 ? (
+          <div className="p-12 text-center">
+            <CalendarClock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No shifts defined yet. Add shifts under Settings → Attendance.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-card text-left font-medium text-muted-foreground px-4 py-2 min-w-[180px]">
+                    Employee
+                  </th>
+                  {days.map(date => (
+                    <th key={date} className="px-2 py-2 font-medium text-muted-foreground text-center min-w-[130px]">
+                      <div>{format(parseISO(date), 'EEE')}</div>
+                      <div className="text-xs">{format(parseISO(date), 'MMM d')}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEmployees.map(emp => (
+                  <tr key={emp.id} className="border-t border-border">
+                    <td className="sticky left-0 bg-card px-4 py-2">
+                      <p className="font-medium text-foreground truncate">{emp.full_name}</p>
+                      <p className="text-xs text-muted-foreground">{emp.employee_code}</p>
+                    </td>
+                    {days.map(date => {
+                      const value = getCellValue(emp.id, date);
+                      const archived = value !== STANDARD && !shiftById.get(value)?.is_active;
+                      return (
+                        <td key={date} className="px-1 py-1">
+                          <Select value={value} onValueChange={(v) => setCell(emp.id, date, v)}>
+                            <SelectTrigger
+                              className={cn(
+                                'h-8 text-xs',
+                                value === STANDARD && 'text-muted-foreground',
+                                edits.has(cellKey(emp.id, date)) && 'border-primary'
+                              )}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={STANDARD}>Standard</SelectItem>
+                              {activeShifts.map(shift => (
+                                <SelectItem key={shift.id} value={shift.id}>
+                                  {shift.name} · {formatShiftWindow(toShiftRule(shift))}
+                                </SelectItem>
+                              ))}
+                              {archived && shiftById.get(value) && (
+                                <SelectItem value={value} disabled>
+                                  {shiftById.get(value)!.name} (archived)
+                                </SelectItem>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default ShiftRosterPage;
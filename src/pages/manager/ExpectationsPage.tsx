@@ -1,167 +1,427 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ProgressBar } from '@/components/shared/ProgressBar';
-import { 
-  employees, 
-  getDirectReports,
-  teamExpectations,
-  employeeExpectations,
-  getAverageEfficiency,
-  TeamExpectation,
-  EmployeeExpectation
-} from '@/data/mockData';
-import { Target, Users, User, Save } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
-
-const managerId = 'emp-002';
+import { CategoryIcon } from '@/components/worklog/CategoryIcon';
+import { Target, Users, User, Save, Loader2, Trash2, History } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { format, parseISO, startOfWeek, subWeeks, addDays } from 'date-fns';
+import type { TaskCategory, TaskCategoryConfig } from '@/types/worklog';
+import { useTaskCategories } from '@/hooks/useTaskCategories';
+import {
+  CategoryMix,
+  DEFAULT_WEEKLY_HOURS,
+  ExpectationScope,
+  WorkExpectation,
+  categoryMixTotal,
+  compareCategoryMix,
+  deleteWorkExpectation,
+  fetchWorkExpectations,
+  resolveExpectation,
+  saveWorkExpectation,
+} from '@/lib/workExpectations';
+
+interface Member {
+  id: string;
+  full_name: string;
+  employee_code: string | null;
+  manager_id: string | null;
+}
+
+interface ExpectationForm {
+  weeklyHours: string;
+  mix: CategoryMix;
+  effectiveFrom: string;
+}
+
+// Actuals are averaged over the last four complete work-log weeks
+const ACTUAL_WEEKS = 4;
+
+const describeMix = (mix: CategoryMix, getCategoryConfig: (category: TaskCategory) => TaskCategoryConfig) => {
+  const entries = (Object.entries(mix) as [TaskCategory, number][])
+    .filter(([, percent]) => percent > 0)
+    .sort((a, b) => b[1] - a[1]);
+  return entries.length > 0
+    ? entries.map(([category, percent]) => `${getCategoryConfig(category).label} ${percent}%`).join(', ')
+    : 'No mix target';
+};
+
+const ExpectationFields = ({
+  value,
+  onChange,
+}: {
+  value: ExpectationForm;
+  onChange: (value: ExpectationForm) => void;
+}) => {
+  const { categories } = useTaskCategories();
+  const total = categoryMixTotal(value.mix);
+
+  // Active categories, plus archived ones the mix still gives a share
+  const mixCategories = categories.filter(c => c.isActive || (value.mix[c.value] || 0) > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Logged hours per week *</Label>
+          <Input
+            type="number"
+            min={1}
+            max={80}
+            step={0.5}
+            value={value.weeklyHours}
+            onChange={(e) => onChange({ ...value, weeklyHours: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Effective from *</Label>
+          <Input
+            type="date"
+            value={value.effectiveFrom}
+            onChange={(e) => onChange({ ...value, effectiveFrom: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Category mix</Label>
+          <span className={`text-sm font-medium ${total === 0 || total === 100 ? 'text-muted-foreground' : 'text-destructive'}`}>
+            {total}% of 100%
+          </span>
+        </div>
+        {mixCategories.map(({ value: category, label }) => (
+          <div key={category} className="flex items-center gap-3">
+            <div className="w-36 flex items-center gap-2 text-sm">
+              <CategoryIcon category={category} size="sm" />
+              {label}
+            </div>
+            <Slider
+              value={[value.mix[category] || 0]}
+              onValueChange={([percent]) => onChange({ ...value, mix: { ...value.mix, [category]: percent } })}
+              min={0}
+              max={100}
+              step={5}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-sm font-mono text-muted-foreground">{value.mix[category] || 0}%</span>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">Leave every category at 0% to set hours only.</p>
+      </div>
+    </div>
+  );
+};
 
 const ExpectationsPage = () => {
-  const { toast } = useToast();
-  const directReports = getDirectReports(managerId);
-  
-  const [localTeamExpectations, setLocalTeamExpectations] = useState<TeamExpectation[]>(teamExpectations);
-  const [localEmployeeExpectations, setLocalEmployeeExpectations] = useState<EmployeeExpectation[]>(employeeExpectations);
-  
-  const [selectedTeam, setSelectedTeam] = useState<string>('team-eng');
+  const { employee, role, orgId } = useAuth();
+  const isAdmin = role === 'Admin';
+  const { getCategoryConfig } = useTaskCategories();
+
+  const [members, setMembers] = useState<Member[]>([]);
+  const [teams, setTeams] = useState<{ id: string; full_name: string }[]>([]);
+  const [expectations, setExpectations] = useState<WorkExpectation[]>([]);
+  const [actuals, setActuals] = useState<{ employee_id: string; category: TaskCategory; duration_minutes: number }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<ExpectationScope | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const [selectedTeam, setSelectedTeam] = useState<string>('');
   const [selectedEmployee, setSelectedEmployee] = useState<string>('');
+  const [teamForm, setTeamForm] = useState<ExpectationForm | null>(null);
+  const [employeeForm, setEmployeeForm] = useState<ExpectationForm | null>(null);
 
-  const currentTeamExp = localTeamExpectations.find(t => t.teamId === selectedTeam);
-  const currentEmployeeExp = localEmployeeExpectations.find(e => e.employeeId === selectedEmployee);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const thisMonday = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  const actualsFrom = format(subWeeks(parseISO(thisMonday), ACTUAL_WEEKS), 'yyyy-MM-dd');
+  const actualsTo = format(addDays(parseISO(thisMonday), -1), 'yyyy-MM-dd');
 
-  const handleTeamExpectationChange = (value: number[]) => {
-    setLocalTeamExpectations(prev => 
-      prev.map(t => t.teamId === selectedTeam ? { ...t, expectedEfficiency: value[0] } : t)
-    );
-  };
+  const fetchData = useCallback(async () => {
+    if (!employee?.id) return;
 
-  const handleEmployeeExpectationChange = (value: number[]) => {
-    if (!selectedEmployee) return;
-    
-    const existing = localEmployeeExpectations.find(e => e.employeeId === selectedEmployee);
-    if (existing) {
-      setLocalEmployeeExpectations(prev => 
-        prev.map(e => e.employeeId === selectedEmployee ? { ...e, expectedEfficiency: value[0] } : e)
-      );
-    } else {
-      const employee = employees.find(e => e.id === selectedEmployee);
-      setLocalEmployeeExpectations(prev => [
-        ...prev,
-        {
-          id: `emp-exp-new-${selectedEmployee}`,
-          employeeId: selectedEmployee,
-          employeeName: employee?.name || '',
-          expectedEfficiency: value[0],
-          period: 'daily',
-        }
+    try {
+      let membersQuery = supabase
+        .from('hr_employees')
+        .select('id, full_name, employee_code, manager_id')
+        .eq('status', 'Active')
+        .order('full_name');
+
+      if (!isAdmin) {
+        membersQuery = membersQuery.eq('manager_id', employee.id);
+      }
+
+      const [{ data: memberData, error: membersError }, expectationData] = await Promise.all([
+        membersQuery,
+        fetchWorkExpectations(),
       ]);
+      if (membersError) throw membersError;
+
+      const memberList = (memberData || []) as Member[];
+      setMembers(memberList);
+      setExpectations(expectationData);
+
+      // Admins pick any manager's team; managers only have their own
+      const teamList = isAdmin
+        ? memberList.filter(m => memberList.some(r => r.manager_id === m.id))
+        : [{ id: employee.id, full_name: employee.full_name }];
+      setTeams(teamList);
+      setSelectedTeam(prev => prev || teamList[0]?.id || '');
+
+      let tasksQuery = supabase
+        .from('hr_work_log_tasks')
+        .select('employee_id, category, duration_minutes')
+        .gte('log_date', actualsFrom)
+        .lte('log_date', actualsTo);
+
+      if (!isAdmin) {
+        tasksQuery = tasksQuery.in('employee_id', memberList.map(m => m.id));
+      }
+
+      const { data: taskData, error: tasksError } = await tasksQuery;
+      if (tasksError) throw tasksError;
+      setActuals((taskData || []) as typeof actuals);
+    } catch (error) {
+      console.error('Error fetching expectations:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load expectations',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id, employee?.full_name, isAdmin, actualsFrom, actualsTo]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const teamMembers = useMemo(
+    () => members.filter(m => m.manager_id === selectedTeam),
+    [members, selectedTeam]
+  );
+
+  const formFor = useCallback((scope: ExpectationScope, targetId: string): ExpectationForm => {
+    const current = expectations
+      .filter(e => (scope === 'team' ? e.scope === 'team' && e.manager_id === targetId : e.scope === 'employee' && e.employee_id === targetId))
+      .find(e => e.effective_from <= today);
+    const resolved = scope === 'employee'
+      ? resolveExpectation(expectations, { id: targetId, manager_id: selectedTeam }, today)
+      : null;
+
+    return {
+      weeklyHours: String(current?.weekly_hours ?? resolved?.weeklyHours ?? DEFAULT_WEEKLY_HOURS),
+      mix: { ...(current?.category_mix ?? resolved?.categoryMix ?? {}) },
+      effectiveFrom: thisMonday,
+    };
+  }, [expectations, selectedTeam, today, thisMonday]);
+
+  // Reset the editors to what is in force whenever the selection or saved data changes
+  useEffect(() => {
+    setTeamForm(selectedTeam ? formFor('team', selectedTeam) : null);
+  }, [selectedTeam, formFor]);
+
+  useEffect(() => {
+    setEmployeeForm(selectedEmployee ? formFor('employee', selectedEmployee) : null);
+  }, [selectedEmployee, formFor]);
+
+  useEffect(() => {
+    if (selectedEmployee && !teamMembers.some(m => m.id === selectedEmployee)) {
+      setSelectedEmployee('');
+    }
+  }, [teamMembers, selectedEmployee]);
+
+  const handleSave = async (scope: ExpectationScope) => {
+    const form = scope === 'team' ? teamForm : employeeForm;
+    const targetId = scope === 'team' ? selectedTeam : selectedEmployee;
+    if (!form || !targetId || !orgId || !employee?.id) return;
+
+    const weeklyHours = Number(form.weeklyHours);
+    const mixTotal = categoryMixTotal(form.mix);
+    let validationError: string | null = null;
+    if (!weeklyHours || weeklyHours <= 0 || weeklyHours > 80) {
+      validationError = 'Weekly hours must be between 1 and 80';
+    } else if (!form.effectiveFrom) {
+      validationError = 'Choose the date this expectation starts';
+    } else if (mixTotal !== 0 && mixTotal !== 100) {
+      validationError = `Category mix adds up to ${mixTotal}%; it must total 100%`;
+    }
+
+    if (validationError) {
+      toast({ title: 'Validation Error', description: validationError, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(scope);
+    try {
+      await saveWorkExpectation(orgId, employee.id, {
+        scope,
+        targetId,
+        weeklyHours,
+        categoryMix: form.mix,
+        effectiveFrom: form.effectiveFrom,
+      });
+      toast({
+        title: 'Expectation Saved',
+        description: `Applies from ${format(parseISO(form.effectiveFrom), 'd MMM yyyy')}`,
+      });
+      setExpectations(await fetchWorkExpectations());
+    } catch (error) {
+      console.error('Error saving expectation:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to save expectation',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
     }
   };
 
-  const handleSave = () => {
-    toast({
-      title: "Expectations Saved",
-      description: "Team and individual expectations have been updated.",
-    });
+  const handleDelete = async (expectation: WorkExpectation) => {
+    setDeletingId(expectation.id);
+    try {
+      await deleteWorkExpectation(expectation.id);
+      toast({ title: 'Expectation Removed' });
+      setExpectations(await fetchWorkExpectations());
+    } catch (error) {
+      console.error('Error deleting expectation:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to remove expectation',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingId(null);
+    }
   };
 
+  // Each member's target in force today against their last four weeks of logged work
+  const overview = useMemo(() => teamMembers.map(member => {
+    const expected = resolveExpectation(expectations, member, today);
+    const memberTasks = actuals.filter(t => t.employee_id === member.id);
+    const byCategory: Partial<Record<TaskCategory, number>> = {};
+    memberTasks.forEach(t => {
+      byCategory[t.category] = (byCategory[t.category] || 0) + t.duration_minutes;
+    });
+    const avgWeeklyMinutes = memberTasks.reduce((sum, t) => sum + t.duration_minutes, 0) / ACTUAL_WEEKS;
+    const biggestGap = compareCategoryMix(byCategory, expected.categoryMix)
+      .filter(row => row.targetPercent > 0)
+      .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance))[0];
+
+    return {
+      member,
+      expected,
+      avgWeeklyHours: avgWeeklyMinutes / 60,
+      percentOfTarget: Math.round((avgWeeklyMinutes / (expected.weeklyHours * 60)) * 100),
+      biggestGap,
+    };
+  }), [teamMembers, expectations, actuals, today]);
+
+  const history = useMemo(() => {
+    const memberIds = new Set(teamMembers.map(m => m.id));
+    return expectations.filter(e =>
+      (e.scope === 'team' && e.manager_id === selectedTeam) ||
+      (e.scope === 'employee' && e.employee_id && memberIds.has(e.employee_id))
+    );
+  }, [expectations, teamMembers, selectedTeam]);
+
+  const nameOf = (id: string | null) =>
+    members.find(m => m.id === id)?.full_name || teams.find(t => t.id === id)?.full_name || 'Unknown';
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Skeleton className="h-96" />
+          <Skeleton className="h-96" />
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6 animate-fade-in">
-      <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between flex-wrap gap-4">
         <div>
           <h1 className="text-2xl font-display font-bold text-foreground">Expectations</h1>
-          <p className="text-muted-foreground">Set efficiency expectations for your team</p>
+          <p className="text-muted-foreground">Set weekly logged hours and a category mix for your team</p>
         </div>
-        <Button onClick={handleSave}>
-          <Save className="w-4 h-4 mr-2" />
-          Save Changes
-        </Button>
+        {isAdmin && teams.length > 0 && (
+          <div className="w-64">
+            <Select value={selectedTeam} onValueChange={setSelectedTeam}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map(team => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.full_name}'s team
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
 
       {/* Info Card */}
       <Card className="p-4 bg-primary/5 border-primary/20">
         <p className="text-sm text-foreground">
-          <strong>Note:</strong> Expectations are for visibility and goal-setting only. 
+          <strong>Note:</strong> Expectations are for visibility and goal-setting only.
           No penalties or automatic actions are triggered when expectations are not met.
+          An individual expectation replaces the team's for that person.
         </p>
       </Card>
 
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Team Expectations */}
         <Card className="p-6 glass-card">
-          <div className="flex items-center gap-2 mb-6">
-            <Users className="w-5 h-5 text-primary" />
-            <h2 className="font-semibold text-foreground">Team Expectations</h2>
-          </div>
-
-          <div className="space-y-6">
-            <div>
-              <Label>Select Team</Label>
-              <Select value={selectedTeam} onValueChange={setSelectedTeam}>
-                <SelectTrigger className="mt-2">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="team-eng">Engineering</SelectItem>
-                  <SelectItem value="team-design">Design</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <div className="flex justify-between mb-2">
-                <Label>Expected Efficiency</Label>
-                <span className="text-sm font-medium text-primary">
-                  {currentTeamExp?.expectedEfficiency || 80}%
-                </span>
-              </div>
-              <Slider
-                value={[currentTeamExp?.expectedEfficiency || 80]}
-                onValueChange={handleTeamExpectationChange}
-                min={50}
-                max={100}
-                step={5}
-                className="mt-2"
-              />
-              <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                <span>50%</span>
-                <span>100%</span>
-              </div>
-            </div>
-
-            <div>
-              <Label>Period</Label>
-              <Select defaultValue="weekly">
-                <SelectTrigger className="mt-2">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="daily">Daily</SelectItem>
-                  <SelectItem value="weekly">Weekly</SelectItem>
-                </SelectContent>
-              </Select>
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <Users className="w-5 h-5 text-primary" />
+              <h2 className="font-semibold text-foreground">Team Expectation</h2>
             </div>
+            <Button size="sm" onClick={() => handleSave('team')} disabled={!teamForm || saving === 'team'}>
+              {saving === 'team' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save
+            </Button>
+          </div>
 
-            {/* Team Overview */}
-            <div className="pt-4 border-t border-border">
-              <h3 className="text-sm font-medium text-foreground mb-3">Current Team Average</h3>
-              <ProgressBar 
-                value={85} 
-                expected={currentTeamExp?.expectedEfficiency || 80}
-              />
+          {teamForm ? (
+            <ExpectationFields value={teamForm} onChange={setTeamForm} />
+          ) : (
+            <div className="py-8 text-center">
+              <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No teams with direct reports yet</p>
             </div>
-          </div>
+          )}
         </Card>
 
         {/* Individual Expectations */}
         <Card className="p-6 glass-card">
-          <div className="flex items-center gap-2 mb-6">
-            <User className="w-5 h-5 text-primary" />
-            <h2 className="font-semibold text-foreground">Individual Expectations</h2>
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <User className="w-5 h-5 text-primary" />
+              <h2 className="font-semibold text-foreground">Individual Expectation</h2>
+            </div>
+            {employeeForm && (
+              <Button size="sm" onClick={() => handleSave('employee')} disabled={saving === 'employee'}>
+                {saving === 'employee' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save
+              </Button>
+            )}
           </div>
 
           <div className="space-y-6">
@@ -172,63 +432,18 @@ const ExpectationsPage = () => {
                   <SelectValue placeholder="Select an employee" />
                 </SelectTrigger>
                 <SelectContent>
-                  {directReports.map((emp) => (
-                    <SelectItem key={emp.id} value={emp.id}>
-                      {emp.name}
+                  {teamMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
 
-            {selectedEmployee && (
-              <>
-                <div>
-                  <div className="flex justify-between mb-2">
-                    <Label>Expected Efficiency</Label>
-                    <span className="text-sm font-medium text-primary">
-                      {currentEmployeeExp?.expectedEfficiency || 80}%
-                    </span>
-                  </div>
-                  <Slider
-                    value={[currentEmployeeExp?.expectedEfficiency || 80]}
-                    onValueChange={handleEmployeeExpectationChange}
-                    min={50}
-                    max={100}
-                    step={5}
-                    className="mt-2"
-                  />
-                  <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                    <span>50%</span>
-                    <span>100%</span>
-                  </div>
-                </div>
-
-                <div>
-                  <Label>Period</Label>
-                  <Select defaultValue={currentEmployeeExp?.period || 'daily'}>
-                    <SelectTrigger className="mt-2">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="daily">Daily</SelectItem>
-                      <SelectItem value="weekly">Weekly</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                {/* Individual Overview */}
-                <div className="pt-4 border-t border-border">
-                  <h3 className="text-sm font-medium text-foreground mb-3">Current Performance</h3>
-                  <ProgressBar 
-                    value={getAverageEfficiency(selectedEmployee)} 
-                    expected={currentEmployeeExp?.expectedEfficiency || 80}
-                  />
-                </div>
-              </>
-            )}
-
-            {!selectedEmployee && (
+            {employeeForm ? (
+              <ExpectationFields value={employeeForm} onChange={setEmployeeForm} />
+            ) : (
               <div className="py-8 text-center">
                 <Target className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">Select an employee to set individual expectations</p>
@@ -238,49 +453,108 @@ const ExpectationsPage = () => {
         </Card>
       </div>
 
-      {/* All Employee Expectations */}
+      {/* Team Overview */}
       <Card className="glass-card overflow-hidden">
         <div className="p-4 border-b border-border">
-          <h2 className="font-semibold text-foreground">All Individual Expectations</h2>
+          <h2 className="font-semibold text-foreground">Team Overview</h2>
+          <p className="text-sm text-muted-foreground">
+            Average logged hours over the last {ACTUAL_WEEKS} weeks against the target in force today
+          </p>
         </div>
-        <div className="divide-y divide-border">
-          {directReports.map((emp) => {
-            const expectation = localEmployeeExpectations.find(e => e.employeeId === emp.id);
-            const actual = getAverageEfficiency(emp.id);
-            return (
-              <div key={emp.id} className="p-4 flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-                    <span className="text-sm font-medium text-primary">{emp.avatar}</span>
-                  </div>
-                  <div>
-                    <p className="font-medium text-foreground">{emp.name}</p>
-                    <p className="text-sm text-muted-foreground">{emp.role}</p>
-                  </div>
+        {overview.length === 0 ? (
+          <p className="p-6 text-center text-muted-foreground">No team members</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {overview.map(({ member, expected, avgWeeklyHours, percentOfTarget, biggestGap }) => (
+              <div key={member.id} className="p-4 flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                  <p className="font-medium text-foreground">{member.full_name}</p>
+                  <p className="text-sm text-muted-foreground">{member.employee_code}</p>
                 </div>
                 <div className="flex items-center gap-8">
                   <div className="text-right">
                     <p className="text-sm text-muted-foreground">Expected</p>
-                    <p className="font-semibold text-foreground">{expectation?.expectedEfficiency || 80}%</p>
+                    <p className="font-semibold text-foreground">
+                      {expected.weeklyHours}h/wk
+                      <Badge variant="outline" className="ml-2 text-xs capitalize">{expected.source}</Badge>
+                    </p>
                   </div>
                   <div className="text-right">
                     <p className="text-sm text-muted-foreground">Actual</p>
-                    <p className={`font-semibold ${actual >= (expectation?.expectedEfficiency || 80) ? 'text-efficiency-high' : 'text-efficiency-low'}`}>
-                      {actual}%
+                    <p className={`font-semibold ${percentOfTarget >= 100 ? 'text-efficiency-high' : 'text-efficiency-low'}`}>
+                      {avgWeeklyHours.toFixed(1)}h/wk
+                    </p>
+                  </div>
+                  <div className="text-right w-40">
+                    <p className="text-sm text-muted-foreground">Largest mix gap</p>
+                    <p className="text-sm font-medium text-foreground">
+                      {biggestGap ? `${getCategoryConfig(biggestGap.category).label} ${biggestGap.variance > 0 ? '+' : ''}${biggestGap.variance} pts` : '-'}
                     </p>
                   </div>
                   <div className="w-32">
-                    <ProgressBar 
-                      value={actual} 
-                      expected={expectation?.expectedEfficiency || 80}
-                      showLabels={false}
-                    />
+                    <ProgressBar value={percentOfTarget} expected={100} showLabels={false} />
                   </div>
                 </div>
               </div>
-            );
-          })}
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {/* History */}
+      <Card className="glass-card overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold text-foreground">History</h2>
         </div>
+        {history.length === 0 ? (
+          <p className="p-6 text-center text-muted-foreground">
+            No expectations set yet. Everyone is measured against a {DEFAULT_WEEKLY_HOURS}h week.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Hours / Week</TableHead>
+                <TableHead>Category Mix</TableHead>
+                <TableHead>Set By</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map(expectation => (
+                <TableRow key={expectation.id}>
+                  <TableCell className="font-medium">
+                    {expectation.scope === 'team' ? 'Whole team' : nameOf(expectation.employee_id)}
+                  </TableCell>
+                  <TableCell>{format(parseISO(expectation.effective_from), 'd MMM yyyy')}</TableCell>
+                  <TableCell>{expectation.weekly_hours}h</TableCell>
+                  <TableCell className="max-w-[320px] text-sm text-muted-foreground">
+                    {describeMix(expectation.category_mix, getCategoryConfig)}
+                  </TableCell>
+                  <TableCell className="text-sm">{expectation.creator?.full_name || '-'}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Remove"
+                      onClick={() => handleDelete(expectation)}
+                      disabled={deletingId === expectation.id}
+                    >
+                      {deletingId === expectation.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
       </Card>
     </div>
   );
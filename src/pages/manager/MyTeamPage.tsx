@@ -27,7 +27,7 @@ interface AttendanceRecord {
   employee_id: string;
   attendance_date: string;
   status: string | null;
-  punch_in_time: string;
+  punch_in_time: string | null;
   punch_out_time: string | null;
   total_hours: number | null;
 }
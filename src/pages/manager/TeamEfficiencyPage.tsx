@@ -1,147 +1,286 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
 import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { 
-  employees, 
-  getDirectReports,
-  getAverageEfficiency,
-} from '@/data/mockData';
+import { EfficiencyDot } from '@/components/shared/EfficiencyDot';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
+import {
+  EFFICIENCY_CLOSE_MARGIN,
+  EFFICIENCY_TARGET,
+  EfficiencyLevel,
+  EfficiencySnapshot,
+  computeEfficiencySnapshots,
+  fetchDepartmentSnapshots,
+  fetchEmployeeSnapshots,
+  getEfficiencyLevel,
+  weekStartBefore,
+} from '@/lib/efficiency';
 
-const managerId = 'emp-002';
+// Heatmap columns: the last five complete weeks, oldest first
+const HEATMAP_WEEKS = 5;
+
+const LEVEL_BG: Record<EfficiencyLevel, string> = {
+  high: 'bg-efficiency-high',
+  medium: 'bg-efficiency-medium',
+  low: 'bg-efficiency-low',
+  none: 'bg-muted',
+};
+
+const LEVEL_TEXT: Record<EfficiencyLevel, string> = {
+  high: 'text-efficiency-high',
+  medium: 'text-efficiency-medium',
+  low: 'text-efficiency-low',
+  none: 'text-muted-foreground',
+};
+
+const formatScore = (value: number | null | undefined) =>
+  value === null || value === undefined ? '-' : `${Math.round(Number(value))}%`;
+
+interface MemberRow {
+  id: string;
+  name: string;
+  department: string;
+  byWeek: Record<string, EfficiencySnapshot>;
+}
 
 const TeamEfficiencyPage = () => {
+  const { employee, role } = useAuth();
+  const isAdmin = role === 'Admin';
+
   const [filter, setFilter] = useState<'team' | 'individual'>('team');
-  const directReports = getDirectReports(managerId);
-
-  // Group by department for team view
-  const departments = ['Engineering', 'Design'];
-  
-  const getTeamEfficiency = (dept: string) => {
-    const teamMembers = employees.filter(e => e.department === dept);
-    if (teamMembers.length === 0) return 0;
-    const sum = teamMembers.reduce((acc, member) => acc + getAverageEfficiency(member.id), 0);
-    return Math.round(sum / teamMembers.length);
-  };
+  const [memberSnapshots, setMemberSnapshots] = useState<EfficiencySnapshot[]>([]);
+  const [departmentSnapshots, setDepartmentSnapshots] = useState<EfficiencySnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [recomputing, setRecomputing] = useState(false);
 
-  const getEfficiencyColor = (value: number) => {
-    if (value >= 85) return 'bg-efficiency-high';
-    if (value >= 70) return 'bg-efficiency-medium';
-    return 'bg-efficiency-low';
-  };
+  const weeks = useMemo(
+    () => Array.from({ length: HEATMAP_WEEKS }, (_, i) => weekStartBefore(HEATMAP_WEEKS - i)),
+    []
+  );
+  const latestWeek = weeks[weeks.length - 1];
 
-  const getEfficiencyTextColor = (value: number) => {
-    if (value >= 85) return 'text-efficiency-high';
-    if (value >= 70) return 'text-efficiency-medium';
-    return 'text-efficiency-low';
-  };
+  const fetchSnapshots = useCallback(async () => {
+    if (!employee?.id) return;
 
-  // Generate weekly data for heatmap
-  const generateWeeklyData = (baseEfficiency: number) => {
-    return Array.from({ length: 5 }, () => {
-      const variance = Math.random() * 20 - 10;
-      return Math.round(Math.max(50, Math.min(100, baseEfficiency + variance)));
+    try {
+      const [members, departments] = await Promise.all([
+        fetchEmployeeSnapshots(weeks[0]),
+        fetchDepartmentSnapshots(weeks[0]),
+      ]);
+      // RLS also returns the caller's own scores; those belong on My Efficiency
+      setMemberSnapshots(isAdmin ? members : members.filter(s => s.employee_id !== employee.id));
+      setDepartmentSnapshots(departments);
+    } catch (error) {
+      console.error('Error fetching efficiency snapshots:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load team efficiency',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employee?.id, isAdmin, weeks]);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const members = useMemo(() => {
+    const rows = new Map<string, MemberRow>();
+    memberSnapshots.forEach(snapshot => {
+      if (!snapshot.employee_id) return;
+      const row = rows.get(snapshot.employee_id) || {
+        id: snapshot.employee_id,
+        name: snapshot.employee?.full_name || 'Unknown',
+        department: snapshot.employee?.hr_employee_details?.[0]?.department?.trim() || 'Unassigned',
+        byWeek: {},
+      };
+      row.byWeek[snapshot.week_start] = snapshot;
+      rows.set(snapshot.employee_id, row);
     });
+    return Array.from(rows.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [memberSnapshots]);
+
+  // Managers see the departments their reports belong to; admins see every department
+  const departments = useMemo(() => {
+    const visible = new Set(members.map(m => m.department));
+    const names = Array.from(new Set(departmentSnapshots.map(s => s.department as string)))
+      .filter(name => isAdmin || visible.has(name))
+      .sort();
+
+    return names.map(name => {
+      const byWeek: Record<string, EfficiencySnapshot> = {};
+      departmentSnapshots
+        .filter(s => s.department === name)
+        .forEach(s => { byWeek[s.week_start] = s; });
+      return { name, byWeek, members: members.filter(m => m.department === name) };
+    });
+  }, [departmentSnapshots, members, isAdmin]);
+
+  const handleRecompute = async () => {
+    setRecomputing(true);
+    try {
+      const count = await computeEfficiencySnapshots();
+      toast({ title: 'Efficiency Updated', description: `${count} weekly score(s) recalculated` });
+      fetchSnapshots();
+    } catch (error) {
+      console.error('Error computing efficiency snapshots:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to recalculate efficiency',
+        variant: 'destructive',
+      });
+    } finally {
+      setRecomputing(false);
+    }
   };
 
+  const weekHeader = (
+    <>
+      {weeks.map(week => (
+        <div key={week} className="flex-1 text-center text-xs text-muted-foreground">
+          {format(parseISO(week), 'd MMM')}
+        </div>
+      ))}
+    </>
+  );
+
+  const heatCell = (snapshot: EfficiencySnapshot | undefined, className?: string) => {
+    const level = getEfficiencyLevel(snapshot?.efficiency);
+    return (
+      <div
+        className={cn(
+          'h-10 rounded-lg flex items-center justify-center text-xs font-medium text-foreground',
+          LEVEL_BG[level],
+          className
+        )}
+        title={snapshot ? `${formatScore(snapshot.efficiency)} efficiency` : 'Not scored'}
+      >
+        {formatScore(snapshot?.efficiency)}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid md:grid-cols-2 gap-6">
+          <Skeleton className="h-72" />
+          <Skeleton className="h-72" />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6 animate-fade-in">
-      <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between flex-wrap gap-4">
         <div>
           <h1 className="text-2xl font-display font-bold text-foreground">Team Efficiency</h1>
-          <p className="text-muted-foreground">Visual overview of team performance</p>
+          <p className="text-muted-foreground">Weekly efficiency from work logs, attendance and reviews</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {isAdmin && (
+            <Button variant="outline" onClick={handleRecompute} disabled={recomputing}>
+              {recomputing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Recalculate
+            </Button>
+          )}
+          <Select value={filter} onValueChange={(v) => setFilter(v as 'team' | 'individual')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="team">By Department</SelectItem>
+              <SelectItem value="individual">Individual</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
-        <Select value={filter} onValueChange={(v) => setFilter(v as 'team' | 'individual')}>
-          <SelectTrigger className="w-40">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="team">By Team</SelectItem>
-            <SelectItem value="individual">Individual</SelectItem>
-          </SelectContent>
-        </Select>
       </div>
 
       {/* Legend */}
-      <div className="flex items-center gap-6">
+      <div className="flex items-center gap-6 flex-wrap">
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 rounded bg-efficiency-high" />
-          <span className="text-sm text-muted-foreground">≥85% (On Target)</span>
+          <span className="text-sm text-muted-foreground">≥{EFFICIENCY_TARGET}% (On Target)</span>
         </div>
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 rounded bg-efficiency-medium" />
-          <span className="text-sm text-muted-foreground">70-84% (Close)</span>
+          <span className="text-sm text-muted-foreground">
+            {EFFICIENCY_TARGET - EFFICIENCY_CLOSE_MARGIN}-{EFFICIENCY_TARGET - 1}% (Close)
+          </span>
         </div>
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 rounded bg-efficiency-low" />
-          <span className="text-sm text-muted-foreground">&lt;70% (Below)</span>
+          <span className="text-sm text-muted-foreground">&lt;{EFFICIENCY_TARGET - EFFICIENCY_CLOSE_MARGIN}% (Below)</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded bg-muted" />
+          <span className="text-sm text-muted-foreground">Not scored</span>
         </div>
       </div>
 
       {filter === 'team' ? (
-        // Team View
-        <div className="grid md:grid-cols-2 gap-6">
-          {departments.map((dept) => {
-            const teamEff = getTeamEfficiency(dept);
-            const weeklyData = generateWeeklyData(teamEff);
-            const teamMembers = employees.filter(e => e.department === dept);
-            
-            return (
-              <Card key={dept} className="p-6 glass-card">
-                <div className="flex items-start justify-between mb-6">
-                  <div>
-                    <h2 className="font-semibold text-foreground">{dept}</h2>
-                    <p className="text-sm text-muted-foreground">{teamMembers.length} members</p>
-                  </div>
-                  <div className={cn('text-3xl font-bold', getEfficiencyTextColor(teamEff))}>
-                    {teamEff}%
+        // Department View
+        departments.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground glass-card">
+            No efficiency scores yet. Scores are calculated every Tuesday for the weeks before.
+          </Card>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            {departments.map((dept) => {
+              const latest = dept.byWeek[latestWeek];
+              return (
+                <Card key={dept.name} className="p-6 glass-card">
+                  <div className="flex items-start justify-between mb-6">
+                    <div>
+                      <h2 className="font-semibold text-foreground">{dept.name}</h2>
+                      <p className="text-sm text-muted-foreground">
+                        {latest?.member_count ?? dept.members.length} members scored last week
+                      </p>
+                    </div>
+                    <div className={cn('text-3xl font-bold', LEVEL_TEXT[getEfficiencyLevel(latest?.efficiency)])}>
+                      {formatScore(latest?.efficiency)}
+                    </div>
                   </div>
-                </div>
 
-                {/* Weekly Heatmap */}
-                <div className="mb-4">
-                  <p className="text-xs text-muted-foreground mb-2">This Week</p>
-                  <div className="flex gap-2">
-                    {weeklyData.map((val, i) => (
-                      <div
-                        key={i}
-                        className={cn('flex-1 h-10 rounded-lg flex items-center justify-center text-xs font-medium text-foreground', getEfficiencyColor(val))}
-                        style={{ opacity: 0.7 + (val / 400) }}
-                      >
-                        {val}%
-                      </div>
-                    ))}
-                  </div>
-                  <div className="flex gap-2 mt-1">
-                    {['Mon', 'Tue', 'Wed', 'Thu', 'Fri'].map((day, i) => (
-                      <div key={i} className="flex-1 text-center text-xs text-muted-foreground">
-                        {day}
-                      </div>
-                    ))}
+                  {/* Weekly Heatmap */}
+                  <div className="mb-4">
+                    <p className="text-xs text-muted-foreground mb-2">Last {HEATMAP_WEEKS} Weeks</p>
+                    <div className="flex gap-2">
+                      {weeks.map(week => (
+                        <div key={week} className="flex-1">{heatCell(dept.byWeek[week])}</div>
+                      ))}
+                    </div>
+                    <div className="flex gap-2 mt-1">{weekHeader}</div>
                   </div>
-                </div>
 
-                {/* Team Members */}
-                <div className="space-y-2">
-                  {teamMembers.slice(0, 4).map((member) => {
-                    const eff = getAverageEfficiency(member.id);
-                    return (
+                  {/* Department Members */}
+                  <div className="space-y-2">
+                    {dept.members.map((member) => (
                       <div key={member.id} className="flex items-center justify-between py-2">
                         <div className="flex items-center gap-2">
-                          <div className={cn('w-2 h-2 rounded-full', getEfficiencyColor(eff))} />
+                          <EfficiencyDot snapshot={member.byWeek[latestWeek] || null} />
                           <span className="text-sm text-foreground">{member.name}</span>
                         </div>
-                        <span className={cn('text-sm font-medium', getEfficiencyTextColor(eff))}>
-                          {eff}%
+                        <span className={cn('text-sm font-medium', LEVEL_TEXT[getEfficiencyLevel(member.byWeek[latestWeek]?.efficiency)])}>
+                          {formatScore(member.byWeek[latestWeek]?.efficiency)}
                         </span>
                       </div>
-                    );
-                  })}
-                </div>
-              </Card>
-            );
-          })}
-        </div>
+                    ))}
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )
       ) : (
         // Individual View
         <Card className="glass-card overflow-hidden">
@@ -149,45 +288,34 @@ const TeamEfficiencyPage = () => {
             <h2 className="font-semibold text-foreground">Individual Efficiency Heatmap</h2>
           </div>
           <div className="p-4">
-            <div className="grid gap-4">
-              {/* Header Row */}
-              <div className="grid grid-cols-7 gap-2">
-                <div className="col-span-2"></div>
-                {['Mon', 'Tue', 'Wed', 'Thu', 'Fri'].map((day) => (
-                  <div key={day} className="text-center text-xs text-muted-foreground font-medium">
-                    {day}
-                  </div>
-                ))}
-              </div>
-              
-              {/* Data Rows */}
-              {directReports.map((member) => {
-                const weeklyData = generateWeeklyData(getAverageEfficiency(member.id));
-                return (
-                  <div key={member.id} className="grid grid-cols-7 gap-2 items-center">
-                    <div className="col-span-2 flex items-center gap-2">
-                      <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
-                        <span className="text-xs font-medium text-primary">{member.avatar}</span>
+            {members.length === 0 ? (
+              <p className="py-8 text-center text-muted-foreground">No efficiency scores yet</p>
+            ) : (
+              <div className="grid gap-4">
+                {/* Header Row */}
+                <div className="flex gap-2">
+                  <div className="w-56 flex-shrink-0"></div>
+                  {weekHeader}
+                </div>
+
+                {/* Data Rows */}
+                {members.map((member) => (
+                  <div key={member.id} className="flex gap-2 items-center">
+                    <div className="w-56 flex-shrink-0 flex items-center gap-2 min-w-0">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">{member.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{member.department}</p>
                       </div>
-                      <span className="text-sm font-medium text-foreground truncate">{member.name}</span>
                     </div>
-                    {weeklyData.map((val, i) => (
-                      <div
-                        key={i}
-                        className={cn(
-                          'h-10 rounded-lg flex items-center justify-center text-xs font-medium transition-all hover:scale-105 cursor-default',
-                          getEfficiencyColor(val),
-                          'text-foreground'
-                        )}
-                        title={`${val}%`}
-                      >
-                        {val}%
+                    {weeks.map(week => (
+                      <div key={week} className="flex-1">
+                        {heatCell(member.byWeek[week], 'transition-all hover:scale-105 cursor-default')}
                       </div>
                     ))}
                   </div>
-                );
-              })}
-            </div>
+                ))}
+              </div>
+            )}
           </div>
         </Card>
       )}
@@ -11,6 +11,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { sendWorkLogEmail } from '@/lib/emailService';
+import { fetchActiveDelegatorIds } from '@/lib/delegation';
+import {
+  RECONCILIATION_FLAG_LABELS,
+  ReconciliationDay,
+  describeReconciliation,
+  fetchWorkLogReconciliation,
+  indexReconciliation,
+} from '@/lib/workLogReconciliation';
+import { TASK_PROJECT_SELECT } from '@/lib/projects';
 import {
   Dialog,
   DialogContent,
@@ -51,7 +60,15 @@ interface WeekSubmission {
   weekLog: WorkLogWeek;
   employee: TeamMember;
   tasks: WorkLogTask[];
-  dayBreakdown: { date: string; dayName: string; tasks: WorkLogTask[]; totalMinutes: number; status: string }[];
+  dayBreakdown: {
+    date: string;
+    dayName: string;
+    tasks: WorkLogTask[];
+    totalMinutes: number;
+    status: string;
+    reconciliation: ReconciliationDay | null;
+  }[];
+  flaggedDays: number;
 }
 
 const getMonday = (date: Date): Date => startOfWeek(date, { weekStartsOn: 1 });
@@ -86,6 +103,7 @@ const TeamWorkLogsPage = () => {
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [weekLogs, setWeekLogs] = useState<WorkLogWeek[]>([]);
   const [tasks, setTasks] = useState<WorkLogTask[]>([]);
+  const [reconciliation, setReconciliation] = useState<Map<string, ReconciliationDay>>(new Map());
   const [expandedSubmissions, setExpandedSubmissions] = useState<string[]>([]);
   
   // Filters
@@ -124,7 +142,9 @@ const TeamWorkLogsPage = () => {
         .eq('status', 'Active');
       
       if (role !== 'Admin') {
-        query = query.eq('manager_id', employee.id);
+        // Include reports of managers this user is standing in for
+        const delegatorIds = await fetchActiveDelegatorIds(employee.id);
+        query = query.in('manager_id', [employee.id, ...delegatorIds]);
       }
       
       const { data, error } = await query;
@@ -192,7 +212,8 @@ const TeamWorkLogsPage = () => {
           .from('hr_work_log_tasks')
           .select(`
             *,
-            assigned_by:hr_employees!assigned_by_id(full_name)
+            assigned_by:hr_employees!assigned_by_id(full_name),
+            ${TASK_PROJECT_SELECT}
           `)
           .in('week_log_id', weekLogIds)
           .order('log_date')
@@ -203,6 +224,15 @@ const TeamWorkLogsPage = () => {
       } else {
         setTasks([]);
       }
+
+      // Attendance vs logged time; reviews still load if this fails
+      try {
+        const days = await fetchWorkLogReconciliation(format(startDate, 'yyyy-MM-dd'), format(endDate, 'yyyy-MM-dd'));
+        setReconciliation(indexReconciliation(days));
+      } catch (reconcileError) {
+        console.error('Error fetching work log reconciliation:', reconcileError);
+        setReconciliation(new Map());
+      }
     } catch (error: any) {
       console.error('Error fetching work logs:', error);
       toast({
@@ -250,6 +280,7 @@ const TeamWorkLogsPage = () => {
           tasks: dayTasks,
           totalMinutes,
           status,
+          reconciliation: reconciliation.get(`${emp.id}:${dateStr}`) || null,
         });
       }
 
@@ -258,6 +289,7 @@ const TeamWorkLogsPage = () => {
         employee: emp,
         tasks: weekTasks,
         dayBreakdown,
+        flaggedDays: dayBreakdown.filter(d => d.reconciliation?.flag).length,
       });
     });
 
@@ -273,14 +305,15 @@ const TeamWorkLogsPage = () => {
     }
 
     return filtered;
-  }, [weekLogs, tasks, teamMembers, selectedEmployee, selectedStatus]);
+  }, [weekLogs, tasks, teamMembers, reconciliation, selectedEmployee, selectedStatus]);
 
   // Stats
   const stats = useMemo(() => {
     const pending = submissions.filter(s => s.weekLog.status === 'Submitted').length;
     const approved = submissions.filter(s => s.weekLog.status === 'Approved').length;
     const rework = submissions.filter(s => s.weekLog.status === 'Rework').length;
-    return { pending, approved, rework };
+    const flagged = submissions.reduce((sum, s) => sum + s.flaggedDays, 0);
+    return { pending, approved, rework, flagged };
   }, [submissions]);
 
   const toggleSubmissionExpanded = (id: string) => {
@@ -461,8 +494,8 @@ const TeamWorkLogsPage = () => {
     return (
       <div className="space-y-6 p-6">
         <Skeleton className="h-12 w-64" />
-        <div className="grid gap-4 md:grid-cols-3">
-          {[1, 2, 3].map(i => <Skeleton key={i} className="h-24" />)}
+        <div className="grid gap-4 md:grid-cols-4">
+          {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-24" />)}
         </div>
         <Skeleton className="h-64" />
       </div>
@@ -481,7 +514,7 @@ const TeamWorkLogsPage = () => {
       </div>
 
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardContent className="p-4 flex items-center gap-3">
             <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
@@ -515,6 +548,17 @@ const TeamWorkLogsPage = () => {
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="p-4 flex items-center gap-3">
+            <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-lg">
+              <AlertTriangle className="h-5 w-5 text-amber-600" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{stats.flagged}</p>
+              <p className="text-sm text-muted-foreground">Days Not Matching Attendance</p>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Filters */}
@@ -600,6 +644,12 @@ const TeamWorkLogsPage = () => {
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
+                        {submission.flaggedDays > 0 && (
+                          <Badge variant="outline" className="bg-amber-500/10 text-amber-600 border-amber-500/20">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {submission.flaggedDays} day{submission.flaggedDays === 1 ? '' : 's'} flagged
+                          </Badge>
+                        )}
                         <Badge variant="outline" className={getStatusColor(submission.weekLog.status)}>
                           {submission.weekLog.status}
                         </Badge>
@@ -620,7 +670,7 @@ const TeamWorkLogsPage = () => {
                       {submission.dayBreakdown.map(day => (
                         <div key={day.date} className="border rounded-lg p-3">
                           <div className="flex items-center justify-between mb-2">
-                            <div className="flex items-center gap-2">
+                            <div className="flex items-center gap-2 flex-wrap">
                               <span className="font-medium">{day.dayName}</span>
                               <span className="text-sm text-muted-foreground">
                                 ({formatMinutes(day.totalMinutes)})
@@ -628,6 +678,21 @@ const TeamWorkLogsPage = () => {
                               <Badge variant="outline" className={`text-xs ${getStatusColor(day.status)}`}>
                                 {day.status}
                               </Badge>
+                              {day.reconciliation?.flag && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs bg-amber-500/10 text-amber-600 border-amber-500/20"
+                                  title={describeReconciliation(day.reconciliation)}
+                                >
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  {RECONCILIATION_FLAG_LABELS[day.reconciliation.flag]}
+                                </Badge>
+                              )}
+                              {day.reconciliation && (
+                                <span className="text-xs text-muted-foreground">
+                                  {describeReconciliation(day.reconciliation)}
+                                </span>
+                              )}
                             </div>
                             {day.status === 'Submitted' && (
                               <div className="flex gap-2">
@@ -673,6 +738,11 @@ const TeamWorkLogsPage = () => {
                                         <span className="text-muted-foreground font-mono text-xs">
                                           {formatMinutes(task.duration_minutes)}
                                         </span>
+                                        {task.project && (
+                                          <Badge variant="outline" className="text-xs font-mono" title={task.project.name}>
+                                            {task.project.code}
+                                          </Badge>
+                                        )}
                                       </div>
                                       <div className="flex items-center gap-2 mt-1 text-xs">
                                         <span className={`px-1.5 py-0.5 rounded ${assignmentConfig.className}`}>
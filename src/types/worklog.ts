@@ -1,5 +1,6 @@
 // Work Log Types
-import { LucideIcon, Calendar, Code, Bug, BookOpen, FileText, Palette, Search, BarChart3, Mail, Target } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { unknownCategoryConfig } from '@/lib/taskCategories';
 
 export interface WorkLogWeek {
   id: string;
@@ -9,6 +10,8 @@ export interface WorkLogWeek {
   total_minutes: number;
   status: 'Draft' | 'Submitted' | 'Approved' | 'Rework';
   submitted_at: string | null;
+  first_submitted_at: string | null;
+  rework_count: number;
   approved_by: string | null;
   approved_at: string | null;
   rework_comment: string | null;
@@ -28,41 +31,38 @@ export interface WorkLogTask {
   assigned_by_type: 'Self' | 'Employee' | 'Manager' | 'Admin';
   assigned_by_id: string | null;
   description: string | null;
+  project_id: string | null;
   rework_comment: string | null;
   created_at: string;
   updated_at: string;
   assigned_by?: {
     full_name: string;
   };
+  project?: {
+    code: string;
+    name: string;
+    client: string | null;
+    is_billable: boolean;
+  } | null;
 }
 
-export type TaskCategory = 
-  | 'Meeting' 
-  | 'Development' 
-  | 'Support' 
-  | 'Learning' 
-  | 'Documentation' 
-  | 'Design' 
-  | 'Review' 
-  | 'Planning' 
-  | 'Admin' 
-  | 'Other';
+// Value of one of the org's task categories (hr_task_categories.value)
+export type TaskCategory = string;
 
-export const TASK_CATEGORIES: { value: TaskCategory; label: string; icon: LucideIcon; color: string }[] = [
-  { value: 'Meeting', label: 'Meeting', icon: Calendar, color: 'text-blue-500' },
-  { value: 'Development', label: 'Development', icon: Code, color: 'text-emerald-500' },
-  { value: 'Support', label: 'Support', icon: Bug, color: 'text-red-500' },
-  { value: 'Learning', label: 'Learning', icon: BookOpen, color: 'text-purple-500' },
-  { value: 'Documentation', label: 'Documentation', icon: FileText, color: 'text-amber-500' },
-  { value: 'Design', label: 'Design', icon: Palette, color: 'text-pink-500' },
-  { value: 'Review', label: 'Review', icon: Search, color: 'text-cyan-500' },
-  { value: 'Planning', label: 'Planning', icon: BarChart3, color: 'text-indigo-500' },
-  { value: 'Admin', label: 'Admin', icon: Mail, color: 'text-slate-500' },
-  { value: 'Other', label: 'Other', icon: Target, color: 'text-gray-500' },
-];
+export interface TaskCategoryConfig {
+  value: TaskCategory;
+  label: string;
+  icon: LucideIcon;
+  color: string; // Text colour class for the icon
+  barColor: string; // Background colour class for bars
+  hex: string; // Chart colour
+  department: string | null; // Only this department can choose it; null = everyone
+  isActive: boolean;
+}
 
-export const getCategoryConfig = (category: TaskCategory) => {
-  return TASK_CATEGORIES.find(c => c.value === category) || TASK_CATEGORIES[TASK_CATEGORIES.length - 1];
+// Looks a task's category up in the org's categories (see useTaskCategories)
+export const getCategoryConfig = (category: TaskCategory, categories: TaskCategoryConfig[]): TaskCategoryConfig => {
+  return categories.find(c => c.value === category) || unknownCategoryConfig(category);
 };
 
 export interface DayTasks {
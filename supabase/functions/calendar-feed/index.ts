@@ -0,0 +1,220 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+// Read-only iCalendar feed authenticated by an hr_calendar_feed_tokens token:
+// the employee's approved leaves, holidays and, for managers, their reports' leaves.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+interface LeaveRow {
+  id: string;
+  leave_type: string;
+  start_date: string;
+  end_date: string;
+  start_session: string;
+  end_session: string;
+  employee?: { full_name: string } | null;
+}
+
+const SESSION_LABELS: Record<string, string> = {
+  first_half: "first half",
+  second_half: "second half",
+};
+
+// RFC 5545 TEXT escaping
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space. Iterating
+// the string yields whole code points, so a character is never split across lines.
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > 75) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+};
+
+const toIcsDate = (date: string): string => date.replace(/-/g, "");
+
+const nextDay = (date: string): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+const allDayEvent = (uid: string, start: string, end: string, summary: string, stamp: string, busy: boolean): string[] => [
+  "BEGIN:VEVENT",
+  `UID:${uid}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART;VALUE=DATE:${toIcsDate(start)}`,
+  `DTEND;VALUE=DATE:${toIcsDate(nextDay(end))}`,
+  `SUMMARY:${escapeText(summary)}`,
+  `TRANSP:${busy ? "OPAQUE" : "TRANSPARENT"}`,
+  "END:VEVENT",
+];
+
+// Half-day sessions only apply to a single day or the edges of a range
+const describeLeave = (leave: LeaveRow): string => {
+  if (leave.start_date === leave.end_date) {
+    const session = SESSION_LABELS[leave.start_session];
+    return session ? `${leave.leave_type} (${session})` : leave.leave_type;
+  }
+
+  const notes = [
+    leave.start_session === "second_half" ? "from second half" : null,
+    leave.end_session === "first_half" ? "until first half" : null,
+  ].filter(Boolean);
+  return notes.length > 0 ? `${leave.leave_type} (${notes.join(", ")})` : leave.leave_type;
+};
+
+serve(async (req) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) {
+    return new Response("Missing token", { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: feedToken, error: tokenError } = await supabaseAdmin
+      .from("hr_calendar_feed_tokens")
+      .select("id, employee_id")
+      .eq("token", token)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (tokenError) throw tokenError;
+    if (!feedToken) {
+      return new Response("Invalid or revoked token", { status: 404 });
+    }
+
+    const { data: employee, error: employeeError } = await supabaseAdmin
+      .from("hr_employees")
+      .select("id, full_name, status")
+      .eq("id", feedToken.employee_id)
+      .single();
+
+    if (employeeError) throw employeeError;
+    if (employee.status !== "Active") {
+      return new Response("Invalid or revoked token", { status: 404 });
+    }
+
+    // Everything from the start of last year onwards
+    const from = `${new Date().getUTCFullYear() - 1}-01-01`;
+
+    const { data: reports, error: reportsError } = await supabaseAdmin
+      .from("hr_employees")
+      .select("id")
+      .eq("manager_id", employee.id)
+      .eq("status", "Active");
+
+    if (reportsError) throw reportsError;
+    const reportIds = (reports || []).map((r) => r.id);
+
+    const [ownLeaves, teamLeaves, holidays] = await Promise.all([
+      supabaseAdmin
+        .from("hr_leave_requests")
+        .select("id, leave_type, start_date, end_date, start_session, end_session")
+        .eq("employee_id", employee.id)
+        .eq("status", "Approved")
+        .gte("end_date", from),
+      reportIds.length > 0
+        ? supabaseAdmin
+            .from("hr_leave_requests")
+            .select(`
+              id, leave_type, start_date, end_date, start_session, end_session,
+              employee:hr_employees!hr_leave_requests_employee_id_fkey(full_name)
+            `)
+            .in("employee_id", reportIds)
+            .eq("status", "Approved")
+            .gte("end_date", from)
+        : Promise.resolve({ data: [] as LeaveRow[], error: null }),
+      supabaseAdmin
+        .from("hr_holidays")
+        .select("id, holiday_date, holiday_name, is_optional")
+        .gte("holiday_date", from),
+    ]);
+
+    if (ownLeaves.error) throw ownLeaves.error;
+    if (teamLeaves.error) throw teamLeaves.error;
+    if (holidays.error) throw holidays.error;
+
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//LabelNest HRMS//Leave Calendar//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(`Leave & Holidays - ${employee.full_name}`)}`,
+      "X-PUBLISHED-TTL:PT1H",
+      ...((ownLeaves.data || []) as LeaveRow[]).flatMap((leave) =>
+        allDayEvent(`leave-${leave.id}@hrms`, leave.start_date, leave.end_date, describeLeave(leave), stamp, true)
+      ),
+      ...((teamLeaves.data || []) as unknown as LeaveRow[]).flatMap((leave) =>
+        allDayEvent(
+          `team-leave-${leave.id}@hrms`,
+          leave.start_date,
+          leave.end_date,
+          `${leave.employee?.full_name ?? "Team member"}: ${describeLeave(leave)}`,
+          stamp,
+          false
+        )
+      ),
+      ...(holidays.data || []).flatMap((holiday) =>
+        allDayEvent(
+          `holiday-${holiday.id}@hrms`,
+          holiday.holiday_date,
+          holiday.holiday_date,
+          holiday.is_optional ? `${holiday.holiday_name} (optional holiday)` : holiday.holiday_name,
+          stamp,
+          !holiday.is_optional
+        )
+      ),
+      "END:VCALENDAR",
+    ];
+
+    await supabaseAdmin
+      .from("hr_calendar_feed_tokens")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("id", feedToken.id);
+
+    return new Response(lines.map(foldLine).join("\r\n") + "\r\n", {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="leave-calendar.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return new Response("Failed to build calendar feed", { status: 500 });
+  }
+});
@@ -0,0 +1,112 @@
+-- Per-organization HR settings (leave policy, attendance policy, company profile)
+CREATE TABLE public.hr_org_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+  leave_policy JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attendance_policy JSONB NOT NULL DEFAULT '{}'::jsonb,
+  company_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by UUID REFERENCES public.hr_employees(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.hr_org_settings ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in the org needs the policy to compute balances
+CREATE POLICY "Org members can view their org settings"
+ON public.hr_org_settings
+FOR SELECT
+USING (org_id IN (SELECT org_id FROM hr_employees WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins can insert their org settings"
+ON public.hr_org_settings
+FOR INSERT
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id IN (SELECT org_id FROM hr_employees WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Admins can update their org settings"
+ON public.hr_org_settings
+FOR UPDATE
+USING (
+  user_role() = 'Admin'
+  AND org_id IN (SELECT org_id FROM hr_employees WHERE user_id = auth.uid())
+);
+
+-- Stored leave policy merged over the built-in defaults (mirrors DEFAULT_LEAVE_POLICY in src/lib/orgSettings.ts)
+CREATE OR REPLACE FUNCTION public.org_leave_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'quotas', jsonb_build_object(
+      'Casual Leave', 6,
+      'Sick Leave', 6,
+      'Earned Leave', 18,
+      'Menstruation Leave', 12,
+      'Special Leave', 1
+    ),
+    'earnedLeaveCarryForwardLimit', 30,
+    'requireApproval', true
+  ) || COALESCE((SELECT leave_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.org_leave_quota(p_org_id UUID, p_leave_type TEXT)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE((public.org_leave_policy(p_org_id)->'quotas'->>p_leave_type)::numeric, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Year-end carry forward driven by the org's stored policy.
+-- Earned Leave carries the unused balance (capped at earnedLeaveCarryForwardLimit) on top of
+-- the new annual quota; every other leave type resets to its quota.
+DROP FUNCTION IF EXISTS public.carry_forward_earned_leaves();
+
+CREATE OR REPLACE FUNCTION public.carry_forward_earned_leaves(p_from_year INTEGER DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_org_id UUID;
+  v_from_year INTEGER := COALESCE(p_from_year, EXTRACT(YEAR FROM CURRENT_DATE)::integer - 1);
+  v_to_year INTEGER;
+  v_limit NUMERIC;
+  v_total NUMERIC;
+  r RECORD;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can carry forward leave balances';
+  END IF;
+
+  SELECT org_id INTO v_org_id FROM hr_employees WHERE user_id = auth.uid();
+  v_to_year := v_from_year + 1;
+  v_limit := COALESCE((public.org_leave_policy(v_org_id)->>'earnedLeaveCarryForwardLimit')::numeric, 30);
+
+  FOR r IN
+    SELECT ent.employee_id, ent.leave_type, ent.total_leaves, ent.used_leaves, ent.remaining_leaves
+    FROM hr_leave_entitlements ent
+    JOIN hr_employees emp ON emp.id = ent.employee_id
+    WHERE ent.org_id = v_org_id
+      AND ent.year = v_from_year
+      AND emp.status = 'Active'
+  LOOP
+    v_total := public.org_leave_quota(v_org_id, r.leave_type);
+
+    IF r.leave_type = 'Earned Leave' THEN
+      v_total := v_total + LEAST(
+        GREATEST(COALESCE(r.remaining_leaves, r.total_leaves - r.used_leaves), 0),
+        v_limit
+      );
+    END IF;
+
+    UPDATE hr_leave_entitlements
+    SET total_leaves = v_total,
+        remaining_leaves = GREATEST(v_total - used_leaves, 0),
+        updated_at = now()
+    WHERE employee_id = r.employee_id
+      AND leave_type = r.leave_type
+      AND year = v_to_year;
+
+    IF NOT FOUND THEN
+      INSERT INTO hr_leave_entitlements (org_id, employee_id, leave_type, year, total_leaves, used_leaves, remaining_leaves)
+      VALUES (v_org_id, r.employee_id, r.leave_type, v_to_year, v_total, 0, v_total);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,74 @@
+-- Half-day leave support: day counts become fractional
+ALTER TABLE hr_leave_requests ALTER COLUMN total_days TYPE NUMERIC(5,1);
+ALTER TABLE hr_leave_entitlements ALTER COLUMN total_leaves TYPE NUMERIC(5,1);
+ALTER TABLE hr_leave_entitlements ALTER COLUMN used_leaves TYPE NUMERIC(5,1);
+ALTER TABLE hr_leave_entitlements ALTER COLUMN remaining_leaves TYPE NUMERIC(5,1);
+ALTER TABLE hr_employees ALTER COLUMN leave_balance TYPE NUMERIC(5,1);
+
+-- First/second half sessions at the edges of a leave range
+ALTER TABLE hr_leave_requests ADD COLUMN IF NOT EXISTS start_session TEXT NOT NULL DEFAULT 'full'
+  CHECK (start_session IN ('full', 'first_half', 'second_half'));
+ALTER TABLE hr_leave_requests ADD COLUMN IF NOT EXISTS end_session TEXT NOT NULL DEFAULT 'full'
+  CHECK (end_session IN ('full', 'first_half', 'second_half'));
+
+-- Optional holidays an employee has opted into (treated as days off for leave calculation)
+CREATE TABLE public.hr_optional_holiday_selections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  holiday_id UUID NOT NULL REFERENCES public.hr_holidays(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(employee_id, holiday_id)
+);
+
+ALTER TABLE public.hr_optional_holiday_selections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their optional holidays"
+ON public.hr_optional_holiday_selections
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Employees can opt into optional holidays"
+ON public.hr_optional_holiday_selections
+FOR INSERT
+WITH CHECK (employee_id = user_employee_id());
+
+CREATE POLICY "Employees can opt out of optional holidays"
+ON public.hr_optional_holiday_selections
+FOR DELETE
+USING (employee_id = user_employee_id());
+
+-- Approvers compute team members' leave durations
+CREATE POLICY "Managers can view team optional holidays"
+ON public.hr_optional_holiday_selections
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM hr_employees e
+    WHERE e.id = hr_optional_holiday_selections.employee_id
+    AND e.manager_id = user_employee_id()
+  )
+);
+
+CREATE POLICY "Admins can view all optional holidays"
+ON public.hr_optional_holiday_selections
+FOR SELECT
+USING (user_role() = 'Admin');
+
+CREATE INDEX idx_optional_holiday_selections_employee ON public.hr_optional_holiday_selections(employee_id);
+
+-- Sandwich rule defaults to off
+CREATE OR REPLACE FUNCTION public.org_leave_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'quotas', jsonb_build_object(
+      'Casual Leave', 6,
+      'Sick Leave', 6,
+      'Earned Leave', 18,
+      'Menstruation Leave', 12,
+      'Special Leave', 1
+    ),
+    'earnedLeaveCarryForwardLimit', 30,
+    'requireApproval', true,
+    'sandwichRule', false
+  ) || COALESCE((SELECT leave_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,186 @@
+-- Approve or reject a leave request in a single transaction.
+-- The request and entitlement rows are locked so concurrent approvers cannot
+-- double-deduct; the balance is re-validated before anything is written.
+--
+-- p_total_days / p_leave_days come from the client-side duration engine
+-- (src/lib/leaveDuration.ts); p_leave_days is a JSON array of {date, fraction}
+-- used to mark attendance.
+CREATE OR REPLACE FUNCTION public.process_leave_request(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_total_days NUMERIC DEFAULT NULL,
+  p_leave_days JSONB DEFAULT '[]'::jsonb,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_caller_role TEXT := user_role();
+  v_caller_name TEXT;
+  v_request hr_leave_requests%ROWTYPE;
+  v_employee hr_employees%ROWTYPE;
+  v_entitlement hr_leave_entitlements%ROWTYPE;
+  v_days NUMERIC;
+  v_year INTEGER;
+  v_remaining NUMERIC;
+  v_require_approval BOOLEAN;
+  v_day JSONB;
+BEGIN
+  IF p_decision NOT IN ('Approved', 'Rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO v_request FROM hr_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Leave request has already been %', lower(v_request.status);
+  END IF;
+
+  SELECT * INTO v_employee FROM hr_employees WHERE id = v_request.employee_id;
+  v_require_approval := COALESCE((public.org_leave_policy(v_employee.org_id)->>'requireApproval')::boolean, true);
+
+  -- Managers decide for their reports, admins for anyone; employees may only
+  -- self-approve when the org policy waives approval
+  IF NOT (
+    v_employee.manager_id = v_caller_id
+    OR v_caller_role = 'Admin'
+    OR (p_decision = 'Approved' AND v_request.employee_id = v_caller_id AND NOT v_require_approval)
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to act on this leave request';
+  END IF;
+
+  SELECT full_name INTO v_caller_name FROM hr_employees WHERE id = v_caller_id;
+
+  IF p_decision = 'Rejected' THEN
+    UPDATE hr_leave_requests
+    SET status = 'Rejected',
+        rejection_reason = p_rejection_reason,
+        approved_by = v_caller_id,
+        approved_at = now(),
+        updated_at = now()
+    WHERE id = p_request_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_rejected',
+      'Leave Rejected',
+      format('Your %s leave from %s to %s has been rejected%s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        CASE WHEN p_rejection_reason IS NOT NULL AND p_rejection_reason <> '' THEN ': ' || p_rejection_reason ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object(
+      'request_id', p_request_id,
+      'status', 'Rejected',
+      'total_days', v_request.total_days
+    );
+  END IF;
+
+  v_days := COALESCE(p_total_days, v_request.total_days);
+  IF v_days <= 0 THEN
+    RAISE EXCEPTION 'Leave duration must be greater than zero';
+  END IF;
+
+  v_year := EXTRACT(YEAR FROM v_request.start_date)::integer;
+
+  SELECT * INTO v_entitlement
+  FROM hr_leave_entitlements
+  WHERE employee_id = v_request.employee_id
+    AND leave_type = v_request.leave_type
+    AND year = v_year
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO hr_leave_entitlements (org_id, employee_id, leave_type, year, total_leaves, used_leaves, remaining_leaves)
+    VALUES (
+      v_employee.org_id,
+      v_request.employee_id,
+      v_request.leave_type,
+      v_year,
+      public.org_leave_quota(v_employee.org_id, v_request.leave_type),
+      0,
+      public.org_leave_quota(v_employee.org_id, v_request.leave_type)
+    )
+    RETURNING * INTO v_entitlement;
+  END IF;
+
+  v_remaining := v_entitlement.total_leaves - v_entitlement.used_leaves;
+  IF v_days > v_remaining THEN
+    RAISE EXCEPTION 'Insufficient % balance: % days requested, % remaining',
+      v_request.leave_type, v_days, v_remaining;
+  END IF;
+
+  v_remaining := v_remaining - v_days;
+
+  UPDATE hr_leave_entitlements
+  SET used_leaves = used_leaves + v_days,
+      remaining_leaves = v_remaining,
+      updated_at = now()
+  WHERE id = v_entitlement.id;
+
+  -- Also keep hr_employees.leave_balance in step for system-wide visibility
+  UPDATE hr_employees
+  SET leave_balance = GREATEST(COALESCE(leave_balance, 0) - v_days, 0),
+      updated_at = now()
+  WHERE id = v_request.employee_id;
+
+  UPDATE hr_leave_requests
+  SET status = 'Approved',
+      total_days = v_days,
+      approved_by = v_caller_id,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  -- Mark leave days as "On Leave" in attendance
+  FOR v_day IN SELECT * FROM jsonb_array_elements(COALESCE(p_leave_days, '[]'::jsonb))
+  LOOP
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, status, notes)
+    SELECT
+      v_request.employee_id,
+      (v_day->>'date')::date,
+      now(),
+      'On Leave',
+      v_request.leave_type || CASE WHEN (v_day->>'fraction')::numeric < 1 THEN ' (Half Day)' ELSE '' END || ' - Approved'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM hr_attendance
+      WHERE employee_id = v_request.employee_id
+        AND attendance_date = (v_day->>'date')::date
+        AND status = 'On Leave'
+    );
+  END LOOP;
+
+  IF v_caller_id <> v_request.employee_id THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_approved',
+      'Leave Approved',
+      format('Your %s leave from %s to %s has been approved by %s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        v_caller_name),
+      '/app/leaves'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'status', 'Approved',
+    'total_days', v_days,
+    'leave_type', v_request.leave_type,
+    'year', v_year,
+    'remaining_leaves', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.process_leave_request(UUID, TEXT, NUMERIC, JSONB, TEXT) TO authenticated;
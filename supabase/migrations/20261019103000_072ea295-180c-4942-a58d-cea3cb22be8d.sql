@@ -0,0 +1,454 @@
+-- Multi-level leave approval chains
+-- Rules live in hr_org_settings.leave_policy->'approvalRules' as an ordered array of
+-- { leaveType: text|null, moreThanDays: numeric|null, steps: ['Manager' | 'HR', ...] }.
+-- The first matching rule decides the chain; with no match a request needs its manager only.
+
+CREATE TABLE public.hr_leave_approval_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.hr_leave_requests(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  approver_role TEXT NOT NULL CHECK (approver_role IN ('Manager', 'HR')),
+  approver_id UUID REFERENCES public.hr_employees(id), -- NULL for the HR pool (any Admin)
+  status TEXT NOT NULL DEFAULT 'Waiting' CHECK (status IN ('Waiting', 'Pending', 'Approved', 'Rejected', 'Skipped')),
+  acted_by UUID REFERENCES public.hr_employees(id),
+  acted_at TIMESTAMP WITH TIME ZONE,
+  comments TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(request_id, step_order)
+);
+
+CREATE INDEX idx_leave_approval_steps_request ON public.hr_leave_approval_steps(request_id, step_order);
+CREATE INDEX idx_leave_approval_steps_pending ON public.hr_leave_approval_steps(approver_id, status);
+
+ALTER TABLE public.hr_leave_approval_steps ENABLE ROW LEVEL SECURITY;
+
+-- Steps are written only by the SECURITY DEFINER functions below
+CREATE POLICY "Employees can view their leave approval steps"
+ON public.hr_leave_approval_steps
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM hr_leave_requests r
+    WHERE r.id = hr_leave_approval_steps.request_id
+    AND r.employee_id = user_employee_id()
+  )
+);
+
+CREATE POLICY "Approvers can view their leave approval steps"
+ON public.hr_leave_approval_steps
+FOR SELECT
+USING (
+  approver_id = user_employee_id()
+  OR EXISTS (
+    SELECT 1 FROM hr_leave_requests r
+    JOIN hr_employees e ON e.id = r.employee_id
+    WHERE r.id = hr_leave_approval_steps.request_id
+    AND e.manager_id = user_employee_id()
+  )
+);
+
+CREATE POLICY "Admins can view all leave approval steps"
+ON public.hr_leave_approval_steps
+FOR SELECT
+USING (user_role() = 'Admin');
+
+-- No rules by default: every request goes to the employee's manager
+CREATE OR REPLACE FUNCTION public.org_leave_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'quotas', jsonb_build_object(
+      'Casual Leave', 6,
+      'Sick Leave', 6,
+      'Earned Leave', 18,
+      'Menstruation Leave', 12,
+      'Special Leave', 1
+    ),
+    'earnedLeaveCarryForwardLimit', 30,
+    'requireApproval', true,
+    'sandwichRule', false,
+    'approvalRules', '[]'::jsonb
+  ) || COALESCE((SELECT leave_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Approval chain for a request
+CREATE OR REPLACE FUNCTION public.leave_approval_chain(p_org_id UUID, p_leave_type TEXT, p_total_days NUMERIC)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(
+    (
+      SELECT ARRAY(SELECT jsonb_array_elements_text(rule->'steps'))
+      FROM jsonb_array_elements(COALESCE(public.org_leave_policy(p_org_id)->'approvalRules', '[]'::jsonb))
+        WITH ORDINALITY AS rules(rule, ord)
+      WHERE jsonb_array_length(COALESCE(rule->'steps', '[]'::jsonb)) > 0
+        AND (rule->>'leaveType' IS NULL OR rule->>'leaveType' = p_leave_type)
+        AND (rule->>'moreThanDays' IS NULL OR p_total_days > (rule->>'moreThanDays')::numeric)
+      ORDER BY ord
+      LIMIT 1
+    ),
+    ARRAY['Manager']
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Tell the approver(s) of a step that it is their turn
+CREATE OR REPLACE FUNCTION public.notify_leave_step_approvers(p_step_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_step hr_leave_approval_steps%ROWTYPE;
+  v_request hr_leave_requests%ROWTYPE;
+  v_employee hr_employees%ROWTYPE;
+  v_message TEXT;
+BEGIN
+  SELECT * INTO v_step FROM hr_leave_approval_steps WHERE id = p_step_id;
+  SELECT * INTO v_request FROM hr_leave_requests WHERE id = v_step.request_id;
+  SELECT * INTO v_employee FROM hr_employees WHERE id = v_request.employee_id;
+
+  v_message := format('%s requested %s (%s days) from %s to %s and it is awaiting your approval',
+    v_employee.full_name,
+    v_request.leave_type,
+    v_request.total_days,
+    to_char(v_request.start_date, 'Mon FMDD'),
+    to_char(v_request.end_date, 'Mon FMDD, YYYY'));
+
+  IF v_step.approver_id IS NOT NULL THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (v_step.approver_id, 'leave_approval_pending', 'Leave Approval Required', v_message, '/app/leave-approvals');
+  ELSE
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    SELECT id, 'leave_approval_pending', 'Leave Approval Required', v_message, '/app/approvals'
+    FROM hr_employees
+    WHERE org_id = v_employee.org_id
+      AND role = 'Admin'
+      AND status = 'Active'
+      AND id <> v_employee.id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Build the chain when a request is submitted
+CREATE OR REPLACE FUNCTION public.create_leave_approval_steps()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_employee hr_employees%ROWTYPE;
+  v_chain TEXT[];
+  v_role TEXT;
+  v_approver UUID;
+  v_order INTEGER := 0;
+  v_last_role TEXT;
+  v_first_step UUID;
+  v_step_id UUID;
+BEGIN
+  SELECT * INTO v_employee FROM hr_employees WHERE id = NEW.employee_id;
+
+  -- Orgs that waive approval approve on submission; no chain is needed
+  IF NOT COALESCE((public.org_leave_policy(v_employee.org_id)->>'requireApproval')::boolean, true) THEN
+    RETURN NEW;
+  END IF;
+
+  v_chain := public.leave_approval_chain(v_employee.org_id, NEW.leave_type, NEW.total_days);
+
+  FOREACH v_role IN ARRAY v_chain LOOP
+    v_approver := NULL;
+    IF v_role = 'Manager' THEN
+      v_approver := v_employee.manager_id;
+      -- Employees without a manager go straight to HR
+      IF v_approver IS NULL THEN
+        v_role := 'HR';
+      END IF;
+    END IF;
+
+    -- Collapse repeated HR steps (e.g. Manager fell back to HR, then HR)
+    IF v_role = 'HR' AND v_last_role = 'HR' THEN
+      CONTINUE;
+    END IF;
+
+    v_order := v_order + 1;
+    INSERT INTO hr_leave_approval_steps (request_id, step_order, approver_role, approver_id, status)
+    VALUES (NEW.id, v_order, v_role, v_approver, CASE WHEN v_order = 1 THEN 'Pending' ELSE 'Waiting' END)
+    RETURNING id INTO v_step_id;
+
+    IF v_order = 1 THEN
+      v_first_step := v_step_id;
+    END IF;
+    v_last_role := v_role;
+  END LOOP;
+
+  IF v_first_step IS NOT NULL THEN
+    PERFORM public.notify_leave_step_approvers(v_first_step);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_leave_approval_steps_trigger
+AFTER INSERT ON public.hr_leave_requests
+FOR EACH ROW
+WHEN (NEW.status = 'Pending')
+EXECUTE FUNCTION public.create_leave_approval_steps();
+
+-- Cancelling a request closes its open steps
+CREATE OR REPLACE FUNCTION public.skip_leave_approval_steps()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE hr_leave_approval_steps
+  SET status = 'Skipped'
+  WHERE request_id = NEW.id
+    AND status IN ('Waiting', 'Pending');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER skip_leave_approval_steps_trigger
+AFTER UPDATE OF status ON public.hr_leave_requests
+FOR EACH ROW
+WHEN (NEW.status = 'Cancelled' AND OLD.status <> 'Cancelled')
+EXECUTE FUNCTION public.skip_leave_approval_steps();
+
+-- Approve or reject the current step of a leave request. Intermediate approvals
+-- advance the chain; the final approval deducts the balance atomically.
+CREATE OR REPLACE FUNCTION public.process_leave_request(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_total_days NUMERIC DEFAULT NULL,
+  p_leave_days JSONB DEFAULT '[]'::jsonb,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_caller_role TEXT := user_role();
+  v_caller_name TEXT;
+  v_request hr_leave_requests%ROWTYPE;
+  v_employee hr_employees%ROWTYPE;
+  v_entitlement hr_leave_entitlements%ROWTYPE;
+  v_step hr_leave_approval_steps%ROWTYPE;
+  v_next_step hr_leave_approval_steps%ROWTYPE;
+  v_has_step BOOLEAN;
+  v_days NUMERIC;
+  v_year INTEGER;
+  v_remaining NUMERIC;
+  v_require_approval BOOLEAN;
+  v_day JSONB;
+BEGIN
+  IF p_decision NOT IN ('Approved', 'Rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO v_request FROM hr_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Leave request has already been %', lower(v_request.status);
+  END IF;
+
+  SELECT * INTO v_employee FROM hr_employees WHERE id = v_request.employee_id;
+  SELECT full_name INTO v_caller_name FROM hr_employees WHERE id = v_caller_id;
+  v_require_approval := COALESCE((public.org_leave_policy(v_employee.org_id)->>'requireApproval')::boolean, true);
+
+  SELECT * INTO v_step
+  FROM hr_leave_approval_steps
+  WHERE request_id = p_request_id AND status = 'Pending'
+  ORDER BY step_order
+  LIMIT 1
+  FOR UPDATE;
+  v_has_step := FOUND;
+
+  IF v_has_step THEN
+    -- The step's approver acts; admins may act on any step
+    IF NOT (
+      (v_step.approver_id IS NOT NULL AND v_step.approver_id = v_caller_id)
+      OR v_caller_role = 'Admin'
+    ) THEN
+      RAISE EXCEPTION 'This leave request is awaiting % approval', lower(v_step.approver_role);
+    END IF;
+  ELSIF NOT (
+    -- Requests without a chain: manager or admin, or self-approval when the policy waives it
+    v_employee.manager_id = v_caller_id
+    OR v_caller_role = 'Admin'
+    OR (p_decision = 'Approved' AND v_request.employee_id = v_caller_id AND NOT v_require_approval)
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to act on this leave request';
+  END IF;
+
+  IF p_decision = 'Rejected' THEN
+    IF v_has_step THEN
+      UPDATE hr_leave_approval_steps
+      SET status = 'Rejected', acted_by = v_caller_id, acted_at = now(), comments = p_rejection_reason
+      WHERE id = v_step.id;
+
+      UPDATE hr_leave_approval_steps
+      SET status = 'Skipped'
+      WHERE request_id = p_request_id AND status = 'Waiting';
+    END IF;
+
+    UPDATE hr_leave_requests
+    SET status = 'Rejected',
+        rejection_reason = p_rejection_reason,
+        approved_by = v_caller_id,
+        approved_at = now(),
+        updated_at = now()
+    WHERE id = p_request_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_rejected',
+      'Leave Rejected',
+      format('Your %s leave from %s to %s has been rejected%s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        CASE WHEN p_rejection_reason IS NOT NULL AND p_rejection_reason <> '' THEN ': ' || p_rejection_reason ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object(
+      'request_id', p_request_id,
+      'status', 'Rejected',
+      'total_days', v_request.total_days
+    );
+  END IF;
+
+  v_days := COALESCE(p_total_days, v_request.total_days);
+  IF v_days <= 0 THEN
+    RAISE EXCEPTION 'Leave duration must be greater than zero';
+  END IF;
+
+  v_year := EXTRACT(YEAR FROM v_request.start_date)::integer;
+
+  SELECT * INTO v_entitlement
+  FROM hr_leave_entitlements
+  WHERE employee_id = v_request.employee_id
+    AND leave_type = v_request.leave_type
+    AND year = v_year
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO hr_leave_entitlements (org_id, employee_id, leave_type, year, total_leaves, used_leaves, remaining_leaves)
+    VALUES (
+      v_employee.org_id,
+      v_request.employee_id,
+      v_request.leave_type,
+      v_year,
+      public.org_leave_quota(v_employee.org_id, v_request.leave_type),
+      0,
+      public.org_leave_quota(v_employee.org_id, v_request.leave_type)
+    )
+    RETURNING * INTO v_entitlement;
+  END IF;
+
+  v_remaining := v_entitlement.total_leaves - v_entitlement.used_leaves;
+  IF v_days > v_remaining THEN
+    RAISE EXCEPTION 'Insufficient % balance: % days requested, % remaining',
+      v_request.leave_type, v_days, v_remaining;
+  END IF;
+
+  IF v_has_step THEN
+    UPDATE hr_leave_approval_steps
+    SET status = 'Approved', acted_by = v_caller_id, acted_at = now()
+    WHERE id = v_step.id;
+
+    SELECT * INTO v_next_step
+    FROM hr_leave_approval_steps
+    WHERE request_id = p_request_id AND status = 'Waiting'
+    ORDER BY step_order
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE hr_leave_approval_steps SET status = 'Pending' WHERE id = v_next_step.id;
+      UPDATE hr_leave_requests SET total_days = v_days, updated_at = now() WHERE id = p_request_id;
+
+      PERFORM public.notify_leave_step_approvers(v_next_step.id);
+
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        v_request.employee_id,
+        'leave_step_approved',
+        'Leave Approval Progress',
+        format('Your %s leave from %s to %s was approved by %s and is now awaiting %s approval',
+          v_request.leave_type,
+          to_char(v_request.start_date, 'Mon FMDD'),
+          to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+          v_caller_name,
+          v_next_step.approver_role),
+        '/app/leaves'
+      );
+
+      RETURN jsonb_build_object(
+        'request_id', p_request_id,
+        'status', 'Pending',
+        'total_days', v_days,
+        'next_approver_role', v_next_step.approver_role,
+        'remaining_leaves', v_remaining
+      );
+    END IF;
+  END IF;
+
+  v_remaining := v_remaining - v_days;
+
+  UPDATE hr_leave_entitlements
+  SET used_leaves = used_leaves + v_days,
+      remaining_leaves = v_remaining,
+      updated_at = now()
+  WHERE id = v_entitlement.id;
+
+  -- Also keep hr_employees.leave_balance in step for system-wide visibility
+  UPDATE hr_employees
+  SET leave_balance = GREATEST(COALESCE(leave_balance, 0) - v_days, 0),
+      updated_at = now()
+  WHERE id = v_request.employee_id;
+
+  UPDATE hr_leave_requests
+  SET status = 'Approved',
+      total_days = v_days,
+      approved_by = v_caller_id,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  -- Mark leave days as "On Leave" in attendance
+  FOR v_day IN SELECT * FROM jsonb_array_elements(COALESCE(p_leave_days, '[]'::jsonb))
+  LOOP
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, status, notes)
+    SELECT
+      v_request.employee_id,
+      (v_day->>'date')::date,
+      now(),
+      'On Leave',
+      v_request.leave_type || CASE WHEN (v_day->>'fraction')::numeric < 1 THEN ' (Half Day)' ELSE '' END || ' - Approved'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM hr_attendance
+      WHERE employee_id = v_request.employee_id
+        AND attendance_date = (v_day->>'date')::date
+        AND status = 'On Leave'
+    );
+  END LOOP;
+
+  IF v_caller_id <> v_request.employee_id THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_approved',
+      'Leave Approved',
+      format('Your %s leave from %s to %s has been approved by %s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        v_caller_name),
+      '/app/leaves'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'status', 'Approved',
+    'total_days', v_days,
+    'leave_type', v_request.leave_type,
+    'year', v_year,
+    'remaining_leaves', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.leave_approval_chain(UUID, TEXT, NUMERIC) TO authenticated;
@@ -0,0 +1,600 @@
+-- Approval delegation: a manager names a delegate for a date range while they are away.
+-- Leave and work-log approvals addressed to the manager can then be decided by the
+-- delegate; every delegation and every decision taken on someone's behalf is audited.
+
+CREATE TABLE public.hr_approval_delegations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  delegator_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.hr_employees(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (delegator_id <> delegate_id),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_approval_delegations_delegator ON public.hr_approval_delegations(delegator_id, start_date, end_date);
+CREATE INDEX idx_approval_delegations_delegate ON public.hr_approval_delegations(delegate_id, start_date, end_date);
+
+ALTER TABLE public.hr_approval_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view delegations they are part of"
+ON public.hr_approval_delegations
+FOR SELECT
+USING (delegator_id = user_employee_id() OR delegate_id = user_employee_id());
+
+CREATE POLICY "Managers can delegate their approvals"
+ON public.hr_approval_delegations
+FOR INSERT
+WITH CHECK (delegator_id = user_employee_id() AND user_role() IN ('Manager', 'Admin'));
+
+CREATE POLICY "Managers can revoke their delegations"
+ON public.hr_approval_delegations
+FOR UPDATE
+USING (delegator_id = user_employee_id());
+
+CREATE POLICY "Admins can view all delegations"
+ON public.hr_approval_delegations
+FOR SELECT
+USING (user_role() = 'Admin');
+
+CREATE POLICY "Admins can manage delegations"
+ON public.hr_approval_delegations
+FOR UPDATE
+USING (user_role() = 'Admin');
+
+-- Audit trail for sensitive HR actions
+CREATE TABLE public.hr_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.hr_employees(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_entity ON public.hr_audit_log(entity_type, entity_id);
+CREATE INDEX idx_audit_log_org_created ON public.hr_audit_log(org_id, created_at DESC);
+
+ALTER TABLE public.hr_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written only through log_audit_event() and triggers
+CREATE POLICY "Admins can view the audit log"
+ON public.hr_audit_log
+FOR SELECT
+USING (user_role() = 'Admin');
+
+CREATE POLICY "Employees can view their own audit entries"
+ON public.hr_audit_log
+FOR SELECT
+USING (actor_id = user_employee_id());
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(
+  p_action TEXT,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+  SELECT e.org_id, e.id, p_action, p_entity_type, p_entity_id, COALESCE(p_details, '{}'::jsonb)
+  FROM hr_employees e
+  WHERE e.id = user_employee_id()
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.log_audit_event(TEXT, TEXT, UUID, JSONB) TO authenticated;
+
+-- Approvers the given employee is standing in for today
+CREATE OR REPLACE FUNCTION public.active_delegator_ids(p_delegate_id UUID)
+RETURNS SETOF UUID AS $$
+  SELECT DISTINCT delegator_id
+  FROM hr_approval_delegations
+  WHERE delegate_id = p_delegate_id
+    AND revoked_at IS NULL
+    AND CURRENT_DATE BETWEEN start_date AND end_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Who is standing in for an approver today (NULL when they are not away)
+CREATE OR REPLACE FUNCTION public.active_delegate_for(p_approver_id UUID)
+RETURNS UUID AS $$
+  SELECT delegate_id
+  FROM hr_approval_delegations
+  WHERE delegator_id = p_approver_id
+    AND revoked_at IS NULL
+    AND CURRENT_DATE BETWEEN start_date AND end_date
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- True when the current user is the employee's manager or is standing in for them
+CREATE OR REPLACE FUNCTION public.is_acting_manager_of(p_employee_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM hr_employees e
+    WHERE e.id = p_employee_id
+      AND e.manager_id IS NOT NULL
+      AND (
+        e.manager_id = user_employee_id()
+        OR e.manager_id IN (SELECT public.active_delegator_ids(user_employee_id()))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.active_delegator_ids(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.active_delegate_for(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_acting_manager_of(UUID) TO authenticated;
+
+-- Delegates see and act on what their delegator would
+CREATE POLICY "Delegates can view delegated leave requests"
+ON public.hr_leave_requests
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Delegates can view delegated leave approval steps"
+ON public.hr_leave_approval_steps
+FOR SELECT
+USING (approver_id IN (SELECT active_delegator_ids(user_employee_id())));
+
+CREATE POLICY "Delegates can view delegated team optional holidays"
+ON public.hr_optional_holiday_selections
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Delegates can view delegated team week logs"
+ON public.hr_work_log_weeks
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Delegates can update delegated team week logs for approval"
+ON public.hr_work_log_weeks
+FOR UPDATE
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Delegates can view delegated team tasks"
+ON public.hr_work_log_tasks
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Delegates can update delegated team tasks for rework"
+ON public.hr_work_log_tasks
+FOR UPDATE
+USING (is_acting_manager_of(employee_id));
+
+-- Notify and audit when a delegation is created or revoked
+CREATE OR REPLACE FUNCTION public.on_approval_delegation_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_delegator_name TEXT;
+BEGIN
+  SELECT full_name INTO v_delegator_name FROM hr_employees WHERE id = NEW.delegator_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      NEW.delegate_id,
+      'approval_delegated',
+      'Approvals Delegated to You',
+      format('%s has delegated their approvals to you from %s to %s',
+        v_delegator_name,
+        to_char(NEW.start_date, 'Mon FMDD'),
+        to_char(NEW.end_date, 'Mon FMDD, YYYY')),
+      '/app/leave-approvals'
+    );
+
+    INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+    VALUES (
+      NEW.org_id,
+      COALESCE(NEW.created_by, NEW.delegator_id),
+      'delegation_created',
+      'approval_delegation',
+      NEW.id,
+      jsonb_build_object(
+        'delegator_id', NEW.delegator_id,
+        'delegate_id', NEW.delegate_id,
+        'start_date', NEW.start_date,
+        'end_date', NEW.end_date,
+        'reason', NEW.reason
+      )
+    );
+  ELSIF NEW.revoked_at IS NOT NULL AND OLD.revoked_at IS NULL THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      NEW.delegate_id,
+      'approval_delegation_revoked',
+      'Approval Delegation Ended',
+      format('%s has revoked the approval delegation for %s to %s',
+        v_delegator_name,
+        to_char(NEW.start_date, 'Mon FMDD'),
+        to_char(NEW.end_date, 'Mon FMDD, YYYY')),
+      NULL
+    );
+
+    INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+    VALUES (
+      NEW.org_id,
+      COALESCE(user_employee_id(), NEW.delegator_id),
+      'delegation_revoked',
+      'approval_delegation',
+      NEW.id,
+      jsonb_build_object('delegator_id', NEW.delegator_id, 'delegate_id', NEW.delegate_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_approval_delegation_change_trigger
+AFTER INSERT OR UPDATE ON public.hr_approval_delegations
+FOR EACH ROW
+EXECUTE FUNCTION public.on_approval_delegation_change();
+
+-- Record decisions a delegate takes on someone else's behalf
+CREATE OR REPLACE FUNCTION public.audit_delegated_leave_step()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.acted_by IS NOT NULL
+    AND NEW.approver_id IS NOT NULL
+    AND NEW.acted_by <> NEW.approver_id
+    AND NEW.acted_by IN (
+      SELECT delegate_id FROM hr_approval_delegations
+      WHERE delegator_id = NEW.approver_id
+        AND revoked_at IS NULL
+        AND CURRENT_DATE BETWEEN start_date AND end_date
+    )
+  THEN
+    INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+    SELECT e.org_id, NEW.acted_by, 'leave_step_' || lower(NEW.status) || '_by_delegate', 'leave_request', NEW.request_id,
+      jsonb_build_object('step_id', NEW.id, 'on_behalf_of', NEW.approver_id)
+    FROM hr_employees e
+    WHERE e.id = NEW.acted_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_delegated_leave_step_trigger
+AFTER UPDATE OF acted_by ON public.hr_leave_approval_steps
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_delegated_leave_step();
+
+CREATE OR REPLACE FUNCTION public.audit_delegated_work_log_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_manager_id UUID;
+BEGIN
+  SELECT manager_id INTO v_manager_id FROM hr_employees WHERE id = NEW.employee_id;
+
+  IF NEW.approved_by IS NOT NULL
+    AND NEW.approved_by IS DISTINCT FROM OLD.approved_by
+    AND v_manager_id IS NOT NULL
+    AND NEW.approved_by <> v_manager_id
+    AND NEW.approved_by IN (
+      SELECT delegate_id FROM hr_approval_delegations
+      WHERE delegator_id = v_manager_id
+        AND revoked_at IS NULL
+        AND CURRENT_DATE BETWEEN start_date AND end_date
+    )
+  THEN
+    INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+    SELECT e.org_id, NEW.approved_by, 'work_log_approved_by_delegate', 'work_log_week', NEW.id,
+      jsonb_build_object('on_behalf_of', v_manager_id, 'week_start_date', NEW.week_start_date)
+    FROM hr_employees e
+    WHERE e.id = NEW.approved_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_delegated_work_log_approval_trigger
+AFTER UPDATE OF approved_by ON public.hr_work_log_weeks
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_delegated_work_log_approval();
+
+-- Delegates of an approver are told when a step reaches them
+CREATE OR REPLACE FUNCTION public.notify_leave_step_approvers(p_step_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_step hr_leave_approval_steps%ROWTYPE;
+  v_request hr_leave_requests%ROWTYPE;
+  v_employee hr_employees%ROWTYPE;
+  v_message TEXT;
+  v_delegate_id UUID;
+BEGIN
+  SELECT * INTO v_step FROM hr_leave_approval_steps WHERE id = p_step_id;
+  SELECT * INTO v_request FROM hr_leave_requests WHERE id = v_step.request_id;
+  SELECT * INTO v_employee FROM hr_employees WHERE id = v_request.employee_id;
+
+  v_message := format('%s requested %s (%s days) from %s to %s and it is awaiting your approval',
+    v_employee.full_name,
+    v_request.leave_type,
+    v_request.total_days,
+    to_char(v_request.start_date, 'Mon FMDD'),
+    to_char(v_request.end_date, 'Mon FMDD, YYYY'));
+
+  IF v_step.approver_id IS NOT NULL THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (v_step.approver_id, 'leave_approval_pending', 'Leave Approval Required', v_message, '/app/leave-approvals');
+
+    -- An approver who is away has named someone to decide in their place
+    v_delegate_id := public.active_delegate_for(v_step.approver_id);
+    IF v_delegate_id IS NOT NULL THEN
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (v_delegate_id, 'leave_approval_pending', 'Leave Approval Required (Delegated)', v_message, '/app/leave-approvals');
+    END IF;
+  ELSE
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    SELECT id, 'leave_approval_pending', 'Leave Approval Required', v_message, '/app/approvals'
+    FROM hr_employees
+    WHERE org_id = v_employee.org_id
+      AND role = 'Admin'
+      AND status = 'Active'
+      AND id <> v_employee.id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delegates may decide steps addressed to the approver they stand in for
+CREATE OR REPLACE FUNCTION public.process_leave_request(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_total_days NUMERIC DEFAULT NULL,
+  p_leave_days JSONB DEFAULT '[]'::jsonb,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_caller_role TEXT := user_role();
+  v_caller_name TEXT;
+  v_request hr_leave_requests%ROWTYPE;
+  v_employee hr_employees%ROWTYPE;
+  v_entitlement hr_leave_entitlements%ROWTYPE;
+  v_step hr_leave_approval_steps%ROWTYPE;
+  v_next_step hr_leave_approval_steps%ROWTYPE;
+  v_has_step BOOLEAN;
+  v_days NUMERIC;
+  v_year INTEGER;
+  v_remaining NUMERIC;
+  v_require_approval BOOLEAN;
+  v_day JSONB;
+BEGIN
+  IF p_decision NOT IN ('Approved', 'Rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO v_request FROM hr_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Leave request has already been %', lower(v_request.status);
+  END IF;
+
+  SELECT * INTO v_employee FROM hr_employees WHERE id = v_request.employee_id;
+  SELECT full_name INTO v_caller_name FROM hr_employees WHERE id = v_caller_id;
+  v_require_approval := COALESCE((public.org_leave_policy(v_employee.org_id)->>'requireApproval')::boolean, true);
+
+  SELECT * INTO v_step
+  FROM hr_leave_approval_steps
+  WHERE request_id = p_request_id AND status = 'Pending'
+  ORDER BY step_order
+  LIMIT 1
+  FOR UPDATE;
+  v_has_step := FOUND;
+
+  IF v_has_step THEN
+    -- The step's approver (or their active delegate) acts; admins may act on any step
+    IF NOT (
+      (v_step.approver_id IS NOT NULL AND v_step.approver_id = v_caller_id)
+      OR v_step.approver_id IN (SELECT public.active_delegator_ids(v_caller_id))
+      OR v_caller_role = 'Admin'
+    ) THEN
+      RAISE EXCEPTION 'This leave request is awaiting % approval', lower(v_step.approver_role);
+    END IF;
+  ELSIF NOT (
+    -- Requests without a chain: manager (or delegate) or admin, or self-approval when the policy waives it
+    v_employee.manager_id = v_caller_id
+    OR v_employee.manager_id IN (SELECT public.active_delegator_ids(v_caller_id))
+    OR v_caller_role = 'Admin'
+    OR (p_decision = 'Approved' AND v_request.employee_id = v_caller_id AND NOT v_require_approval)
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to act on this leave request';
+  END IF;
+
+  IF p_decision = 'Rejected' THEN
+    IF v_has_step THEN
+      UPDATE hr_leave_approval_steps
+      SET status = 'Rejected', acted_by = v_caller_id, acted_at = now(), comments = p_rejection_reason
+      WHERE id = v_step.id;
+
+      UPDATE hr_leave_approval_steps
+      SET status = 'Skipped'
+      WHERE request_id = p_request_id AND status = 'Waiting';
+    END IF;
+
+    UPDATE hr_leave_requests
+    SET status = 'Rejected',
+        rejection_reason = p_rejection_reason,
+        approved_by = v_caller_id,
+        approved_at = now(),
+        updated_at = now()
+    WHERE id = p_request_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_rejected',
+      'Leave Rejected',
+      format('Your %s leave from %s to %s has been rejected%s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        CASE WHEN p_rejection_reason IS NOT NULL AND p_rejection_reason <> '' THEN ': ' || p_rejection_reason ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object(
+      'request_id', p_request_id,
+      'status', 'Rejected',
+      'total_days', v_request.total_days
+    );
+  END IF;
+
+  v_days := COALESCE(p_total_days, v_request.total_days);
+  IF v_days <= 0 THEN
+    RAISE EXCEPTION 'Leave duration must be greater than zero';
+  END IF;
+
+  v_year := EXTRACT(YEAR FROM v_request.start_date)::integer;
+
+  SELECT * INTO v_entitlement
+  FROM hr_leave_entitlements
+  WHERE employee_id = v_request.employee_id
+    AND leave_type = v_request.leave_type
+    AND year = v_year
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO hr_leave_entitlements (org_id, employee_id, leave_type, year, total_leaves, used_leaves, remaining_leaves)
+    VALUES (
+      v_employee.org_id,
+      v_request.employee_id,
+      v_request.leave_type,
+      v_year,
+      public.org_leave_quota(v_employee.org_id, v_request.leave_type),
+      0,
+      public.org_leave_quota(v_employee.org_id, v_request.leave_type)
+    )
+    RETURNING * INTO v_entitlement;
+  END IF;
+
+  v_remaining := v_entitlement.total_leaves - v_entitlement.used_leaves;
+  IF v_days > v_remaining THEN
+    RAISE EXCEPTION 'Insufficient % balance: % days requested, % remaining',
+      v_request.leave_type, v_days, v_remaining;
+  END IF;
+
+  IF v_has_step THEN
+    UPDATE hr_leave_approval_steps
+    SET status = 'Approved', acted_by = v_caller_id, acted_at = now()
+    WHERE id = v_step.id;
+
+    SELECT * INTO v_next_step
+    FROM hr_leave_approval_steps
+    WHERE request_id = p_request_id AND status = 'Waiting'
+    ORDER BY step_order
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE hr_leave_approval_steps SET status = 'Pending' WHERE id = v_next_step.id;
+      UPDATE hr_leave_requests SET total_days = v_days, updated_at = now() WHERE id = p_request_id;
+
+      PERFORM public.notify_leave_step_approvers(v_next_step.id);
+
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        v_request.employee_id,
+        'leave_step_approved',
+        'Leave Approval Progress',
+        format('Your %s leave from %s to %s was approved by %s and is now awaiting %s approval',
+          v_request.leave_type,
+          to_char(v_request.start_date, 'Mon FMDD'),
+          to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+          v_caller_name,
+          v_next_step.approver_role),
+        '/app/leaves'
+      );
+
+      RETURN jsonb_build_object(
+        'request_id', p_request_id,
+        'status', 'Pending',
+        'total_days', v_days,
+        'next_approver_role', v_next_step.approver_role,
+        'remaining_leaves', v_remaining
+      );
+    END IF;
+  END IF;
+
+  v_remaining := v_remaining - v_days;
+
+  UPDATE hr_leave_entitlements
+  SET used_leaves = used_leaves + v_days,
+      remaining_leaves = v_remaining,
+      updated_at = now()
+  WHERE id = v_entitlement.id;
+
+  -- Also keep hr_employees.leave_balance in step for system-wide visibility
+  UPDATE hr_employees
+  SET leave_balance = GREATEST(COALESCE(leave_balance, 0) - v_days, 0),
+      updated_at = now()
+  WHERE id = v_request.employee_id;
+
+  UPDATE hr_leave_requests
+  SET status = 'Approved',
+      total_days = v_days,
+      approved_by = v_caller_id,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  -- Mark leave days as "On Leave" in attendance
+  FOR v_day IN SELECT * FROM jsonb_array_elements(COALESCE(p_leave_days, '[]'::jsonb))
+  LOOP
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, status, notes)
+    SELECT
+      v_request.employee_id,
+      (v_day->>'date')::date,
+      now(),
+      'On Leave',
+      v_request.leave_type || CASE WHEN (v_day->>'fraction')::numeric < 1 THEN ' (Half Day)' ELSE '' END || ' - Approved'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM hr_attendance
+      WHERE employee_id = v_request.employee_id
+        AND attendance_date = (v_day->>'date')::date
+        AND status = 'On Leave'
+    );
+  END LOOP;
+
+  IF v_caller_id <> v_request.employee_id THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_approved',
+      'Leave Approved',
+      format('Your %s leave from %s to %s has been approved by %s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        v_caller_name),
+      '/app/leaves'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'status', 'Approved',
+    'total_days', v_days,
+    'leave_type', v_request.leave_type,
+    'year', v_year,
+    'remaining_leaves', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,249 @@
+-- Monthly Earned Leave accrual
+-- With leave_policy.earnedLeaveAccrual = 'monthly' (the default) EL is credited a
+-- twelfth of the annual quota each month instead of the whole quota up front.
+-- Every credit is a row in hr_leave_accruals; the unique (employee, type, month)
+-- key makes re-running a month a no-op.
+
+-- Opening balance of an entitlement carried in from the previous year
+ALTER TABLE public.hr_leave_entitlements ADD COLUMN IF NOT EXISTS carried_forward NUMERIC(5,1) NOT NULL DEFAULT 0;
+
+-- Existing EL rows were granted quota + carry; recover the carried part
+UPDATE public.hr_leave_entitlements
+SET carried_forward = GREATEST(total_leaves - public.org_leave_quota(org_id, leave_type), 0)
+WHERE leave_type = 'Earned Leave';
+
+CREATE TABLE public.hr_leave_accruals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  accrual_month DATE NOT NULL, -- First day of the credited month
+  days NUMERIC(5,1) NOT NULL,
+  prorated BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(employee_id, leave_type, accrual_month)
+);
+
+CREATE INDEX idx_leave_accruals_employee_year ON public.hr_leave_accruals(employee_id, year);
+
+ALTER TABLE public.hr_leave_accruals ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by accrue_earned_leave()
+CREATE POLICY "Employees can view their leave accruals"
+ON public.hr_leave_accruals
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Managers can view team leave accruals"
+ON public.hr_leave_accruals
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Admins can view all leave accruals"
+ON public.hr_leave_accruals
+FOR SELECT
+USING (user_role() = 'Admin');
+
+-- Monthly accrual is the default
+CREATE OR REPLACE FUNCTION public.org_leave_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'quotas', jsonb_build_object(
+      'Casual Leave', 6,
+      'Sick Leave', 6,
+      'Earned Leave', 18,
+      'Menstruation Leave', 12,
+      'Special Leave', 1
+    ),
+    'earnedLeaveCarryForwardLimit', 30,
+    'earnedLeaveAccrual', 'monthly',
+    'requireApproval', true,
+    'sandwichRule', false,
+    'approvalRules', '[]'::jsonb
+  ) || COALESCE((SELECT leave_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Credit Earned Leave for every month of the year up to p_as_of that has not been
+-- credited yet. The joining month is pro-rated by the days remaining in it, rounded
+-- to the nearest half day. Admins run it for their org; the scheduler (no auth
+-- context) runs it for every org. Returns the number of months credited.
+CREATE OR REPLACE FUNCTION public.accrue_earned_leave(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_emp RECORD;
+  v_monthly NUMERIC;
+  v_year INTEGER := EXTRACT(YEAR FROM p_as_of)::integer;
+  v_year_start DATE := date_trunc('year', p_as_of)::date;
+  v_month DATE;
+  v_days_in_month INTEGER;
+  v_days NUMERIC;
+  v_prorated BOOLEAN;
+  v_inserted INTEGER;
+  v_credited NUMERIC;
+  v_had_accruals BOOLEAN;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can run leave accrual';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    CONTINUE WHEN COALESCE(public.org_leave_policy(v_org.id)->>'earnedLeaveAccrual', 'monthly') <> 'monthly';
+
+    v_monthly := public.org_leave_quota(v_org.id, 'Earned Leave') / 12;
+
+    FOR v_emp IN
+      SELECT id, joining_date
+      FROM hr_employees
+      WHERE org_id = v_org.id
+        AND status = 'Active'
+        AND (joining_date IS NULL OR joining_date <= p_as_of)
+    LOOP
+      v_credited := 0;
+
+      SELECT EXISTS (
+        SELECT 1 FROM hr_leave_accruals
+        WHERE employee_id = v_emp.id AND leave_type = 'Earned Leave' AND year = v_year
+      ) INTO v_had_accruals;
+
+      FOR v_month IN
+        SELECT generate_series(
+          GREATEST(v_year_start, date_trunc('month', COALESCE(v_emp.joining_date, v_year_start))::date),
+          date_trunc('month', p_as_of)::date,
+          interval '1 month'
+        )::date
+      LOOP
+        v_days := v_monthly;
+        v_prorated := false;
+
+        IF v_emp.joining_date IS NOT NULL
+          AND date_trunc('month', v_emp.joining_date)::date = v_month
+          AND EXTRACT(DAY FROM v_emp.joining_date) > 1
+        THEN
+          v_days_in_month := EXTRACT(DAY FROM (v_month + interval '1 month - 1 day'))::integer;
+          v_days := ROUND(v_monthly * (v_days_in_month - EXTRACT(DAY FROM v_emp.joining_date) + 1) / v_days_in_month * 2) / 2;
+          v_prorated := true;
+        END IF;
+
+        CONTINUE WHEN v_days <= 0;
+
+        INSERT INTO hr_leave_accruals (org_id, employee_id, leave_type, year, accrual_month, days, prorated)
+        VALUES (v_org.id, v_emp.id, 'Earned Leave', v_year, v_month, v_days, v_prorated)
+        ON CONFLICT (employee_id, leave_type, accrual_month) DO NOTHING;
+
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+        IF v_inserted > 0 THEN
+          v_credited := v_credited + v_days;
+          v_count := v_count + 1;
+        END IF;
+      END LOOP;
+
+      CONTINUE WHEN v_credited = 0;
+
+      -- The first accrual of the year replaces an up-front grant with the carried balance
+      UPDATE hr_leave_entitlements
+      SET total_leaves = CASE WHEN v_had_accruals THEN total_leaves ELSE carried_forward END + v_credited,
+          remaining_leaves = GREATEST(
+            CASE WHEN v_had_accruals THEN total_leaves ELSE carried_forward END + v_credited - used_leaves,
+            0
+          ),
+          updated_at = now()
+      WHERE employee_id = v_emp.id
+        AND leave_type = 'Earned Leave'
+        AND year = v_year;
+
+      IF NOT FOUND THEN
+        INSERT INTO hr_leave_entitlements (org_id, employee_id, leave_type, year, total_leaves, used_leaves, remaining_leaves, carried_forward)
+        VALUES (v_org.id, v_emp.id, 'Earned Leave', v_year, v_credited, 0, v_credited, 0);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.accrue_earned_leave(DATE) TO authenticated;
+
+-- Carry forward records the carried balance; under monthly accrual the new year's
+-- EL starts from it (plus anything already accrued) rather than from the full quota
+CREATE OR REPLACE FUNCTION public.carry_forward_earned_leaves(p_from_year INTEGER DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_org_id UUID;
+  v_from_year INTEGER := COALESCE(p_from_year, EXTRACT(YEAR FROM CURRENT_DATE)::integer - 1);
+  v_to_year INTEGER;
+  v_limit NUMERIC;
+  v_monthly_accrual BOOLEAN;
+  v_total NUMERIC;
+  v_carried NUMERIC;
+  r RECORD;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can carry forward leave balances';
+  END IF;
+
+  SELECT org_id INTO v_org_id FROM hr_employees WHERE user_id = auth.uid();
+  v_to_year := v_from_year + 1;
+  v_limit := COALESCE((public.org_leave_policy(v_org_id)->>'earnedLeaveCarryForwardLimit')::numeric, 30);
+  v_monthly_accrual := COALESCE(public.org_leave_policy(v_org_id)->>'earnedLeaveAccrual', 'monthly') = 'monthly';
+
+  FOR r IN
+    SELECT ent.employee_id, ent.leave_type, ent.total_leaves, ent.used_leaves, ent.remaining_leaves
+    FROM hr_leave_entitlements ent
+    JOIN hr_employees emp ON emp.id = ent.employee_id
+    WHERE ent.org_id = v_org_id
+      AND ent.year = v_from_year
+      AND emp.status = 'Active'
+  LOOP
+    v_total := public.org_leave_quota(v_org_id, r.leave_type);
+    v_carried := 0;
+
+    IF r.leave_type = 'Earned Leave' THEN
+      v_carried := LEAST(
+        GREATEST(COALESCE(r.remaining_leaves, r.total_leaves - r.used_leaves), 0),
+        v_limit
+      );
+
+      IF v_monthly_accrual THEN
+        SELECT COALESCE(SUM(days), 0) INTO v_total
+        FROM hr_leave_accruals
+        WHERE employee_id = r.employee_id AND leave_type = r.leave_type AND year = v_to_year;
+      END IF;
+
+      v_total := v_total + v_carried;
+    END IF;
+
+    UPDATE hr_leave_entitlements
+    SET total_leaves = v_total,
+        carried_forward = v_carried,
+        remaining_leaves = GREATEST(v_total - used_leaves, 0),
+        updated_at = now()
+    WHERE employee_id = r.employee_id
+      AND leave_type = r.leave_type
+      AND year = v_to_year;
+
+    IF NOT FOUND THEN
+      INSERT INTO hr_leave_entitlements (org_id, employee_id, leave_type, year, total_leaves, used_leaves, remaining_leaves, carried_forward)
+      VALUES (v_org_id, r.employee_id, r.leave_type, v_to_year, v_total, 0, v_total, v_carried);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run on the first of every month where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('accrue-earned-leave', '15 0 1 * *', 'SELECT public.accrue_earned_leave()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,649 @@
+-- Leave balance ledger
+-- Every change to a leave balance is an append-only row in hr_leave_ledger with the
+-- actor and a reason. hr_leave_entitlements becomes a derived summary: a trigger
+-- recomputes total/used/remaining/carried_forward from the ledger on every entry.
+--
+-- entry_type   | days   | effect
+-- credit       | > 0    | adds to total (annual grant, monthly accrual)
+-- carry_forward| signed | adds to total and carried_forward
+-- adjustment   | signed | adds to (or removes from) total
+-- debit        | > 0    | adds to used (approved leave)
+-- reversal     | > 0    | removes from used (approved leave cancelled)
+
+CREATE TABLE public.hr_leave_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('credit', 'debit', 'reversal', 'carry_forward', 'adjustment')),
+  days NUMERIC(5,1) NOT NULL CHECK (days <> 0),
+  reason TEXT NOT NULL,
+  reference_type TEXT, -- annual_grant, accrual, carry_forward, leave_request, manual, migration
+  reference_id UUID,
+  created_by UUID REFERENCES public.hr_employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (entry_type IN ('carry_forward', 'adjustment') OR days > 0)
+);
+
+CREATE INDEX idx_leave_ledger_employee_year ON public.hr_leave_ledger(employee_id, year, leave_type, created_at);
+CREATE INDEX idx_leave_ledger_reference ON public.hr_leave_ledger(reference_type, reference_id);
+
+ALTER TABLE public.hr_leave_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their leave ledger"
+ON public.hr_leave_ledger
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Managers can view team leave ledger"
+ON public.hr_leave_ledger
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Admins can view all leave ledger entries"
+ON public.hr_leave_ledger
+FOR SELECT
+USING (user_role() = 'Admin');
+
+-- Admins seed new hires' opening balances; everything else goes through functions
+CREATE POLICY "Admins can add leave ledger entries"
+ON public.hr_leave_ledger
+FOR INSERT
+WITH CHECK (user_role() = 'Admin');
+
+-- No UPDATE or DELETE policies: entries are corrected by posting new ones
+CREATE OR REPLACE FUNCTION public.prevent_leave_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Leave ledger entries are append-only; post an adjustment instead';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_leave_ledger_update_trigger
+BEFORE UPDATE ON public.hr_leave_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_leave_ledger_update();
+
+-- Rebuild one entitlement row from the ledger
+CREATE OR REPLACE FUNCTION public.recompute_leave_entitlement(p_employee_id UUID, p_leave_type TEXT, p_year INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_org_id UUID;
+  v_total NUMERIC;
+  v_used NUMERIC;
+  v_carried NUMERIC;
+BEGIN
+  SELECT org_id INTO v_org_id FROM hr_employees WHERE id = p_employee_id;
+
+  SELECT
+    COALESCE(SUM(days) FILTER (WHERE entry_type IN ('credit', 'carry_forward', 'adjustment')), 0),
+    COALESCE(SUM(days) FILTER (WHERE entry_type = 'debit'), 0)
+      - COALESCE(SUM(days) FILTER (WHERE entry_type = 'reversal'), 0),
+    COALESCE(SUM(days) FILTER (WHERE entry_type = 'carry_forward'), 0)
+  INTO v_total, v_used, v_carried
+  FROM hr_leave_ledger
+  WHERE employee_id = p_employee_id
+    AND leave_type = p_leave_type
+    AND year = p_year;
+
+  UPDATE hr_leave_entitlements
+  SET total_leaves = v_total,
+      used_leaves = v_used,
+      remaining_leaves = GREATEST(v_total - v_used, 0),
+      carried_forward = v_carried,
+      updated_at = now()
+  WHERE employee_id = p_employee_id
+    AND leave_type = p_leave_type
+    AND year = p_year;
+
+  IF NOT FOUND THEN
+    INSERT INTO hr_leave_entitlements (org_id, employee_id, leave_type, year, total_leaves, used_leaves, remaining_leaves, carried_forward)
+    VALUES (v_org_id, p_employee_id, p_leave_type, p_year, v_total, v_used, GREATEST(v_total - v_used, 0), v_carried);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Post a ledger entry on behalf of the current user (NULL actor for scheduled jobs)
+CREATE OR REPLACE FUNCTION public.post_leave_ledger_entry(
+  p_employee_id UUID,
+  p_leave_type TEXT,
+  p_year INTEGER,
+  p_entry_type TEXT,
+  p_days NUMERIC,
+  p_reason TEXT,
+  p_reference_type TEXT DEFAULT NULL,
+  p_reference_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO hr_leave_ledger (org_id, employee_id, leave_type, year, entry_type, days, reason, reference_type, reference_id, created_by)
+  SELECT e.org_id, p_employee_id, p_leave_type, p_year, p_entry_type, p_days, p_reason, p_reference_type, p_reference_id,
+    CASE WHEN auth.uid() IS NULL THEN NULL ELSE user_employee_id() END
+  FROM hr_employees e
+  WHERE e.id = p_employee_id
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Opening entries for balances that existed before the ledger, built so the
+-- derived totals match what is stored today
+INSERT INTO public.hr_leave_ledger (org_id, employee_id, leave_type, year, entry_type, days, reason, reference_type, created_at)
+SELECT ent.org_id, ent.employee_id, ent.leave_type, ent.year, 'carry_forward', ent.carried_forward,
+  format('Carried forward from %s', ent.year - 1), 'migration', COALESCE(ent.created_at, now())
+FROM public.hr_leave_entitlements ent
+WHERE ent.carried_forward <> 0;
+
+INSERT INTO public.hr_leave_ledger (org_id, employee_id, leave_type, year, entry_type, days, reason, reference_type, reference_id, created_at)
+SELECT acc.org_id, acc.employee_id, acc.leave_type, acc.year, 'credit', acc.days,
+  format('Monthly accrual for %s%s', to_char(acc.accrual_month, 'FMMonth YYYY'), CASE WHEN acc.prorated THEN ' (pro-rated)' ELSE '' END),
+  'accrual', acc.id, acc.created_at
+FROM public.hr_leave_accruals acc;
+
+INSERT INTO public.hr_leave_ledger (org_id, employee_id, leave_type, year, entry_type, days, reason, reference_type, created_at)
+SELECT ent.org_id, ent.employee_id, ent.leave_type, ent.year,
+  CASE WHEN opening.days > 0 THEN 'credit' ELSE 'adjustment' END,
+  opening.days, 'Opening balance', 'migration', COALESCE(ent.created_at, now())
+FROM public.hr_leave_entitlements ent
+CROSS JOIN LATERAL (
+  SELECT ent.total_leaves - ent.carried_forward - COALESCE((
+    SELECT SUM(acc.days) FROM public.hr_leave_accruals acc
+    WHERE acc.employee_id = ent.employee_id AND acc.leave_type = ent.leave_type AND acc.year = ent.year
+  ), 0) AS days
+) opening
+WHERE opening.days <> 0;
+
+INSERT INTO public.hr_leave_ledger (org_id, employee_id, leave_type, year, entry_type, days, reason, reference_type, created_at)
+SELECT ent.org_id, ent.employee_id, ent.leave_type, ent.year, 'debit', ent.used_leaves,
+  'Leave taken before ledger', 'migration', COALESCE(ent.updated_at, ent.created_at, now())
+FROM public.hr_leave_entitlements ent
+WHERE ent.used_leaves > 0;
+
+-- From here on entitlements follow the ledger
+CREATE OR REPLACE FUNCTION public.on_leave_ledger_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.recompute_leave_entitlement(NEW.employee_id, NEW.leave_type, NEW.year);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_leave_ledger_entry_trigger
+AFTER INSERT ON public.hr_leave_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.on_leave_ledger_entry();
+
+-- Cancelling an approved leave gives the days back
+CREATE OR REPLACE FUNCTION public.reverse_cancelled_leave()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.post_leave_ledger_entry(
+    NEW.employee_id,
+    NEW.leave_type,
+    EXTRACT(YEAR FROM NEW.start_date)::integer,
+    'reversal',
+    NEW.total_days,
+    'Approved leave cancelled',
+    'leave_request',
+    NEW.id
+  );
+
+  UPDATE hr_employees
+  SET leave_balance = COALESCE(leave_balance, 0) + NEW.total_days,
+      updated_at = now()
+  WHERE id = NEW.employee_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reverse_cancelled_leave_trigger
+AFTER UPDATE OF status ON public.hr_leave_requests
+FOR EACH ROW
+WHEN (OLD.status = 'Approved' AND NEW.status = 'Cancelled')
+EXECUTE FUNCTION public.reverse_cancelled_leave();
+
+-- Approvals debit the ledger instead of updating the entitlement directly
+CREATE OR REPLACE FUNCTION public.process_leave_request(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_total_days NUMERIC DEFAULT NULL,
+  p_leave_days JSONB DEFAULT '[]'::jsonb,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_caller_role TEXT := user_role();
+  v_caller_name TEXT;
+  v_request hr_leave_requests%ROWTYPE;
+  v_employee hr_employees%ROWTYPE;
+  v_entitlement hr_leave_entitlements%ROWTYPE;
+  v_step hr_leave_approval_steps%ROWTYPE;
+  v_next_step hr_leave_approval_steps%ROWTYPE;
+  v_has_step BOOLEAN;
+  v_days NUMERIC;
+  v_year INTEGER;
+  v_remaining NUMERIC;
+  v_require_approval BOOLEAN;
+  v_day JSONB;
+BEGIN
+  IF p_decision NOT IN ('Approved', 'Rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO v_request FROM hr_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Leave request has already been %', lower(v_request.status);
+  END IF;
+
+  SELECT * INTO v_employee FROM hr_employees WHERE id = v_request.employee_id;
+  SELECT full_name INTO v_caller_name FROM hr_employees WHERE id = v_caller_id;
+  v_require_approval := COALESCE((public.org_leave_policy(v_employee.org_id)->>'requireApproval')::boolean, true);
+
+  SELECT * INTO v_step
+  FROM hr_leave_approval_steps
+  WHERE request_id = p_request_id AND status = 'Pending'
+  ORDER BY step_order
+  LIMIT 1
+  FOR UPDATE;
+  v_has_step := FOUND;
+
+  IF v_has_step THEN
+    -- The step's approver (or their active delegate) acts; admins may act on any step
+    IF NOT (
+      (v_step.approver_id IS NOT NULL AND v_step.approver_id = v_caller_id)
+      OR v_step.approver_id IN (SELECT public.active_delegator_ids(v_caller_id))
+      OR v_caller_role = 'Admin'
+    ) THEN
+      RAISE EXCEPTION 'This leave request is awaiting % approval', lower(v_step.approver_role);
+    END IF;
+  ELSIF NOT (
+    -- Requests without a chain: manager (or delegate) or admin, or self-approval when the policy waives it
+    v_employee.manager_id = v_caller_id
+    OR v_employee.manager_id IN (SELECT public.active_delegator_ids(v_caller_id))
+    OR v_caller_role = 'Admin'
+    OR (p_decision = 'Approved' AND v_request.employee_id = v_caller_id AND NOT v_require_approval)
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to act on this leave request';
+  END IF;
+
+  IF p_decision = 'Rejected' THEN
+    IF v_has_step THEN
+      UPDATE hr_leave_approval_steps
+      SET status = 'Rejected', acted_by = v_caller_id, acted_at = now(), comments = p_rejection_reason
+      WHERE id = v_step.id;
+
+      UPDATE hr_leave_approval_steps
+      SET status = 'Skipped'
+      WHERE request_id = p_request_id AND status = 'Waiting';
+    END IF;
+
+    UPDATE hr_leave_requests
+    SET status = 'Rejected',
+        rejection_reason = p_rejection_reason,
+        approved_by = v_caller_id,
+        approved_at = now(),
+        updated_at = now()
+    WHERE id = p_request_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_rejected',
+      'Leave Rejected',
+      format('Your %s leave from %s to %s has been rejected%s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        CASE WHEN p_rejection_reason IS NOT NULL AND p_rejection_reason <> '' THEN ': ' || p_rejection_reason ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object(
+      'request_id', p_request_id,
+      'status', 'Rejected',
+      'total_days', v_request.total_days
+    );
+  END IF;
+
+  v_days := COALESCE(p_total_days, v_request.total_days);
+  IF v_days <= 0 THEN
+    RAISE EXCEPTION 'Leave duration must be greater than zero';
+  END IF;
+
+  v_year := EXTRACT(YEAR FROM v_request.start_date)::integer;
+
+  SELECT * INTO v_entitlement
+  FROM hr_leave_entitlements
+  WHERE employee_id = v_request.employee_id
+    AND leave_type = v_request.leave_type
+    AND year = v_year
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- No balance for the year yet: grant the annual quota (EL under monthly accrual starts empty)
+    IF NOT (v_request.leave_type = 'Earned Leave'
+      AND COALESCE(public.org_leave_policy(v_employee.org_id)->>'earnedLeaveAccrual', 'monthly') = 'monthly')
+      AND public.org_leave_quota(v_employee.org_id, v_request.leave_type) > 0
+    THEN
+      PERFORM public.post_leave_ledger_entry(
+        v_request.employee_id, v_request.leave_type, v_year, 'credit',
+        public.org_leave_quota(v_employee.org_id, v_request.leave_type),
+        format('Annual quota for %s', v_year), 'annual_grant', NULL
+      );
+    ELSE
+      PERFORM public.recompute_leave_entitlement(v_request.employee_id, v_request.leave_type, v_year);
+    END IF;
+
+    SELECT * INTO v_entitlement
+    FROM hr_leave_entitlements
+    WHERE employee_id = v_request.employee_id
+      AND leave_type = v_request.leave_type
+      AND year = v_year
+    FOR UPDATE;
+  END IF;
+
+  v_remaining := v_entitlement.total_leaves - v_entitlement.used_leaves;
+  IF v_days > v_remaining THEN
+    RAISE EXCEPTION 'Insufficient % balance: % days requested, % remaining',
+      v_request.leave_type, v_days, v_remaining;
+  END IF;
+
+  IF v_has_step THEN
+    UPDATE hr_leave_approval_steps
+    SET status = 'Approved', acted_by = v_caller_id, acted_at = now()
+    WHERE id = v_step.id;
+
+    SELECT * INTO v_next_step
+    FROM hr_leave_approval_steps
+    WHERE request_id = p_request_id AND status = 'Waiting'
+    ORDER BY step_order
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE hr_leave_approval_steps SET status = 'Pending' WHERE id = v_next_step.id;
+      UPDATE hr_leave_requests SET total_days = v_days, updated_at = now() WHERE id = p_request_id;
+
+      PERFORM public.notify_leave_step_approvers(v_next_step.id);
+
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        v_request.employee_id,
+        'leave_step_approved',
+        'Leave Approval Progress',
+        format('Your %s leave from %s to %s was approved by %s and is now awaiting %s approval',
+          v_request.leave_type,
+          to_char(v_request.start_date, 'Mon FMDD'),
+          to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+          v_caller_name,
+          v_next_step.approver_role),
+        '/app/leaves'
+      );
+
+      RETURN jsonb_build_object(
+        'request_id', p_request_id,
+        'status', 'Pending',
+        'total_days', v_days,
+        'next_approver_role', v_next_step.approver_role,
+        'remaining_leaves', v_remaining
+      );
+    END IF;
+  END IF;
+
+  v_remaining := v_remaining - v_days;
+
+  PERFORM public.post_leave_ledger_entry(
+    v_request.employee_id, v_request.leave_type, v_year, 'debit', v_days,
+    format('%s from %s to %s', v_request.leave_type, v_request.start_date, v_request.end_date),
+    'leave_request', p_request_id
+  );
+
+  -- Also keep hr_employees.leave_balance in step for system-wide visibility
+  UPDATE hr_employees
+  SET leave_balance = GREATEST(COALESCE(leave_balance, 0) - v_days, 0),
+      updated_at = now()
+  WHERE id = v_request.employee_id;
+
+  UPDATE hr_leave_requests
+  SET status = 'Approved',
+      total_days = v_days,
+      approved_by = v_caller_id,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  -- Mark leave days as "On Leave" in attendance
+  FOR v_day IN SELECT * FROM jsonb_array_elements(COALESCE(p_leave_days, '[]'::jsonb))
+  LOOP
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, status, notes)
+    SELECT
+      v_request.employee_id,
+      (v_day->>'date')::date,
+      now(),
+      'On Leave',
+      v_request.leave_type || CASE WHEN (v_day->>'fraction')::numeric < 1 THEN ' (Half Day)' ELSE '' END || ' - Approved'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM hr_attendance
+      WHERE employee_id = v_request.employee_id
+        AND attendance_date = (v_day->>'date')::date
+        AND status = 'On Leave'
+    );
+  END LOOP;
+
+  IF v_caller_id <> v_request.employee_id THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_approved',
+      'Leave Approved',
+      format('Your %s leave from %s to %s has been approved by %s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        v_caller_name),
+      '/app/leaves'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'status', 'Approved',
+    'total_days', v_days,
+    'leave_type', v_request.leave_type,
+    'year', v_year,
+    'remaining_leaves', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accruals credit the ledger
+CREATE OR REPLACE FUNCTION public.accrue_earned_leave(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_emp RECORD;
+  v_monthly NUMERIC;
+  v_year INTEGER := EXTRACT(YEAR FROM p_as_of)::integer;
+  v_year_start DATE := date_trunc('year', p_as_of)::date;
+  v_month DATE;
+  v_days_in_month INTEGER;
+  v_days NUMERIC;
+  v_prorated BOOLEAN;
+  v_accrual_id UUID;
+  v_upfront NUMERIC;
+  v_had_accruals BOOLEAN;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can run leave accrual';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    CONTINUE WHEN COALESCE(public.org_leave_policy(v_org.id)->>'earnedLeaveAccrual', 'monthly') <> 'monthly';
+
+    v_monthly := public.org_leave_quota(v_org.id, 'Earned Leave') / 12;
+
+    FOR v_emp IN
+      SELECT id, joining_date
+      FROM hr_employees
+      WHERE org_id = v_org.id
+        AND status = 'Active'
+        AND (joining_date IS NULL OR joining_date <= p_as_of)
+    LOOP
+      SELECT EXISTS (
+        SELECT 1 FROM hr_leave_accruals
+        WHERE employee_id = v_emp.id AND leave_type = 'Earned Leave' AND year = v_year
+      ) INTO v_had_accruals;
+
+      FOR v_month IN
+        SELECT generate_series(
+          GREATEST(v_year_start, date_trunc('month', COALESCE(v_emp.joining_date, v_year_start))::date),
+          date_trunc('month', p_as_of)::date,
+          interval '1 month'
+        )::date
+      LOOP
+        v_days := v_monthly;
+        v_prorated := false;
+
+        IF v_emp.joining_date IS NOT NULL
+          AND date_trunc('month', v_emp.joining_date)::date = v_month
+          AND EXTRACT(DAY FROM v_emp.joining_date) > 1
+        THEN
+          v_days_in_month := EXTRACT(DAY FROM (v_month + interval '1 month - 1 day'))::integer;
+          v_days := ROUND(v_monthly * (v_days_in_month - EXTRACT(DAY FROM v_emp.joining_date) + 1) / v_days_in_month * 2) / 2;
+          v_prorated := true;
+        END IF;
+
+        CONTINUE WHEN v_days <= 0;
+
+        v_accrual_id := NULL;
+        INSERT INTO hr_leave_accruals (org_id, employee_id, leave_type, year, accrual_month, days, prorated)
+        VALUES (v_org.id, v_emp.id, 'Earned Leave', v_year, v_month, v_days, v_prorated)
+        ON CONFLICT (employee_id, leave_type, accrual_month) DO NOTHING
+        RETURNING id INTO v_accrual_id;
+
+        CONTINUE WHEN v_accrual_id IS NULL;
+
+        -- The first accrual of the year takes back an up-front grant made before switching to monthly
+        IF NOT v_had_accruals THEN
+          SELECT COALESCE(SUM(days), 0) INTO v_upfront
+          FROM hr_leave_ledger
+          WHERE employee_id = v_emp.id
+            AND leave_type = 'Earned Leave'
+            AND year = v_year
+            AND (reference_type IN ('annual_grant', 'migration') AND entry_type IN ('credit', 'adjustment'));
+
+          IF v_upfront <> 0 THEN
+            PERFORM public.post_leave_ledger_entry(
+              v_emp.id, 'Earned Leave', v_year, 'adjustment', -v_upfront,
+              'Up-front grant replaced by monthly accrual', 'accrual', NULL
+            );
+          END IF;
+          v_had_accruals := true;
+        END IF;
+
+        PERFORM public.post_leave_ledger_entry(
+          v_emp.id, 'Earned Leave', v_year, 'credit', v_days,
+          format('Monthly accrual for %s%s', to_char(v_month, 'FMMonth YYYY'), CASE WHEN v_prorated THEN ' (pro-rated)' ELSE '' END),
+          'accrual', v_accrual_id
+        );
+        v_count := v_count + 1;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Carry forward posts the annual grant and the carried balance to the ledger
+CREATE OR REPLACE FUNCTION public.carry_forward_earned_leaves(p_from_year INTEGER DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_org_id UUID;
+  v_from_year INTEGER := COALESCE(p_from_year, EXTRACT(YEAR FROM CURRENT_DATE)::integer - 1);
+  v_to_year INTEGER;
+  v_limit NUMERIC;
+  v_monthly_accrual BOOLEAN;
+  v_quota NUMERIC;
+  v_carried NUMERIC;
+  v_already_carried NUMERIC;
+  r RECORD;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can carry forward leave balances';
+  END IF;
+
+  SELECT org_id INTO v_org_id FROM hr_employees WHERE user_id = auth.uid();
+  v_to_year := v_from_year + 1;
+  v_limit := COALESCE((public.org_leave_policy(v_org_id)->>'earnedLeaveCarryForwardLimit')::numeric, 30);
+  v_monthly_accrual := COALESCE(public.org_leave_policy(v_org_id)->>'earnedLeaveAccrual', 'monthly') = 'monthly';
+
+  FOR r IN
+    SELECT ent.employee_id, ent.leave_type, ent.total_leaves, ent.used_leaves, ent.remaining_leaves
+    FROM hr_leave_entitlements ent
+    JOIN hr_employees emp ON emp.id = ent.employee_id
+    WHERE ent.org_id = v_org_id
+      AND ent.year = v_from_year
+      AND emp.status = 'Active'
+  LOOP
+    v_quota := public.org_leave_quota(v_org_id, r.leave_type);
+
+    -- Annual quota, once per year (EL under monthly accrual is credited by the accrual job)
+    IF v_quota > 0
+      AND NOT (r.leave_type = 'Earned Leave' AND v_monthly_accrual)
+      AND NOT EXISTS (
+        SELECT 1 FROM hr_leave_ledger
+        WHERE employee_id = r.employee_id AND leave_type = r.leave_type AND year = v_to_year
+          AND reference_type = 'annual_grant'
+      )
+    THEN
+      PERFORM public.post_leave_ledger_entry(
+        r.employee_id, r.leave_type, v_to_year, 'credit', v_quota,
+        format('Annual quota for %s', v_to_year), 'annual_grant', NULL
+      );
+    END IF;
+
+    IF r.leave_type = 'Earned Leave' THEN
+      v_carried := LEAST(
+        GREATEST(COALESCE(r.remaining_leaves, r.total_leaves - r.used_leaves), 0),
+        v_limit
+      );
+
+      -- Re-running only posts the difference from what was already carried
+      SELECT COALESCE(SUM(days), 0) INTO v_already_carried
+      FROM hr_leave_ledger
+      WHERE employee_id = r.employee_id AND leave_type = r.leave_type AND year = v_to_year
+        AND entry_type = 'carry_forward';
+
+      IF v_carried <> v_already_carried THEN
+        PERFORM public.post_leave_ledger_entry(
+          r.employee_id, r.leave_type, v_to_year, 'carry_forward', v_carried - v_already_carried,
+          format('Carried forward from %s (max %s days)', v_from_year, v_limit), 'carry_forward', NULL
+        );
+      END IF;
+    END IF;
+
+    PERFORM public.recompute_leave_entitlement(r.employee_id, r.leave_type, v_to_year);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal helpers: callers go through the functions above, which authorize first
+REVOKE EXECUTE ON FUNCTION public.post_leave_ledger_entry(UUID, TEXT, INTEGER, TEXT, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recompute_leave_entitlement(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
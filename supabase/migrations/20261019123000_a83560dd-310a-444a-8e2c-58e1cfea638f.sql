@@ -0,0 +1,98 @@
+-- Manual leave balance adjustments by HR
+-- Admins credit (positive days) or debit (negative days) a leave type for a year
+-- with a mandatory reason. The change is posted to the leave ledger as an
+-- 'adjustment', recorded in hr_audit_log and the employee is notified.
+
+CREATE OR REPLACE FUNCTION public.adjust_leave_balance(
+  p_employee_id UUID,
+  p_leave_type TEXT,
+  p_year INTEGER,
+  p_days NUMERIC,
+  p_reason TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_employee RECORD;
+  v_before RECORD;
+  v_after RECORD;
+  v_entry_id UUID;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can adjust leave balances';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to adjust a leave balance';
+  END IF;
+
+  IF p_days IS NULL OR p_days = 0 OR p_days * 2 <> trunc(p_days * 2) THEN
+    RAISE EXCEPTION 'Adjustment must be a non-zero multiple of half a day';
+  END IF;
+
+  SELECT id, org_id, full_name INTO v_employee
+  FROM hr_employees
+  WHERE id = p_employee_id
+    AND org_id = (SELECT org_id FROM hr_employees WHERE id = v_caller_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  SELECT total_leaves, used_leaves, remaining_leaves INTO v_before
+  FROM hr_leave_entitlements
+  WHERE employee_id = p_employee_id AND leave_type = p_leave_type AND year = p_year;
+
+  IF COALESCE(v_before.total_leaves, 0) + p_days < COALESCE(v_before.used_leaves, 0) THEN
+    RAISE EXCEPTION 'Cannot debit % days: only % days remain', abs(p_days), COALESCE(v_before.remaining_leaves, 0);
+  END IF;
+
+  v_entry_id := public.post_leave_ledger_entry(
+    p_employee_id, p_leave_type, p_year, 'adjustment', p_days, btrim(p_reason), 'manual', NULL
+  );
+
+  SELECT id, total_leaves, remaining_leaves INTO v_after
+  FROM hr_leave_entitlements
+  WHERE employee_id = p_employee_id AND leave_type = p_leave_type AND year = p_year;
+
+  INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_employee.org_id,
+    v_caller_id,
+    'leave_balance_adjusted',
+    'leave_entitlement',
+    v_after.id,
+    jsonb_build_object(
+      'employee_id', p_employee_id,
+      'leave_type', p_leave_type,
+      'year', p_year,
+      'days', p_days,
+      'reason', btrim(p_reason),
+      'ledger_entry_id', v_entry_id,
+      'previous_total', COALESCE(v_before.total_leaves, 0),
+      'previous_remaining', COALESCE(v_before.remaining_leaves, 0),
+      'new_total', v_after.total_leaves,
+      'new_remaining', v_after.remaining_leaves
+    )
+  );
+
+  INSERT INTO hr_notifications (employee_id, type, title, message, link)
+  VALUES (
+    p_employee_id,
+    'leave_balance_adjusted',
+    'Leave Balance Adjusted',
+    format('HR %s %s day(s) %s your %s balance for %s: %s',
+      CASE WHEN p_days > 0 THEN 'added' ELSE 'deducted' END,
+      abs(p_days),
+      CASE WHEN p_days > 0 THEN 'to' ELSE 'from' END,
+      p_leave_type,
+      p_year,
+      btrim(p_reason)),
+    '/app/leaves'
+  );
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.adjust_leave_balance(UUID, TEXT, INTEGER, NUMERIC, TEXT) TO authenticated;
@@ -0,0 +1,384 @@
+-- Leave encashment
+-- Earned Leave above the carry-forward cap can be encashed instead of lapsing.
+-- Employees request it, HR approves it, and the amount (days x daily rate) is
+-- added as a line item to the employee's next hr_salary_history record.
+--
+-- Daily rate (leave_policy.encashment):
+--   rateBasis 'salary' -> latest gross salary / salaryDivisor
+--   rateBasis 'fixed'  -> fixedDailyRate
+
+CREATE OR REPLACE FUNCTION public.org_leave_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'quotas', jsonb_build_object(
+      'Casual Leave', 6,
+      'Sick Leave', 6,
+      'Earned Leave', 18,
+      'Menstruation Leave', 12,
+      'Special Leave', 1
+    ),
+    'earnedLeaveCarryForwardLimit', 30,
+    'earnedLeaveAccrual', 'monthly',
+    'requireApproval', true,
+    'sandwichRule', false,
+    'approvalRules', '[]'::jsonb,
+    'encashment', jsonb_build_object(
+      'enabled', true,
+      'rateBasis', 'salary',
+      'fixedDailyRate', 0,
+      'salaryDivisor', 30
+    )
+  ) || COALESCE((SELECT leave_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE public.hr_leave_encashments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL DEFAULT 'Earned Leave',
+  year INTEGER NOT NULL,
+  days NUMERIC(5,1) NOT NULL CHECK (days > 0),
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Approved', 'Rejected', 'Cancelled', 'Paid')),
+  daily_rate NUMERIC(12,2),
+  amount NUMERIC(12,2),
+  reviewed_by UUID REFERENCES public.hr_employees(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comments TEXT,
+  salary_history_id UUID REFERENCES public.hr_salary_history(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_leave_encashments_employee ON public.hr_leave_encashments(employee_id, year);
+CREATE INDEX idx_leave_encashments_org_status ON public.hr_leave_encashments(org_id, status);
+
+ALTER TABLE public.hr_leave_encashments ENABLE ROW LEVEL SECURITY;
+
+-- Requests and decisions go through request_leave_encashment / process_leave_encashment
+CREATE POLICY "Employees can view their leave encashments"
+ON public.hr_leave_encashments
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Admins can view all leave encashments"
+ON public.hr_leave_encashments
+FOR SELECT
+USING (user_role() = 'Admin');
+
+CREATE POLICY "Employees can cancel their pending leave encashments"
+ON public.hr_leave_encashments
+FOR UPDATE
+USING (employee_id = user_employee_id() AND status = 'Pending')
+WITH CHECK (employee_id = user_employee_id() AND status = 'Cancelled');
+
+-- Earnings and deductions that make up a salary record beyond the base figures
+CREATE TABLE public.hr_salary_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  salary_history_id UUID NOT NULL REFERENCES public.hr_salary_history(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL, -- leave_encashment
+  description TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL,
+  reference_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_salary_line_items_salary ON public.hr_salary_line_items(salary_history_id);
+
+ALTER TABLE public.hr_salary_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their salary line items"
+ON public.hr_salary_line_items
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Admins can view all salary line items"
+ON public.hr_salary_line_items
+FOR SELECT
+USING (user_role() = 'Admin');
+
+-- Days of Earned Leave the employee can still ask to encash for the year: the
+-- remaining balance above the carry-forward cap, less requests awaiting HR
+CREATE OR REPLACE FUNCTION public.leave_encashment_eligibility(p_employee_id UUID, p_year INTEGER)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_org_id UUID;
+  v_limit NUMERIC;
+  v_remaining NUMERIC;
+  v_pending NUMERIC;
+BEGIN
+  IF p_employee_id <> user_employee_id() AND user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Not authorized to view this employee''s encashment eligibility';
+  END IF;
+
+  SELECT org_id INTO v_org_id FROM hr_employees WHERE id = p_employee_id;
+
+  IF NOT COALESCE((public.org_leave_policy(v_org_id)->'encashment'->>'enabled')::boolean, true) THEN
+    RETURN 0;
+  END IF;
+
+  v_limit := COALESCE((public.org_leave_policy(v_org_id)->>'earnedLeaveCarryForwardLimit')::numeric, 30);
+
+  SELECT COALESCE(remaining_leaves, 0) INTO v_remaining
+  FROM hr_leave_entitlements
+  WHERE employee_id = p_employee_id AND leave_type = 'Earned Leave' AND year = p_year;
+
+  SELECT COALESCE(SUM(days), 0) INTO v_pending
+  FROM hr_leave_encashments
+  WHERE employee_id = p_employee_id AND year = p_year AND status = 'Pending';
+
+  RETURN GREATEST(COALESCE(v_remaining, 0) - v_limit - v_pending, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.leave_encashment_eligibility(UUID, INTEGER) TO authenticated;
+
+-- Daily rate used to value an encashment under the org's policy
+CREATE OR REPLACE FUNCTION public.leave_encashment_daily_rate(p_employee_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_org_id UUID;
+  v_policy JSONB;
+  v_gross NUMERIC;
+  v_divisor NUMERIC;
+BEGIN
+  SELECT org_id INTO v_org_id FROM hr_employees WHERE id = p_employee_id;
+  v_policy := COALESCE(public.org_leave_policy(v_org_id)->'encashment', '{}'::jsonb);
+
+  IF COALESCE(v_policy->>'rateBasis', 'salary') = 'fixed' THEN
+    RETURN COALESCE((v_policy->>'fixedDailyRate')::numeric, 0);
+  END IF;
+
+  SELECT gross_salary INTO v_gross
+  FROM hr_salary_history
+  WHERE employee_id = p_employee_id
+  ORDER BY year DESC, month DESC
+  LIMIT 1;
+
+  v_divisor := NULLIF(COALESCE((v_policy->>'salaryDivisor')::numeric, 30), 0);
+  RETURN ROUND(COALESCE(v_gross, 0) / COALESCE(v_divisor, 30), 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Derived from salary data: internal to the encashment functions
+REVOKE EXECUTE ON FUNCTION public.leave_encashment_daily_rate(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.request_leave_encashment(
+  p_days NUMERIC,
+  p_year INTEGER DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_employee RECORD;
+  v_year INTEGER := COALESCE(p_year, EXTRACT(YEAR FROM CURRENT_DATE)::integer);
+  v_eligible NUMERIC;
+  v_id UUID;
+BEGIN
+  SELECT id, org_id, full_name INTO v_employee FROM hr_employees WHERE id = user_employee_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF p_days IS NULL OR p_days <= 0 OR p_days * 2 <> trunc(p_days * 2) THEN
+    RAISE EXCEPTION 'Days must be a positive multiple of half a day';
+  END IF;
+
+  v_eligible := public.leave_encashment_eligibility(v_employee.id, v_year);
+  IF p_days > v_eligible THEN
+    RAISE EXCEPTION 'Only % day(s) of Earned Leave are eligible for encashment', v_eligible;
+  END IF;
+
+  INSERT INTO hr_leave_encashments (org_id, employee_id, year, days, reason)
+  VALUES (v_employee.org_id, v_employee.id, v_year, p_days, NULLIF(btrim(COALESCE(p_reason, '')), ''))
+  RETURNING id INTO v_id;
+
+  INSERT INTO hr_notifications (employee_id, type, title, message, link)
+  SELECT e.id,
+    'leave_encashment_requested',
+    'Leave Encashment Request',
+    format('%s requested encashment of %s day(s) of Earned Leave', v_employee.full_name, p_days),
+    '/app/approvals'
+  FROM hr_employees e
+  WHERE e.org_id = v_employee.org_id
+    AND e.role = 'Admin'
+    AND e.status = 'Active'
+    AND e.id <> v_employee.id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.request_leave_encashment(NUMERIC, INTEGER, TEXT) TO authenticated;
+
+-- HR decision. Approval values the request at the current daily rate and takes
+-- the days out of the Earned Leave balance through the ledger.
+CREATE OR REPLACE FUNCTION public.process_leave_encashment(
+  p_encashment_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_request RECORD;
+  v_remaining NUMERIC;
+  v_rate NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only HR can process leave encashments';
+  END IF;
+
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid action: %', p_action;
+  END IF;
+
+  SELECT le.* INTO v_request
+  FROM hr_leave_encashments le
+  WHERE le.id = p_encashment_id
+    AND le.org_id = (SELECT org_id FROM hr_employees WHERE id = v_caller_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Encashment request not found';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Encashment request has already been %', lower(v_request.status);
+  END IF;
+
+  IF p_action = 'reject' THEN
+    UPDATE hr_leave_encashments
+    SET status = 'Rejected',
+        reviewed_by = v_caller_id,
+        reviewed_at = now(),
+        review_comments = p_comments,
+        updated_at = now()
+    WHERE id = p_encashment_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_encashment_rejected',
+      'Leave Encashment Rejected',
+      format('Your request to encash %s day(s) of Earned Leave was rejected%s',
+        v_request.days,
+        CASE WHEN p_comments IS NOT NULL AND p_comments <> '' THEN ': ' || p_comments ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object('status', 'Rejected');
+  END IF;
+
+  SELECT COALESCE(remaining_leaves, 0) INTO v_remaining
+  FROM hr_leave_entitlements
+  WHERE employee_id = v_request.employee_id AND leave_type = v_request.leave_type AND year = v_request.year;
+
+  IF COALESCE(v_remaining, 0) < v_request.days THEN
+    RAISE EXCEPTION 'Only % day(s) of % remain', COALESCE(v_remaining, 0), v_request.leave_type;
+  END IF;
+
+  v_rate := public.leave_encashment_daily_rate(v_request.employee_id);
+  IF v_rate IS NULL OR v_rate <= 0 THEN
+    RAISE EXCEPTION 'No daily rate available: add a salary record or set a fixed encashment rate';
+  END IF;
+
+  v_amount := ROUND(v_rate * v_request.days, 2);
+
+  UPDATE hr_leave_encashments
+  SET status = 'Approved',
+      daily_rate = v_rate,
+      amount = v_amount,
+      reviewed_by = v_caller_id,
+      reviewed_at = now(),
+      review_comments = p_comments,
+      updated_at = now()
+  WHERE id = p_encashment_id;
+
+  PERFORM public.post_leave_ledger_entry(
+    v_request.employee_id, v_request.leave_type, v_request.year, 'debit', v_request.days,
+    format('Encashed %s day(s)', v_request.days), 'encashment', p_encashment_id
+  );
+
+  INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_request.org_id,
+    v_caller_id,
+    'leave_encashment_approved',
+    'leave_encashment',
+    p_encashment_id,
+    jsonb_build_object(
+      'employee_id', v_request.employee_id,
+      'days', v_request.days,
+      'daily_rate', v_rate,
+      'amount', v_amount
+    )
+  );
+
+  INSERT INTO hr_notifications (employee_id, type, title, message, link)
+  VALUES (
+    v_request.employee_id,
+    'leave_encashment_approved',
+    'Leave Encashment Approved',
+    format('Your request to encash %s day(s) of Earned Leave was approved for %s. It will be paid with your next salary.',
+      v_request.days, v_amount),
+    '/app/salary'
+  );
+
+  RETURN jsonb_build_object('status', 'Approved', 'daily_rate', v_rate, 'amount', v_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.process_leave_encashment(UUID, TEXT, TEXT) TO authenticated;
+
+-- Approved encashments are paid with the next salary record created for the employee
+CREATE OR REPLACE FUNCTION public.attach_leave_encashments_to_salary()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_total NUMERIC := 0;
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT id, days, daily_rate, amount
+    FROM hr_leave_encashments
+    WHERE employee_id = NEW.employee_id
+      AND status = 'Approved'
+      AND salary_history_id IS NULL
+    ORDER BY reviewed_at
+    FOR UPDATE
+  LOOP
+    INSERT INTO hr_salary_line_items (salary_history_id, employee_id, item_type, description, amount, reference_id)
+    VALUES (
+      NEW.id,
+      NEW.employee_id,
+      'leave_encashment',
+      format('Leave encashment: %s day(s) x %s', r.days, r.daily_rate),
+      r.amount,
+      r.id
+    );
+
+    UPDATE hr_leave_encashments
+    SET status = 'Paid', salary_history_id = NEW.id, updated_at = now()
+    WHERE id = r.id;
+
+    v_total := v_total + r.amount;
+  END LOOP;
+
+  IF v_total > 0 THEN
+    UPDATE hr_salary_history
+    SET gross_salary = gross_salary + v_total,
+        net_salary = net_salary + v_total
+    WHERE id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER attach_leave_encashments_to_salary_trigger
+AFTER INSERT ON public.hr_salary_history
+FOR EACH ROW
+EXECUTE FUNCTION public.attach_leave_encashments_to_salary();
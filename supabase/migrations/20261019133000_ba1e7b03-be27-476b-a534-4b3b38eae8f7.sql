@@ -0,0 +1,402 @@
+-- Compensatory off
+-- Working at least leave_policy.compOff.minHours on a weekend or holiday earns a
+-- comp-off credit (a full day at attendance fullDayHours, otherwise half a day).
+-- The manager approves it, which credits the 'Comp Off' leave type through the
+-- ledger; whatever is still unused after compOff.expiryDays lapses.
+
+CREATE OR REPLACE FUNCTION public.org_leave_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'quotas', jsonb_build_object(
+      'Casual Leave', 6,
+      'Sick Leave', 6,
+      'Earned Leave', 18,
+      'Menstruation Leave', 12,
+      'Special Leave', 1
+    ),
+    'earnedLeaveCarryForwardLimit', 30,
+    'earnedLeaveAccrual', 'monthly',
+    'requireApproval', true,
+    'sandwichRule', false,
+    'approvalRules', '[]'::jsonb,
+    'encashment', jsonb_build_object(
+      'enabled', true,
+      'rateBasis', 'salary',
+      'fixedDailyRate', 0,
+      'salaryDivisor', 30
+    ),
+    'compOff', jsonb_build_object(
+      'enabled', true,
+      'minHours', 4,
+      'expiryDays', 90
+    )
+  ) || COALESCE((SELECT leave_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Stored attendance policy merged over the defaults (keep in sync with orgSettings.ts)
+CREATE OR REPLACE FUNCTION public.org_attendance_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'workStartTime', '09:00',
+    'workEndTime', '18:00',
+    'graceMinutes', 15,
+    'halfDayHours', 4,
+    'fullDayHours', 8,
+    'weekends', jsonb_build_array('saturday', 'sunday')
+  ) || COALESCE((SELECT attendance_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Weekend under the org's policy, a mandatory holiday, or an optional holiday the
+-- employee opted into
+CREATE OR REPLACE FUNCTION public.is_non_working_day(p_employee_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT
+    lower(trim(to_char(p_date, 'Day'))) IN (
+      SELECT jsonb_array_elements_text(public.org_attendance_policy(e.org_id)->'weekends')
+    )
+    OR EXISTS (
+      SELECT 1 FROM hr_holidays h
+      WHERE h.holiday_date = p_date
+        AND (
+          NOT COALESCE(h.is_optional, false)
+          OR EXISTS (
+            SELECT 1 FROM hr_optional_holiday_selections s
+            WHERE s.holiday_id = h.id AND s.employee_id = p_employee_id
+          )
+        )
+    )
+  FROM hr_employees e
+  WHERE e.id = p_employee_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_non_working_day(UUID, DATE) TO authenticated;
+
+CREATE TABLE public.hr_comp_off_credits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  hours NUMERIC(5,2) NOT NULL,
+  days NUMERIC(3,1) NOT NULL CHECK (days IN (0.5, 1)),
+  status TEXT NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Approved', 'Rejected', 'Expired')),
+  expires_on DATE NOT NULL,
+  ledger_year INTEGER, -- Year whose Comp Off balance holds the credit once approved
+  expired_days NUMERIC(3,1),
+  reviewed_by UUID REFERENCES public.hr_employees(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comments TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(employee_id, work_date)
+);
+
+CREATE INDEX idx_comp_off_credits_status ON public.hr_comp_off_credits(org_id, status, expires_on);
+
+ALTER TABLE public.hr_comp_off_credits ENABLE ROW LEVEL SECURITY;
+
+-- Credits are created from attendance and decided through process_comp_off_credit()
+CREATE POLICY "Employees can view their comp-off credits"
+ON public.hr_comp_off_credits
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Managers can view team comp-off credits"
+ON public.hr_comp_off_credits
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Admins can view all comp-off credits"
+ON public.hr_comp_off_credits
+FOR SELECT
+USING (user_role() = 'Admin');
+
+-- Create or refresh the credit for a consolidated day of weekend/holiday work
+CREATE OR REPLACE FUNCTION public.sync_comp_off_credit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_employee hr_employees%ROWTYPE;
+  v_policy JSONB;
+  v_hours NUMERIC := COALESCE(NEW.total_hours, 0);
+  v_days NUMERIC;
+  v_exists BOOLEAN;
+  v_delegate_id UUID;
+  v_message TEXT;
+BEGIN
+  IF NOT COALESCE(NEW.is_consolidated, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_employee FROM hr_employees WHERE id = NEW.employee_id;
+  v_policy := COALESCE(public.org_leave_policy(v_employee.org_id)->'compOff', '{}'::jsonb);
+
+  IF NOT COALESCE((v_policy->>'enabled')::boolean, true)
+    OR NOT public.is_non_working_day(NEW.employee_id, NEW.attendance_date)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM hr_comp_off_credits WHERE employee_id = NEW.employee_id AND work_date = NEW.attendance_date
+  ) INTO v_exists;
+
+  IF v_hours < COALESCE((v_policy->>'minHours')::numeric, 4) THEN
+    DELETE FROM hr_comp_off_credits
+    WHERE employee_id = NEW.employee_id AND work_date = NEW.attendance_date AND status = 'Pending';
+    RETURN NEW;
+  END IF;
+
+  v_days := CASE
+    WHEN v_hours >= COALESCE((public.org_attendance_policy(v_employee.org_id)->>'fullDayHours')::numeric, 8) THEN 1
+    ELSE 0.5
+  END;
+
+  IF v_exists THEN
+    UPDATE hr_comp_off_credits
+    SET hours = v_hours, days = v_days, updated_at = now()
+    WHERE employee_id = NEW.employee_id AND work_date = NEW.attendance_date AND status = 'Pending';
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO hr_comp_off_credits (org_id, employee_id, work_date, hours, days, expires_on)
+  VALUES (
+    v_employee.org_id,
+    NEW.employee_id,
+    NEW.attendance_date,
+    v_hours,
+    v_days,
+    NEW.attendance_date + COALESCE((v_policy->>'expiryDays')::integer, 90)
+  );
+
+  v_message := format('%s worked %s hours on %s and earned %s day(s) of comp-off awaiting your approval',
+    v_employee.full_name, round(v_hours, 1), to_char(NEW.attendance_date, 'Dy, Mon FMDD'), v_days);
+
+  IF v_employee.manager_id IS NOT NULL THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (v_employee.manager_id, 'comp_off_pending', 'Comp-Off Approval Required', v_message, '/app/leave-approvals');
+
+    v_delegate_id := public.active_delegate_for(v_employee.manager_id);
+    IF v_delegate_id IS NOT NULL THEN
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (v_delegate_id, 'comp_off_pending', 'Comp-Off Approval Required (Delegated)', v_message, '/app/leave-approvals');
+    END IF;
+  ELSE
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    SELECT id, 'comp_off_pending', 'Comp-Off Approval Required', v_message, '/app/approvals'
+    FROM hr_employees
+    WHERE org_id = v_employee.org_id
+      AND role = 'Admin'
+      AND status = 'Active'
+      AND id <> v_employee.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_comp_off_credit_trigger
+AFTER INSERT OR UPDATE OF total_hours, is_consolidated ON public.hr_attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_comp_off_credit();
+
+-- Manager (or their delegate, or HR) decision on a comp-off credit
+CREATE OR REPLACE FUNCTION public.process_comp_off_credit(
+  p_credit_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_credit hr_comp_off_credits%ROWTYPE;
+  v_year INTEGER;
+BEGIN
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_credit FROM hr_comp_off_credits WHERE id = p_credit_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comp-off credit not found';
+  END IF;
+
+  IF v_credit.employee_id = v_caller_id THEN
+    RAISE EXCEPTION 'You cannot approve your own comp-off';
+  END IF;
+
+  IF NOT (
+    public.is_acting_manager_of(v_credit.employee_id)
+    OR (user_role() = 'Admin' AND v_credit.org_id = (SELECT org_id FROM hr_employees WHERE id = v_caller_id))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to decide this comp-off';
+  END IF;
+
+  IF v_credit.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Comp-off has already been %', lower(v_credit.status);
+  END IF;
+
+  IF p_action = 'reject' THEN
+    UPDATE hr_comp_off_credits
+    SET status = 'Rejected', reviewed_by = v_caller_id, reviewed_at = now(),
+        review_comments = p_comments, updated_at = now()
+    WHERE id = p_credit_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_credit.employee_id,
+      'comp_off_rejected',
+      'Comp-Off Rejected',
+      format('Your comp-off for working on %s was rejected%s',
+        to_char(v_credit.work_date, 'Mon FMDD, YYYY'),
+        CASE WHEN p_comments IS NOT NULL AND p_comments <> '' THEN ': ' || p_comments ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object('status', 'Rejected');
+  END IF;
+
+  IF v_credit.expires_on < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This comp-off expired on %', to_char(v_credit.expires_on, 'Mon FMDD, YYYY');
+  END IF;
+
+  v_year := GREATEST(EXTRACT(YEAR FROM v_credit.work_date), EXTRACT(YEAR FROM CURRENT_DATE))::integer;
+
+  PERFORM public.post_leave_ledger_entry(
+    v_credit.employee_id, 'Comp Off', v_year, 'credit', v_credit.days,
+    format('Comp-off for working on %s', to_char(v_credit.work_date, 'Mon FMDD, YYYY')),
+    'comp_off', p_credit_id
+  );
+
+  UPDATE hr_comp_off_credits
+  SET status = 'Approved', ledger_year = v_year, reviewed_by = v_caller_id, reviewed_at = now(),
+      review_comments = p_comments, updated_at = now()
+  WHERE id = p_credit_id;
+
+  INSERT INTO hr_notifications (employee_id, type, title, message, link)
+  VALUES (
+    v_credit.employee_id,
+    'comp_off_approved',
+    'Comp-Off Approved',
+    format('%s day(s) of comp-off for working on %s were credited. Use them by %s.',
+      v_credit.days,
+      to_char(v_credit.work_date, 'Mon FMDD'),
+      to_char(v_credit.expires_on, 'Mon FMDD, YYYY')),
+    '/app/leaves'
+  );
+
+  RETURN jsonb_build_object('status', 'Approved', 'days', v_credit.days, 'expires_on', v_credit.expires_on);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.process_comp_off_credit(UUID, TEXT, TEXT) TO authenticated;
+
+-- Lapse approved credits past their expiry and move live credits into the new
+-- year's balance. Comp Off leave is assumed to use the earliest-expiring credit
+-- first, so only what the balance holds beyond later credits lapses. Admins run
+-- it for their org; the scheduler (no auth context) runs it for every org.
+CREATE OR REPLACE FUNCTION public.expire_comp_off_credits(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_year INTEGER := EXTRACT(YEAR FROM p_as_of)::integer;
+  v_remaining NUMERIC;
+  v_later NUMERIC;
+  v_days NUMERIC;
+  v_count INTEGER := 0;
+  c RECORD;
+  r RECORD;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can expire comp-off credits';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  END IF;
+
+  FOR c IN
+    SELECT *
+    FROM hr_comp_off_credits
+    WHERE status = 'Approved'
+      AND expires_on < p_as_of
+      AND (v_caller_org IS NULL OR org_id = v_caller_org)
+    ORDER BY employee_id, expires_on, work_date
+  LOOP
+    SELECT remaining_leaves INTO v_remaining
+    FROM hr_leave_entitlements
+    WHERE employee_id = c.employee_id AND leave_type = 'Comp Off' AND year = c.ledger_year;
+
+    SELECT COALESCE(SUM(days), 0) INTO v_later
+    FROM hr_comp_off_credits
+    WHERE employee_id = c.employee_id AND status = 'Approved' AND ledger_year = c.ledger_year AND id <> c.id;
+
+    v_days := GREATEST(LEAST(c.days, COALESCE(v_remaining, 0) - v_later), 0);
+
+    IF v_days > 0 THEN
+      PERFORM public.post_leave_ledger_entry(
+        c.employee_id, 'Comp Off', c.ledger_year, 'adjustment', -v_days,
+        format('Comp-off for %s expired', to_char(c.work_date, 'Mon FMDD, YYYY')),
+        'comp_off', c.id
+      );
+
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        c.employee_id,
+        'comp_off_expired',
+        'Comp-Off Expired',
+        format('%s unused day(s) of comp-off for working on %s expired', v_days, to_char(c.work_date, 'Mon FMDD, YYYY')),
+        '/app/leaves'
+      );
+    END IF;
+
+    UPDATE hr_comp_off_credits
+    SET status = 'Expired', expired_days = v_days, updated_at = now()
+    WHERE id = c.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Live credits follow the employee into the new year
+  FOR r IN
+    SELECT employee_id, ledger_year, SUM(days) AS live_days
+    FROM hr_comp_off_credits
+    WHERE status = 'Approved'
+      AND ledger_year < v_year
+      AND (v_caller_org IS NULL OR org_id = v_caller_org)
+    GROUP BY employee_id, ledger_year
+  LOOP
+    SELECT remaining_leaves INTO v_remaining
+    FROM hr_leave_entitlements
+    WHERE employee_id = r.employee_id AND leave_type = 'Comp Off' AND year = r.ledger_year;
+
+    v_days := LEAST(COALESCE(v_remaining, 0), r.live_days);
+
+    IF v_days > 0 THEN
+      PERFORM public.post_leave_ledger_entry(
+        r.employee_id, 'Comp Off', r.ledger_year, 'adjustment', -v_days,
+        format('Unused comp-off moved to %s', v_year), 'comp_off', NULL
+      );
+      PERFORM public.post_leave_ledger_entry(
+        r.employee_id, 'Comp Off', v_year, 'credit', v_days,
+        format('Unused comp-off from %s', r.ledger_year), 'comp_off', NULL
+      );
+    END IF;
+
+    UPDATE hr_comp_off_credits
+    SET ledger_year = v_year, updated_at = now()
+    WHERE employee_id = r.employee_id AND status = 'Approved' AND ledger_year = r.ledger_year;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.expire_comp_off_credits(DATE) TO authenticated;
+
+-- Run daily where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-comp-off-credits', '30 0 * * *', 'SELECT public.expire_comp_off_credits()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,120 @@
+-- Team leave calendar
+-- Approvers see who else in a team (a manager's reports) or department is away,
+-- including people whose requests they cannot otherwise read. Leave types are
+-- only shown for employees the caller manages; everyone else shows as 'Leave'.
+
+CREATE OR REPLACE FUNCTION public.org_leave_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'quotas', jsonb_build_object(
+      'Casual Leave', 6,
+      'Sick Leave', 6,
+      'Earned Leave', 18,
+      'Menstruation Leave', 12,
+      'Special Leave', 1
+    ),
+    'earnedLeaveCarryForwardLimit', 30,
+    'earnedLeaveAccrual', 'monthly',
+    'requireApproval', true,
+    'sandwichRule', false,
+    'approvalRules', '[]'::jsonb,
+    'encashment', jsonb_build_object(
+      'enabled', true,
+      'rateBasis', 'salary',
+      'fixedDailyRate', 0,
+      'salaryDivisor', 30
+    ),
+    'compOff', jsonb_build_object(
+      'enabled', true,
+      'minHours', 4,
+      'expiryDays', 90
+    ),
+    'teamCoverage', jsonb_build_object(
+      'minAvailable', 1,
+      'scope', 'team'
+    )
+  ) || COALESCE((SELECT leave_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Active members of a team or department with their approved and pending leaves
+-- overlapping the range. Members without leave appear once with NULL leave columns.
+-- Pass p_department for a department, otherwise the reports of p_manager_id
+-- (default: the caller).
+CREATE OR REPLACE FUNCTION public.team_leave_calendar(
+  p_from DATE,
+  p_to DATE,
+  p_manager_id UUID DEFAULT NULL,
+  p_department TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  employee_id UUID,
+  full_name TEXT,
+  department TEXT,
+  request_id UUID,
+  leave_type TEXT,
+  start_date DATE,
+  end_date DATE,
+  start_session TEXT,
+  end_session TEXT,
+  status TEXT
+) AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_caller_org UUID;
+  v_is_admin BOOLEAN := user_role() = 'Admin';
+  v_manager_id UUID := COALESCE(p_manager_id, v_caller_id);
+BEGIN
+  SELECT org_id INTO v_caller_org FROM hr_employees WHERE id = v_caller_id;
+
+  IF p_department IS NOT NULL THEN
+    IF NOT v_is_admin AND NOT EXISTS (
+      SELECT 1
+      FROM hr_employees e
+      JOIN hr_employee_details d ON d.employee_id = e.id
+      WHERE d.department = p_department
+        AND (e.manager_id = v_caller_id OR e.manager_id IN (SELECT public.active_delegator_ids(v_caller_id)))
+    ) THEN
+      RAISE EXCEPTION 'Not authorized to view this department';
+    END IF;
+  ELSIF NOT (
+    v_manager_id = v_caller_id
+    OR v_manager_id IN (SELECT public.active_delegator_ids(v_caller_id))
+    OR (v_is_admin AND EXISTS (SELECT 1 FROM hr_employees WHERE id = v_manager_id AND org_id = v_caller_org))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view this team';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.full_name,
+    d.department,
+    r.id,
+    CASE
+      WHEN r.id IS NULL THEN NULL
+      WHEN v_is_admin OR public.is_acting_manager_of(e.id) THEN r.leave_type
+      ELSE 'Leave'
+    END,
+    r.start_date,
+    r.end_date,
+    r.start_session,
+    r.end_session,
+    r.status
+  FROM hr_employees e
+  LEFT JOIN hr_employee_details d ON d.employee_id = e.id
+  LEFT JOIN hr_leave_requests r
+    ON r.employee_id = e.id
+    AND r.status IN ('Approved', 'Pending')
+    AND r.start_date <= p_to
+    AND r.end_date >= p_from
+  WHERE e.org_id = v_caller_org
+    AND e.status = 'Active'
+    AND (
+      (p_department IS NOT NULL AND d.department = p_department)
+      OR (p_department IS NULL AND e.manager_id = v_manager_id)
+    )
+  ORDER BY e.full_name, r.start_date;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.team_leave_calendar(DATE, DATE, UUID, TEXT) TO authenticated;
@@ -0,0 +1,60 @@
+-- Calendar feed tokens
+-- Each employee can hold one active secret token that the calendar-feed edge
+-- function accepts in place of a login. Rotating or revoking it breaks any
+-- calendar app still subscribed with the old URL.
+
+CREATE TABLE public.hr_calendar_feed_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_accessed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX idx_calendar_feed_tokens_active
+ON public.hr_calendar_feed_tokens(employee_id)
+WHERE revoked_at IS NULL;
+
+ALTER TABLE public.hr_calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are issued and revoked through the functions below
+CREATE POLICY "Employees can view their calendar feed tokens"
+ON public.hr_calendar_feed_tokens
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+-- Revoke the caller's active token and issue a new one
+CREATE OR REPLACE FUNCTION public.create_calendar_feed_token()
+RETURNS TEXT AS $$
+DECLARE
+  v_employee_id UUID := user_employee_id();
+  v_token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF v_employee_id IS NULL THEN
+    RAISE EXCEPTION 'Employee record not found';
+  END IF;
+
+  UPDATE hr_calendar_feed_tokens
+  SET revoked_at = now()
+  WHERE employee_id = v_employee_id AND revoked_at IS NULL;
+
+  INSERT INTO hr_calendar_feed_tokens (employee_id, token)
+  VALUES (v_employee_id, v_token);
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_calendar_feed_token() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.revoke_calendar_feed_token()
+RETURNS VOID AS $$
+BEGIN
+  UPDATE hr_calendar_feed_tokens
+  SET revoked_at = now()
+  WHERE employee_id = user_employee_id() AND revoked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.revoke_calendar_feed_token() TO authenticated;
@@ -0,0 +1,202 @@
+-- Punch location policy
+-- HR lists the approved sites for each office location (hr_employee_details.location):
+-- a geofence and/or the office network's IP ranges. A punch is in policy when it is
+-- inside any site's geofence or comes from any of its networks. Out-of-policy punches
+-- are flagged or blocked according to attendance_policy.punchEnforcement, keyed by
+-- employment type. Employees whose location has no sites are not restricted.
+
+CREATE TABLE public.hr_office_locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  location TEXT NOT NULL, -- Matched case-insensitively against hr_employee_details.location
+  name TEXT NOT NULL,
+  latitude NUMERIC(9,6),
+  longitude NUMERIC(9,6),
+  radius_meters INTEGER NOT NULL DEFAULT 200 CHECK (radius_meters > 0),
+  allowed_ip_ranges TEXT[] NOT NULL DEFAULT '{}', -- CIDR blocks or single addresses
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+CREATE INDEX idx_office_locations_org ON public.hr_office_locations(org_id, lower(location));
+
+ALTER TABLE public.hr_office_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage office locations"
+ON public.hr_office_locations
+FOR ALL
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+)
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+ALTER TABLE public.hr_attendance
+  ADD COLUMN punch_in_latitude NUMERIC(9,6),
+  ADD COLUMN punch_in_longitude NUMERIC(9,6),
+  ADD COLUMN punch_in_ip TEXT,
+  ADD COLUMN punch_out_latitude NUMERIC(9,6),
+  ADD COLUMN punch_out_longitude NUMERIC(9,6),
+  ADD COLUMN punch_out_ip TEXT,
+  ADD COLUMN location_flags TEXT[] NOT NULL DEFAULT '{}'; -- 'punch_in_outside' / 'punch_out_outside'
+
+-- Great-circle distance in meters
+CREATE OR REPLACE FUNCTION public.distance_meters(
+  p_lat1 NUMERIC, p_lng1 NUMERIC, p_lat2 NUMERIC, p_lng2 NUMERIC
+)
+RETURNS NUMERIC AS $$
+  SELECT 6371000 * 2 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Client address as seen by the API gateway, if the request came through it
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS INET AS $$
+DECLARE
+  v_forwarded TEXT := current_setting('request.headers', true)::json->>'x-forwarded-for';
+BEGIN
+  IF v_forwarded IS NULL OR v_forwarded = '' THEN
+    RETURN NULL;
+  END IF;
+  RETURN trim(split_part(v_forwarded, ',', 1))::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.ip_in_ranges(p_ip INET, p_ranges TEXT[])
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_ip IS NULL THEN
+    RETURN false;
+  END IF;
+  RETURN EXISTS (SELECT 1 FROM unnest(p_ranges) r WHERE p_ip <<= r::inet);
+EXCEPTION WHEN others THEN
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Capture the IP and check the location of an employee's own punch in/out.
+-- Consolidated day rows collect the flags of that day's sessions.
+CREATE OR REPLACE FUNCTION public.check_punch_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_punch TEXT;
+  v_ip INET;
+  v_lat NUMERIC;
+  v_lng NUMERIC;
+  v_org_id UUID;
+  v_location TEXT;
+  v_employment_type TEXT;
+  v_has_sites BOOLEAN;
+  v_within BOOLEAN;
+  v_mode TEXT;
+BEGIN
+  IF COALESCE(NEW.is_consolidated, false) THEN
+    SELECT COALESCE(array_agg(DISTINCT f), '{}') INTO NEW.location_flags
+    FROM hr_attendance a, unnest(a.location_flags) f
+    WHERE a.employee_id = NEW.employee_id
+      AND a.attendance_date = NEW.attendance_date
+      AND NOT COALESCE(a.is_consolidated, false);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.punch_in_time IS NOT NULL THEN
+    v_punch := 'punch_in';
+  ELSIF TG_OP = 'UPDATE' AND OLD.punch_out_time IS NULL AND NEW.punch_out_time IS NOT NULL THEN
+    v_punch := 'punch_out';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- HR corrections and regularizations are not punches
+  IF NEW.employee_id IS DISTINCT FROM user_employee_id() THEN
+    RETURN NEW;
+  END IF;
+
+  v_ip := public.request_ip();
+  IF v_punch = 'punch_in' THEN
+    NEW.punch_in_ip := host(v_ip);
+    v_lat := NEW.punch_in_latitude;
+    v_lng := NEW.punch_in_longitude;
+  ELSE
+    NEW.punch_out_ip := host(v_ip);
+    v_lat := NEW.punch_out_latitude;
+    v_lng := NEW.punch_out_longitude;
+  END IF;
+
+  SELECT e.org_id, d.location, d.employment_type
+  INTO v_org_id, v_location, v_employment_type
+  FROM hr_employees e
+  LEFT JOIN hr_employee_details d ON d.employee_id = e.id
+  WHERE e.id = NEW.employee_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM hr_office_locations
+    WHERE org_id = v_org_id AND lower(trim(location)) = lower(trim(v_location))
+  ) INTO v_has_sites;
+
+  IF NOT v_has_sites THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM hr_office_locations o
+    WHERE o.org_id = v_org_id
+      AND lower(trim(o.location)) = lower(trim(v_location))
+      AND (
+        (o.latitude IS NOT NULL AND v_lat IS NOT NULL AND v_lng IS NOT NULL
+          AND public.distance_meters(o.latitude, o.longitude, v_lat, v_lng) <= o.radius_meters)
+        OR public.ip_in_ranges(v_ip, o.allowed_ip_ranges)
+      )
+  ) INTO v_within;
+
+  IF v_within THEN
+    RETURN NEW;
+  END IF;
+
+  v_mode := COALESCE(
+    public.org_attendance_policy(v_org_id)->'punchEnforcement'->>COALESCE(v_employment_type, 'Full-time'),
+    'flag'
+  );
+
+  IF v_mode = 'block' THEN
+    RAISE EXCEPTION 'Punch % blocked: you are not at an approved % office location or network',
+      CASE WHEN v_punch = 'punch_in' THEN 'in' ELSE 'out' END, v_location;
+  ELSIF v_mode = 'flag' THEN
+    NEW.location_flags := array_append(array_remove(NEW.location_flags, v_punch || '_outside'), v_punch || '_outside');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_punch_location_trigger
+BEFORE INSERT OR UPDATE ON public.hr_attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.check_punch_location();
+
+-- Keep the attendance policy defaults in sync with orgSettings.ts
+CREATE OR REPLACE FUNCTION public.org_attendance_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'workStartTime', '09:00',
+    'workEndTime', '18:00',
+    'graceMinutes', 15,
+    'halfDayHours', 4,
+    'fullDayHours', 8,
+    'weekends', jsonb_build_array('saturday', 'sunday'),
+    'punchEnforcement', jsonb_build_object(
+      'Full-time', 'flag',
+      'Part-time', 'flag',
+      'Contract', 'flag',
+      'Intern', 'flag'
+    )
+  ) || COALESCE((SELECT attendance_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
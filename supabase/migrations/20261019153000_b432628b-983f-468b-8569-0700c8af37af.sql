@@ -0,0 +1,78 @@
+-- Shifts and weekly rosters
+-- A shift is a named working window. It crosses midnight when end_time is earlier than
+-- start_time, in which case the attendance date is the day the shift starts. Full-day
+-- hours are the window length less the unpaid break. Employees with no shift on the
+-- roster for a day fall back to the standard hours in attendance_policy.
+
+CREATE TABLE public.hr_shifts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  grace_minutes INTEGER NOT NULL DEFAULT 15 CHECK (grace_minutes >= 0),
+  break_minutes INTEGER NOT NULL DEFAULT 60 CHECK (break_minutes >= 0),
+  half_day_hours NUMERIC(4,2) NOT NULL DEFAULT 4 CHECK (half_day_hours > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (start_time <> end_time),
+  UNIQUE (org_id, name)
+);
+
+ALTER TABLE public.hr_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their organization's shifts"
+ON public.hr_shifts
+FOR SELECT
+USING (org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id()));
+
+CREATE POLICY "Admins can manage shifts"
+ON public.hr_shifts
+FOR ALL
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+)
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+CREATE TABLE public.hr_shift_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  shift_id UUID NOT NULL REFERENCES public.hr_shifts(id),
+  assigned_by UUID REFERENCES public.hr_employees(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (employee_id, work_date)
+);
+
+CREATE INDEX idx_shift_assignments_org_date ON public.hr_shift_assignments(org_id, work_date);
+
+ALTER TABLE public.hr_shift_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their roster"
+ON public.hr_shift_assignments
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Managers can view their team's roster"
+ON public.hr_shift_assignments
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Admins can manage the roster"
+ON public.hr_shift_assignments
+FOR ALL
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+)
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
@@ -0,0 +1,299 @@
+-- End-of-day attendance consolidation
+-- Once an employee's shift for a day is well over, consolidate_attendance() closes any
+-- session left without a punch-out, merges the day's sessions into the consolidated row
+-- with a final status, and marks absent anyone with no punch, leave or holiday that day.
+-- Employees are notified so they can apply for regularization.
+
+-- Absent days have no punch
+ALTER TABLE public.hr_attendance
+  ALTER COLUMN punch_in_time DROP NOT NULL,
+  -- How the end-of-day job closed a missing punch-out: at the shift end, or with no hours pending review
+  ADD COLUMN auto_closed TEXT CHECK (auto_closed IN ('shift_end', 'review'));
+
+-- The job's punch-outs are not the employee's; skip the location check for them
+DROP TRIGGER check_punch_location_trigger ON public.hr_attendance;
+CREATE TRIGGER check_punch_location_trigger
+BEFORE INSERT OR UPDATE ON public.hr_attendance
+FOR EACH ROW
+WHEN (NEW.auto_closed IS NULL OR NEW.is_consolidated)
+EXECUTE FUNCTION public.check_punch_location();
+
+-- Keep the attendance policy defaults in sync with orgSettings.ts
+CREATE OR REPLACE FUNCTION public.org_attendance_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'workStartTime', '09:00',
+    'workEndTime', '18:00',
+    'graceMinutes', 15,
+    'halfDayHours', 4,
+    'fullDayHours', 8,
+    'weekends', jsonb_build_array('saturday', 'sunday'),
+    'punchEnforcement', jsonb_build_object(
+      'Full-time', 'flag',
+      'Part-time', 'flag',
+      'Contract', 'flag',
+      'Intern', 'flag'
+    ),
+    'openSessionPolicy', 'shift_end'
+  ) || COALESCE((SELECT attendance_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The shift an employee works on a date: the rostered one, else the policy's standard
+-- hours. Keep in sync with getShiftRule() in src/lib/shifts.ts
+CREATE OR REPLACE FUNCTION public.employee_shift_on(p_employee_id UUID, p_date DATE)
+RETURNS TABLE (
+  shift_id UUID,
+  name TEXT,
+  start_time TIME,
+  end_time TIME,
+  grace_minutes INTEGER,
+  break_minutes INTEGER,
+  full_day_hours NUMERIC,
+  half_day_hours NUMERIC,
+  crosses_midnight BOOLEAN
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_policy JSONB;
+  v_part_time BOOLEAN;
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.name,
+    s.start_time,
+    s.end_time,
+    s.grace_minutes,
+    s.break_minutes,
+    GREATEST(
+      EXTRACT(EPOCH FROM (s.end_time - s.start_time)) / 60
+        + CASE WHEN s.end_time < s.start_time THEN 24 * 60 ELSE 0 END
+        - s.break_minutes,
+      0
+    ) / 60,
+    s.half_day_hours,
+    s.end_time < s.start_time
+  FROM hr_shift_assignments a
+  JOIN hr_shifts s ON s.id = a.shift_id
+  WHERE a.employee_id = p_employee_id AND a.work_date = p_date;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT public.org_attendance_policy(e.org_id), COALESCE(d.employment_type = 'Part-time', false)
+  INTO v_policy, v_part_time
+  FROM hr_employees e
+  LEFT JOIN hr_employee_details d ON d.employee_id = e.id
+  WHERE e.id = p_employee_id;
+
+  -- Part-timers without a rostered shift are present once they reach half-day hours
+  RETURN QUERY
+  SELECT
+    NULL::uuid,
+    'Standard hours'::text,
+    (v_policy->>'workStartTime')::time,
+    (v_policy->>'workEndTime')::time,
+    (v_policy->>'graceMinutes')::integer,
+    0,
+    CASE WHEN v_part_time THEN (v_policy->>'halfDayHours')::numeric ELSE (v_policy->>'fullDayHours')::numeric END,
+    (v_policy->>'halfDayHours')::numeric,
+    (v_policy->>'workEndTime')::time < (v_policy->>'workStartTime')::time;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.employee_shift_on(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Consolidate a day (default: yesterday in each org's timezone). Safe to run repeatedly:
+-- days already consolidated with nothing left open are skipped, as are shifts that
+-- ended less than four hours ago (the same allowance the punch screen gives night shifts).
+CREATE OR REPLACE FUNCTION public.consolidate_attendance(p_date DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_tz TEXT;
+  v_date DATE;
+  v_open_policy TEXT;
+  v_emp RECORD;
+  v_shift RECORD;
+  v_shift_end TIMESTAMP WITH TIME ZONE;
+  v_session RECORD;
+  v_closed TEXT;
+  v_first TIMESTAMP WITH TIME ZONE;
+  v_last TIMESTAMP WITH TIME ZONE;
+  v_hours NUMERIC;
+  v_status TEXT;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can run attendance consolidation';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    v_tz := COALESCE(
+      (SELECT company_settings->>'timezone' FROM hr_org_settings WHERE org_id = v_org.id),
+      'Asia/Kolkata'
+    );
+    v_date := COALESCE(p_date, (now() AT TIME ZONE v_tz)::date - 1);
+    v_open_policy := public.org_attendance_policy(v_org.id)->>'openSessionPolicy';
+
+    FOR v_emp IN
+      SELECT id
+      FROM hr_employees
+      WHERE org_id = v_org.id
+        AND status = 'Active'
+        AND (joining_date IS NULL OR joining_date <= v_date)
+    LOOP
+      SELECT * INTO v_shift FROM public.employee_shift_on(v_emp.id, v_date);
+      v_shift_end := (
+        v_date + v_shift.end_time + CASE WHEN v_shift.crosses_midnight THEN interval '1 day' ELSE interval '0' END
+      ) AT TIME ZONE v_tz;
+
+      CONTINUE WHEN now() < v_shift_end + interval '4 hours';
+
+      -- No punch at all: absent unless it was a day off
+      IF NOT EXISTS (
+        SELECT 1 FROM hr_attendance WHERE employee_id = v_emp.id AND attendance_date = v_date
+      ) THEN
+        CONTINUE WHEN public.is_non_working_day(v_emp.id, v_date);
+        CONTINUE WHEN EXISTS (
+          SELECT 1 FROM hr_leave_requests
+          WHERE employee_id = v_emp.id
+            AND status = 'Approved'
+            AND start_date <= v_date
+            AND end_date >= v_date
+        );
+
+        INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+        VALUES (v_emp.id, v_date, NULL, 0, 'Absent', true, 'No punch recorded');
+
+        INSERT INTO hr_notifications (employee_id, type, title, message, link)
+        VALUES (
+          v_emp.id,
+          'attendance_absent',
+          'Marked Absent',
+          format(
+            'No punch was recorded on %s, so you have been marked absent. Apply for regularization if you were working.',
+            to_char(v_date, 'DD Mon YYYY')
+          ),
+          '/app/attendance-regularization'
+        );
+
+        v_count := v_count + 1;
+        CONTINUE;
+      END IF;
+
+      -- Consolidated at punch-out (or regularized) with nothing left open
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM hr_attendance
+        WHERE employee_id = v_emp.id AND attendance_date = v_date AND is_consolidated
+      ) AND NOT EXISTS (
+        SELECT 1 FROM hr_attendance
+        WHERE employee_id = v_emp.id
+          AND attendance_date = v_date
+          AND NOT COALESCE(is_consolidated, false)
+          AND punch_out_time IS NULL
+      );
+
+      -- Close forgotten punch-outs. A session opened after the shift ended can't be
+      -- closed at the shift end, so it goes to review whatever the policy.
+      v_closed := NULL;
+      FOR v_session IN
+        SELECT id, punch_in_time
+        FROM hr_attendance
+        WHERE employee_id = v_emp.id
+          AND attendance_date = v_date
+          AND NOT COALESCE(is_consolidated, false)
+          AND punch_out_time IS NULL
+      LOOP
+        IF v_open_policy = 'review' OR v_session.punch_in_time >= v_shift_end THEN
+          UPDATE hr_attendance
+          SET punch_out_time = punch_in_time, total_hours = 0, auto_closed = 'review'
+          WHERE id = v_session.id;
+          v_closed := 'review';
+        ELSE
+          UPDATE hr_attendance
+          SET punch_out_time = v_shift_end,
+              total_hours = ROUND(EXTRACT(EPOCH FROM (v_shift_end - v_session.punch_in_time)) / 3600, 2),
+              auto_closed = 'shift_end'
+          WHERE id = v_session.id;
+          v_closed := COALESCE(v_closed, 'shift_end');
+        END IF;
+      END LOOP;
+
+      SELECT MIN(punch_in_time), MAX(punch_out_time), COALESCE(SUM(total_hours), 0)
+      INTO v_first, v_last, v_hours
+      FROM hr_attendance
+      WHERE employee_id = v_emp.id
+        AND attendance_date = v_date
+        AND NOT COALESCE(is_consolidated, false);
+
+      v_status := CASE
+        WHEN v_hours >= v_shift.full_day_hours THEN 'Present'
+        WHEN v_hours >= v_shift.half_day_hours THEN 'Half Day'
+        ELSE 'Absent'
+      END;
+
+      UPDATE hr_attendance
+      SET status = v_status
+      WHERE employee_id = v_emp.id
+        AND attendance_date = v_date
+        AND NOT COALESCE(is_consolidated, false);
+
+      UPDATE hr_attendance
+      SET punch_in_time = v_first,
+          punch_out_time = v_last,
+          total_hours = ROUND(v_hours, 2),
+          status = v_status,
+          auto_closed = v_closed
+      WHERE employee_id = v_emp.id AND attendance_date = v_date AND is_consolidated;
+
+      IF NOT FOUND THEN
+        INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, punch_out_time, total_hours, status, is_consolidated, auto_closed)
+        VALUES (v_emp.id, v_date, v_first, v_last, ROUND(v_hours, 2), v_status, true, v_closed);
+      END IF;
+
+      IF v_closed IS NOT NULL THEN
+        INSERT INTO hr_notifications (employee_id, type, title, message, link)
+        VALUES (
+          v_emp.id,
+          'attendance_auto_closed',
+          'Punch-Out Missing',
+          CASE v_closed
+            WHEN 'review' THEN format(
+              'You did not punch out on %s, so the session was closed with no hours counted. Apply for regularization to record your hours.',
+              to_char(v_date, 'DD Mon YYYY')
+            )
+            ELSE format(
+              'You did not punch out on %s, so your session was closed at the end of your shift (%s). Apply for regularization if that is wrong.',
+              to_char(v_date, 'DD Mon YYYY'), to_char(v_shift_end AT TIME ZONE v_tz, 'HH24:MI')
+            )
+          END,
+          '/app/attendance-regularization'
+        );
+      END IF;
+
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.consolidate_attendance(DATE) TO authenticated;
+
+-- Run hourly where pg_cron is available so night shifts are picked up once they end
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('consolidate-attendance', '15 * * * *', 'SELECT public.consolidate_attendance()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,331 @@
+-- Overtime claims
+-- When a day is consolidated, hours beyond the daily threshold (the shift's full day
+-- unless the org or the shift sets one) and working-day hours beyond the weekly
+-- threshold become an overtime claim for the manager to approve. Weekend and holiday
+-- hours are all overtime, at their own multipliers, unless comp-off is enabled, in
+-- which case those days earn comp-off instead. Approved claims feed the monthly
+-- overtime summary HR exports with payroll.
+
+-- Per-shift overrides of the org's daily threshold and working-day multiplier
+ALTER TABLE public.hr_shifts
+  ADD COLUMN overtime_threshold_hours NUMERIC(4,2) CHECK (overtime_threshold_hours > 0),
+  ADD COLUMN overtime_multiplier NUMERIC(3,2) CHECK (overtime_multiplier >= 1);
+
+-- Keep the attendance policy defaults in sync with orgSettings.ts
+CREATE OR REPLACE FUNCTION public.org_attendance_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'workStartTime', '09:00',
+    'workEndTime', '18:00',
+    'graceMinutes', 15,
+    'halfDayHours', 4,
+    'fullDayHours', 8,
+    'weekends', jsonb_build_array('saturday', 'sunday'),
+    'punchEnforcement', jsonb_build_object(
+      'Full-time', 'flag',
+      'Part-time', 'flag',
+      'Contract', 'flag',
+      'Intern', 'flag'
+    ),
+    'openSessionPolicy', 'shift_end',
+    'overtime', jsonb_build_object(
+      'enabled', false,
+      'dailyThresholdHours', NULL,
+      'weeklyThresholdHours', 48,
+      'minMinutes', 30,
+      'weekdayMultiplier', 1.5,
+      'weekendMultiplier', 2,
+      'holidayMultiplier', 2
+    )
+  ) || COALESCE((SELECT attendance_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- How overtime is counted for an employee on a date: the kind of day, the hours after
+-- which it starts (none on weekends and holidays) and the pay multiplier
+CREATE OR REPLACE FUNCTION public.overtime_rule_on(p_employee_id UUID, p_date DATE)
+RETURNS TABLE (
+  day_type TEXT,
+  threshold_hours NUMERIC,
+  multiplier NUMERIC
+) AS $$
+DECLARE
+  v_policy JSONB;
+  v_weekends JSONB;
+  v_shift hr_shifts%ROWTYPE;
+  v_full_day NUMERIC;
+BEGIN
+  SELECT public.org_attendance_policy(e.org_id) INTO v_policy
+  FROM hr_employees e
+  WHERE e.id = p_employee_id;
+
+  v_weekends := v_policy->'weekends';
+  v_policy := COALESCE(v_policy->'overtime', '{}'::jsonb);
+
+  IF EXISTS (
+    SELECT 1 FROM hr_holidays h
+    WHERE h.holiday_date = p_date
+      AND (
+        NOT COALESCE(h.is_optional, false)
+        OR EXISTS (
+          SELECT 1 FROM hr_optional_holiday_selections s
+          WHERE s.holiday_id = h.id AND s.employee_id = p_employee_id
+        )
+      )
+  ) THEN
+    RETURN QUERY SELECT 'holiday'::text, 0::numeric, COALESCE((v_policy->>'holidayMultiplier')::numeric, 2);
+    RETURN;
+  END IF;
+
+  IF lower(trim(to_char(p_date, 'Day'))) IN (SELECT jsonb_array_elements_text(v_weekends)) THEN
+    RETURN QUERY SELECT 'weekend'::text, 0::numeric, COALESCE((v_policy->>'weekendMultiplier')::numeric, 2);
+    RETURN;
+  END IF;
+
+  SELECT s.* INTO v_shift
+  FROM hr_shift_assignments a
+  JOIN hr_shifts s ON s.id = a.shift_id
+  WHERE a.employee_id = p_employee_id AND a.work_date = p_date;
+
+  SELECT es.full_day_hours INTO v_full_day FROM public.employee_shift_on(p_employee_id, p_date) es;
+
+  RETURN QUERY SELECT
+    'working'::text,
+    COALESCE(v_shift.overtime_threshold_hours, (v_policy->>'dailyThresholdHours')::numeric, v_full_day),
+    COALESCE(v_shift.overtime_multiplier, (v_policy->>'weekdayMultiplier')::numeric, 1.5);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.overtime_rule_on(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE public.hr_overtime_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  day_type TEXT NOT NULL CHECK (day_type IN ('working', 'weekend', 'holiday')),
+  worked_hours NUMERIC(5,2) NOT NULL,
+  daily_hours NUMERIC(5,2) NOT NULL DEFAULT 0, -- Beyond the daily threshold (all hours on weekends and holidays)
+  weekly_hours NUMERIC(5,2) NOT NULL DEFAULT 0, -- Beyond the weekly threshold, not already counted daily
+  hours NUMERIC(5,2) NOT NULL CHECK (hours > 0),
+  multiplier NUMERIC(3,2) NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Approved', 'Rejected')),
+  reviewed_by UUID REFERENCES public.hr_employees(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comments TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(employee_id, work_date)
+);
+
+CREATE INDEX idx_overtime_claims_status ON public.hr_overtime_claims(org_id, status, work_date);
+
+ALTER TABLE public.hr_overtime_claims ENABLE ROW LEVEL SECURITY;
+
+-- Claims are created from attendance and decided through process_overtime_claim()
+CREATE POLICY "Employees can view their overtime claims"
+ON public.hr_overtime_claims
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Managers can view team overtime claims"
+ON public.hr_overtime_claims
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Admins can view all overtime claims"
+ON public.hr_overtime_claims
+FOR SELECT
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+-- Create or refresh the overtime claim for a consolidated day. Claims already decided
+-- are left alone.
+CREATE OR REPLACE FUNCTION public.sync_overtime_claim()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_employee hr_employees%ROWTYPE;
+  v_policy JSONB;
+  v_rule RECORD;
+  v_hours NUMERIC := COALESCE(NEW.total_hours, 0);
+  v_weekly_threshold NUMERIC;
+  v_week_before NUMERIC;
+  v_daily NUMERIC;
+  v_weekly NUMERIC := 0;
+  v_status TEXT;
+  v_delegate_id UUID;
+  v_message TEXT;
+BEGIN
+  IF NOT COALESCE(NEW.is_consolidated, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_employee FROM hr_employees WHERE id = NEW.employee_id;
+  v_policy := COALESCE(public.org_attendance_policy(v_employee.org_id)->'overtime', '{}'::jsonb);
+
+  IF NOT COALESCE((v_policy->>'enabled')::boolean, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_rule FROM public.overtime_rule_on(NEW.employee_id, NEW.attendance_date);
+
+  -- Weekend and holiday work earns comp-off instead when that is enabled
+  IF v_rule.day_type <> 'working'
+    AND COALESCE((public.org_leave_policy(v_employee.org_id)->'compOff'->>'enabled')::boolean, true)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_daily := GREATEST(v_hours - v_rule.threshold_hours, 0);
+  v_weekly_threshold := NULLIF((v_policy->>'weeklyThresholdHours')::numeric, 0);
+
+  IF v_rule.day_type = 'working' AND v_weekly_threshold IS NOT NULL THEN
+    -- Regular hours on earlier working days of the same (Monday-start) week
+    SELECT COALESCE(SUM(LEAST(COALESCE(a.total_hours, 0), r.threshold_hours)), 0) INTO v_week_before
+    FROM hr_attendance a
+    CROSS JOIN LATERAL public.overtime_rule_on(a.employee_id, a.attendance_date) r
+    WHERE a.employee_id = NEW.employee_id
+      AND a.is_consolidated
+      AND a.attendance_date >= date_trunc('week', NEW.attendance_date)::date
+      AND a.attendance_date < NEW.attendance_date
+      AND r.day_type = 'working';
+
+    v_weekly := GREATEST(LEAST(v_hours - v_daily, v_week_before + v_hours - v_daily - v_weekly_threshold), 0);
+  END IF;
+
+  SELECT status INTO v_status
+  FROM hr_overtime_claims
+  WHERE employee_id = NEW.employee_id AND work_date = NEW.attendance_date;
+
+  IF (v_daily + v_weekly) * 60 < GREATEST(COALESCE((v_policy->>'minMinutes')::numeric, 30), 1) THEN
+    DELETE FROM hr_overtime_claims
+    WHERE employee_id = NEW.employee_id AND work_date = NEW.attendance_date AND status = 'Pending';
+    RETURN NEW;
+  END IF;
+
+  IF v_status IS NOT NULL THEN
+    UPDATE hr_overtime_claims
+    SET day_type = v_rule.day_type, worked_hours = v_hours, daily_hours = v_daily, weekly_hours = v_weekly,
+        hours = v_daily + v_weekly, multiplier = v_rule.multiplier, updated_at = now()
+    WHERE employee_id = NEW.employee_id AND work_date = NEW.attendance_date AND status = 'Pending';
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO hr_overtime_claims (
+    org_id, employee_id, work_date, day_type, worked_hours, daily_hours, weekly_hours, hours, multiplier
+  )
+  VALUES (
+    v_employee.org_id,
+    NEW.employee_id,
+    NEW.attendance_date,
+    v_rule.day_type,
+    v_hours,
+    v_daily,
+    v_weekly,
+    v_daily + v_weekly,
+    v_rule.multiplier
+  );
+
+  v_message := format('%s worked %s hours on %s, including %s hours of overtime awaiting your approval',
+    v_employee.full_name, round(v_hours, 1), to_char(NEW.attendance_date, 'Dy, Mon FMDD'), round(v_daily + v_weekly, 1));
+
+  IF v_employee.manager_id IS NOT NULL THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (v_employee.manager_id, 'overtime_pending', 'Overtime Approval Required', v_message, '/app/leave-approvals');
+
+    v_delegate_id := public.active_delegate_for(v_employee.manager_id);
+    IF v_delegate_id IS NOT NULL THEN
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (v_delegate_id, 'overtime_pending', 'Overtime Approval Required (Delegated)', v_message, '/app/leave-approvals');
+    END IF;
+  ELSE
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    SELECT id, 'overtime_pending', 'Overtime Approval Required', v_message, '/app/approvals'
+    FROM hr_employees
+    WHERE org_id = v_employee.org_id
+      AND role = 'Admin'
+      AND status = 'Active'
+      AND id <> v_employee.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_overtime_claim_trigger
+AFTER INSERT OR UPDATE OF total_hours, is_consolidated ON public.hr_attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_overtime_claim();
+
+-- Manager (or their delegate, or HR) decision on an overtime claim
+CREATE OR REPLACE FUNCTION public.process_overtime_claim(
+  p_claim_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_claim hr_overtime_claims%ROWTYPE;
+BEGIN
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_claim FROM hr_overtime_claims WHERE id = p_claim_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Overtime claim not found';
+  END IF;
+
+  IF v_claim.employee_id = v_caller_id THEN
+    RAISE EXCEPTION 'You cannot approve your own overtime';
+  END IF;
+
+  IF NOT (
+    public.is_acting_manager_of(v_claim.employee_id)
+    OR (user_role() = 'Admin' AND v_claim.org_id = (SELECT org_id FROM hr_employees WHERE id = v_caller_id))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to decide this overtime claim';
+  END IF;
+
+  IF v_claim.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Overtime claim has already been %', lower(v_claim.status);
+  END IF;
+
+  UPDATE hr_overtime_claims
+  SET status = CASE WHEN p_action = 'approve' THEN 'Approved' ELSE 'Rejected' END,
+      reviewed_by = v_caller_id, reviewed_at = now(), review_comments = p_comments, updated_at = now()
+  WHERE id = p_claim_id;
+
+  IF p_action = 'reject' THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_claim.employee_id,
+      'overtime_rejected',
+      'Overtime Rejected',
+      format('Your overtime on %s was rejected%s',
+        to_char(v_claim.work_date, 'Mon FMDD, YYYY'),
+        CASE WHEN p_comments IS NOT NULL AND p_comments <> '' THEN ': ' || p_comments ELSE '' END),
+      '/app/attendance'
+    );
+
+    RETURN jsonb_build_object('status', 'Rejected');
+  END IF;
+
+  INSERT INTO hr_notifications (employee_id, type, title, message, link)
+  VALUES (
+    v_claim.employee_id,
+    'overtime_approved',
+    'Overtime Approved',
+    format('%s hours of overtime on %s were approved and will be paid at %sx',
+      round(v_claim.hours, 1), to_char(v_claim.work_date, 'Mon FMDD'), v_claim.multiplier),
+    '/app/attendance'
+  );
+
+  RETURN jsonb_build_object('status', 'Approved', 'hours', v_claim.hours, 'multiplier', v_claim.multiplier);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.process_overtime_claim(UUID, TEXT, TEXT) TO authenticated;
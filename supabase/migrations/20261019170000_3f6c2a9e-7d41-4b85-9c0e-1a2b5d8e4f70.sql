@@ -0,0 +1,270 @@
+-- Bulk regularization and admin attendance overrides. Every change to a consolidated
+-- attendance day goes through override_attendance_day(), which records the previous
+-- value in hr_audit_log.
+
+-- Set the consolidated status for a day, keeping the old value in the audit log.
+-- A day with no record gets one without punches; Present and Half Day are credited
+-- the hours of the employee's shift so hours-based reports stay consistent.
+CREATE OR REPLACE FUNCTION public.override_attendance_day(
+  p_employee_id UUID,
+  p_date DATE,
+  p_status TEXT,
+  p_notes TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_existing RECORD;
+  v_found BOOLEAN;
+  v_id UUID;
+  v_hours NUMERIC;
+BEGIN
+  SELECT id, status, total_hours, notes
+  INTO v_existing
+  FROM hr_attendance
+  WHERE employee_id = p_employee_id AND attendance_date = p_date AND is_consolidated
+  FOR UPDATE;
+  v_found := FOUND;
+
+  IF v_found THEN
+    UPDATE hr_attendance
+    SET status = p_status, notes = p_notes, updated_at = now()
+    WHERE id = v_existing.id;
+    v_id := v_existing.id;
+  ELSE
+    SELECT CASE p_status
+             WHEN 'Present' THEN s.full_day_hours
+             WHEN 'Half Day' THEN s.half_day_hours
+             ELSE 0
+           END
+    INTO v_hours
+    FROM public.employee_shift_on(p_employee_id, p_date) s;
+
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+    VALUES (p_employee_id, p_date, NULL, ROUND(COALESCE(v_hours, 0), 2), p_status, true, p_notes)
+    RETURNING id INTO v_id;
+  END IF;
+
+  INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+  SELECT
+    e.org_id,
+    user_employee_id(),
+    'attendance_overridden',
+    'attendance',
+    v_id,
+    jsonb_build_object(
+      'employee_id', p_employee_id,
+      'date', p_date,
+      'previous', CASE WHEN v_found THEN jsonb_build_object(
+        'status', v_existing.status,
+        'total_hours', v_existing.total_hours,
+        'notes', v_existing.notes
+      ) END,
+      'new_status', p_status
+    ) || COALESCE(p_details, '{}'::jsonb)
+  FROM hr_employees e
+  WHERE e.id = p_employee_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.override_attendance_day(UUID, DATE, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- The admin's "today", in the org's timezone
+CREATE OR REPLACE FUNCTION public.org_today(p_org_id UUID)
+RETURNS DATE AS $$
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT company_settings->>'timezone' FROM hr_org_settings WHERE org_id = p_org_id),
+    'Asia/Kolkata'
+  ))::date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.org_today(UUID) TO authenticated;
+
+-- Approve or reject several pending regularization requests with one shared note.
+-- Requests already processed, or outside the caller's org, are skipped; the ids
+-- actually processed are returned.
+CREATE OR REPLACE FUNCTION public.process_regularization_requests(
+  p_request_ids UUID[],
+  p_action TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID[] AS $$
+DECLARE
+  v_reviewer UUID := user_employee_id();
+  v_org UUID;
+  v_today DATE;
+  v_request RECORD;
+  v_status TEXT;
+  v_processed UUID[] := '{}';
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can process regularization requests';
+  END IF;
+
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid action: %', p_action;
+  END IF;
+
+  IF p_action = 'reject' AND COALESCE(btrim(p_notes), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a reason for rejection';
+  END IF;
+
+  SELECT org_id INTO v_org FROM hr_employees WHERE id = v_reviewer;
+  v_today := public.org_today(v_org);
+
+  FOR v_request IN
+    SELECT r.*
+    FROM hr_attendance_regularization_requests r
+    JOIN hr_employees e ON e.id = r.employee_id
+    WHERE r.id = ANY(p_request_ids)
+      AND r.status = 'Pending'
+      AND e.org_id = v_org
+    ORDER BY r.attendance_date
+    FOR UPDATE OF r
+  LOOP
+    IF p_action = 'approve' THEN
+      v_status := CASE lower(replace(v_request.requested_status, ' ', '_'))
+        WHEN 'present' THEN 'Present'
+        WHEN 'absent' THEN 'Absent'
+        WHEN 'half_day' THEN 'Half Day'
+        WHEN 'on_leave' THEN 'On Leave'
+        WHEN 'holiday' THEN 'Holiday'
+        WHEN 'week_off' THEN 'Week Off'
+      END;
+
+      IF v_status IS NULL THEN
+        RAISE EXCEPTION 'Invalid attendance status: "%". Allowed: present, half_day, on_leave', v_request.requested_status;
+      END IF;
+
+      IF v_request.attendance_date > v_today THEN
+        RAISE EXCEPTION 'Cannot regularize future dates';
+      END IF;
+
+      PERFORM public.override_attendance_day(
+        v_request.employee_id,
+        v_request.attendance_date,
+        v_status,
+        'Regularized: ' || v_request.reason,
+        jsonb_build_object('source', 'regularization', 'request_id', v_request.id, 'reason', v_request.reason)
+      );
+    END IF;
+
+    UPDATE hr_attendance_regularization_requests
+    SET status = CASE p_action WHEN 'approve' THEN 'Approved' ELSE 'Rejected' END,
+        admin_notes = NULLIF(btrim(p_notes), ''),
+        reviewed_by = v_reviewer,
+        reviewed_at = now()
+    WHERE id = v_request.id;
+
+    v_processed := v_processed || v_request.id;
+  END LOOP;
+
+  RETURN v_processed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.process_regularization_requests(UUID[], TEXT, TEXT) TO authenticated;
+
+-- Set a status for several employees over a date range without a request, e.g. an
+-- office closure or a work-from-home day. Days on approved leave, before joining and,
+-- unless asked, weekends and holidays are left alone. Returns the number of days changed.
+CREATE OR REPLACE FUNCTION public.bulk_override_attendance(
+  p_employee_ids UUID[],
+  p_from DATE,
+  p_to DATE,
+  p_status TEXT,
+  p_reason TEXT,
+  p_include_non_working BOOLEAN DEFAULT false
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_org UUID;
+  v_batch UUID := gen_random_uuid();
+  v_emp RECORD;
+  v_date DATE;
+  v_days INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can override attendance';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for attendance overrides';
+  END IF;
+
+  IF p_status NOT IN ('Present', 'Half Day', 'Absent', 'Holiday') THEN
+    RAISE EXCEPTION 'Invalid attendance status: %', p_status;
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_to - p_from >= 62 THEN
+    RAISE EXCEPTION 'Overrides are limited to 62 days at a time';
+  END IF;
+
+  v_org := (SELECT org_id FROM hr_employees WHERE id = user_employee_id());
+
+  IF p_to > public.org_today(v_org) THEN
+    RAISE EXCEPTION 'Attendance can only be overridden up to today. Add a holiday for upcoming closures.';
+  END IF;
+
+  FOR v_emp IN
+    SELECT id, joining_date
+    FROM hr_employees
+    WHERE id = ANY(p_employee_ids) AND org_id = v_org
+  LOOP
+    v_days := 0;
+
+    FOR v_date IN
+      SELECT d::date FROM generate_series(p_from, p_to, interval '1 day') d
+    LOOP
+      CONTINUE WHEN v_emp.joining_date IS NOT NULL AND v_date < v_emp.joining_date;
+      CONTINUE WHEN NOT p_include_non_working AND public.is_non_working_day(v_emp.id, v_date);
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM hr_leave_requests
+        WHERE employee_id = v_emp.id
+          AND status = 'Approved'
+          AND start_date <= v_date
+          AND end_date >= v_date
+      );
+
+      PERFORM public.override_attendance_day(
+        v_emp.id,
+        v_date,
+        p_status,
+        p_reason,
+        jsonb_build_object('source', 'bulk_override', 'batch_id', v_batch, 'reason', p_reason)
+      );
+      v_days := v_days + 1;
+    END LOOP;
+
+    IF v_days > 0 THEN
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        v_emp.id,
+        'attendance_overridden',
+        'Attendance Updated',
+        CASE WHEN p_from = p_to
+          THEN format('HR marked you %s on %s: %s', p_status, to_char(p_from, 'DD Mon YYYY'), p_reason)
+          ELSE format(
+            'HR marked you %s for %s day(s) between %s and %s: %s',
+            p_status, v_days, to_char(p_from, 'DD Mon YYYY'), to_char(p_to, 'DD Mon YYYY'), p_reason
+          )
+        END,
+        '/app/attendance'
+      );
+    END IF;
+
+    v_count := v_count + v_days;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.bulk_override_attendance(UUID[], DATE, DATE, TEXT, TEXT, BOOLEAN) TO authenticated;
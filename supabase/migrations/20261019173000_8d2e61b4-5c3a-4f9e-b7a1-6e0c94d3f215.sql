@@ -0,0 +1,154 @@
+-- Regularization policy limits and reason codes
+-- Orgs can cap regularization requests per employee per month and refuse requests
+-- for days older than a set number of days. Requests pick a reason from the org's
+-- managed list; the free-text reason stays as the employee's explanation.
+
+-- Keep the attendance policy defaults in sync with orgSettings.ts
+CREATE OR REPLACE FUNCTION public.org_attendance_policy(p_org_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'workStartTime', '09:00',
+    'workEndTime', '18:00',
+    'graceMinutes', 15,
+    'halfDayHours', 4,
+    'fullDayHours', 8,
+    'weekends', jsonb_build_array('saturday', 'sunday'),
+    'punchEnforcement', jsonb_build_object(
+      'Full-time', 'flag',
+      'Part-time', 'flag',
+      'Contract', 'flag',
+      'Intern', 'flag'
+    ),
+    'openSessionPolicy', 'shift_end',
+    'overtime', jsonb_build_object(
+      'enabled', false,
+      'dailyThresholdHours', NULL,
+      'weeklyThresholdHours', 48,
+      'minMinutes', 30,
+      'weekdayMultiplier', 1.5,
+      'weekendMultiplier', 2,
+      'holidayMultiplier', 2
+    ),
+    'regularization', jsonb_build_object(
+      'monthlyLimit', NULL,
+      'maxAgeDays', 30
+    )
+  ) || COALESCE((SELECT attendance_policy FROM hr_org_settings WHERE org_id = p_org_id), '{}'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE public.hr_regularization_reasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (btrim(label) <> ''),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (org_id, label)
+);
+
+ALTER TABLE public.hr_regularization_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their organization's regularization reasons"
+ON public.hr_regularization_reasons
+FOR SELECT
+USING (org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id()));
+
+CREATE POLICY "Admins can manage regularization reasons"
+ON public.hr_regularization_reasons
+FOR ALL
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+)
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+-- Start every existing org with the common reasons
+INSERT INTO public.hr_regularization_reasons (org_id, label)
+SELECT o.id, r.label
+FROM organizations o
+CROSS JOIN (VALUES ('Missed punch'), ('Client visit'), ('Work from home'), ('System issue')) AS r(label)
+ON CONFLICT (org_id, label) DO NOTHING;
+
+ALTER TABLE public.hr_attendance_regularization_requests
+  ADD COLUMN reason_id UUID REFERENCES public.hr_regularization_reasons(id);
+
+CREATE INDEX idx_regularization_requests_employee_date
+  ON public.hr_attendance_regularization_requests(employee_id, attendance_date);
+
+-- Rejected requests don't count towards the monthly limit
+CREATE OR REPLACE FUNCTION public.regularization_requests_in_month(p_employee_id UUID, p_date DATE)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::integer
+  FROM hr_attendance_regularization_requests
+  WHERE employee_id = p_employee_id
+    AND status <> 'Rejected'
+    AND date_trunc('month', attendance_date) = date_trunc('month', p_date);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.regularization_requests_in_month(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Enforce the org's limits on new requests. The request page checks the same rules
+-- first so employees see the reason before submitting.
+CREATE OR REPLACE FUNCTION public.enforce_regularization_policy()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_org UUID;
+  v_policy JSONB;
+  v_today DATE;
+  v_limit INTEGER;
+  v_max_age INTEGER;
+BEGIN
+  SELECT org_id INTO v_org FROM hr_employees WHERE id = NEW.employee_id;
+  v_policy := COALESCE(public.org_attendance_policy(v_org)->'regularization', '{}'::jsonb);
+  v_today := public.org_today(v_org);
+  v_limit := NULLIF(v_policy->>'monthlyLimit', '')::integer;
+  v_max_age := NULLIF(v_policy->>'maxAgeDays', '')::integer;
+
+  IF NEW.attendance_date > v_today THEN
+    RAISE EXCEPTION 'Cannot regularize future dates';
+  END IF;
+
+  IF v_max_age IS NOT NULL AND NEW.attendance_date < v_today - v_max_age THEN
+    RAISE EXCEPTION 'Regularization must be requested within % days of the date', v_max_age;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM hr_attendance_regularization_requests
+    WHERE employee_id = NEW.employee_id
+      AND attendance_date = NEW.attendance_date
+      AND status = 'Pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have a pending request for this date';
+  END IF;
+
+  IF v_limit IS NOT NULL
+    AND public.regularization_requests_in_month(NEW.employee_id, NEW.attendance_date) >= v_limit
+  THEN
+    RAISE EXCEPTION 'You have used all % regularization request(s) allowed for %',
+      v_limit, to_char(NEW.attendance_date, 'FMMonth YYYY');
+  END IF;
+
+  IF NEW.reason_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM hr_regularization_reasons WHERE org_id = v_org AND is_active) THEN
+      RAISE EXCEPTION 'Please choose a reason for the request';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM hr_regularization_reasons
+    WHERE id = NEW.reason_id AND org_id = v_org AND is_active
+  ) THEN
+    RAISE EXCEPTION 'That reason is no longer available. Please choose another.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_regularization_policy() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER enforce_regularization_policy_trigger
+BEFORE INSERT ON public.hr_attendance_regularization_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_regularization_policy();
@@ -0,0 +1,704 @@
+-- Work-from-home requests
+-- Employees ask their manager to work from home on a date range, or on set weekdays
+-- (e.g. every Friday) from a start date, optionally until an end date. On an approved
+-- WFH working day the consolidated status is 'Work From Home' whether or not the
+-- employee punched, punches aren't held to the office geofence, and a day already
+-- marked absent is corrected when a request covering it is approved.
+
+CREATE TABLE public.hr_wfh_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.hr_employees(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE, -- Open-ended only for weekly requests
+  recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'weekly')),
+  weekdays INTEGER[] NOT NULL DEFAULT '{}', -- ISO days of week (1 = Monday) for weekly requests
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  status TEXT NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Approved', 'Rejected', 'Cancelled')),
+  reviewed_by UUID REFERENCES public.hr_employees(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comments TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date),
+  CHECK (recurrence = 'weekly' OR end_date IS NOT NULL),
+  CHECK (
+    (recurrence = 'none' AND weekdays = '{}')
+    OR (recurrence = 'weekly' AND cardinality(weekdays) > 0 AND weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7])
+  )
+);
+
+CREATE INDEX idx_wfh_requests_employee ON public.hr_wfh_requests(employee_id, status, start_date);
+CREATE INDEX idx_wfh_requests_status ON public.hr_wfh_requests(org_id, status);
+
+ALTER TABLE public.hr_wfh_requests ENABLE ROW LEVEL SECURITY;
+
+-- Decisions go through process_wfh_request()
+CREATE POLICY "Employees can view their WFH requests"
+ON public.hr_wfh_requests
+FOR SELECT
+USING (employee_id = user_employee_id());
+
+CREATE POLICY "Managers can view team WFH requests"
+ON public.hr_wfh_requests
+FOR SELECT
+USING (is_acting_manager_of(employee_id));
+
+CREATE POLICY "Admins can view all WFH requests"
+ON public.hr_wfh_requests
+FOR SELECT
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+CREATE POLICY "Employees can request WFH"
+ON public.hr_wfh_requests
+FOR INSERT
+WITH CHECK (
+  employee_id = user_employee_id()
+  AND status = 'Pending'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+-- Cancelling an approved request only affects days not yet consolidated
+CREATE POLICY "Employees can cancel their WFH requests"
+ON public.hr_wfh_requests
+FOR UPDATE
+USING (employee_id = user_employee_id() AND status IN ('Pending', 'Approved'))
+WITH CHECK (employee_id = user_employee_id() AND status = 'Cancelled');
+
+-- Whether an approved WFH request covers a working day of the employee
+CREATE OR REPLACE FUNCTION public.is_wfh_day(p_employee_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM hr_wfh_requests
+    WHERE employee_id = p_employee_id
+      AND status = 'Approved'
+      AND start_date <= p_date
+      AND (end_date IS NULL OR end_date >= p_date)
+      AND (recurrence = 'none' OR EXTRACT(ISODOW FROM p_date)::integer = ANY(weekdays))
+  ) AND NOT public.is_non_working_day(p_employee_id, p_date);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_wfh_day(UUID, DATE) TO authenticated;
+
+-- "on 12 Jan 2026", "from 12 Jan 2026 to 16 Jan 2026" or "every Fri from 12 Jan 2026"
+CREATE OR REPLACE FUNCTION public.wfh_request_summary(p_request hr_wfh_requests)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_request.recurrence = 'weekly' THEN format(
+      'every %s from %s%s',
+      (
+        SELECT string_agg(to_char(DATE '2024-01-01' + (d - 1), 'Dy'), ', ' ORDER BY d)
+        FROM unnest(p_request.weekdays) d
+      ),
+      to_char(p_request.start_date, 'DD Mon YYYY'),
+      CASE WHEN p_request.end_date IS NOT NULL THEN ' to ' || to_char(p_request.end_date, 'DD Mon YYYY') ELSE '' END
+    )
+    WHEN p_request.start_date = p_request.end_date THEN 'on ' || to_char(p_request.start_date, 'DD Mon YYYY')
+    ELSE format('from %s to %s', to_char(p_request.start_date, 'DD Mon YYYY'), to_char(p_request.end_date, 'DD Mon YYYY'))
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.wfh_request_summary(hr_wfh_requests) FROM PUBLIC, anon, authenticated;
+
+-- Tell the manager (and their delegate), or HR when there is no manager
+CREATE OR REPLACE FUNCTION public.notify_wfh_request()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_employee hr_employees%ROWTYPE;
+  v_delegate_id UUID;
+  v_message TEXT;
+BEGIN
+  SELECT * INTO v_employee FROM hr_employees WHERE id = NEW.employee_id;
+
+  v_message := format('%s has asked to work from home %s', v_employee.full_name, public.wfh_request_summary(NEW));
+
+  IF v_employee.manager_id IS NOT NULL THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (v_employee.manager_id, 'wfh_pending', 'WFH Approval Required', v_message, '/app/leave-approvals');
+
+    v_delegate_id := public.active_delegate_for(v_employee.manager_id);
+    IF v_delegate_id IS NOT NULL THEN
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (v_delegate_id, 'wfh_pending', 'WFH Approval Required (Delegated)', v_message, '/app/leave-approvals');
+    END IF;
+  ELSE
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    SELECT id, 'wfh_pending', 'WFH Approval Required', v_message, '/app/approvals'
+    FROM hr_employees
+    WHERE org_id = v_employee.org_id
+      AND role = 'Admin'
+      AND status = 'Active'
+      AND id <> v_employee.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_wfh_request() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER notify_wfh_request_trigger
+AFTER INSERT ON public.hr_wfh_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_wfh_request();
+
+-- Work From Home is credited a full day's hours like Present
+CREATE OR REPLACE FUNCTION public.override_attendance_day(
+  p_employee_id UUID,
+  p_date DATE,
+  p_status TEXT,
+  p_notes TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_existing RECORD;
+  v_found BOOLEAN;
+  v_id UUID;
+  v_hours NUMERIC;
+BEGIN
+  SELECT id, status, total_hours, notes
+  INTO v_existing
+  FROM hr_attendance
+  WHERE employee_id = p_employee_id AND attendance_date = p_date AND is_consolidated
+  FOR UPDATE;
+  v_found := FOUND;
+
+  IF v_found THEN
+    UPDATE hr_attendance
+    SET status = p_status, notes = p_notes, updated_at = now()
+    WHERE id = v_existing.id;
+    v_id := v_existing.id;
+  ELSE
+    SELECT CASE p_status
+             WHEN 'Present' THEN s.full_day_hours
+             WHEN 'Work From Home' THEN s.full_day_hours
+             WHEN 'Half Day' THEN s.half_day_hours
+             ELSE 0
+           END
+    INTO v_hours
+    FROM public.employee_shift_on(p_employee_id, p_date) s;
+
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+    VALUES (p_employee_id, p_date, NULL, ROUND(COALESCE(v_hours, 0), 2), p_status, true, p_notes)
+    RETURNING id INTO v_id;
+  END IF;
+
+  INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+  SELECT
+    e.org_id,
+    user_employee_id(),
+    'attendance_overridden',
+    'attendance',
+    v_id,
+    jsonb_build_object(
+      'employee_id', p_employee_id,
+      'date', p_date,
+      'previous', CASE WHEN v_found THEN jsonb_build_object(
+        'status', v_existing.status,
+        'total_hours', v_existing.total_hours,
+        'notes', v_existing.notes
+      ) END,
+      'new_status', p_status
+    ) || COALESCE(p_details, '{}'::jsonb)
+  FROM hr_employees e
+  WHERE e.id = p_employee_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.override_attendance_day(UUID, DATE, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Manager (or their delegate, or HR) decision on a WFH request. Approving a request
+-- that reaches back in time turns the days it covers that were marked absent into
+-- Work From Home; the change is audited like any other override.
+CREATE OR REPLACE FUNCTION public.process_wfh_request(
+  p_request_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_request hr_wfh_requests%ROWTYPE;
+  v_date DATE;
+  v_corrected INTEGER := 0;
+BEGIN
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_request FROM hr_wfh_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'WFH request not found';
+  END IF;
+
+  IF v_request.employee_id = v_caller_id THEN
+    RAISE EXCEPTION 'You cannot approve your own WFH request';
+  END IF;
+
+  IF NOT (
+    public.is_acting_manager_of(v_request.employee_id)
+    OR (user_role() = 'Admin' AND v_request.org_id = (SELECT org_id FROM hr_employees WHERE id = v_caller_id))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to decide this WFH request';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'WFH request has already been %', lower(v_request.status);
+  END IF;
+
+  UPDATE hr_wfh_requests
+  SET status = CASE WHEN p_action = 'approve' THEN 'Approved' ELSE 'Rejected' END,
+      reviewed_by = v_caller_id, reviewed_at = now(), review_comments = p_comments, updated_at = now()
+  WHERE id = p_request_id;
+
+  IF p_action = 'reject' THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'wfh_rejected',
+      'WFH Rejected',
+      format('Your request to work from home %s was rejected%s',
+        public.wfh_request_summary(v_request),
+        CASE WHEN p_comments IS NOT NULL AND p_comments <> '' THEN ': ' || p_comments ELSE '' END),
+      '/app/wfh'
+    );
+
+    RETURN jsonb_build_object('status', 'Rejected');
+  END IF;
+
+  FOR v_date IN
+    SELECT a.attendance_date
+    FROM hr_attendance a
+    WHERE a.employee_id = v_request.employee_id
+      AND a.is_consolidated
+      AND a.status = 'Absent'
+      AND a.attendance_date >= v_request.start_date
+      AND (v_request.end_date IS NULL OR a.attendance_date <= v_request.end_date)
+    ORDER BY a.attendance_date
+  LOOP
+    CONTINUE WHEN NOT public.is_wfh_day(v_request.employee_id, v_date);
+
+    PERFORM public.override_attendance_day(
+      v_request.employee_id,
+      v_date,
+      'Work From Home',
+      'Work from home approved',
+      jsonb_build_object('source', 'wfh', 'request_id', v_request.id, 'reason', v_request.reason)
+    );
+    v_corrected := v_corrected + 1;
+  END LOOP;
+
+  INSERT INTO hr_notifications (employee_id, type, title, message, link)
+  VALUES (
+    v_request.employee_id,
+    'wfh_approved',
+    'WFH Approved',
+    format('Your request to work from home %s was approved%s',
+      public.wfh_request_summary(v_request),
+      CASE WHEN v_corrected > 0 THEN format(' and %s day(s) marked absent have been updated', v_corrected) ELSE '' END),
+    '/app/attendance'
+  );
+
+  RETURN jsonb_build_object('status', 'Approved', 'corrected_days', v_corrected);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.process_wfh_request(UUID, TEXT, TEXT) TO authenticated;
+
+-- HR can mark a remote day directly too
+CREATE OR REPLACE FUNCTION public.bulk_override_attendance(
+  p_employee_ids UUID[],
+  p_from DATE,
+  p_to DATE,
+  p_status TEXT,
+  p_reason TEXT,
+  p_include_non_working BOOLEAN DEFAULT false
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_org UUID;
+  v_batch UUID := gen_random_uuid();
+  v_emp RECORD;
+  v_date DATE;
+  v_days INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can override attendance';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for attendance overrides';
+  END IF;
+
+  IF p_status NOT IN ('Present', 'Work From Home', 'Half Day', 'Absent', 'Holiday') THEN
+    RAISE EXCEPTION 'Invalid attendance status: %', p_status;
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_to - p_from >= 62 THEN
+    RAISE EXCEPTION 'Overrides are limited to 62 days at a time';
+  END IF;
+
+  v_org := (SELECT org_id FROM hr_employees WHERE id = user_employee_id());
+
+  IF p_to > public.org_today(v_org) THEN
+    RAISE EXCEPTION 'Attendance can only be overridden up to today. Add a holiday for upcoming closures.';
+  END IF;
+
+  FOR v_emp IN
+    SELECT id, joining_date
+    FROM hr_employees
+    WHERE id = ANY(p_employee_ids) AND org_id = v_org
+  LOOP
+    v_days := 0;
+
+    FOR v_date IN
+      SELECT d::date FROM generate_series(p_from, p_to, interval '1 day') d
+    LOOP
+      CONTINUE WHEN v_emp.joining_date IS NOT NULL AND v_date < v_emp.joining_date;
+      CONTINUE WHEN NOT p_include_non_working AND public.is_non_working_day(v_emp.id, v_date);
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM hr_leave_requests
+        WHERE employee_id = v_emp.id
+          AND status = 'Approved'
+          AND start_date <= v_date
+          AND end_date >= v_date
+      );
+
+      PERFORM public.override_attendance_day(
+        v_emp.id,
+        v_date,
+        p_status,
+        p_reason,
+        jsonb_build_object('source', 'bulk_override', 'batch_id', v_batch, 'reason', p_reason)
+      );
+      v_days := v_days + 1;
+    END LOOP;
+
+    IF v_days > 0 THEN
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        v_emp.id,
+        'attendance_overridden',
+        'Attendance Updated',
+        CASE WHEN p_from = p_to
+          THEN format('HR marked you %s on %s: %s', p_status, to_char(p_from, 'DD Mon YYYY'), p_reason)
+          ELSE format(
+            'HR marked you %s for %s day(s) between %s and %s: %s',
+            p_status, v_days, to_char(p_from, 'DD Mon YYYY'), to_char(p_to, 'DD Mon YYYY'), p_reason
+          )
+        END,
+        '/app/attendance'
+      );
+    END IF;
+
+    v_count := v_count + v_days;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.bulk_override_attendance(UUID[], DATE, DATE, TEXT, TEXT, BOOLEAN) TO authenticated;
+
+-- Punches on an approved WFH day are not checked against office locations
+CREATE OR REPLACE FUNCTION public.check_punch_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_punch TEXT;
+  v_ip INET;
+  v_lat NUMERIC;
+  v_lng NUMERIC;
+  v_org_id UUID;
+  v_location TEXT;
+  v_employment_type TEXT;
+  v_has_sites BOOLEAN;
+  v_within BOOLEAN;
+  v_mode TEXT;
+BEGIN
+  IF COALESCE(NEW.is_consolidated, false) THEN
+    SELECT COALESCE(array_agg(DISTINCT f), '{}') INTO NEW.location_flags
+    FROM hr_attendance a, unnest(a.location_flags) f
+    WHERE a.employee_id = NEW.employee_id
+      AND a.attendance_date = NEW.attendance_date
+      AND NOT COALESCE(a.is_consolidated, false);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.punch_in_time IS NOT NULL THEN
+    v_punch := 'punch_in';
+  ELSIF TG_OP = 'UPDATE' AND OLD.punch_out_time IS NULL AND NEW.punch_out_time IS NOT NULL THEN
+    v_punch := 'punch_out';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- HR corrections and regularizations are not punches
+  IF NEW.employee_id IS DISTINCT FROM user_employee_id() THEN
+    RETURN NEW;
+  END IF;
+
+  v_ip := public.request_ip();
+  IF v_punch = 'punch_in' THEN
+    NEW.punch_in_ip := host(v_ip);
+    v_lat := NEW.punch_in_latitude;
+    v_lng := NEW.punch_in_longitude;
+  ELSE
+    NEW.punch_out_ip := host(v_ip);
+    v_lat := NEW.punch_out_latitude;
+    v_lng := NEW.punch_out_longitude;
+  END IF;
+
+  IF public.is_wfh_day(NEW.employee_id, NEW.attendance_date) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT e.org_id, d.location, d.employment_type
+  INTO v_org_id, v_location, v_employment_type
+  FROM hr_employees e
+  LEFT JOIN hr_employee_details d ON d.employee_id = e.id
+  WHERE e.id = NEW.employee_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM hr_office_locations
+    WHERE org_id = v_org_id AND lower(trim(location)) = lower(trim(v_location))
+  ) INTO v_has_sites;
+
+  IF NOT v_has_sites THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM hr_office_locations o
+    WHERE o.org_id = v_org_id
+      AND lower(trim(o.location)) = lower(trim(v_location))
+      AND (
+        (o.latitude IS NOT NULL AND v_lat IS NOT NULL AND v_lng IS NOT NULL
+          AND public.distance_meters(o.latitude, o.longitude, v_lat, v_lng) <= o.radius_meters)
+        OR public.ip_in_ranges(v_ip, o.allowed_ip_ranges)
+      )
+  ) INTO v_within;
+
+  IF v_within THEN
+    RETURN NEW;
+  END IF;
+
+  v_mode := COALESCE(
+    public.org_attendance_policy(v_org_id)->'punchEnforcement'->>COALESCE(v_employment_type, 'Full-time'),
+    'flag'
+  );
+
+  IF v_mode = 'block' THEN
+    RAISE EXCEPTION 'Punch % blocked: you are not at an approved % office location or network',
+      CASE WHEN v_punch = 'punch_in' THEN 'in' ELSE 'out' END, v_location;
+  ELSIF v_mode = 'flag' THEN
+    NEW.location_flags := array_append(array_remove(NEW.location_flags, v_punch || '_outside'), v_punch || '_outside');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approved WFH days are recorded as Work From Home rather than absent, with or
+-- without punches. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.consolidate_attendance(p_date DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_tz TEXT;
+  v_date DATE;
+  v_open_policy TEXT;
+  v_emp RECORD;
+  v_shift RECORD;
+  v_shift_end TIMESTAMP WITH TIME ZONE;
+  v_session RECORD;
+  v_closed TEXT;
+  v_first TIMESTAMP WITH TIME ZONE;
+  v_last TIMESTAMP WITH TIME ZONE;
+  v_hours NUMERIC;
+  v_status TEXT;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can run attendance consolidation';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    v_tz := COALESCE(
+      (SELECT company_settings->>'timezone' FROM hr_org_settings WHERE org_id = v_org.id),
+      'Asia/Kolkata'
+    );
+    v_date := COALESCE(p_date, (now() AT TIME ZONE v_tz)::date - 1);
+    v_open_policy := public.org_attendance_policy(v_org.id)->>'openSessionPolicy';
+
+    FOR v_emp IN
+      SELECT id
+      FROM hr_employees
+      WHERE org_id = v_org.id
+        AND status = 'Active'
+        AND (joining_date IS NULL OR joining_date <= v_date)
+    LOOP
+      SELECT * INTO v_shift FROM public.employee_shift_on(v_emp.id, v_date);
+      v_shift_end := (
+        v_date + v_shift.end_time + CASE WHEN v_shift.crosses_midnight THEN interval '1 day' ELSE interval '0' END
+      ) AT TIME ZONE v_tz;
+
+      CONTINUE WHEN now() < v_shift_end + interval '4 hours';
+
+      -- No punch at all: absent unless it was a day off or an approved WFH day
+      IF NOT EXISTS (
+        SELECT 1 FROM hr_attendance WHERE employee_id = v_emp.id AND attendance_date = v_date
+      ) THEN
+        CONTINUE WHEN public.is_non_working_day(v_emp.id, v_date);
+        CONTINUE WHEN EXISTS (
+          SELECT 1 FROM hr_leave_requests
+          WHERE employee_id = v_emp.id
+            AND status = 'Approved'
+            AND start_date <= v_date
+            AND end_date >= v_date
+        );
+
+        IF public.is_wfh_day(v_emp.id, v_date) THEN
+          INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+          VALUES (v_emp.id, v_date, NULL, ROUND(v_shift.full_day_hours, 2), 'Work From Home', true, 'Approved work from home');
+
+          v_count := v_count + 1;
+          CONTINUE;
+        END IF;
+
+        INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+        VALUES (v_emp.id, v_date, NULL, 0, 'Absent', true, 'No punch recorded');
+
+        INSERT INTO hr_notifications (employee_id, type, title, message, link)
+        VALUES (
+          v_emp.id,
+          'attendance_absent',
+          'Marked Absent',
+          format(
+            'No punch was recorded on %s, so you have been marked absent. Apply for regularization if you were working.',
+            to_char(v_date, 'DD Mon YYYY')
+          ),
+          '/app/attendance-regularization'
+        );
+
+        v_count := v_count + 1;
+        CONTINUE;
+      END IF;
+
+      -- Consolidated at punch-out (or regularized) with nothing left open
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM hr_attendance
+        WHERE employee_id = v_emp.id AND attendance_date = v_date AND is_consolidated
+      ) AND NOT EXISTS (
+        SELECT 1 FROM hr_attendance
+        WHERE employee_id = v_emp.id
+          AND attendance_date = v_date
+          AND NOT COALESCE(is_consolidated, false)
+          AND punch_out_time IS NULL
+      );
+
+      -- Close forgotten punch-outs. A session opened after the shift ended can't be
+      -- closed at the shift end, so it goes to review whatever the policy.
+      v_closed := NULL;
+      FOR v_session IN
+        SELECT id, punch_in_time
+        FROM hr_attendance
+        WHERE employee_id = v_emp.id
+          AND attendance_date = v_date
+          AND NOT COALESCE(is_consolidated, false)
+          AND punch_out_time IS NULL
+      LOOP
+        IF v_open_policy = 'review' OR v_session.punch_in_time >= v_shift_end THEN
+          UPDATE hr_attendance
+          SET punch_out_time = punch_in_time, total_hours = 0, auto_closed = 'review'
+          WHERE id = v_session.id;
+          v_closed := 'review';
+        ELSE
+          UPDATE hr_attendance
+          SET punch_out_time = v_shift_end,
+              total_hours = ROUND(EXTRACT(EPOCH FROM (v_shift_end - v_session.punch_in_time)) / 3600, 2),
+              auto_closed = 'shift_end'
+          WHERE id = v_session.id;
+          v_closed := COALESCE(v_closed, 'shift_end');
+        END IF;
+      END LOOP;
+
+      SELECT MIN(punch_in_time), MAX(punch_out_time), COALESCE(SUM(total_hours), 0)
+      INTO v_first, v_last, v_hours
+      FROM hr_attendance
+      WHERE employee_id = v_emp.id
+        AND attendance_date = v_date
+        AND NOT COALESCE(is_consolidated, false);
+
+      v_status := CASE
+        WHEN public.is_wfh_day(v_emp.id, v_date) THEN 'Work From Home'
+        WHEN v_hours >= v_shift.full_day_hours THEN 'Present'
+        WHEN v_hours >= v_shift.half_day_hours THEN 'Half Day'
+        ELSE 'Absent'
+      END;
+
+      UPDATE hr_attendance
+      SET status = v_status
+      WHERE employee_id = v_emp.id
+        AND attendance_date = v_date
+        AND NOT COALESCE(is_consolidated, false);
+
+      UPDATE hr_attendance
+      SET punch_in_time = v_first,
+          punch_out_time = v_last,
+          total_hours = ROUND(v_hours, 2),
+          status = v_status,
+          auto_closed = v_closed
+      WHERE employee_id = v_emp.id AND attendance_date = v_date AND is_consolidated;
+
+      IF NOT FOUND THEN
+        INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, punch_out_time, total_hours, status, is_consolidated, auto_closed)
+        VALUES (v_emp.id, v_date, v_first, v_last, ROUND(v_hours, 2), v_status, true, v_closed);
+      END IF;
+
+      IF v_closed IS NOT NULL THEN
+        INSERT INTO hr_notifications (employee_id, type, title, message, link)
+        VALUES (
+          v_emp.id,
+          'attendance_auto_closed',
+          'Punch-Out Missing',
+          CASE v_closed
+            WHEN 'review' THEN format(
+              'You did not punch out on %s, so the session was closed with no hours counted. Apply for regularization to record your hours.',
+              to_char(v_date, 'DD Mon YYYY')
+            )
+            ELSE format(
+              'You did not punch out on %s, so your session was closed at the end of your shift (%s). Apply for regularization if that is wrong.',
+              to_char(v_date, 'DD Mon YYYY'), to_char(v_shift_end AT TIME ZONE v_tz, 'HH24:MI')
+            )
+          END,
+          '/app/attendance-regularization'
+        );
+      END IF;
+
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.consolidate_attendance(DATE) TO authenticated;
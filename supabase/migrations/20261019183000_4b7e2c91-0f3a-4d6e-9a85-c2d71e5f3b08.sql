@@ -0,0 +1,86 @@
+-- Work expectations
+-- Target logged hours per week and a category mix (share of logged time per work-log
+-- category) for a manager's team or for one employee. Each row applies from its
+-- effective date until the next row for the same team or employee; an employee row
+-- overrides their manager's team row.
+
+CREATE OR REPLACE FUNCTION public.is_valid_category_mix(p_mix JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(p_mix) = 'object'
+    AND (
+      p_mix = '{}'::jsonb
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM jsonb_each(p_mix) e
+          WHERE e.key NOT IN ('Meeting', 'Development', 'Support', 'Learning', 'Documentation',
+                              'Design', 'Review', 'Planning', 'Admin', 'Other')
+            OR jsonb_typeof(e.value) <> 'number'
+            OR (e.value)::numeric < 0
+        )
+        AND (SELECT sum((e.value)::numeric) FROM jsonb_each(p_mix) e) = 100
+      )
+    );
+$$;
+
+CREATE TABLE public.hr_work_expectations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('team', 'employee')),
+  manager_id UUID REFERENCES public.hr_employees(id) ON DELETE CASCADE, -- Team scope: the manager's direct reports
+  employee_id UUID REFERENCES public.hr_employees(id) ON DELETE CASCADE, -- Employee scope
+  weekly_hours NUMERIC(4,1) NOT NULL CHECK (weekly_hours > 0 AND weekly_hours <= 80),
+  category_mix JSONB NOT NULL DEFAULT '{}' CHECK (is_valid_category_mix(category_mix)), -- Category -> percent, totalling 100
+  effective_from DATE NOT NULL,
+  created_by UUID REFERENCES public.hr_employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (scope = 'team' AND manager_id IS NOT NULL AND employee_id IS NULL)
+    OR (scope = 'employee' AND employee_id IS NOT NULL AND manager_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX idx_work_expectations_team
+  ON public.hr_work_expectations(manager_id, effective_from) WHERE scope = 'team';
+CREATE UNIQUE INDEX idx_work_expectations_employee
+  ON public.hr_work_expectations(employee_id, effective_from) WHERE scope = 'employee';
+CREATE INDEX idx_work_expectations_org ON public.hr_work_expectations(org_id, effective_from);
+
+ALTER TABLE public.hr_work_expectations ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can see targets so work-log pages can show them to the employee
+CREATE POLICY "Employees can view their organization's work expectations"
+ON public.hr_work_expectations
+FOR SELECT
+USING (org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id()));
+
+CREATE POLICY "Managers can manage their team's work expectations"
+ON public.hr_work_expectations
+FOR ALL
+USING (
+  (scope = 'team' AND manager_id = user_employee_id())
+  OR (scope = 'employee' AND is_acting_manager_of(employee_id))
+)
+WITH CHECK (
+  org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+  AND (
+    (scope = 'team' AND manager_id = user_employee_id())
+    OR (scope = 'employee' AND is_acting_manager_of(employee_id))
+  )
+);
+
+CREATE POLICY "Admins can manage work expectations"
+ON public.hr_work_expectations
+FOR ALL
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+)
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
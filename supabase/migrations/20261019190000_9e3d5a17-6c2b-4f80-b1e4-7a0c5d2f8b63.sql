@@ -0,0 +1,289 @@
+-- Weekly efficiency snapshots
+-- Efficiency is scored per employee per week (Monday to Sunday) from real data:
+--   utilization  logged work-log minutes against attended minutes
+--   quality      approved work-log weeks against weeks sent back for rework
+--   on time      the week first submitted by the end of the following Monday
+-- and combined as 50/30/20, re-weighted over whichever parts have data. Department
+-- rows aggregate the same counts across their members. A weekly job scores the last
+-- four complete weeks so late approvals and reworks are picked up.
+
+-- Work-log weeks keep their submission and rework history
+ALTER TABLE public.hr_work_log_weeks
+  ADD COLUMN first_submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN rework_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.hr_work_log_weeks SET first_submitted_at = submitted_at WHERE submitted_at IS NOT NULL;
+UPDATE public.hr_work_log_weeks SET rework_count = 1 WHERE status = 'Rework';
+
+CREATE OR REPLACE FUNCTION public.track_work_log_week_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'Submitted' AND OLD.status IS DISTINCT FROM 'Submitted' AND NEW.first_submitted_at IS NULL THEN
+    NEW.first_submitted_at := COALESCE(NEW.submitted_at, now());
+  END IF;
+
+  IF NEW.status = 'Rework' AND OLD.status IS DISTINCT FROM 'Rework' THEN
+    NEW.rework_count := OLD.rework_count + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.track_work_log_week_status() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER track_work_log_week_status_trigger
+BEFORE UPDATE OF status ON public.hr_work_log_weeks
+FOR EACH ROW
+EXECUTE FUNCTION public.track_work_log_week_status();
+
+CREATE TABLE public.hr_efficiency_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('employee', 'department')),
+  employee_id UUID REFERENCES public.hr_employees(id) ON DELETE CASCADE, -- Employee scope
+  department TEXT, -- Department scope; 'Unassigned' for employees without one
+  week_start DATE NOT NULL, -- Monday
+  logged_minutes INTEGER NOT NULL DEFAULT 0,
+  attended_minutes INTEGER NOT NULL DEFAULT 0,
+  weeks_approved INTEGER NOT NULL DEFAULT 0,
+  reworks INTEGER NOT NULL DEFAULT 0,
+  submissions INTEGER NOT NULL DEFAULT 0,
+  on_time_submissions INTEGER NOT NULL DEFAULT 0,
+  utilization NUMERIC(5,1), -- NULL where a part has no data
+  quality NUMERIC(5,1),
+  on_time_rate NUMERIC(5,1),
+  efficiency NUMERIC(5,1),
+  member_count INTEGER NOT NULL DEFAULT 1,
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  CHECK (
+    (scope = 'employee' AND employee_id IS NOT NULL AND department IS NULL)
+    OR (scope = 'department' AND department IS NOT NULL AND employee_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX idx_efficiency_snapshots_employee
+  ON public.hr_efficiency_snapshots(employee_id, week_start) WHERE scope = 'employee';
+CREATE UNIQUE INDEX idx_efficiency_snapshots_department
+  ON public.hr_efficiency_snapshots(org_id, department, week_start) WHERE scope = 'department';
+CREATE INDEX idx_efficiency_snapshots_org_week ON public.hr_efficiency_snapshots(org_id, week_start);
+
+ALTER TABLE public.hr_efficiency_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Written only by compute_efficiency_snapshots()
+CREATE POLICY "Employees can view their efficiency snapshots"
+ON public.hr_efficiency_snapshots
+FOR SELECT
+USING (scope = 'employee' AND employee_id = user_employee_id());
+
+CREATE POLICY "Managers can view team efficiency snapshots"
+ON public.hr_efficiency_snapshots
+FOR SELECT
+USING (scope = 'employee' AND is_acting_manager_of(employee_id));
+
+CREATE POLICY "Managers can view department efficiency snapshots"
+ON public.hr_efficiency_snapshots
+FOR SELECT
+USING (
+  scope = 'department'
+  AND user_role() IN ('Manager', 'Admin')
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+CREATE POLICY "Admins can view all efficiency snapshots"
+ON public.hr_efficiency_snapshots
+FOR SELECT
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+-- 50/30/20 blend of the parts that have data
+CREATE OR REPLACE FUNCTION public.efficiency_score(p_utilization NUMERIC, p_quality NUMERIC, p_on_time NUMERIC)
+RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN p_utilization IS NULL AND p_quality IS NULL AND p_on_time IS NULL THEN NULL
+    ELSE round(
+      (COALESCE(p_utilization * 50, 0) + COALESCE(p_quality * 30, 0) + COALESCE(p_on_time * 20, 0))
+      / (CASE WHEN p_utilization IS NULL THEN 0 ELSE 50 END
+         + CASE WHEN p_quality IS NULL THEN 0 ELSE 30 END
+         + CASE WHEN p_on_time IS NULL THEN 0 ELSE 20 END),
+      1
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Score one week (any date in it), or with no date the last four complete weeks in
+-- each org's timezone. Returns the number of employee snapshots written.
+CREATE OR REPLACE FUNCTION public.compute_efficiency_snapshots(p_week_start DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_tz TEXT;
+  v_week DATE;
+  v_weeks DATE[];
+  v_count INTEGER := 0;
+  v_rows INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can compute efficiency snapshots';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    v_tz := COALESCE(
+      (SELECT company_settings->>'timezone' FROM hr_org_settings WHERE org_id = v_org.id),
+      'Asia/Kolkata'
+    );
+
+    IF p_week_start IS NOT NULL THEN
+      v_weeks := ARRAY[date_trunc('week', p_week_start)::date];
+    ELSE
+      v_weeks := ARRAY(
+        SELECT date_trunc('week', (now() AT TIME ZONE v_tz)::date)::date - 7 * n
+        FROM generate_series(1, 4) n
+      );
+    END IF;
+
+    FOREACH v_week IN ARRAY v_weeks LOOP
+      INSERT INTO hr_efficiency_snapshots (
+        org_id, scope, employee_id, week_start,
+        logged_minutes, attended_minutes, weeks_approved, reworks, submissions, on_time_submissions,
+        utilization, quality, on_time_rate, efficiency, computed_at
+      )
+      SELECT
+        v_org.id, 'employee', s.employee_id, v_week,
+        s.logged, s.attended, s.approved, s.reworks, s.submissions, s.on_time,
+        s.utilization, s.quality, s.on_time_rate,
+        public.efficiency_score(s.utilization, s.quality, s.on_time_rate),
+        now()
+      FROM (
+        SELECT
+          e.id AS employee_id,
+          l.logged,
+          a.attended,
+          CASE WHEN w.status = 'Approved' THEN 1 ELSE 0 END AS approved,
+          COALESCE(w.rework_count, 0) AS reworks,
+          CASE WHEN w.first_submitted_at IS NOT NULL THEN 1 ELSE 0 END AS submissions,
+          CASE WHEN (w.first_submitted_at AT TIME ZONE v_tz)::date <= v_week + 7 THEN 1 ELSE 0 END AS on_time,
+          CASE WHEN a.attended > 0 THEN round(least(100, l.logged * 100.0 / a.attended), 1) END AS utilization,
+          CASE WHEN w.status = 'Approved' OR COALESCE(w.rework_count, 0) > 0 THEN
+            round(100.0 * (CASE WHEN w.status = 'Approved' THEN 1 ELSE 0 END)
+              / ((CASE WHEN w.status = 'Approved' THEN 1 ELSE 0 END) + COALESCE(w.rework_count, 0)), 1)
+          END AS quality,
+          CASE WHEN w.first_submitted_at IS NOT NULL THEN
+            CASE WHEN (w.first_submitted_at AT TIME ZONE v_tz)::date <= v_week + 7 THEN 100.0 ELSE 0.0 END
+          END AS on_time_rate
+        FROM hr_employees e
+        CROSS JOIN LATERAL (
+          SELECT COALESCE(sum(t.duration_minutes), 0)::integer AS logged
+          FROM hr_work_log_tasks t
+          WHERE t.employee_id = e.id AND t.log_date BETWEEN v_week AND v_week + 6
+        ) l
+        CROSS JOIN LATERAL (
+          SELECT COALESCE(round(sum(att.total_hours) * 60), 0)::integer AS attended
+          FROM hr_attendance att
+          WHERE att.employee_id = e.id AND att.attendance_date BETWEEN v_week AND v_week + 6
+        ) a
+        LEFT JOIN hr_work_log_weeks w ON w.employee_id = e.id AND w.week_start_date = v_week
+        WHERE e.org_id = v_org.id
+          AND e.status = 'Active'
+          AND (e.joining_date IS NULL OR e.joining_date <= v_week + 6)
+      ) s
+      -- Nothing to score for a week spent entirely away
+      WHERE s.logged > 0 OR s.attended > 0 OR s.submissions > 0
+      ON CONFLICT (employee_id, week_start) WHERE scope = 'employee'
+      DO UPDATE SET
+        logged_minutes = EXCLUDED.logged_minutes,
+        attended_minutes = EXCLUDED.attended_minutes,
+        weeks_approved = EXCLUDED.weeks_approved,
+        reworks = EXCLUDED.reworks,
+        submissions = EXCLUDED.submissions,
+        on_time_submissions = EXCLUDED.on_time_submissions,
+        utilization = EXCLUDED.utilization,
+        quality = EXCLUDED.quality,
+        on_time_rate = EXCLUDED.on_time_rate,
+        efficiency = EXCLUDED.efficiency,
+        computed_at = EXCLUDED.computed_at;
+
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+      v_count := v_count + v_rows;
+
+      -- Departments pool their members' counts rather than averaging scores
+      INSERT INTO hr_efficiency_snapshots (
+        org_id, scope, department, week_start,
+        logged_minutes, attended_minutes, weeks_approved, reworks, submissions, on_time_submissions,
+        utilization, quality, on_time_rate, efficiency, member_count, computed_at
+      )
+      SELECT
+        v_org.id, 'department', d.department, v_week,
+        d.logged, d.attended, d.approved, d.reworks, d.submissions, d.on_time,
+        d.utilization, d.quality, d.on_time_rate,
+        public.efficiency_score(d.utilization, d.quality, d.on_time_rate),
+        d.members, now()
+      FROM (
+        SELECT
+          COALESCE(NULLIF(btrim(ed.department), ''), 'Unassigned') AS department,
+          sum(s.logged_minutes)::integer AS logged,
+          sum(s.attended_minutes)::integer AS attended,
+          sum(s.weeks_approved)::integer AS approved,
+          sum(s.reworks)::integer AS reworks,
+          sum(s.submissions)::integer AS submissions,
+          sum(s.on_time_submissions)::integer AS on_time,
+          CASE WHEN sum(s.attended_minutes) > 0 THEN
+            round(least(100, sum(s.logged_minutes) * 100.0 / sum(s.attended_minutes)), 1)
+          END AS utilization,
+          CASE WHEN sum(s.weeks_approved) + sum(s.reworks) > 0 THEN
+            round(100.0 * sum(s.weeks_approved) / (sum(s.weeks_approved) + sum(s.reworks)), 1)
+          END AS quality,
+          CASE WHEN sum(s.submissions) > 0 THEN
+            round(100.0 * sum(s.on_time_submissions) / sum(s.submissions), 1)
+          END AS on_time_rate,
+          count(*)::integer AS members
+        FROM hr_efficiency_snapshots s
+        LEFT JOIN hr_employee_details ed ON ed.employee_id = s.employee_id
+        WHERE s.org_id = v_org.id
+          AND s.scope = 'employee'
+          AND s.week_start = v_week
+        GROUP BY 1
+      ) d
+      ON CONFLICT (org_id, department, week_start) WHERE scope = 'department'
+      DO UPDATE SET
+        logged_minutes = EXCLUDED.logged_minutes,
+        attended_minutes = EXCLUDED.attended_minutes,
+        weeks_approved = EXCLUDED.weeks_approved,
+        reworks = EXCLUDED.reworks,
+        submissions = EXCLUDED.submissions,
+        on_time_submissions = EXCLUDED.on_time_submissions,
+        utilization = EXCLUDED.utilization,
+        quality = EXCLUDED.quality,
+        on_time_rate = EXCLUDED.on_time_rate,
+        efficiency = EXCLUDED.efficiency,
+        member_count = EXCLUDED.member_count,
+        computed_at = EXCLUDED.computed_at;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.compute_efficiency_snapshots(DATE) TO authenticated;
+
+-- Early Tuesday, once Monday's submission deadline has passed
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('compute-efficiency-snapshots', '30 1 * * 2', 'SELECT public.compute_efficiency_snapshots()');
+  END IF;
+END;
+$$;
+
+-- Score the recent weeks now rather than waiting for the first run
+SELECT public.compute_efficiency_snapshots();
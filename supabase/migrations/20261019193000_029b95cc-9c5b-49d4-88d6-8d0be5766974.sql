@@ -0,0 +1,123 @@
+-- Work-log vs attendance reconciliation
+-- Compares the minutes employees log in hr_work_log_tasks with the hours they were
+-- present in hr_attendance, day by day, and flags:
+--   under  logged less than 75% of the time attended
+--   over   logged more than 30 minutes beyond the time attended
+--   leave  work logged on a day covered by full-day approved leave
+-- Days still punched in are reported without a flag until the punch-out lands.
+
+-- One row per employee per day that has attendance, logged work or approved leave
+-- in the range. Pass an employee for one person (self, their acting manager or an
+-- admin); otherwise everyone the caller may review: their reports and delegated
+-- reports, or the whole organization for admins.
+CREATE OR REPLACE FUNCTION public.work_log_reconciliation(
+  p_from DATE,
+  p_to DATE,
+  p_employee_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  employee_id UUID,
+  log_date DATE,
+  attended_minutes INTEGER,
+  logged_minutes INTEGER,
+  attendance_status TEXT,
+  leave_type TEXT,
+  flag TEXT
+) AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_caller_org UUID;
+  v_is_admin BOOLEAN := user_role() = 'Admin';
+BEGIN
+  SELECT org_id INTO v_caller_org FROM hr_employees WHERE id = v_caller_id;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_to - p_from > 92 THEN
+    RAISE EXCEPTION 'Reconciliation is limited to 93 days at a time';
+  END IF;
+
+  IF p_employee_id IS NOT NULL AND NOT (
+    p_employee_id = v_caller_id
+    OR public.is_acting_manager_of(p_employee_id)
+    OR (v_is_admin AND EXISTS (SELECT 1 FROM hr_employees WHERE id = p_employee_id AND org_id = v_caller_org))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view this employee';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT e.id
+    FROM hr_employees e
+    WHERE e.org_id = v_caller_org
+      AND (
+        (p_employee_id IS NOT NULL AND e.id = p_employee_id)
+        OR (p_employee_id IS NULL AND (v_is_admin OR public.is_acting_manager_of(e.id)))
+      )
+  ),
+  logged AS (
+    SELECT t.employee_id, t.log_date, sum(t.duration_minutes)::integer AS minutes
+    FROM hr_work_log_tasks t
+    JOIN scoped s ON s.id = t.employee_id
+    WHERE t.log_date BETWEEN p_from AND p_to
+    GROUP BY t.employee_id, t.log_date
+  ),
+  attended AS (
+    SELECT
+      a.employee_id,
+      a.attendance_date,
+      round(COALESCE(a.total_hours, 0) * 60)::integer AS minutes,
+      a.status,
+      (a.punch_in_time IS NOT NULL AND a.punch_out_time IS NULL AND a.total_hours IS NULL) AS still_open
+    FROM hr_attendance a
+    JOIN scoped s ON s.id = a.employee_id
+    WHERE a.attendance_date BETWEEN p_from AND p_to
+  ),
+  -- Half-day sessions on the first or last day of a request leave the rest of the
+  -- day to be worked, so only full days count as leave here
+  leave_days AS (
+    SELECT DISTINCT ON (r.employee_id, gs.day::date)
+      r.employee_id,
+      gs.day::date AS leave_date,
+      r.leave_type
+    FROM hr_leave_requests r
+    JOIN scoped s ON s.id = r.employee_id
+    CROSS JOIN LATERAL generate_series(GREATEST(r.start_date, p_from), LEAST(r.end_date, p_to), INTERVAL '1 day') AS gs(day)
+    WHERE r.status = 'Approved'
+      AND r.start_date <= p_to
+      AND r.end_date >= p_from
+      AND NOT (gs.day::date = r.start_date AND r.start_session <> 'full')
+      AND NOT (gs.day::date = r.end_date AND r.end_session <> 'full')
+    ORDER BY r.employee_id, gs.day::date, r.start_date
+  ),
+  days AS (
+    SELECT l.employee_id, l.log_date AS day FROM logged l
+    UNION
+    SELECT a.employee_id, a.attendance_date FROM attended a
+    UNION
+    SELECT lv.employee_id, lv.leave_date FROM leave_days lv
+  )
+  SELECT
+    d.employee_id,
+    d.day,
+    COALESCE(a.minutes, 0),
+    COALESCE(l.minutes, 0),
+    a.status,
+    lv.leave_type,
+    CASE
+      WHEN lv.leave_type IS NOT NULL AND COALESCE(l.minutes, 0) > 0 THEN 'leave'
+      WHEN lv.leave_type IS NOT NULL OR COALESCE(a.still_open, false) THEN NULL
+      WHEN COALESCE(l.minutes, 0) > COALESCE(a.minutes, 0) + 30 THEN 'over'
+      WHEN COALESCE(a.minutes, 0) > 0 AND COALESCE(l.minutes, 0) < a.minutes * 0.75 THEN 'under'
+    END
+  FROM days d
+  LEFT JOIN logged l ON l.employee_id = d.employee_id AND l.log_date = d.day
+  LEFT JOIN attended a ON a.employee_id = d.employee_id AND a.attendance_date = d.day
+  LEFT JOIN leave_days lv ON lv.employee_id = d.employee_id AND lv.leave_date = d.day
+  ORDER BY d.employee_id, d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.work_log_reconciliation(DATE, DATE, UUID) TO authenticated;
@@ -0,0 +1,122 @@
+-- Projects and clients for work-log tasks
+-- Admins keep a catalogue of projects (code, client, billable flag, optional budget
+-- and active dates). Tasks can be booked to a project that is open on the task's
+-- date; archived projects stay on past tasks. Budget burn-down is reported per week
+-- across the whole organization.
+
+CREATE TABLE public.hr_projects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (btrim(code) <> ''),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  client TEXT, -- NULL for internal projects
+  is_billable BOOLEAN NOT NULL DEFAULT false,
+  budget_hours NUMERIC(8,1) CHECK (budget_hours IS NULL OR budget_hours > 0),
+  start_date DATE, -- NULL: open from the start
+  end_date DATE, -- NULL: open-ended
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (org_id, code),
+  CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date)
+);
+
+ALTER TABLE public.hr_projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their organization's projects"
+ON public.hr_projects
+FOR SELECT
+USING (org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id()));
+
+CREATE POLICY "Admins can manage projects"
+ON public.hr_projects
+FOR ALL
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+)
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+ALTER TABLE public.hr_work_log_tasks
+  ADD COLUMN project_id UUID REFERENCES public.hr_projects(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_work_log_tasks_project_date
+  ON public.hr_work_log_tasks(project_id, log_date)
+  WHERE project_id IS NOT NULL;
+
+-- A task's project must belong to the employee's org and be open on the task's
+-- date. Only newly chosen projects need to be active, so archiving a project
+-- doesn't lock edits to tasks already booked to it.
+CREATE OR REPLACE FUNCTION public.validate_work_log_task_project()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_project hr_projects%ROWTYPE;
+BEGIN
+  IF NEW.project_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.* INTO v_project
+  FROM hr_projects p
+  JOIN hr_employees e ON e.org_id = p.org_id
+  WHERE p.id = NEW.project_id AND e.id = NEW.employee_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF NOT v_project.is_active
+    AND (TG_OP = 'INSERT' OR NEW.project_id IS DISTINCT FROM OLD.project_id)
+  THEN
+    RAISE EXCEPTION 'Project % is archived. Please choose another.', v_project.code;
+  END IF;
+
+  IF (v_project.start_date IS NOT NULL AND NEW.log_date < v_project.start_date)
+    OR (v_project.end_date IS NOT NULL AND NEW.log_date > v_project.end_date)
+  THEN
+    RAISE EXCEPTION 'Project % is not open on %', v_project.code, to_char(NEW.log_date, 'FMDD Mon YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.validate_work_log_task_project() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER validate_work_log_task_project_trigger
+BEFORE INSERT OR UPDATE OF project_id, log_date ON public.hr_work_log_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_work_log_task_project();
+
+-- Minutes logged against a project per week (Monday), across everyone in the
+-- organization, for budget burn-down. Totals only, so any member of the project's
+-- organization may read them.
+CREATE OR REPLACE FUNCTION public.project_burn_down(p_project_id UUID)
+RETURNS TABLE (
+  week_start DATE,
+  logged_minutes INTEGER
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM hr_projects p
+    WHERE p.id = p_project_id
+      AND p.org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc('week', t.log_date)::date,
+    sum(t.duration_minutes)::integer
+  FROM hr_work_log_tasks t
+  WHERE t.project_id = p_project_id
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.project_burn_down(UUID) TO authenticated;
@@ -0,0 +1,195 @@
+-- Work-log task categories
+-- Each organization defines its own categories. Tasks and category mixes store the
+-- category's value, which is fixed when the category is created, so renaming or
+-- recolouring a category keeps existing tasks mapped to it. A category limited to a
+-- department can only be chosen by that department's employees.
+
+CREATE TABLE public.hr_task_categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  value TEXT NOT NULL CHECK (btrim(value) <> ''), -- Stored on tasks; never changes
+  label TEXT NOT NULL CHECK (btrim(label) <> ''),
+  icon TEXT NOT NULL DEFAULT 'Target', -- Icon name from the app's category icon set
+  color TEXT NOT NULL DEFAULT 'gray', -- Colour name from the app's category palette
+  department TEXT, -- NULL = every department
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (org_id, value)
+);
+
+ALTER TABLE public.hr_task_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their organization's task categories"
+ON public.hr_task_categories
+FOR SELECT
+USING (org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id()));
+
+CREATE POLICY "Admins can manage task categories"
+ON public.hr_task_categories
+FOR ALL
+USING (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+)
+WITH CHECK (
+  user_role() = 'Admin'
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+);
+
+CREATE OR REPLACE FUNCTION public.prevent_task_category_value_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.value IS DISTINCT FROM OLD.value THEN
+    RAISE EXCEPTION 'A category''s value can''t be changed once created. Rename its label instead.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.prevent_task_category_value_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER prevent_task_category_value_change_trigger
+BEFORE UPDATE OF value ON public.hr_task_categories
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_task_category_value_change();
+
+-- The categories every organization started with, which existing tasks use
+CREATE OR REPLACE FUNCTION public.seed_task_categories(p_org_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO hr_task_categories (org_id, value, label, icon, color, sort_order)
+  SELECT p_org_id, c.value, c.value, c.icon, c.color, c.sort_order
+  FROM (VALUES
+    ('Meeting', 'Calendar', 'blue', 1),
+    ('Development', 'Code', 'emerald', 2),
+    ('Support', 'Bug', 'red', 3),
+    ('Learning', 'BookOpen', 'purple', 4),
+    ('Documentation', 'FileText', 'amber', 5),
+    ('Design', 'Palette', 'pink', 6),
+    ('Review', 'Search', 'cyan', 7),
+    ('Planning', 'BarChart3', 'indigo', 8),
+    ('Admin', 'Mail', 'slate', 9),
+    ('Other', 'Target', 'gray', 10)
+  ) AS c(value, icon, color, sort_order)
+  ON CONFLICT (org_id, value) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.seed_task_categories(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT public.seed_task_categories(o.id) FROM organizations o;
+
+CREATE OR REPLACE FUNCTION public.seed_org_task_categories()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_task_categories(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.seed_org_task_categories() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER seed_org_task_categories_trigger
+AFTER INSERT ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.seed_org_task_categories();
+
+-- Tasks now take any of their organization's categories
+ALTER TABLE public.hr_work_log_tasks DROP CONSTRAINT IF EXISTS hr_work_log_tasks_category_check;
+
+CREATE INDEX idx_work_log_tasks_category ON public.hr_work_log_tasks(category);
+
+-- Archived and department-limited categories stay on tasks already using them but
+-- can't be newly chosen
+CREATE OR REPLACE FUNCTION public.validate_work_log_task_category()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_category hr_task_categories%ROWTYPE;
+  v_department TEXT;
+BEGIN
+  SELECT c.* INTO v_category
+  FROM hr_task_categories c
+  JOIN hr_employees e ON e.org_id = c.org_id
+  WHERE c.value = NEW.category AND e.id = NEW.employee_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown task category %', NEW.category;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.category IS NOT DISTINCT FROM OLD.category THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT v_category.is_active THEN
+    RAISE EXCEPTION 'Category % is archived. Please choose another.', v_category.label;
+  END IF;
+
+  IF v_category.department IS NOT NULL THEN
+    SELECT department INTO v_department FROM hr_employee_details WHERE employee_id = NEW.employee_id;
+
+    IF v_department IS DISTINCT FROM v_category.department THEN
+      RAISE EXCEPTION 'Category % is only available to the % department', v_category.label, v_category.department;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.validate_work_log_task_category() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER validate_work_log_task_category_trigger
+BEFORE INSERT OR UPDATE OF category ON public.hr_work_log_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_work_log_task_category();
+
+-- Category mixes: the CHECK keeps to the shape of the mix (non-negative percents
+-- totalling 100); a trigger checks the keys against the organization's categories
+CREATE OR REPLACE FUNCTION public.is_valid_category_mix(p_mix JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(p_mix) = 'object'
+    AND (
+      p_mix = '{}'::jsonb
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM jsonb_each(p_mix) e
+          WHERE jsonb_typeof(e.value) <> 'number'
+            OR (e.value)::numeric < 0
+        )
+        AND (SELECT sum((e.value)::numeric) FROM jsonb_each(p_mix) e) = 100
+      )
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_work_expectation_categories()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_unknown TEXT;
+BEGIN
+  SELECT m.key INTO v_unknown
+  FROM jsonb_each(NEW.category_mix) m
+  WHERE NOT EXISTS (
+    SELECT 1 FROM hr_task_categories c
+    WHERE c.org_id = NEW.org_id AND c.value = m.key
+  )
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown task category % in category mix', v_unknown;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.validate_work_expectation_categories() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER validate_work_expectation_categories_trigger
+BEFORE INSERT OR UPDATE OF category_mix ON public.hr_work_expectations
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_work_expectation_categories();
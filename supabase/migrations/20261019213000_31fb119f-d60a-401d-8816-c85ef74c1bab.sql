@@ -0,0 +1,300 @@
+-- Delegations stay within the delegator's organization and can't go to one of their
+-- own reports, who would then approve their own requests
+DROP POLICY "Managers can delegate their approvals" ON public.hr_approval_delegations;
+
+CREATE POLICY "Managers can delegate their approvals"
+ON public.hr_approval_delegations
+FOR INSERT
+WITH CHECK (
+  delegator_id = user_employee_id()
+  AND user_role() IN ('Manager', 'Admin')
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+  AND EXISTS (
+    SELECT 1 FROM hr_employees d
+    WHERE d.id = delegate_id
+      AND d.org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+      AND d.manager_id IS DISTINCT FROM user_employee_id()
+  )
+);
+
+DROP POLICY "Managers can revoke their delegations" ON public.hr_approval_delegations;
+
+CREATE POLICY "Managers can revoke their delegations"
+ON public.hr_approval_delegations
+FOR UPDATE
+USING (delegator_id = user_employee_id())
+WITH CHECK (
+  delegator_id = user_employee_id()
+  AND org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+  AND EXISTS (
+    SELECT 1 FROM hr_employees d
+    WHERE d.id = delegate_id
+      AND d.org_id = (SELECT org_id FROM hr_employees WHERE id = user_employee_id())
+      AND d.manager_id IS DISTINCT FROM user_employee_id()
+  )
+);
+
+-- Employees can't decide their own leave, even as an approver's delegate or an admin;
+-- the only exception is approval on submission when the org policy waives approval
+CREATE OR REPLACE FUNCTION public.process_leave_request(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_caller_role TEXT := user_role();
+  v_caller_name TEXT;
+  v_request hr_leave_requests%ROWTYPE;
+  v_employee hr_employees%ROWTYPE;
+  v_entitlement hr_leave_entitlements%ROWTYPE;
+  v_step hr_leave_approval_steps%ROWTYPE;
+  v_next_step hr_leave_approval_steps%ROWTYPE;
+  v_has_step BOOLEAN;
+  v_days NUMERIC;
+  v_year INTEGER;
+  v_remaining NUMERIC;
+  v_require_approval BOOLEAN;
+  v_day RECORD;
+BEGIN
+  IF p_decision NOT IN ('Approved', 'Rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO v_request FROM hr_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Leave request has already been %', lower(v_request.status);
+  END IF;
+
+  SELECT * INTO v_employee FROM hr_employees WHERE id = v_request.employee_id;
+  SELECT full_name INTO v_caller_name FROM hr_employees WHERE id = v_caller_id;
+  v_require_approval := COALESCE((public.org_leave_policy(v_employee.org_id)->>'requireApproval')::boolean, true);
+
+  SELECT * INTO v_step
+  FROM hr_leave_approval_steps
+  WHERE request_id = p_request_id AND status = 'Pending'
+  ORDER BY step_order
+  LIMIT 1
+  FOR UPDATE;
+  v_has_step := FOUND;
+
+  IF v_request.employee_id = v_caller_id
+    AND (v_has_step OR p_decision <> 'Approved' OR v_require_approval)
+  THEN
+    RAISE EXCEPTION 'You cannot approve your own leave request';
+  END IF;
+
+  IF v_has_step THEN
+    -- The step's approver (or their active delegate) acts; admins may act on any step
+    IF NOT (
+      (v_step.approver_id IS NOT NULL AND v_step.approver_id = v_caller_id)
+      OR v_step.approver_id IN (SELECT public.active_delegator_ids(v_caller_id))
+      OR v_caller_role = 'Admin'
+    ) THEN
+      RAISE EXCEPTION 'This leave request is awaiting % approval', lower(v_step.approver_role);
+    END IF;
+  ELSIF NOT (
+    -- Requests without a chain: manager (or delegate) or admin, or self-approval when the policy waives it
+    v_employee.manager_id = v_caller_id
+    OR v_employee.manager_id IN (SELECT public.active_delegator_ids(v_caller_id))
+    OR v_caller_role = 'Admin'
+    OR (p_decision = 'Approved' AND v_request.employee_id = v_caller_id AND NOT v_require_approval)
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to act on this leave request';
+  END IF;
+
+  IF p_decision = 'Rejected' THEN
+    IF v_has_step THEN
+      UPDATE hr_leave_approval_steps
+      SET status = 'Rejected', acted_by = v_caller_id, acted_at = now(), comments = p_rejection_reason
+      WHERE id = v_step.id;
+
+      UPDATE hr_leave_approval_steps
+      SET status = 'Skipped'
+      WHERE request_id = p_request_id AND status = 'Waiting';
+    END IF;
+
+    UPDATE hr_leave_requests
+    SET status = 'Rejected',
+        rejection_reason = p_rejection_reason,
+        approved_by = v_caller_id,
+        approved_at = now(),
+        updated_at = now()
+    WHERE id = p_request_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_rejected',
+      'Leave Rejected',
+      format('Your %s leave from %s to %s has been rejected%s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        CASE WHEN p_rejection_reason IS NOT NULL AND p_rejection_reason <> '' THEN ': ' || p_rejection_reason ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object(
+      'request_id', p_request_id,
+      'status', 'Rejected',
+      'total_days', v_request.total_days
+    );
+  END IF;
+
+  -- Recomputed at each step so holidays added after submission are not charged
+  SELECT COALESCE(sum(ld.fraction), 0) INTO v_days
+  FROM public.leave_request_days(p_request_id) ld;
+  IF v_days <= 0 THEN
+    RAISE EXCEPTION 'Leave duration must be greater than zero';
+  END IF;
+
+  v_year := EXTRACT(YEAR FROM v_request.start_date)::integer;
+
+  SELECT * INTO v_entitlement
+  FROM hr_leave_entitlements
+  WHERE employee_id = v_request.employee_id
+    AND leave_type = v_request.leave_type
+    AND year = v_year
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- No balance for the year yet: grant the annual quota (EL under monthly accrual starts empty)
+    IF NOT (v_request.leave_type = 'Earned Leave'
+      AND COALESCE(public.org_leave_policy(v_employee.org_id)->>'earnedLeaveAccrual', 'monthly') = 'monthly')
+      AND public.org_leave_quota(v_employee.org_id, v_request.leave_type) > 0
+    THEN
+      PERFORM public.post_leave_ledger_entry(
+        v_request.employee_id, v_request.leave_type, v_year, 'credit',
+        public.org_leave_quota(v_employee.org_id, v_request.leave_type),
+        format('Annual quota for %s', v_year), 'annual_grant', NULL
+      );
+    ELSE
+      PERFORM public.recompute_leave_entitlement(v_request.employee_id, v_request.leave_type, v_year);
+    END IF;
+
+    SELECT * INTO v_entitlement
+    FROM hr_leave_entitlements
+    WHERE employee_id = v_request.employee_id
+      AND leave_type = v_request.leave_type
+      AND year = v_year
+    FOR UPDATE;
+  END IF;
+
+  v_remaining := v_entitlement.total_leaves - v_entitlement.used_leaves;
+  IF v_days > v_remaining THEN
+    RAISE EXCEPTION 'Insufficient % balance: % days requested, % remaining',
+      v_request.leave_type, v_days, v_remaining;
+  END IF;
+
+  IF v_has_step THEN
+    UPDATE hr_leave_approval_steps
+    SET status = 'Approved', acted_by = v_caller_id, acted_at = now()
+    WHERE id = v_step.id;
+
+    SELECT * INTO v_next_step
+    FROM hr_leave_approval_steps
+    WHERE request_id = p_request_id AND status = 'Waiting'
+    ORDER BY step_order
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE hr_leave_approval_steps SET status = 'Pending' WHERE id = v_next_step.id;
+      UPDATE hr_leave_requests SET total_days = v_days, updated_at = now() WHERE id = p_request_id;
+
+      PERFORM public.notify_leave_step_approvers(v_next_step.id);
+
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        v_request.employee_id,
+        'leave_step_approved',
+        'Leave Approval Progress',
+        format('Your %s leave from %s to %s was approved by %s and is now awaiting %s approval',
+          v_request.leave_type,
+          to_char(v_request.start_date, 'Mon FMDD'),
+          to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+          v_caller_name,
+          v_next_step.approver_role),
+        '/app/leaves'
+      );
+
+      RETURN jsonb_build_object(
+        'request_id', p_request_id,
+        'status', 'Pending',
+        'total_days', v_days,
+        'next_approver_role', v_next_step.approver_role,
+        'remaining_leaves', v_remaining
+      );
+    END IF;
+  END IF;
+
+  v_remaining := v_remaining - v_days;
+
+  PERFORM public.post_leave_ledger_entry(
+    v_request.employee_id, v_request.leave_type, v_year, 'debit', v_days,
+    format('%s from %s to %s', v_request.leave_type, v_request.start_date, v_request.end_date),
+    'leave_request', p_request_id
+  );
+
+  -- Also keep hr_employees.leave_balance in step for system-wide visibility
+  UPDATE hr_employees
+  SET leave_balance = GREATEST(COALESCE(leave_balance, 0) - v_days, 0),
+      updated_at = now()
+  WHERE id = v_request.employee_id;
+
+  UPDATE hr_leave_requests
+  SET status = 'Approved',
+      total_days = v_days,
+      approved_by = v_caller_id,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  -- Mark leave days as "On Leave" in attendance
+  FOR v_day IN SELECT * FROM public.leave_request_days(p_request_id)
+  LOOP
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, status, notes)
+    SELECT
+      v_request.employee_id,
+      v_day.leave_date,
+      now(),
+      'On Leave',
+      v_request.leave_type || CASE WHEN v_day.fraction < 1 THEN ' (Half Day)' ELSE '' END || ' - Approved'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM hr_attendance
+      WHERE employee_id = v_request.employee_id
+        AND attendance_date = v_day.leave_date
+        AND status = 'On Leave'
+    );
+  END LOOP;
+
+  IF v_caller_id <> v_request.employee_id THEN
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_approved',
+      'Leave Approved',
+      format('Your %s leave from %s to %s has been approved by %s',
+        v_request.leave_type,
+        to_char(v_request.start_date, 'Mon FMDD'),
+        to_char(v_request.end_date, 'Mon FMDD, YYYY'),
+        v_caller_name),
+      '/app/leaves'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'status', 'Approved',
+    'total_days', v_days,
+    'leave_type', v_request.leave_type,
+    'year', v_year,
+    'remaining_leaves', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
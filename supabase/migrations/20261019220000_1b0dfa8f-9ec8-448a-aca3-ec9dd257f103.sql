@@ -0,0 +1,3 @@
+-- Audit entries are written only by triggers and RPCs. Called directly, log_audit_event()
+-- would let any employee add entries of their choosing to the audit trail.
+REVOKE EXECUTE ON FUNCTION public.log_audit_event(TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
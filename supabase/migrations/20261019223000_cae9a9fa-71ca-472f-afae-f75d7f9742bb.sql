@@ -0,0 +1,63 @@
+-- Opening leave balances for new hires are credited through
+-- grant_opening_leave_balances(), which takes the days from the org's quotas and
+-- records the admin as the actor. Admins no longer insert ledger rows directly.
+DROP POLICY "Admins can add leave ledger entries" ON public.hr_leave_ledger;
+
+-- Credit the year's annual quota for each given leave type (Admin only). Earned
+-- Leave under monthly accrual starts empty and is credited by the accrual job.
+-- Types already granted for the year are skipped, so the call is safe to repeat.
+CREATE OR REPLACE FUNCTION public.grant_opening_leave_balances(
+  p_employee_id UUID,
+  p_leave_types TEXT[],
+  p_year INTEGER DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_year INTEGER := COALESCE(p_year, EXTRACT(YEAR FROM CURRENT_DATE)::integer);
+  v_employee RECORD;
+  v_leave_type TEXT;
+  v_quota NUMERIC;
+  v_count INTEGER := 0;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only admins can grant opening leave balances';
+  END IF;
+
+  SELECT id, org_id INTO v_employee
+  FROM hr_employees
+  WHERE id = p_employee_id
+    AND org_id = (SELECT org_id FROM hr_employees WHERE id = v_caller_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  FOREACH v_leave_type IN ARRAY COALESCE(p_leave_types, '{}')
+  LOOP
+    CONTINUE WHEN v_leave_type = 'Earned Leave'
+      AND COALESCE(public.org_leave_policy(v_employee.org_id)->>'earnedLeaveAccrual', 'monthly') = 'monthly';
+
+    v_quota := public.org_leave_quota(v_employee.org_id, v_leave_type);
+    CONTINUE WHEN v_quota <= 0;
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM hr_leave_ledger
+      WHERE employee_id = p_employee_id
+        AND leave_type = v_leave_type
+        AND year = v_year
+        AND reference_type = 'annual_grant'
+    );
+
+    PERFORM public.post_leave_ledger_entry(
+      p_employee_id, v_leave_type, v_year, 'credit', v_quota,
+      format('Annual quota for %s', v_year), 'annual_grant', NULL
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.grant_opening_leave_balances(UUID, TEXT[], INTEGER) TO authenticated;
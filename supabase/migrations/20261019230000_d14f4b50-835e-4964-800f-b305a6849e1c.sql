@@ -0,0 +1,180 @@
+-- Leave encashment payouts stay out of salary figures
+-- Payouts were added to gross_salary and net_salary, and the daily rate is taken from
+-- the latest gross salary, so every encashment raised the rate of the next one. The
+-- payout now lives only in hr_salary_line_items, on top of the salary record, so the
+-- rate is worked out from base pay again. Payouts are no longer attached to salary
+-- records back-dated to before the approval.
+
+-- Take earlier payouts back out of the records they were added to
+UPDATE public.hr_salary_history sh
+SET gross_salary = sh.gross_salary - li.total,
+    net_salary = sh.net_salary - li.total
+FROM (
+  SELECT salary_history_id, SUM(amount) AS total
+  FROM public.hr_salary_line_items
+  WHERE item_type = 'leave_encashment'
+  GROUP BY salary_history_id
+) li
+WHERE sh.id = li.salary_history_id;
+
+-- Approval re-checks that the days are still above the carry-forward cap: leave taken
+-- since the request was made can bring the balance back under it
+CREATE OR REPLACE FUNCTION public.process_leave_encashment(
+  p_encashment_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_caller_id UUID := user_employee_id();
+  v_request RECORD;
+  v_remaining NUMERIC;
+  v_limit NUMERIC;
+  v_rate NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  IF user_role() <> 'Admin' THEN
+    RAISE EXCEPTION 'Only HR can process leave encashments';
+  END IF;
+
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid action: %', p_action;
+  END IF;
+
+  SELECT le.* INTO v_request
+  FROM hr_leave_encashments le
+  WHERE le.id = p_encashment_id
+    AND le.org_id = (SELECT org_id FROM hr_employees WHERE id = v_caller_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Encashment request not found';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Encashment request has already been %', lower(v_request.status);
+  END IF;
+
+  IF p_action = 'reject' THEN
+    UPDATE hr_leave_encashments
+    SET status = 'Rejected',
+        reviewed_by = v_caller_id,
+        reviewed_at = now(),
+        review_comments = p_comments,
+        updated_at = now()
+    WHERE id = p_encashment_id;
+
+    INSERT INTO hr_notifications (employee_id, type, title, message, link)
+    VALUES (
+      v_request.employee_id,
+      'leave_encashment_rejected',
+      'Leave Encashment Rejected',
+      format('Your request to encash %s day(s) of Earned Leave was rejected%s',
+        v_request.days,
+        CASE WHEN p_comments IS NOT NULL AND p_comments <> '' THEN ': ' || p_comments ELSE '' END),
+      '/app/leaves'
+    );
+
+    RETURN jsonb_build_object('status', 'Rejected');
+  END IF;
+
+  SELECT COALESCE(remaining_leaves, 0) INTO v_remaining
+  FROM hr_leave_entitlements
+  WHERE employee_id = v_request.employee_id AND leave_type = v_request.leave_type AND year = v_request.year;
+
+  IF COALESCE(v_remaining, 0) < v_request.days THEN
+    RAISE EXCEPTION 'Only % day(s) of % remain', COALESCE(v_remaining, 0), v_request.leave_type;
+  END IF;
+
+  v_limit := COALESCE((public.org_leave_policy(v_request.org_id)->>'earnedLeaveCarryForwardLimit')::numeric, 30);
+  IF v_request.days > COALESCE(v_remaining, 0) - v_limit THEN
+    RAISE EXCEPTION 'Only % day(s) of % are above the carry-forward cap of % and can be encashed',
+      GREATEST(COALESCE(v_remaining, 0) - v_limit, 0), v_request.leave_type, v_limit;
+  END IF;
+
+  v_rate := public.leave_encashment_daily_rate(v_request.employee_id);
+  IF v_rate IS NULL OR v_rate <= 0 THEN
+    RAISE EXCEPTION 'No daily rate available: add a salary record or set a fixed encashment rate';
+  END IF;
+
+  v_amount := ROUND(v_rate * v_request.days, 2);
+
+  UPDATE hr_leave_encashments
+  SET status = 'Approved',
+      daily_rate = v_rate,
+      amount = v_amount,
+      reviewed_by = v_caller_id,
+      reviewed_at = now(),
+      review_comments = p_comments,
+      updated_at = now()
+  WHERE id = p_encashment_id;
+
+  PERFORM public.post_leave_ledger_entry(
+    v_request.employee_id, v_request.leave_type, v_request.year, 'debit', v_request.days,
+    format('Encashed %s day(s)', v_request.days), 'encashment', p_encashment_id
+  );
+
+  INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_request.org_id,
+    v_caller_id,
+    'leave_encashment_approved',
+    'leave_encashment',
+    p_encashment_id,
+    jsonb_build_object(
+      'employee_id', v_request.employee_id,
+      'days', v_request.days,
+      'daily_rate', v_rate,
+      'amount', v_amount
+    )
+  );
+
+  INSERT INTO hr_notifications (employee_id, type, title, message, link)
+  VALUES (
+    v_request.employee_id,
+    'leave_encashment_approved',
+    'Leave Encashment Approved',
+    format('Your request to encash %s day(s) of Earned Leave was approved for %s. It will be paid with your next salary.',
+      v_request.days, v_amount),
+    '/app/salary'
+  );
+
+  RETURN jsonb_build_object('status', 'Approved', 'daily_rate', v_rate, 'amount', v_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approved encashments are paid as line items with the next salary record for a month
+-- on or after the approval
+CREATE OR REPLACE FUNCTION public.attach_leave_encashments_to_salary()
+RETURNS TRIGGER AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT id, days, daily_rate, amount
+    FROM hr_leave_encashments
+    WHERE employee_id = NEW.employee_id
+      AND status = 'Approved'
+      AND salary_history_id IS NULL
+      AND make_date(NEW.year, NEW.month, 1) >= date_trunc('month', reviewed_at)::date
+    ORDER BY reviewed_at
+    FOR UPDATE
+  LOOP
+    INSERT INTO hr_salary_line_items (salary_history_id, employee_id, item_type, description, amount, reference_id)
+    VALUES (
+      NEW.id,
+      NEW.employee_id,
+      'leave_encashment',
+      format('Leave encashment: %s day(s) x %s', r.days, r.daily_rate),
+      r.amount,
+      r.id
+    );
+
+    UPDATE hr_leave_encashments
+    SET status = 'Paid', salary_history_id = NEW.id, updated_at = now()
+    WHERE id = r.id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
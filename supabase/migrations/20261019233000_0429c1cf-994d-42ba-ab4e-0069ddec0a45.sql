@@ -0,0 +1,113 @@
+-- The punch location check runs on every attendance write again. Skipping it for rows
+-- with auto_closed set let employees bypass it by setting that column themselves; the
+-- end-of-day job is recognised by having no signed-in user instead.
+DROP TRIGGER check_punch_location_trigger ON public.hr_attendance;
+CREATE TRIGGER check_punch_location_trigger
+BEFORE INSERT OR UPDATE ON public.hr_attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.check_punch_location();
+
+CREATE OR REPLACE FUNCTION public.check_punch_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_punch TEXT;
+  v_ip INET;
+  v_lat NUMERIC;
+  v_lng NUMERIC;
+  v_org_id UUID;
+  v_location TEXT;
+  v_employment_type TEXT;
+  v_has_sites BOOLEAN;
+  v_within BOOLEAN;
+  v_mode TEXT;
+BEGIN
+  IF COALESCE(NEW.is_consolidated, false) THEN
+    SELECT COALESCE(array_agg(DISTINCT f), '{}') INTO NEW.location_flags
+    FROM hr_attendance a, unnest(a.location_flags) f
+    WHERE a.employee_id = NEW.employee_id
+      AND a.attendance_date = NEW.attendance_date
+      AND NOT COALESCE(a.is_consolidated, false);
+    RETURN NEW;
+  END IF;
+
+  -- The end-of-day job's punch-outs are not the employee's
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Absent days have no punch-in, so a punch-in can also fill in an existing row
+  IF (TG_OP = 'INSERT' AND NEW.punch_in_time IS NOT NULL)
+    OR (TG_OP = 'UPDATE' AND OLD.punch_in_time IS NULL AND NEW.punch_in_time IS NOT NULL)
+  THEN
+    v_punch := 'punch_in';
+  ELSIF TG_OP = 'UPDATE' AND OLD.punch_out_time IS NULL AND NEW.punch_out_time IS NOT NULL THEN
+    v_punch := 'punch_out';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- HR corrections and regularizations are not punches
+  IF NEW.employee_id IS DISTINCT FROM user_employee_id() THEN
+    RETURN NEW;
+  END IF;
+
+  v_ip := public.request_ip();
+  IF v_punch = 'punch_in' THEN
+    NEW.punch_in_ip := host(v_ip);
+    v_lat := NEW.punch_in_latitude;
+    v_lng := NEW.punch_in_longitude;
+  ELSE
+    NEW.punch_out_ip := host(v_ip);
+    v_lat := NEW.punch_out_latitude;
+    v_lng := NEW.punch_out_longitude;
+  END IF;
+
+  IF public.is_wfh_day(NEW.employee_id, NEW.attendance_date) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT e.org_id, d.location, d.employment_type
+  INTO v_org_id, v_location, v_employment_type
+  FROM hr_employees e
+  LEFT JOIN hr_employee_details d ON d.employee_id = e.id
+  WHERE e.id = NEW.employee_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM hr_office_locations
+    WHERE org_id = v_org_id AND lower(trim(location)) = lower(trim(v_location))
+  ) INTO v_has_sites;
+
+  IF NOT v_has_sites THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM hr_office_locations o
+    WHERE o.org_id = v_org_id
+      AND lower(trim(o.location)) = lower(trim(v_location))
+      AND (
+        (o.latitude IS NOT NULL AND v_lat IS NOT NULL AND v_lng IS NOT NULL
+          AND public.distance_meters(o.latitude, o.longitude, v_lat, v_lng) <= o.radius_meters)
+        OR public.ip_in_ranges(v_ip, o.allowed_ip_ranges)
+      )
+  ) INTO v_within;
+
+  IF v_within THEN
+    RETURN NEW;
+  END IF;
+
+  v_mode := COALESCE(
+    public.org_attendance_policy(v_org_id)->'punchEnforcement'->>COALESCE(v_employment_type, 'Full-time'),
+    'flag'
+  );
+
+  IF v_mode = 'block' THEN
+    RAISE EXCEPTION 'Punch % blocked: you are not at an approved % office location or network',
+      CASE WHEN v_punch = 'punch_in' THEN 'in' ELSE 'out' END, v_location;
+  ELSIF v_mode = 'flag' THEN
+    NEW.location_flags := array_append(array_remove(NEW.location_flags, v_punch || '_outside'), v_punch || '_outside');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
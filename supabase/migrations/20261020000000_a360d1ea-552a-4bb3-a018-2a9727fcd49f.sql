@@ -0,0 +1,71 @@
+-- Overriding a day that already has a consolidated row credits the shift's hours too,
+-- as overriding a day with no record does, so a day corrected to Present is not left
+-- with the hours of the absence. The audit entry records the hours before and after.
+CREATE OR REPLACE FUNCTION public.override_attendance_day(
+  p_employee_id UUID,
+  p_date DATE,
+  p_status TEXT,
+  p_notes TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_existing RECORD;
+  v_found BOOLEAN;
+  v_id UUID;
+  v_hours NUMERIC;
+BEGIN
+  SELECT id, status, total_hours, notes
+  INTO v_existing
+  FROM hr_attendance
+  WHERE employee_id = p_employee_id AND attendance_date = p_date AND is_consolidated
+  FOR UPDATE;
+  v_found := FOUND;
+
+  SELECT CASE p_status
+           WHEN 'Present' THEN s.full_day_hours
+           WHEN 'Work From Home' THEN s.full_day_hours
+           WHEN 'Half Day' THEN s.half_day_hours
+           ELSE 0
+         END
+  INTO v_hours
+  FROM public.employee_shift_on(p_employee_id, p_date) s;
+
+  IF v_found THEN
+    -- Hours already worked that day are kept when they exceed the credit
+    v_hours := GREATEST(COALESCE(v_existing.total_hours, 0), COALESCE(v_hours, 0));
+
+    UPDATE hr_attendance
+    SET status = p_status, total_hours = ROUND(v_hours, 2), notes = p_notes, updated_at = now()
+    WHERE id = v_existing.id;
+    v_id := v_existing.id;
+  ELSE
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+    VALUES (p_employee_id, p_date, NULL, ROUND(COALESCE(v_hours, 0), 2), p_status, true, p_notes)
+    RETURNING id INTO v_id;
+  END IF;
+
+  INSERT INTO hr_audit_log (org_id, actor_id, action, entity_type, entity_id, details)
+  SELECT
+    e.org_id,
+    user_employee_id(),
+    'attendance_overridden',
+    'attendance',
+    v_id,
+    jsonb_build_object(
+      'employee_id', p_employee_id,
+      'date', p_date,
+      'previous', CASE WHEN v_found THEN jsonb_build_object(
+        'status', v_existing.status,
+        'total_hours', v_existing.total_hours,
+        'notes', v_existing.notes
+      ) END,
+      'new_status', p_status,
+      'new_total_hours', ROUND(COALESCE(v_hours, 0), 2)
+    ) || COALESCE(p_details, '{}'::jsonb)
+  FROM hr_employees e
+  WHERE e.id = p_employee_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,34 @@
+-- A work-log week's submission and rework history is kept by the database alone.
+-- first_submitted_at took the client's submitted_at, and the trigger only ran on
+-- status changes, so either column could be rewritten from the client. The history
+-- now changes only on a status transition, and the first submission is stamped with
+-- the server time.
+CREATE OR REPLACE FUNCTION public.track_work_log_week_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.rework_count := 0;
+    NEW.first_submitted_at := CASE WHEN NEW.status = 'Submitted' THEN now() END;
+    RETURN NEW;
+  END IF;
+
+  NEW.first_submitted_at := OLD.first_submitted_at;
+  NEW.rework_count := OLD.rework_count;
+
+  IF NEW.status = 'Submitted' AND OLD.status IS DISTINCT FROM 'Submitted' AND OLD.first_submitted_at IS NULL THEN
+    NEW.first_submitted_at := now();
+  END IF;
+
+  IF NEW.status = 'Rework' AND OLD.status IS DISTINCT FROM 'Rework' THEN
+    NEW.rework_count := OLD.rework_count + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER track_work_log_week_status_trigger ON public.hr_work_log_weeks;
+CREATE TRIGGER track_work_log_week_status_trigger
+BEFORE INSERT OR UPDATE ON public.hr_work_log_weeks
+FOR EACH ROW
+EXECUTE FUNCTION public.track_work_log_week_status();
@@ -0,0 +1,124 @@
+-- Scheduled jobs treated any call without a signed-in user as the scheduler, so an
+-- anonymous API request could run them for every organization. Only calls with no
+-- request role or the service role count as the scheduler now.
+CREATE OR REPLACE FUNCTION public.is_scheduled_job()
+RETURNS BOOLEAN AS $$
+  SELECT auth.uid() IS NULL AND COALESCE(NULLIF(auth.role(), ''), 'service_role') = 'service_role';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.is_scheduled_job() FROM PUBLIC, anon, authenticated;
+
+-- Accrual also refuses an as-of date in the future
+CREATE OR REPLACE FUNCTION public.accrue_earned_leave(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_emp RECORD;
+  v_monthly NUMERIC;
+  v_year INTEGER := EXTRACT(YEAR FROM p_as_of)::integer;
+  v_year_start DATE := date_trunc('year', p_as_of)::date;
+  v_month DATE;
+  v_days_in_month INTEGER;
+  v_days NUMERIC;
+  v_prorated BOOLEAN;
+  v_accrual_id UUID;
+  v_upfront NUMERIC;
+  v_had_accruals BOOLEAN;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can run leave accrual';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  ELSIF NOT public.is_scheduled_job() THEN
+    RAISE EXCEPTION 'Only admins can run leave accrual';
+  END IF;
+
+  IF p_as_of > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Leave cannot be accrued for a future date';
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    CONTINUE WHEN COALESCE(public.org_leave_policy(v_org.id)->>'earnedLeaveAccrual', 'monthly') <> 'monthly';
+
+    v_monthly := public.org_leave_quota(v_org.id, 'Earned Leave') / 12;
+
+    FOR v_emp IN
+      SELECT id, joining_date
+      FROM hr_employees
+      WHERE org_id = v_org.id
+        AND status = 'Active'
+        AND (joining_date IS NULL OR joining_date <= p_as_of)
+    LOOP
+      SELECT EXISTS (
+        SELECT 1 FROM hr_leave_accruals
+        WHERE employee_id = v_emp.id AND leave_type = 'Earned Leave' AND year = v_year
+      ) INTO v_had_accruals;
+
+      FOR v_month IN
+        SELECT generate_series(
+          GREATEST(v_year_start, date_trunc('month', COALESCE(v_emp.joining_date, v_year_start))::date),
+          date_trunc('month', p_as_of)::date,
+          interval '1 month'
+        )::date
+      LOOP
+        v_days := v_monthly;
+        v_prorated := false;
+
+        IF v_emp.joining_date IS NOT NULL
+          AND date_trunc('month', v_emp.joining_date)::date = v_month
+          AND EXTRACT(DAY FROM v_emp.joining_date) > 1
+        THEN
+          v_days_in_month := EXTRACT(DAY FROM (v_month + interval '1 month - 1 day'))::integer;
+          v_days := ROUND(v_monthly * (v_days_in_month - EXTRACT(DAY FROM v_emp.joining_date) + 1) / v_days_in_month * 2) / 2;
+          v_prorated := true;
+        END IF;
+
+        CONTINUE WHEN v_days <= 0;
+
+        v_accrual_id := NULL;
+        INSERT INTO hr_leave_accruals (org_id, employee_id, leave_type, year, accrual_month, days, prorated)
+        VALUES (v_org.id, v_emp.id, 'Earned Leave', v_year, v_month, v_days, v_prorated)
+        ON CONFLICT (employee_id, leave_type, accrual_month) DO NOTHING
+        RETURNING id INTO v_accrual_id;
+
+        CONTINUE WHEN v_accrual_id IS NULL;
+
+        -- The first accrual of the year takes back an up-front grant made before switching to monthly
+        IF NOT v_had_accruals THEN
+          SELECT COALESCE(SUM(days), 0) INTO v_upfront
+          FROM hr_leave_ledger
+          WHERE employee_id = v_emp.id
+            AND leave_type = 'Earned Leave'
+            AND year = v_year
+            AND (reference_type IN ('annual_grant', 'migration') AND entry_type IN ('credit', 'adjustment'));
+
+          IF v_upfront <> 0 THEN
+            PERFORM public.post_leave_ledger_entry(
+              v_emp.id, 'Earned Leave', v_year, 'adjustment', -v_upfront,
+              'Up-front grant replaced by monthly accrual', 'accrual', NULL
+            );
+          END IF;
+          v_had_accruals := true;
+        END IF;
+
+        PERFORM public.post_leave_ledger_entry(
+          v_emp.id, 'Earned Leave', v_year, 'credit', v_days,
+          format('Monthly accrual for %s%s', to_char(v_month, 'FMMonth YYYY'), CASE WHEN v_prorated THEN ' (pro-rated)' ELSE '' END),
+          'accrual', v_accrual_id
+        );
+        v_count := v_count + 1;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.accrue_earned_leave(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accrue_earned_leave(DATE) TO authenticated;
@@ -0,0 +1,107 @@
+-- Comp-off expiry ran for every organization when called without a signed-in user
+-- and accepted future dates, which lapsed credits that were still valid. Only the
+-- scheduler runs it across organizations now, and never ahead of today.
+CREATE OR REPLACE FUNCTION public.expire_comp_off_credits(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_year INTEGER := EXTRACT(YEAR FROM p_as_of)::integer;
+  v_remaining NUMERIC;
+  v_later NUMERIC;
+  v_days NUMERIC;
+  v_count INTEGER := 0;
+  c RECORD;
+  r RECORD;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can expire comp-off credits';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  ELSIF NOT public.is_scheduled_job() THEN
+    RAISE EXCEPTION 'Only admins can expire comp-off credits';
+  END IF;
+
+  IF p_as_of > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Comp-off credits cannot be expired as of a future date';
+  END IF;
+
+  FOR c IN
+    SELECT *
+    FROM hr_comp_off_credits
+    WHERE status = 'Approved'
+      AND expires_on < p_as_of
+      AND (v_caller_org IS NULL OR org_id = v_caller_org)
+    ORDER BY employee_id, expires_on, work_date
+  LOOP
+    SELECT remaining_leaves INTO v_remaining
+    FROM hr_leave_entitlements
+    WHERE employee_id = c.employee_id AND leave_type = 'Comp Off' AND year = c.ledger_year;
+
+    SELECT COALESCE(SUM(days), 0) INTO v_later
+    FROM hr_comp_off_credits
+    WHERE employee_id = c.employee_id AND status = 'Approved' AND ledger_year = c.ledger_year AND id <> c.id;
+
+    v_days := GREATEST(LEAST(c.days, COALESCE(v_remaining, 0) - v_later), 0);
+
+    IF v_days > 0 THEN
+      PERFORM public.post_leave_ledger_entry(
+        c.employee_id, 'Comp Off', c.ledger_year, 'adjustment', -v_days,
+        format('Comp-off for %s expired', to_char(c.work_date, 'Mon FMDD, YYYY')),
+        'comp_off', c.id
+      );
+
+      INSERT INTO hr_notifications (employee_id, type, title, message, link)
+      VALUES (
+        c.employee_id,
+        'comp_off_expired',
+        'Comp-Off Expired',
+        format('%s unused day(s) of comp-off for working on %s expired', v_days, to_char(c.work_date, 'Mon FMDD, YYYY')),
+        '/app/leaves'
+      );
+    END IF;
+
+    UPDATE hr_comp_off_credits
+    SET status = 'Expired', expired_days = v_days, updated_at = now()
+    WHERE id = c.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Live credits follow the employee into the new year
+  FOR r IN
+    SELECT employee_id, ledger_year, SUM(days) AS live_days
+    FROM hr_comp_off_credits
+    WHERE status = 'Approved'
+      AND ledger_year < v_year
+      AND (v_caller_org IS NULL OR org_id = v_caller_org)
+    GROUP BY employee_id, ledger_year
+  LOOP
+    SELECT remaining_leaves INTO v_remaining
+    FROM hr_leave_entitlements
+    WHERE employee_id = r.employee_id AND leave_type = 'Comp Off' AND year = r.ledger_year;
+
+    v_days := LEAST(COALESCE(v_remaining, 0), r.live_days);
+
+    IF v_days > 0 THEN
+      PERFORM public.post_leave_ledger_entry(
+        r.employee_id, 'Comp Off', r.ledger_year, 'adjustment', -v_days,
+        format('Unused comp-off moved to %s', v_year), 'comp_off', NULL
+      );
+      PERFORM public.post_leave_ledger_entry(
+        r.employee_id, 'Comp Off', v_year, 'credit', v_days,
+        format('Unused comp-off from %s', r.ledger_year), 'comp_off', NULL
+      );
+    END IF;
+
+    UPDATE hr_comp_off_credits
+    SET ledger_year = v_year, updated_at = now()
+    WHERE employee_id = r.employee_id AND status = 'Approved' AND ledger_year = r.ledger_year;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_comp_off_credits(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.expire_comp_off_credits(DATE) TO authenticated;
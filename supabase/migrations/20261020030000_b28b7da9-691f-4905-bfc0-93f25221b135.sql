@@ -0,0 +1,113 @@
+-- Clients could skip the punch location check by writing a row as consolidated, or
+-- clear its result afterwards with an ordinary update. The day's summary row is now
+-- built on the server when a session is punched out, and writes made directly by
+-- the API roles cannot set the columns the server owns.
+
+-- Runs as the caller (not SECURITY DEFINER) so current_user tells client writes
+-- apart from the end-of-day job and SECURITY DEFINER functions. Its name sorts it
+-- before check_punch_location_trigger.
+CREATE OR REPLACE FUNCTION public.attendance_client_write_guard()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_consolidated := false;
+    NEW.location_flags := '{}';
+    NEW.punch_in_ip := NULL;
+    NEW.punch_out_ip := NULL;
+    NEW.auto_closed := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(OLD.is_consolidated, false) THEN
+    RAISE EXCEPTION 'The daily attendance summary is maintained by the system';
+  END IF;
+
+  NEW.is_consolidated := OLD.is_consolidated;
+  NEW.location_flags := OLD.location_flags;
+  NEW.punch_in_ip := OLD.punch_in_ip;
+  NEW.punch_out_ip := OLD.punch_out_ip;
+  NEW.auto_closed := OLD.auto_closed;
+
+  -- A recorded punch keeps its time and position
+  IF OLD.punch_in_time IS NOT NULL THEN
+    NEW.punch_in_time := OLD.punch_in_time;
+    NEW.punch_in_latitude := OLD.punch_in_latitude;
+    NEW.punch_in_longitude := OLD.punch_in_longitude;
+  END IF;
+  IF OLD.punch_out_time IS NOT NULL THEN
+    NEW.punch_out_time := OLD.punch_out_time;
+    NEW.punch_out_latitude := OLD.punch_out_latitude;
+    NEW.punch_out_longitude := OLD.punch_out_longitude;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.attendance_client_write_guard() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER attendance_client_write_guard_trigger
+BEFORE INSERT OR UPDATE ON public.hr_attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.attendance_client_write_guard();
+
+-- Rebuild the day's summary from its sessions whenever one is punched out. The
+-- status follows the shift hours the same way consolidate_attendance() does.
+CREATE OR REPLACE FUNCTION public.consolidate_attendance_session()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_shift RECORD;
+  v_first TIMESTAMP WITH TIME ZONE;
+  v_last TIMESTAMP WITH TIME ZONE;
+  v_hours NUMERIC;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_shift FROM public.employee_shift_on(NEW.employee_id, NEW.attendance_date);
+
+  SELECT MIN(punch_in_time), MAX(punch_out_time), COALESCE(SUM(total_hours), 0)
+  INTO v_first, v_last, v_hours
+  FROM hr_attendance
+  WHERE employee_id = NEW.employee_id
+    AND attendance_date = NEW.attendance_date
+    AND NOT COALESCE(is_consolidated, false);
+
+  v_status := CASE
+    WHEN public.is_wfh_day(NEW.employee_id, NEW.attendance_date) THEN 'Work From Home'
+    WHEN v_hours >= v_shift.full_day_hours THEN 'Present'
+    WHEN v_hours >= v_shift.half_day_hours THEN 'Half Day'
+    ELSE 'Absent'
+  END;
+
+  UPDATE hr_attendance
+  SET status = v_status
+  WHERE employee_id = NEW.employee_id
+    AND attendance_date = NEW.attendance_date
+    AND NOT COALESCE(is_consolidated, false);
+
+  UPDATE hr_attendance
+  SET punch_in_time = v_first,
+      punch_out_time = v_last,
+      total_hours = ROUND(v_hours, 2),
+      status = v_status
+  WHERE employee_id = NEW.employee_id AND attendance_date = NEW.attendance_date AND is_consolidated;
+
+  IF NOT FOUND THEN
+    INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, punch_out_time, total_hours, status, is_consolidated)
+    VALUES (NEW.employee_id, NEW.attendance_date, v_first, v_last, ROUND(v_hours, 2), v_status, true);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consolidate_attendance_session() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER consolidate_attendance_session_trigger
+AFTER UPDATE OF punch_out_time ON public.hr_attendance
+FOR EACH ROW
+WHEN (NOT COALESCE(NEW.is_consolidated, false) AND OLD.punch_out_time IS NULL AND NEW.punch_out_time IS NOT NULL)
+EXECUTE FUNCTION public.consolidate_attendance_session();
@@ -0,0 +1,200 @@
+-- Attendance consolidation ran for every organization when called without a signed-in
+-- user, and accepted today or a future date, marking employees absent before their
+-- day was over. Only the scheduler runs it across organizations now, and only for
+-- days that have ended in the organization's timezone.
+CREATE OR REPLACE FUNCTION public.consolidate_attendance(p_date DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_tz TEXT;
+  v_date DATE;
+  v_open_policy TEXT;
+  v_emp RECORD;
+  v_shift RECORD;
+  v_shift_end TIMESTAMP WITH TIME ZONE;
+  v_session RECORD;
+  v_closed TEXT;
+  v_first TIMESTAMP WITH TIME ZONE;
+  v_last TIMESTAMP WITH TIME ZONE;
+  v_hours NUMERIC;
+  v_status TEXT;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can run attendance consolidation';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  ELSIF NOT public.is_scheduled_job() THEN
+    RAISE EXCEPTION 'Only admins can run attendance consolidation';
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    v_tz := COALESCE(
+      (SELECT company_settings->>'timezone' FROM hr_org_settings WHERE org_id = v_org.id),
+      'Asia/Kolkata'
+    );
+    v_date := COALESCE(p_date, (now() AT TIME ZONE v_tz)::date - 1);
+    IF v_date >= (now() AT TIME ZONE v_tz)::date THEN
+      RAISE EXCEPTION 'Attendance can only be consolidated for days that have ended';
+    END IF;
+    v_open_policy := public.org_attendance_policy(v_org.id)->>'openSessionPolicy';
+
+    FOR v_emp IN
+      SELECT id
+      FROM hr_employees
+      WHERE org_id = v_org.id
+        AND status = 'Active'
+        AND (joining_date IS NULL OR joining_date <= v_date)
+    LOOP
+      SELECT * INTO v_shift FROM public.employee_shift_on(v_emp.id, v_date);
+      v_shift_end := (
+        v_date + v_shift.end_time + CASE WHEN v_shift.crosses_midnight THEN interval '1 day' ELSE interval '0' END
+      ) AT TIME ZONE v_tz;
+
+      CONTINUE WHEN now() < v_shift_end + interval '4 hours';
+
+      -- No punch at all: absent unless it was a day off or an approved WFH day
+      IF NOT EXISTS (
+        SELECT 1 FROM hr_attendance WHERE employee_id = v_emp.id AND attendance_date = v_date
+      ) THEN
+        CONTINUE WHEN public.is_non_working_day(v_emp.id, v_date);
+        CONTINUE WHEN EXISTS (
+          SELECT 1 FROM hr_leave_requests
+          WHERE employee_id = v_emp.id
+            AND status = 'Approved'
+            AND start_date <= v_date
+            AND end_date >= v_date
+        );
+
+        IF public.is_wfh_day(v_emp.id, v_date) THEN
+          INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+          VALUES (v_emp.id, v_date, NULL, ROUND(v_shift.full_day_hours, 2), 'Work From Home', true, 'Approved work from home');
+
+          v_count := v_count + 1;
+          CONTINUE;
+        END IF;
+
+        INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, total_hours, status, is_consolidated, notes)
+        VALUES (v_emp.id, v_date, NULL, 0, 'Absent', true, 'No punch recorded');
+
+        INSERT INTO hr_notifications (employee_id, type, title, message, link)
+        VALUES (
+          v_emp.id,
+          'attendance_absent',
+          'Marked Absent',
+          format(
+            'No punch was recorded on %s, so you have been marked absent. Apply for regularization if you were working.',
+            to_char(v_date, 'DD Mon YYYY')
+          ),
+          '/app/attendance-regularization'
+        );
+
+        v_count := v_count + 1;
+        CONTINUE;
+      END IF;
+
+      -- Consolidated at punch-out (or regularized) with nothing left open
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM hr_attendance
+        WHERE employee_id = v_emp.id AND attendance_date = v_date AND is_consolidated
+      ) AND NOT EXISTS (
+        SELECT 1 FROM hr_attendance
+        WHERE employee_id = v_emp.id
+          AND attendance_date = v_date
+          AND NOT COALESCE(is_consolidated, false)
+          AND punch_out_time IS NULL
+      );
+
+      -- Close forgotten punch-outs. A session opened after the shift ended can't be
+      -- closed at the shift end, so it goes to review whatever the policy.
+      v_closed := NULL;
+      FOR v_session IN
+        SELECT id, punch_in_time
+        FROM hr_attendance
+        WHERE employee_id = v_emp.id
+          AND attendance_date = v_date
+          AND NOT COALESCE(is_consolidated, false)
+          AND punch_out_time IS NULL
+      LOOP
+        IF v_open_policy = 'review' OR v_session.punch_in_time >= v_shift_end THEN
+          UPDATE hr_attendance
+          SET punch_out_time = punch_in_time, total_hours = 0, auto_closed = 'review'
+          WHERE id = v_session.id;
+          v_closed := 'review';
+        ELSE
+          UPDATE hr_attendance
+          SET punch_out_time = v_shift_end,
+              total_hours = ROUND(EXTRACT(EPOCH FROM (v_shift_end - v_session.punch_in_time)) / 3600, 2),
+              auto_closed = 'shift_end'
+          WHERE id = v_session.id;
+          v_closed := COALESCE(v_closed, 'shift_end');
+        END IF;
+      END LOOP;
+
+      SELECT MIN(punch_in_time), MAX(punch_out_time), COALESCE(SUM(total_hours), 0)
+      INTO v_first, v_last, v_hours
+      FROM hr_attendance
+      WHERE employee_id = v_emp.id
+        AND attendance_date = v_date
+        AND NOT COALESCE(is_consolidated, false);
+
+      v_status := CASE
+        WHEN public.is_wfh_day(v_emp.id, v_date) THEN 'Work From Home'
+        WHEN v_hours >= v_shift.full_day_hours THEN 'Present'
+        WHEN v_hours >= v_shift.half_day_hours THEN 'Half Day'
+        ELSE 'Absent'
+      END;
+
+      UPDATE hr_attendance
+      SET status = v_status
+      WHERE employee_id = v_emp.id
+        AND attendance_date = v_date
+        AND NOT COALESCE(is_consolidated, false);
+
+      UPDATE hr_attendance
+      SET punch_in_time = v_first,
+          punch_out_time = v_last,
+          total_hours = ROUND(v_hours, 2),
+          status = v_status,
+          auto_closed = v_closed
+      WHERE employee_id = v_emp.id AND attendance_date = v_date AND is_consolidated;
+
+      IF NOT FOUND THEN
+        INSERT INTO hr_attendance (employee_id, attendance_date, punch_in_time, punch_out_time, total_hours, status, is_consolidated, auto_closed)
+        VALUES (v_emp.id, v_date, v_first, v_last, ROUND(v_hours, 2), v_status, true, v_closed);
+      END IF;
+
+      IF v_closed IS NOT NULL THEN
+        INSERT INTO hr_notifications (employee_id, type, title, message, link)
+        VALUES (
+          v_emp.id,
+          'attendance_auto_closed',
+          'Punch-Out Missing',
+          CASE v_closed
+            WHEN 'review' THEN format(
+              'You did not punch out on %s, so the session was closed with no hours counted. Apply for regularization to record your hours.',
+              to_char(v_date, 'DD Mon YYYY')
+            )
+            ELSE format(
+              'You did not punch out on %s, so your session was closed at the end of your shift (%s). Apply for regularization if that is wrong.',
+              to_char(v_date, 'DD Mon YYYY'), to_char(v_shift_end AT TIME ZONE v_tz, 'HH24:MI')
+            )
+          END,
+          '/app/attendance-regularization'
+        );
+      END IF;
+
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consolidate_attendance(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.consolidate_attendance(DATE) TO authenticated;
@@ -0,0 +1,167 @@
+-- Efficiency snapshots were computed for every organization when called without a
+-- signed-in user, including anonymous API requests. Only the scheduler runs them
+-- across organizations now.
+CREATE OR REPLACE FUNCTION public.compute_efficiency_snapshots(p_week_start DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller_org UUID;
+  v_org RECORD;
+  v_tz TEXT;
+  v_week DATE;
+  v_weeks DATE[];
+  v_count INTEGER := 0;
+  v_rows INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF user_role() <> 'Admin' THEN
+      RAISE EXCEPTION 'Only admins can compute efficiency snapshots';
+    END IF;
+    SELECT org_id INTO v_caller_org FROM hr_employees WHERE user_id = auth.uid();
+  ELSIF NOT public.is_scheduled_job() THEN
+    RAISE EXCEPTION 'Only admins can compute efficiency snapshots';
+  END IF;
+
+  FOR v_org IN
+    SELECT id FROM organizations WHERE v_caller_org IS NULL OR id = v_caller_org
+  LOOP
+    v_tz := COALESCE(
+      (SELECT company_settings->>'timezone' FROM hr_org_settings WHERE org_id = v_org.id),
+      'Asia/Kolkata'
+    );
+
+    IF p_week_start IS NOT NULL THEN
+      v_weeks := ARRAY[date_trunc('week', p_week_start)::date];
+    ELSE
+      v_weeks := ARRAY(
+        SELECT date_trunc('week', (now() AT TIME ZONE v_tz)::date)::date - 7 * n
+        FROM generate_series(1, 4) n
+      );
+    END IF;
+
+    FOREACH v_week IN ARRAY v_weeks LOOP
+      INSERT INTO hr_efficiency_snapshots (
+        org_id, scope, employee_id, week_start,
+        logged_minutes, attended_minutes, weeks_approved, reworks, submissions, on_time_submissions,
+        utilization, quality, on_time_rate, efficiency, computed_at
+      )
+      SELECT
+        v_org.id, 'employee', s.employee_id, v_week,
+        s.logged, s.attended, s.approved, s.reworks, s.submissions, s.on_time,
+        s.utilization, s.quality, s.on_time_rate,
+        public.efficiency_score(s.utilization, s.quality, s.on_time_rate),
+        now()
+      FROM (
+        SELECT
+          e.id AS employee_id,
+          l.logged,
+          a.attended,
+          CASE WHEN w.status = 'Approved' THEN 1 ELSE 0 END AS approved,
+          COALESCE(w.rework_count, 0) AS reworks,
+          CASE WHEN w.first_submitted_at IS NOT NULL THEN 1 ELSE 0 END AS submissions,
+          CASE WHEN (w.first_submitted_at AT TIME ZONE v_tz)::date <= v_week + 7 THEN 1 ELSE 0 END AS on_time,
+          CASE WHEN a.attended > 0 THEN round(least(100, l.logged * 100.0 / a.attended), 1) END AS utilization,
+          CASE WHEN w.status = 'Approved' OR COALESCE(w.rework_count, 0) > 0 THEN
+            round(100.0 * (CASE WHEN w.status = 'Approved' THEN 1 ELSE 0 END)
+              / ((CASE WHEN w.status = 'Approved' THEN 1 ELSE 0 END) + COALESCE(w.rework_count, 0)), 1)
+          END AS quality,
+          CASE WHEN w.first_submitted_at IS NOT NULL THEN
+            CASE WHEN (w.first_submitted_at AT TIME ZONE v_tz)::date <= v_week + 7 THEN 100.0 ELSE 0.0 END
+          END AS on_time_rate
+        FROM hr_employees e
+        CROSS JOIN LATERAL (
+          SELECT COALESCE(sum(t.duration_minutes), 0)::integer AS logged
+          FROM hr_work_log_tasks t
+          WHERE t.employee_id = e.id AND t.log_date BETWEEN v_week AND v_week + 6
+        ) l
+        CROSS JOIN LATERAL (
+          SELECT COALESCE(round(sum(att.total_hours) * 60), 0)::integer AS attended
+          FROM hr_attendance att
+          WHERE att.employee_id = e.id
+            AND att.attendance_date BETWEEN v_week AND v_week + 6
+            AND att.is_consolidated
+        ) a
+        LEFT JOIN hr_work_log_weeks w ON w.employee_id = e.id AND w.week_start_date = v_week
+        WHERE e.org_id = v_org.id
+          AND e.status = 'Active'
+          AND (e.joining_date IS NULL OR e.joining_date <= v_week + 6)
+      ) s
+      -- Nothing to score for a week spent entirely away
+      WHERE s.logged > 0 OR s.attended > 0 OR s.submissions > 0
+      ON CONFLICT (employee_id, week_start) WHERE scope = 'employee'
+      DO UPDATE SET
+        logged_minutes = EXCLUDED.logged_minutes,
+        attended_minutes = EXCLUDED.attended_minutes,
+        weeks_approved = EXCLUDED.weeks_approved,
+        reworks = EXCLUDED.reworks,
+        submissions = EXCLUDED.submissions,
+        on_time_submissions = EXCLUDED.on_time_submissions,
+        utilization = EXCLUDED.utilization,
+        quality = EXCLUDED.quality,
+        on_time_rate = EXCLUDED.on_time_rate,
+        efficiency = EXCLUDED.efficiency,
+        computed_at = EXCLUDED.computed_at;
+
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+      v_count := v_count + v_rows;
+
+      -- Departments pool their members' counts rather than averaging scores
+      INSERT INTO hr_efficiency_snapshots (
+        org_id, scope, department, week_start,
+        logged_minutes, attended_minutes, weeks_approved, reworks, submissions, on_time_submissions,
+        utilization, quality, on_time_rate, efficiency, member_count, computed_at
+      )
+      SELECT
+        v_org.id, 'department', d.department, v_week,
+        d.logged, d.attended, d.approved, d.reworks, d.submissions, d.on_time,
+        d.utilization, d.quality, d.on_time_rate,
+        public.efficiency_score(d.utilization, d.quality, d.on_time_rate),
+        d.members, now()
+      FROM (
+        SELECT
+          COALESCE(NULLIF(btrim(ed.department), ''), 'Unassigned') AS department,
+          sum(s.logged_minutes)::integer AS logged,
+          sum(s.attended_minutes)::integer AS attended,
+          sum(s.weeks_approved)::integer AS approved,
+          sum(s.reworks)::integer AS reworks,
+          sum(s.submissions)::integer AS submissions,
+          sum(s.on_time_submissions)::integer AS on_time,
+          CASE WHEN sum(s.attended_minutes) > 0 THEN
+            round(least(100, sum(s.logged_minutes) * 100.0 / sum(s.attended_minutes)), 1)
+          END AS utilization,
+          CASE WHEN sum(s.weeks_approved) + sum(s.reworks) > 0 THEN
+            round(100.0 * sum(s.weeks_approved) / (sum(s.weeks_approved) + sum(s.reworks)), 1)
+          END AS quality,
+          CASE WHEN sum(s.submissions) > 0 THEN
+            round(100.0 * sum(s.on_time_submissions) / sum(s.submissions), 1)
+          END AS on_time_rate,
+          count(*)::integer AS members
+        FROM hr_efficiency_snapshots s
+        LEFT JOIN hr_employee_details ed ON ed.employee_id = s.employee_id
+        WHERE s.org_id = v_org.id
+          AND s.scope = 'employee'
+          AND s.week_start = v_week
+        GROUP BY 1
+      ) d
+      ON CONFLICT (org_id, department, week_start) WHERE scope = 'department'
+      DO UPDATE SET
+        logged_minutes = EXCLUDED.logged_minutes,
+        attended_minutes = EXCLUDED.attended_minutes,
+        weeks_approved = EXCLUDED.weeks_approved,
+        reworks = EXCLUDED.reworks,
+        submissions = EXCLUDED.submissions,
+        on_time_submissions = EXCLUDED.on_time_submissions,
+        utilization = EXCLUDED.utilization,
+        quality = EXCLUDED.quality,
+        on_time_rate = EXCLUDED.on_time_rate,
+        efficiency = EXCLUDED.efficiency,
+        member_count = EXCLUDED.member_count,
+        computed_at = EXCLUDED.computed_at;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.compute_efficiency_snapshots(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.compute_efficiency_snapshots(DATE) TO authenticated;